@@ -0,0 +1,94 @@
+/**
+ * Argument Completion Tests
+ *
+ * Covers completion/complete suggestions: task ids matched by key or title,
+ * feedback step names, stepIds per tool and registered workspace paths,
+ * narrowed to the workspace named in the request.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DrizzleDatabaseManager, DatabaseType, getWorkspaceDatabase } from '../database/drizzle-connection.js';
+import { DatabaseService } from '../services/database-service.js';
+import { SeedManager } from '../services/seed-manager.js';
+import { ArgumentCompletionProvider } from '../services/argument-completions.js';
+import { ToolNames } from '../constants/tool-names.js';
+
+describe('Argument Completions', () => {
+    let globalDrizzle: DrizzleDatabaseManager;
+    let databaseService: DatabaseService;
+    let completions: ArgumentCompletionProvider;
+    let workspacePath: string;
+    let otherWorkspacePath: string;
+
+    beforeEach(async () => {
+        workspacePath = mkdtempSync(join(tmpdir(), 'taskpilot-completions-test-'));
+        otherWorkspacePath = mkdtempSync(join(tmpdir(), 'taskpilot-completions-other-'));
+        globalDrizzle = new DrizzleDatabaseManager(':memory:', DatabaseType.GLOBAL);
+        await globalDrizzle.initialize();
+        await new SeedManager(globalDrizzle).initializeGlobalData();
+        databaseService = new DatabaseService(globalDrizzle);
+
+        const globalDb = databaseService.getGlobal();
+        await globalDb.createWorkspace({ id: 'ws-1', path: workspacePath, name: 'Docs' });
+        await globalDb.createWorkspace({ id: 'ws-2', path: otherWorkspacePath, name: 'Site' });
+        await globalDb.createFeedbackStep({
+            id: 'fs-release',
+            name: 'release_notes',
+            templateContent: 'Release notes',
+            isGlobal: false,
+            workspaceId: 'ws-1'
+        });
+
+        const workspaceDb = await databaseService.getWorkspace(workspacePath);
+        await workspaceDb.createTask({ id: 'uuid-a', title: 'Write changelog' });
+        await workspaceDb.createTask({ id: 'uuid-b', title: 'Publish release' });
+        await (await databaseService.getWorkspace(otherWorkspacePath)).createTask({ id: 'uuid-c', title: 'Update landing page' });
+
+        completions = new ArgumentCompletionProvider(databaseService);
+    });
+
+    afterEach(async () => {
+        await getWorkspaceDatabase(workspacePath).close();
+        await getWorkspaceDatabase(otherWorkspacePath).close();
+        await globalDrizzle.close();
+        rmSync(workspacePath, { recursive: true, force: true });
+        rmSync(otherWorkspacePath, { recursive: true, force: true });
+    });
+
+    it('should suggest task keys by key or title within the named workspace', async () => {
+        const ref = { type: 'ref/prompt' as const, name: ToolNames.FOCUS };
+
+        expect(await completions.complete(ref, { name: 'task_id', value: 'release' }, { workspace_path: workspacePath }))
+            .toEqual(['TP-002']);
+        expect(await completions.complete(ref, { name: 'task_id', value: 'tp-' }, { workspace_path: workspacePath }))
+            .toEqual(['TP-001', 'TP-002']);
+        expect(await completions.complete(ref, { name: 'task_id', value: 'landing' })).toEqual(['TP-001']);
+
+        const template = { type: 'ref/resource' as const, uri: 'taskpilot://workspaces/{workspace_id}/tasks/{task_key}' };
+        expect(await completions.complete(template, { name: 'task_key', value: 'change' }, { workspace_id: 'ws-1' }))
+            .toEqual(['TP-001']);
+    });
+
+    it('should suggest step names, stepIds per tool and workspace paths', async () => {
+        const updateSteps = { type: 'ref/prompt' as const, name: ToolNames.UPDATE_STEPS };
+
+        expect(await completions.complete(updateSteps, { name: 'step_name', value: 'release' }, { workspace_path: workspacePath }))
+            .toEqual(['release_notes']);
+        expect(await completions.complete(updateSteps, { name: 'step_name', value: 'release' }, { workspace_path: otherWorkspacePath }))
+            .toEqual([]);
+        expect(await completions.complete(updateSteps, { name: 'step_name', value: 'task_creation' }))
+            .toContain('task_creation_success');
+
+        expect(await completions.complete({ type: 'ref/prompt', name: ToolNames.ADD }, { name: 'stepId', value: 'cr' }))
+            .toEqual(['create']);
+        // Handlers the update flow does not configure as steps are still accepted
+        expect(await completions.complete({ type: 'ref/prompt', name: ToolNames.UPDATE }, { name: 'stepId', value: '' }))
+            .toEqual(expect.arrayContaining(['validate', 'confirm']));
+        expect(await completions.complete(updateSteps, { name: 'workspace_path', value: 'completions-other' }))
+            .toEqual([otherWorkspacePath]);
+        expect(await completions.complete(updateSteps, { name: 'content', value: '' })).toEqual([]);
+    });
+});
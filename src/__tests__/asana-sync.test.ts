@@ -0,0 +1,201 @@
+/**
+ * Asana Sync Tests
+ *
+ * Runs RemoteInterfaceManager against a local stand-in for Asana's REST API:
+ * section and completion mapping in both directions, incremental syncs,
+ * the connection test and project discovery across workspaces and pages.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DrizzleDatabaseManager, DatabaseType, getWorkspaceDatabase } from '../database/drizzle-connection.js';
+import { DatabaseService } from '../services/database-service.js';
+import { SeedManager } from '../services/seed-manager.js';
+import { RemoteInterfaceManager } from '../services/remote-interface-manager.js';
+import type { AsanaSection, AsanaTask } from '../services/asana-sync.js';
+
+const SECTIONS: AsanaSection[] = [
+    { gid: 'sec-backlog', name: 'Backlog' },
+    { gid: 'sec-doing', name: 'Doing' },
+    { gid: 'sec-review', name: 'Ready for review' },
+    { gid: 'sec-done', name: 'Done' }
+];
+
+/**
+ * Project p-1 of workspace Acme, with its sections and tasks kept in memory
+ */
+function createAsanaStandIn() {
+    const tasks: AsanaTask[] = [];
+    const taskQueries: URLSearchParams[] = [];
+    let clock = 0;
+    const touch = (task: AsanaTask) => {
+        clock = Math.max(clock + 1, Date.now());
+        task.modified_at = new Date(clock).toISOString();
+    };
+    const moveTo = (task: AsanaTask, sectionGid: string) => {
+        task.memberships = [{ project: { gid: 'p-1' }, section: SECTIONS.find(section => section.gid === sectionGid)! }];
+        touch(task);
+    };
+    const addTask = (name: string, sectionGid: string, completed = false) => {
+        const gid = String(1200 + tasks.length);
+        const task: AsanaTask = {
+            gid,
+            name,
+            notes: '',
+            completed,
+            completed_at: completed ? '2026-10-01T09:00:00.000Z' : null,
+            modified_at: '',
+            permalink_url: `https://app.asana.com/0/p-1/${gid}`
+        };
+        moveTo(task, sectionGid);
+        tasks.push(task);
+        return task;
+    };
+
+    const server: Server = createServer(async (req, res) => {
+        let raw = '';
+        for await (const chunk of req) raw += chunk;
+        const body = raw ? JSON.parse(raw).data : {};
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const path = url.pathname.replace(/^\/api\/1\.0/, '');
+        const send = (status: number, payload: unknown) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(payload));
+        };
+
+        if (req.headers.authorization !== 'Bearer asana_test') {
+            return send(401, { errors: [{ message: 'Not Authorized' }] });
+        }
+        if (path === '/users/me') {
+            return send(200, { data: { gid: 'user-1', name: 'Ada Lovelace', email: 'ada@example.com' } });
+        }
+        if (path === '/workspaces') {
+            return send(200, { data: [{ gid: 'ws-acme', name: 'Acme' }], next_page: null });
+        }
+        if (path === '/projects') {
+            // Two pages, to follow next_page
+            return url.searchParams.get('offset')
+                ? send(200, { data: [{ gid: 'p-2', name: 'Website' }], next_page: null })
+                : send(200, { data: [{ gid: 'p-1', name: 'Roadmap', permalink_url: 'https://app.asana.com/0/p-1' }], next_page: { offset: 'page-2' } });
+        }
+        if (path === '/projects/p-1/sections') {
+            return send(200, { data: SECTIONS });
+        }
+        if (path === '/tasks' && req.method === 'GET') {
+            taskQueries.push(url.searchParams);
+            const since = url.searchParams.get('modified_since');
+            return send(200, { data: tasks.filter(task => !since || task.modified_at >= since), next_page: null });
+        }
+        if (path === '/tasks' && req.method === 'POST') {
+            const { memberships, projects, ...fields } = body;
+            const task = addTask(fields.name, memberships?.[0]?.section ?? 'sec-backlog');
+            Object.assign(task, fields);
+            return send(201, { data: task });
+        }
+        const sectionMatch = path.match(/^\/sections\/([^/]+)\/addTask$/);
+        if (sectionMatch) {
+            moveTo(tasks.find(task => task.gid === body.task)!, sectionMatch[1]);
+            return send(200, { data: {} });
+        }
+        const task = tasks.find(candidate => path === `/tasks/${candidate.gid}`);
+        if (!task) {
+            return send(404, { errors: [{ message: 'Unknown object' }] });
+        }
+        if (req.method === 'PUT') {
+            Object.assign(task, body);
+            touch(task);
+        }
+        return send(200, { data: task });
+    });
+
+    return { server, tasks, taskQueries, addTask, moveTo };
+}
+
+describe('Asana Sync', () => {
+    let globalDrizzle: DrizzleDatabaseManager;
+    let databaseService: DatabaseService;
+    let manager: RemoteInterfaceManager;
+    let workspacePath: string;
+    let asana: ReturnType<typeof createAsanaStandIn>;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+        workspacePath = mkdtempSync(join(tmpdir(), 'taskpilot-asana-sync-test-'));
+        globalDrizzle = new DrizzleDatabaseManager(':memory:', DatabaseType.GLOBAL);
+        await globalDrizzle.initialize();
+        await new SeedManager(globalDrizzle).initializeGlobalData();
+        databaseService = new DatabaseService(globalDrizzle);
+        await databaseService.getGlobal().createWorkspace({ id: 'ws-1', path: workspacePath, name: 'Docs' });
+        manager = new RemoteInterfaceManager(databaseService);
+
+        asana = createAsanaStandIn();
+        await new Promise<void>(resolve => asana.server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(asana.server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => asana.server.close(resolve));
+        await getWorkspaceDatabase(workspacePath).close();
+        await globalDrizzle.close();
+        rmSync(workspacePath, { recursive: true, force: true });
+    });
+
+    it('should map sections and completion both ways and sync changes incrementally', async () => {
+        const workspaceDb = await databaseService.getWorkspace(workspacePath);
+        const localTask = await workspaceDb.createTask({ id: 'task-docs', title: 'Write docs', status: 'review' });
+        asana.addTask('Fix login', 'sec-doing');
+        asana.addTask('Old spike', 'sec-backlog', true);
+        const remoteInterface = await manager.registerInterface('ws-1', 'asana', 'Asana', baseUrl, 'asana_test', { projectId: 'p-1' });
+
+        const first = await manager.syncInterface('ws-1', remoteInterface.id);
+
+        expect(first).toMatchObject({ items_imported: 2, items_exported: 1, items_failed: 0, errors: [] });
+        expect(asana.taskQueries[0].get('project')).toBe('p-1');
+        expect(asana.taskQueries[0].has('modified_since')).toBe(false);
+        const tasks = await workspaceDb.getAllTasks();
+        expect(tasks.find(task => task.title === 'Fix login')).toMatchObject({ status: 'in-progress' });
+        expect(tasks.find(task => task.title === 'Old spike')).toMatchObject({ status: 'done', completedAt: '2026-10-01T09:00:00.000Z' });
+        expect(asana.tasks[2]).toMatchObject({ name: 'Write docs', completed: false, memberships: [{ section: { name: 'Ready for review' } }] });
+        expect(await workspaceDb.getRemoteTaskMappingByTask(remoteInterface.id, localTask.id))
+            .toMatchObject({ remoteId: '1202', remoteUrl: 'https://app.asana.com/0/p-1/1202' });
+
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await workspaceDb.updateTask(localTask.id, { status: 'done' });
+        asana.moveTo(asana.tasks[0], 'sec-review');
+
+        const second = await manager.syncInterface('ws-1', remoteInterface.id);
+
+        expect(second).toMatchObject({ items_imported: 0, items_exported: 0, items_updated: 2, items_failed: 0 });
+        expect(asana.taskQueries[1].get('modified_since')).toBe(first.last_sync);
+        expect(await workspaceDb.getTask(tasks.find(task => task.title === 'Fix login')!.id)).toMatchObject({ status: 'review' });
+        expect(asana.tasks[2]).toMatchObject({ completed: true, memberships: [{ section: { name: 'Done' } }] });
+    });
+
+    it('should test the connection and discover projects of all workspaces', async () => {
+        const remoteInterface = await manager.registerInterface('ws-1', 'asana', 'Asana', `${baseUrl}/api/1.0`, 'asana_test');
+        const badToken = await manager.registerInterface('ws-1', 'asana', 'Asana (old token)', baseUrl, 'expired');
+
+        expect(await manager.testConnection('ws-1', remoteInterface.id)).toEqual({
+            success: true,
+            info: { user: 'user-1', name: 'Ada Lovelace', email: 'ada@example.com' }
+        });
+        expect(await manager.testConnection('ws-1', badToken.id)).toEqual({
+            success: false,
+            error: 'Asana API error: 401 Unauthorized - Not Authorized'
+        });
+
+        expect(await manager.discoverProjects('ws-1', remoteInterface.id)).toEqual([
+            { id: 'p-1', name: 'Acme / Roadmap', url: 'https://app.asana.com/0/p-1' },
+            { id: 'p-2', name: 'Acme / Website', url: undefined }
+        ]);
+        expect(JSON.parse(remoteInterface.field_mappings).map((mapping: { remote_field: string }) => mapping.remote_field))
+            .toEqual(['name', 'notes', 'section.name', 'completed_at']);
+
+        // Syncing needs a project
+        expect((await manager.syncInterface('ws-1', remoteInterface.id)).errors).toEqual(['Asana interface has no project gid (projectId)']);
+    });
+});
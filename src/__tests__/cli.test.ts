@@ -9,7 +9,7 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
-import { executeToolCall } from '../cli.js';
+import { executeToolCall, executeFlowBundleCommand } from '../cli.js';
 
 // Mock prompt orchestrator to control behavior but let database work normally
 vi.mock('../services/prompt-orchestrator.js');
@@ -183,6 +183,48 @@ describe('CLI Tool Execution Tests', () => {
         });
     });
 
+    describe('Flow Bundle Commands', () => {
+        it('should export a flow bundle to a file and import it again', async () => {
+            const bundlePath = path.join(testWorkspacePath, 'flows.json');
+
+            const exported = await executeFlowBundleCommand('flows:export', ['taskpilot_add', `--out=${bundlePath}`]);
+            expect(exported).toContain('Exported 1 tool flow(s)');
+            expect(JSON.parse(fs.readFileSync(bundlePath, 'utf-8')).toolFlows[0].toolName).toBe('taskpilot_add');
+
+            const imported = await executeFlowBundleCommand('flows:import', [bundlePath]);
+            expect(imported).toContain('Imported into global scope');
+            expect(imported).toContain('Tool flows updated: taskpilot_add');
+        });
+
+        it('should refuse to import flows that fail the linter', async () => {
+            const bundlePath = path.join(testWorkspacePath, 'flows.json');
+            await executeFlowBundleCommand('flows:export', ['taskpilot_add', `--out=${bundlePath}`]);
+            const bundle = JSON.parse(fs.readFileSync(bundlePath, 'utf-8'));
+            bundle.toolFlows[0].steps[0].nextTool = 'taskpilot_missing';
+            fs.writeFileSync(bundlePath, JSON.stringify(bundle));
+
+            await expect(executeFlowBundleCommand('flows:import', [bundlePath]))
+                .rejects.toThrow('Tool flow taskpilot_add is invalid: next_tool "taskpilot_missing" is not a TaskPilot tool');
+        });
+
+        it('should refuse to import steps without a handler', async () => {
+            const bundlePath = path.join(testWorkspacePath, 'flows.json');
+            await executeFlowBundleCommand('flows:export', ['taskpilot_add', `--out=${bundlePath}`]);
+            const bundle = JSON.parse(fs.readFileSync(bundlePath, 'utf-8'));
+            bundle.toolFlows[0].steps[0].systemToolFn = 'publish';
+            delete bundle.toolFlows[0].steps[0].metadata?.stepId;
+            fs.writeFileSync(bundlePath, JSON.stringify(bundle));
+
+            await expect(executeFlowBundleCommand('flows:import', [bundlePath]))
+                .rejects.toThrow('Tool flow taskpilot_add is invalid: system_tool_fn "publish" has no handler in taskpilot_add');
+        });
+
+        it('should report tool flows that do not exist', async () => {
+            await expect(executeFlowBundleCommand('flows:export', ['taskpilot_missing']))
+                .rejects.toThrow('Tool flow not found in global scope: taskpilot_missing');
+        });
+    });
+
     describe('Performance and Timeout Handling', () => {
         it('should handle tool execution within reasonable time', async () => {
             const startTime = Date.now();
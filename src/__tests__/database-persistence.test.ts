@@ -173,6 +173,31 @@ describe('Database Persistence Investigation', () => {
             expect(fs.existsSync(dbPath)).toBe(true);
         });
 
+        it('should run concurrent transactions one after another and join nested ones', async () => {
+            const dbManager = new DrizzleDatabaseManager(':memory:', DatabaseType.WORKSPACE);
+            await dbManager.initialize();
+            const sqlite = dbManager.getSqlite();
+            const insert = (id: string) => sqlite.prepare(`INSERT INTO tasks (id, title) VALUES (?, ?)`).run(id, id);
+            let release!: () => void;
+            const gate = new Promise<void>(resolve => { release = resolve; });
+
+            const failing = dbManager.transaction(async () => {
+                insert('rolled-back');
+                await dbManager.transaction(async () => insert('nested'));
+                await gate;
+                throw new Error('Import failed');
+            });
+            const concurrent = dbManager.transaction(async () => insert('committed'));
+            release();
+
+            await expect(failing).rejects.toThrow('Import failed');
+            await concurrent;
+            const ids = (sqlite.prepare(`SELECT id FROM tasks ORDER BY id`).all() as Array<{ id: string }>).map(row => row.id);
+            expect(ids).toEqual(['committed']);
+
+            await dbManager.close();
+        });
+
         it('should handle WAL mode properly', async () => {
             // Test Case 6: WAL mode investigation
 
@@ -0,0 +1,90 @@
+/**
+ * Feedback Prompt Tests
+ *
+ * Covers exposing feedback steps as MCP prompts: listing global and
+ * workspace steps with their arguments, rendering through PromptOrchestrator
+ * and rejecting unknown prompts or invalid arguments.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DrizzleDatabaseManager, DatabaseType, getWorkspaceDatabase } from '../database/drizzle-connection.js';
+import { DatabaseService } from '../services/database-service.js';
+import { SeedManager } from '../services/seed-manager.js';
+import { FeedbackPromptProvider, PromptNotFoundError } from '../services/feedback-prompts.js';
+import { FeedbackVariablesError } from '../services/variable-schema-validator.js';
+
+describe('Feedback Prompts', () => {
+    let globalDrizzle: DrizzleDatabaseManager;
+    let databaseService: DatabaseService;
+    let provider: FeedbackPromptProvider;
+    let workspacePath: string;
+
+    beforeEach(async () => {
+        workspacePath = mkdtempSync(join(tmpdir(), 'taskpilot-prompts-test-'));
+        globalDrizzle = new DrizzleDatabaseManager(':memory:', DatabaseType.GLOBAL);
+        await globalDrizzle.initialize();
+        await new SeedManager(globalDrizzle).initializeGlobalData();
+        databaseService = new DatabaseService(globalDrizzle);
+
+        const globalDb = databaseService.getGlobal();
+        await globalDb.createWorkspace({ id: 'ws-1', path: workspacePath, name: 'Demo' });
+        await globalDb.createFeedbackStep({
+            id: 'fs-release',
+            name: 'release_notes',
+            description: 'Draft release notes',
+            templateContent: 'Release {{context.version}}: {{context.changes | join(", ")}}',
+            variableSchema: {
+                type: 'object',
+                required: ['version', 'changes'],
+                properties: {
+                    version: { type: 'string', description: 'Version being released' },
+                    changes: { type: 'array', items: { type: 'string' } }
+                }
+            },
+            isGlobal: false,
+            workspaceId: 'ws-1'
+        });
+        provider = new FeedbackPromptProvider(databaseService);
+    });
+
+    afterEach(async () => {
+        await getWorkspaceDatabase(workspacePath).close();
+        await globalDrizzle.close();
+        rmSync(workspacePath, { recursive: true, force: true });
+    });
+
+    it('should list global steps with referenced variables and workspace steps with schema arguments', async () => {
+        const prompts = await provider.listPrompts();
+
+        const global = prompts.find(prompt => prompt.name === 'task_creation_success');
+        expect(global?.description).toBe('Confirmation message for successful task creation');
+        expect(global?.arguments).toContainEqual({ name: 'task_title', required: false });
+        expect(global?.arguments.at(-1)?.name).toBe('workspace_path');
+
+        expect(prompts.find(prompt => prompt.name === 'ws-1/release_notes')?.arguments).toEqual([
+            { name: 'version', description: 'Version being released', required: true },
+            { name: 'changes', description: 'array (JSON)', required: true }
+        ]);
+    });
+
+    it('should render prompts, parsing JSON for non-string arguments', async () => {
+        const workspacePrompt = await provider.getPrompt('ws-1/release_notes', { version: '1.2.0', changes: '["Prompts", "Resources"]' });
+        expect(workspacePrompt.messages).toEqual([
+            { role: 'user', content: { type: 'text', text: 'Release 1.2.0: Prompts, Resources' } }
+        ]);
+
+        const globalPrompt = await provider.getPrompt('task_creation_success', { task_id: 'TP-001', task_title: 'Write docs' });
+        expect(globalPrompt.messages[0].content.text).toContain('**Title:** Write docs');
+    });
+
+    it('should reject unknown prompts, workspaces and invalid arguments', async () => {
+        await expect(provider.getPrompt('no_such_step')).rejects.toThrow(PromptNotFoundError);
+        await expect(provider.getPrompt('task_creation_success', { workspace_path: '/missing' }))
+            .rejects.toThrow('Workspace not found at path: /missing');
+        await expect(provider.getPrompt('ws-1/release_notes', { version: '1.2.0', changes: 'not json' }))
+            .rejects.toThrow(FeedbackVariablesError);
+    });
+});
@@ -0,0 +1,192 @@
+/**
+ * Field Mapping Tests
+ *
+ * Covers the field mapping engine (dotted paths, label prefixes, dates,
+ * lookup tables, defaults and validation) and editing and previewing the
+ * mappings of a registered Jira interface through taskpilot_remote_interface.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DrizzleDatabaseManager, DatabaseType, getWorkspaceDatabase } from '../database/drizzle-connection.js';
+import { DatabaseService } from '../services/database-service.js';
+import { SeedManager } from '../services/seed-manager.js';
+import { RemoteInterfaceManager, type FieldMapping } from '../services/remote-interface-manager.js';
+import { RemoteInterfaceTool } from '../tools/remote-interface.js';
+import {
+    getPath,
+    labelValue,
+    mapRemoteValue,
+    parseDate,
+    reverseLookup,
+    validateFieldMappings
+} from '../services/field-mapping.js';
+
+const JIRA_SAMPLE = {
+    id: '10001',
+    key: 'PROJ-1',
+    fields: {
+        summary: 'Crash on start',
+        description: null,
+        status: { name: 'Ready for QA', statusCategory: { key: 'indeterminate' } },
+        priority: { name: 'Highest' },
+        labels: ['backend', 'Effort: 40'],
+        resolutiondate: '2026-10-02T14:30:00.000+0200'
+    }
+};
+
+describe('Field Mapping Engine', () => {
+    it('should read dotted paths, also through lists', () => {
+        const issue = { priority: { name: 'High' }, labels: [{ name: 'bug' }, { name: 'ui' }] };
+
+        expect(getPath(issue, 'priority.name')).toBe('High');
+        expect(getPath(issue, 'labels.name')).toEqual(['bug', 'ui']);
+        expect(getPath(issue, 'labels.1.name')).toBe('ui');
+        expect(getPath(issue, 'assignee.name')).toBeUndefined();
+    });
+
+    it('should extract label values and parse dates', () => {
+        expect(labelValue([{ name: 'bug' }, { name: 'Priority: High' }], 'priority')).toBe('High');
+        expect(labelValue(['status:done'], 'priority')).toBeUndefined();
+
+        expect(parseDate('2026-10-02T14:30:00.000+0200')).toBe('2026-10-02T12:30:00.000Z');
+        expect(parseDate(1790000000)).toBe(new Date(1790000000 * 1000).toISOString());
+        expect(parseDate('not a date')).toBeUndefined();
+    });
+
+    it('should apply lookup tables and defaults, and fall back to the provider conversion', () => {
+        const mapping: FieldMapping = {
+            taskpilot_field: 'status',
+            remote_field: 'status.name',
+            transformation: 'custom',
+            value_map: { 'Code Review': 'review', Parked: 'blocked' },
+            default: 'backlog'
+        };
+        const convert = (value: unknown) => value === 'Done' ? 'done' : 'in-progress';
+
+        expect(mapRemoteValue({ status: { name: 'code review' } }, mapping, convert)).toBe('review');
+        expect(mapRemoteValue({ status: { name: 'Done' } }, mapping, convert)).toBe('done');
+        expect(mapRemoteValue({}, mapping, convert)).toBe('backlog');
+        expect(reverseLookup(mapping, 'blocked')).toBe('Parked');
+        expect(reverseLookup({ ...mapping, transformation: 'direct' }, 'blocked')).toBeUndefined();
+    });
+
+    it('should report invalid mappings and switch mappings with rules to custom', () => {
+        const mappings: any[] = [
+            { taskpilot_field: 'priority', remote_field: 'labels', label_prefix: 'p' },
+            { taskpilot_field: 'status', remote_field: 'status.name', transformation: 'custom', value_map: { Review: 'in-review' } },
+            { taskpilot_field: 'assignee', remote_field: 'assignee.name' },
+            { taskpilot_field: 'title', remote_field: 'summary', transformation: 'uppercase', default: 'Untitled' }
+        ];
+
+        expect(validateFieldMappings(mappings)).toEqual([
+            'field_mappings[1].value_map["Review"] must be one of: backlog, in-progress, blocked, review, done, dropped',
+            'field_mappings[2].taskpilot_field must be one of: title, description, status, priority, notes, progress, completedAt',
+            "field_mappings[3]: value_map, label_prefix, parse_date and default need the 'custom' transformation"
+        ]);
+        expect(mappings[0].transformation).toBe('custom');
+        expect(validateFieldMappings({})).toEqual(['field_mappings must be an array']);
+    });
+});
+
+describe('taskpilot_remote_interface field mappings', () => {
+    let globalDrizzle: DrizzleDatabaseManager;
+    let manager: RemoteInterfaceManager;
+    let tool: RemoteInterfaceTool;
+    let workspacePath: string;
+    let interfaceId: string;
+
+    beforeEach(async () => {
+        workspacePath = mkdtempSync(join(tmpdir(), 'taskpilot-field-mapping-test-'));
+        globalDrizzle = new DrizzleDatabaseManager(':memory:', DatabaseType.GLOBAL);
+        await globalDrizzle.initialize();
+        await new SeedManager(globalDrizzle).initializeGlobalData();
+        const databaseService = new DatabaseService(globalDrizzle);
+        await databaseService.getGlobal().createWorkspace({ id: 'ws-1', path: workspacePath, name: 'Docs' });
+        manager = new RemoteInterfaceManager(databaseService);
+        tool = new RemoteInterfaceTool(globalDrizzle);
+
+        const remoteInterface = await manager.registerInterface('ws-1', 'jira', 'Jira', 'http://127.0.0.1:1', 'token', {
+            projectId: 'PROJ'
+        });
+        interfaceId = remoteInterface.id;
+    });
+
+    afterEach(async () => {
+        await getWorkspaceDatabase(workspacePath).close();
+        await globalDrizzle.close();
+        rmSync(workspacePath, { recursive: true, force: true });
+    });
+
+    const run = (action: 'configure' | 'preview', config: unknown) => tool.execute({
+        workspace_path: workspacePath,
+        interface_type: 'jira',
+        action,
+        config: JSON.stringify(config)
+    });
+
+    it('should preview a sample with the default mappings', async () => {
+        const result = await run('preview', { sample: JIRA_SAMPLE });
+
+        expect(result.isError).toBeFalsy();
+        expect(result.stepResult?.data).toEqual({
+            interface_id: interfaceId,
+            task: { title: 'Crash on start', description: null, status: 'in-progress', priority: 'high' }
+        });
+    });
+
+    it('should merge configured mappings and apply them to the preview', async () => {
+        const result = await run('configure', {
+            conflict_policy: 'remote-wins',
+            remove_mappings: ['assignee'],
+            field_mappings: [
+                { taskpilot_field: 'status', remote_field: 'status.name', value_map: { 'Ready for QA': 'review' } },
+                { taskpilot_field: 'progress', remote_field: 'labels', label_prefix: 'effort', default: 0 },
+                { taskpilot_field: 'completedAt', remote_field: 'resolutiondate', parse_date: true }
+            ]
+        });
+
+        expect(result.isError).toBeFalsy();
+        expect(result.content[0].text).toContain('status <- status.name [values Ready for QA=review]');
+        const remoteInterface = await manager.getInterface('ws-1', interfaceId);
+        expect(remoteInterface?.conflict_policy).toBe('remote-wins');
+        expect(JSON.parse(remoteInterface!.field_mappings).map((mapping: FieldMapping) => mapping.taskpilot_field))
+            .toEqual(['title', 'description', 'priority', 'status', 'progress', 'completedAt']);
+
+        const preview = await run('preview', { sample: JIRA_SAMPLE });
+        expect(preview.stepResult?.data.task).toEqual({
+            title: 'Crash on start',
+            description: null,
+            status: 'review',
+            priority: 'high',
+            progress: 40,
+            completedAt: '2026-10-02T12:30:00.000Z'
+        });
+
+        // Unsaved mappings can be tried out on the sample first
+        const draft = await run('preview', {
+            sample: { ...JIRA_SAMPLE, fields: { ...JIRA_SAMPLE.fields, labels: [] } },
+            field_mappings: [{ taskpilot_field: 'progress', remote_field: 'labels', label_prefix: 'effort', default: 10 }]
+        });
+        expect(draft.stepResult?.data.task).toEqual({ progress: 10 });
+    });
+
+    it('should reject invalid configurations without changing the interface', async () => {
+        const before = await manager.getInterface('ws-1', interfaceId);
+
+        const result = await run('configure', {
+            sync_direction: 'sideways',
+            field_mappings: [{ taskpilot_field: 'priority', remote_field: 'priority.name', value_map: { P1: 'urgent' } }]
+        });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('field_mappings[0].value_map["P1"] must be one of: high, medium, low');
+        expect(result.content[0].text).toContain('sync_direction must be one of');
+        expect(await manager.getInterface('ws-1', interfaceId)).toEqual(before);
+
+        const unknown = await run('configure', { interface_id: 'ri_missing' });
+        expect(unknown.content[0].text).toBe('Error: No jira interface ri_missing in workspace Docs');
+    });
+});
@@ -0,0 +1,161 @@
+/**
+ * Flow Bundle Tests
+ *
+ * Covers exporting tool flows with their steps and feedback steps as YAML/JSON
+ * bundles, validating and upserting bundles into the global or workspace
+ * scope in one transaction, and keeping imports when the seed is applied again.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DrizzleDatabaseManager, DatabaseType } from '../database/drizzle-connection.js';
+import { GlobalDatabaseService } from '../database/global-queries.js';
+import { SeedManager } from '../services/seed-manager.js';
+import { FlowBundleService, FlowBundleValidationError, FLOW_BUNDLE_FORMAT } from '../services/flow-bundle-service.js';
+
+describe('Flow Bundles', () => {
+    let drizzleDb: DrizzleDatabaseManager;
+    let globalDb: GlobalDatabaseService;
+    let bundleService: FlowBundleService;
+
+    beforeEach(async () => {
+        drizzleDb = new DrizzleDatabaseManager(':memory:', DatabaseType.GLOBAL);
+        await drizzleDb.initialize();
+        globalDb = new GlobalDatabaseService(drizzleDb);
+        await globalDb.initialize();
+        await new SeedManager(drizzleDb).initializeGlobalData();
+        await globalDb.createWorkspace({ id: 'ws-1', path: '/ws', name: 'Workspace' });
+
+        bundleService = new FlowBundleService(drizzleDb);
+    });
+
+    afterEach(async () => {
+        await drizzleDb.close();
+    });
+
+    it('should export a flow with its steps and referenced feedback steps', async () => {
+        const bundle = await bundleService.exportBundle(null, ['taskpilot_add']);
+
+        expect(bundle).toMatchObject({ format: FLOW_BUNDLE_FORMAT, version: 1, scope: 'global' });
+        expect(bundle.toolFlows).toHaveLength(1);
+        expect(bundle.toolFlows[0]).toMatchObject({ toolName: 'taskpilot_add', feedbackStepId: 'task_creation_success' });
+        expect(bundle.toolFlows[0].steps.map(step => step.stepOrder)).toEqual([1, 2]);
+        expect(bundle.feedbackSteps.map(step => step.name).sort())
+            .toEqual(['analytical_validation', 'task_creation_success']);
+    });
+
+    it('should round-trip a YAML bundle into a workspace and update it on re-import', async () => {
+        const yaml = bundleService.serialize(await bundleService.exportBundle(null, ['taskpilot_add']), 'yaml');
+        expect(yaml).toContain(`format: ${FLOW_BUNDLE_FORMAT}`);
+
+        const first = await bundleService.importBundle(bundleService.parse(yaml), 'ws-1');
+        expect(first.toolFlows.created).toEqual(['taskpilot_add']);
+        expect(first.feedbackSteps.created).toHaveLength(2);
+
+        const second = await bundleService.importBundle(bundleService.parse(yaml), 'ws-1');
+        expect(second.toolFlows.updated).toEqual(['taskpilot_add']);
+        expect(second.feedbackSteps.updated).toHaveLength(2);
+
+        const [flow] = await globalDb.getWorkspaceToolFlows('ws-1');
+        expect(flow).toMatchObject({ toolName: 'taskpilot_add', isGlobal: false, workspaceId: 'ws-1' });
+        expect(await globalDb.getToolFlowSteps(flow.id)).toHaveLength(2);
+        expect(await globalDb.getWorkspaceFeedbackSteps('ws-1')).toHaveLength(2);
+
+        const exported = await bundleService.exportBundle('ws-1');
+        expect(exported.scope).toBe('workspace');
+        expect(exported.toolFlows.map(f => f.toolName)).toEqual(['taskpilot_add']);
+    });
+
+    it('should accept JSON and replace the steps of an existing global flow', async () => {
+        const bundle = await bundleService.exportBundle(null, ['taskpilot_status']);
+        bundle.toolFlows[0].steps = [bundle.toolFlows[0].steps[0]];
+        bundle.toolFlows[0].description = 'Tuned status flow';
+
+        const result = await bundleService.importBundle(bundleService.parse(bundleService.serialize(bundle, 'json')), null);
+        expect(result.toolFlows.updated).toEqual(['taskpilot_status']);
+
+        const flow = await globalDb.getToolFlowByName('taskpilot_status');
+        expect(flow?.description).toBe('Tuned status flow');
+        expect(await globalDb.getToolFlowSteps(flow!.id)).toHaveLength(1);
+    });
+
+    it('should keep imported flows when the seed data is applied again', async () => {
+        const status = await bundleService.exportBundle(null, ['taskpilot_status']);
+        status.toolFlows[0].steps = [status.toolFlows[0].steps[0]];
+        status.toolFlows[0].description = 'Tuned status flow';
+        await bundleService.importBundle(status, null);
+        await bundleService.importBundle(await bundleService.exportBundle(null, ['taskpilot_add']), 'ws-1');
+
+        await new SeedManager(drizzleDb).initializeGlobalData();
+
+        const globalStatus = await globalDb.getToolFlowByName('taskpilot_status');
+        expect(globalStatus?.description).toBe('Tuned status flow');
+        expect(await globalDb.getToolFlowSteps(globalStatus!.id)).toHaveLength(1);
+        const [workspaceAdd] = await globalDb.getWorkspaceToolFlows('ws-1');
+        expect(await globalDb.getToolFlowSteps(workspaceAdd.id)).toHaveLength(2);
+        // Untouched seeded flows are refreshed, not duplicated
+        expect((await globalDb.getGlobalToolFlows()).filter(flow => flow.toolName === 'taskpilot_add')).toHaveLength(1);
+        expect(await globalDb.getToolFlowSteps('tf_add_001')).toHaveLength(2);
+    });
+
+    it('should reject malformed bundles with all problems listed', () => {
+        const bundle = {
+            format: FLOW_BUNDLE_FORMAT,
+            version: 1,
+            toolFlows: [{
+                toolName: 'taskpilot_custom',
+                steps: [
+                    { stepOrder: 1, systemToolFn: 'review', metadata: { default_next_step: 'ship' } },
+                    { stepOrder: 1, systemToolFn: '' }
+                ]
+            }]
+        };
+
+        try {
+            bundleService.validate(bundle);
+            expect.fail('validation should fail');
+        } catch (error) {
+            expect(error).toBeInstanceOf(FlowBundleValidationError);
+            expect((error as FlowBundleValidationError).errors).toEqual([
+                'toolFlows[0].steps[0].metadata.default_next_step must be a step in this flow or "end"',
+                'toolFlows[0].steps[1].stepOrder 1 is duplicated',
+                'toolFlows[0].steps[1].systemToolFn is required'
+            ]);
+        }
+
+        expect(() => bundleService.parse('format: other\nversion: 2')).toThrow('format must be');
+        expect(() => bundleService.parse('toolFlows: [')).toThrow('Could not parse bundle');
+    });
+
+    it('should reject flows that refer to unknown feedback steps', async () => {
+        const bundle = {
+            format: FLOW_BUNDLE_FORMAT,
+            version: 1,
+            toolFlows: [{ toolName: 'taskpilot_custom', feedbackStepId: 'missing_step', steps: [] }]
+        };
+
+        await expect(bundleService.importBundle(bundle, 'ws-1'))
+            .rejects.toThrow('taskpilot_custom refers to unknown feedback step "missing_step"');
+        expect(await globalDb.getWorkspaceToolFlows('ws-1')).toHaveLength(0);
+    });
+
+    it('should roll back the whole import when a write fails', async () => {
+        const bundle = await bundleService.exportBundle(null, ['taskpilot_add', 'taskpilot_status']);
+        const createStep = GlobalDatabaseService.prototype.createToolFlowStep;
+        let calls = 0;
+        const spy = vi.spyOn(GlobalDatabaseService.prototype, 'createToolFlowStep').mockImplementation(function (this: GlobalDatabaseService, step) {
+            if (++calls === 3) {
+                return Promise.reject(new Error('disk full'));
+            }
+            return createStep.call(this, step);
+        });
+
+        try {
+            await expect(bundleService.importBundle(bundle, 'ws-1')).rejects.toThrow('disk full');
+        } finally {
+            spy.mockRestore();
+        }
+
+        expect(await globalDb.getWorkspaceToolFlows('ws-1')).toHaveLength(0);
+        expect(await globalDb.getWorkspaceFeedbackSteps('ws-1')).toHaveLength(0);
+    });
+});
@@ -0,0 +1,101 @@
+/**
+ * Flow Linter Tests
+ *
+ * Covers the checks run on tool flow writes: handlers, feedback step and
+ * next_tool references, branches, step orders, reachability and template
+ * variables declared in variableSchema.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DrizzleDatabaseManager, DatabaseType } from '../database/drizzle-connection.js';
+import { GlobalDatabaseService } from '../database/global-queries.js';
+import { SeedManager } from '../services/seed-manager.js';
+import { FlowLinter } from '../services/flow-linter.js';
+
+describe('Flow Linter', () => {
+    let drizzleDb: DrizzleDatabaseManager;
+    let globalDb: GlobalDatabaseService;
+    let linter: FlowLinter;
+
+    beforeEach(async () => {
+        drizzleDb = new DrizzleDatabaseManager(':memory:', DatabaseType.GLOBAL);
+        await drizzleDb.initialize();
+        globalDb = new GlobalDatabaseService(drizzleDb);
+        await globalDb.initialize();
+        await new SeedManager(drizzleDb).initializeGlobalData();
+
+        linter = new FlowLinter(drizzleDb);
+    });
+
+    afterEach(async () => {
+        await drizzleDb.close();
+    });
+
+    it('should accept the seeded flows without errors', async () => {
+        for (const flow of await globalDb.getGlobalToolFlows()) {
+            const result = await linter.lintStoredFlow(flow.id);
+            expect(result?.valid, flow.toolName).toBe(true);
+        }
+        expect(await linter.lintStoredFlow('missing-flow')).toBeNull();
+    });
+
+    it('should report missing handlers, broken references, branches and duplicate orders as errors', async () => {
+        const result = await linter.lintFlow({
+            toolName: 'taskpilot_add',
+            feedbackStepId: 'no_such_feedback',
+            nextTool: 'taskpilot_unknown',
+            steps: [
+                { stepOrder: 1, systemToolFn: 'validate', metadata: { branches: [{ when: { field: 'ok', operator: 'truthy' }, next_step: 'ship' }] } },
+                { stepOrder: 1, systemToolFn: 'create', nextTool: 'end' },
+                { stepOrder: 2, systemToolFn: 'publish' }
+            ]
+        });
+
+        expect(result.valid).toBe(false);
+        expect(result.issues.filter(issue => issue.severity === 'error').map(issue => issue.code).sort()).toEqual([
+            'duplicate_step_order',
+            'invalid_branch',
+            'missing_feedback_step',
+            'missing_handler',
+            'unknown_next_tool'
+        ]);
+    });
+
+    it('should warn about unreachable steps', async () => {
+        const result = await linter.lintFlow({
+            toolName: 'taskpilot_add',
+            steps: [
+                { stepOrder: 1, systemToolFn: 'validate', metadata: { default_next_step: 'end' } },
+                { stepOrder: 2, systemToolFn: 'create' },
+                { stepOrder: 3, systemToolFn: 'initial' }
+            ]
+        });
+
+        expect(result.valid).toBe(true);
+        expect(result.issues).toEqual([
+            expect.objectContaining({ code: 'unreachable_step', step: 'create' }),
+            expect.objectContaining({ code: 'unreachable_step', step: 'initial' })
+        ]);
+    });
+
+    it('should warn about template variables missing from variableSchema', async () => {
+        const result = await linter.lintFlow({
+            toolName: 'taskpilot_custom',
+            feedbackStepId: 'custom_feedback',
+            steps: [{ stepOrder: 1, systemToolFn: 'run' }]
+        }, {
+            feedbackSteps: [{
+                name: 'custom_feedback',
+                templateContent: 'Task {{context.task_id}}: {{context.title ? context.title : ""}} in {{context.workspace}}',
+                variableSchema: { type: 'object', properties: { task_id: { type: 'string' }, title: { type: 'string' } } }
+            }]
+        });
+
+        expect(result.issues).toEqual([
+            expect.objectContaining({
+                code: 'undeclared_template_variable',
+                message: 'Feedback step "custom_feedback" uses variables missing from its variableSchema: workspace'
+            })
+        ]);
+    });
+});
@@ -0,0 +1,213 @@
+/**
+ * GitHub Issues Sync Tests
+ *
+ * Configures and syncs a workspace through taskpilot_github against a local
+ * stand-in for the GitHub REST API: issue creation for tasks, state and
+ * label changes coming back, githubIssueNumber/githubUrl on linked tasks,
+ * syncDirection and autoSync.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DrizzleDatabaseManager, DatabaseType, getWorkspaceDatabase } from '../database/drizzle-connection.js';
+import { DatabaseService } from '../services/database-service.js';
+import { SeedManager } from '../services/seed-manager.js';
+import { GitHubTool } from '../tools/github.js';
+import { GitHubAutoSync } from '../services/github-auto-sync.js';
+import type { GitHubIssue } from '../services/github-sync.js';
+
+/**
+ * Issues endpoints of one repository (acme/docs), kept in memory
+ */
+function createGitHubStandIn() {
+    const issues: GitHubIssue[] = [];
+    const listQueries: URLSearchParams[] = [];
+    let clock = 0;
+    const touch = (issue: GitHubIssue) => {
+        clock = Math.max(clock + 1, Date.now());
+        issue.updated_at = new Date(clock).toISOString();
+    };
+    const addIssue = (title: string, labels: string[] = [], state: GitHubIssue['state'] = 'open') => {
+        const number = issues.length + 1;
+        const issue: GitHubIssue = {
+            id: 5000 + number,
+            number,
+            title,
+            body: null,
+            state,
+            state_reason: state === 'closed' ? 'completed' : null,
+            labels: labels.map(name => ({ name })),
+            html_url: `https://github.com/acme/docs/issues/${number}`,
+            updated_at: ''
+        };
+        touch(issue);
+        issues.push(issue);
+        return issue;
+    };
+    const apply = (issue: GitHubIssue, fields: Record<string, any>) => {
+        const { labels, ...rest } = fields;
+        Object.assign(issue, rest);
+        if (labels) {
+            issue.labels = labels.map((name: string) => ({ name }));
+        }
+        touch(issue);
+    };
+
+    const server: Server = createServer(async (req, res) => {
+        let raw = '';
+        for await (const chunk of req) raw += chunk;
+        const body = raw ? JSON.parse(raw) : {};
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const send = (status: number, payload: unknown) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(payload));
+        };
+
+        if (req.headers.authorization !== 'Bearer ghp_test') {
+            return send(401, { message: 'Bad credentials' });
+        }
+        const match = url.pathname.match(/^\/api\/v3\/repos\/acme\/docs\/issues(?:\/(\d+))?$/);
+        if (!match) {
+            return send(404, { message: 'Not Found' });
+        }
+        if (!match[1] && req.method === 'GET') {
+            listQueries.push(url.searchParams);
+            const state = url.searchParams.get('state');
+            const since = url.searchParams.get('since');
+            return send(200, issues.filter(issue =>
+                (state === 'all' || issue.state === state) && (!since || issue.updated_at >= since)
+            ));
+        }
+        if (!match[1] && req.method === 'POST') {
+            const issue = addIssue(body.title, body.labels ?? []);
+            issue.body = body.body ?? null;
+            return send(201, issue);
+        }
+        const issue = issues.find(candidate => candidate.number === Number(match[1]));
+        if (!issue) {
+            return send(404, { message: 'Not Found' });
+        }
+        if (req.method === 'PATCH') {
+            apply(issue, body);
+        }
+        return send(200, issue);
+    });
+
+    return { server, issues, listQueries, addIssue, apply };
+}
+
+describe('GitHub Issues Sync', () => {
+    let globalDrizzle: DrizzleDatabaseManager;
+    let databaseService: DatabaseService;
+    let githubTool: GitHubTool;
+    let workspacePath: string;
+    let github: ReturnType<typeof createGitHubStandIn>;
+    let repoUrl: string;
+
+    beforeEach(async () => {
+        workspacePath = mkdtempSync(join(tmpdir(), 'taskpilot-github-sync-test-'));
+        globalDrizzle = new DrizzleDatabaseManager(':memory:', DatabaseType.GLOBAL);
+        await globalDrizzle.initialize();
+        await new SeedManager(globalDrizzle).initializeGlobalData();
+        databaseService = new DatabaseService(globalDrizzle);
+        await databaseService.getGlobal().createWorkspace({ id: 'ws-1', path: workspacePath, name: 'Docs' });
+        githubTool = new GitHubTool(globalDrizzle);
+
+        github = createGitHubStandIn();
+        await new Promise<void>(resolve => github.server.listen(0, '127.0.0.1', resolve));
+        repoUrl = `http://127.0.0.1:${(github.server.address() as AddressInfo).port}/acme/docs`;
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => github.server.close(resolve));
+        await getWorkspaceDatabase(workspacePath).close();
+        await globalDrizzle.close();
+        rmSync(workspacePath, { recursive: true, force: true });
+    });
+
+    it('should create issues for tasks and pull issue state changes back', async () => {
+        const workspaceDb = await databaseService.getWorkspace(workspacePath);
+        const localTask = await workspaceDb.createTask({ id: 'task-docs', title: 'Write docs', priority: 'low', status: 'in-progress' });
+        github.addIssue('Crash on start', ['bug', 'priority:high']);
+        github.addIssue('Old closed issue', [], 'closed').updated_at = '2026-01-05T10:00:00Z';
+
+        const configured = await githubTool.execute({
+            workspace_path: workspacePath,
+            action: 'configure',
+            repo_url: repoUrl,
+            github_token: 'ghp_test'
+        });
+        expect(configured.content[0].text).toContain('acme/docs: bidirectional, auto-sync off');
+
+        const first = await githubTool.execute({ workspace_path: workspacePath, action: 'sync_tasks' });
+        expect(first.stepResult?.data).toMatchObject({ items_imported: 1, items_exported: 1, items_failed: 0 });
+        expect(github.listQueries[0].get('state')).toBe('open');
+
+        const imported = (await workspaceDb.getAllTasks()).find(task => task.title === 'Crash on start')!;
+        expect(imported).toMatchObject({
+            status: 'backlog',
+            priority: 'high',
+            githubIssueNumber: 1,
+            githubUrl: 'https://github.com/acme/docs/issues/1'
+        });
+        expect(github.issues[2]).toMatchObject({ title: 'Write docs', state: 'open', labels: [{ name: 'status:in-progress' }, { name: 'priority:low' }] });
+        expect(await workspaceDb.getTask(localTask.id)).toMatchObject({
+            githubIssueNumber: 3,
+            githubUrl: 'https://github.com/acme/docs/issues/3'
+        });
+
+        // Closed remotely as not planned, finished locally
+        await new Promise(resolve => setTimeout(resolve, 5));
+        github.apply(github.issues[0], { state: 'closed', state_reason: 'not_planned' });
+        await workspaceDb.updateTask(localTask.id, { status: 'done' });
+
+        const second = await githubTool.execute({ workspace_path: workspacePath, action: 'sync_tasks' });
+        expect(second.stepResult?.data).toMatchObject({ items_imported: 0, items_exported: 0, items_updated: 2, items_failed: 0 });
+        expect(github.listQueries[1].get('state')).toBe('all');
+        expect(github.listQueries[1].get('since')).toBe(first.stepResult?.data.last_sync);
+        expect((await workspaceDb.getTask(imported.id))?.status).toBe('dropped');
+        expect(github.issues[2]).toMatchObject({ state: 'closed', state_reason: 'completed', labels: [{ name: 'priority:low' }] });
+
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await workspaceDb.updateTask(imported.id, { priority: 'low' });
+        await githubTool.execute({ workspace_path: workspacePath, action: 'sync_tasks' });
+        expect(github.issues[0].labels).toEqual([{ name: 'bug' }, { name: 'priority:low' }]);
+    });
+
+    it('should respect syncDirection and push changes automatically only with autoSync', async () => {
+        const workspaceDb = await databaseService.getWorkspace(workspacePath);
+        github.addIssue('Remote only');
+        await githubTool.execute({
+            workspace_path: workspacePath,
+            action: 'configure',
+            repo_url: repoUrl,
+            github_token: 'ghp_test',
+            sync_direction: 'taskpilot_to_github'
+        });
+
+        const autoSync = new GitHubAutoSync(databaseService, 10);
+        autoSync.start();
+        try {
+            await workspaceDb.createTask({ id: 'task-a', title: 'Not pushed' }, { source: 'mcp' });
+            await new Promise(resolve => setTimeout(resolve, 100));
+            expect(github.issues).toHaveLength(1);
+
+            await githubTool.execute({ workspace_path: workspacePath, action: 'configure', auto_sync: true });
+            await workspaceDb.createTask({ id: 'task-b', title: 'Pushed' }, { source: 'mcp' });
+            for (let attempt = 0; attempt < 50 && github.issues.length < 3; attempt++) {
+                await new Promise(resolve => setTimeout(resolve, 20));
+            }
+            await autoSync.syncWorkspace(workspacePath);
+        } finally {
+            autoSync.stop();
+        }
+
+        expect(github.issues.map(issue => issue.title).sort()).toEqual(['Not pushed', 'Pushed', 'Remote only']);
+        expect(github.listQueries).toHaveLength(0);
+        expect((await workspaceDb.getAllTasks()).map(task => task.title).sort()).toEqual(['Not pushed', 'Pushed']);
+    });
+});
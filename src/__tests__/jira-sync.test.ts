@@ -0,0 +1,203 @@
+/**
+ * Jira Sync Tests
+ *
+ * Runs RemoteInterfaceManager.syncInterface against a local HTTP stand-in
+ * for the Jira REST API: importing issues, exporting tasks, pushing updates
+ * both ways, the task/issue mapping table and incremental JQL.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DrizzleDatabaseManager, DatabaseType, getWorkspaceDatabase } from '../database/drizzle-connection.js';
+import { DatabaseService } from '../services/database-service.js';
+import { SeedManager } from '../services/seed-manager.js';
+import { RemoteInterfaceManager } from '../services/remote-interface-manager.js';
+
+interface StandInIssue {
+    id: string;
+    key: string;
+    fields: Record<string, any>;
+}
+
+const STATUSES: Record<string, { name: string; statusCategory: { key: string } }> = {
+    todo: { name: 'To Do', statusCategory: { key: 'new' } },
+    progress: { name: 'In Progress', statusCategory: { key: 'indeterminate' } },
+    done: { name: 'Done', statusCategory: { key: 'done' } }
+};
+
+/**
+ * Just enough of the Jira REST API v2 for the sync: search, issue
+ * create/get/update and workflow transitions
+ */
+function createJiraStandIn() {
+    const issues: StandInIssue[] = [];
+    const searches: string[] = [];
+    let clock = Date.parse('2026-10-01T09:00:00.000Z');
+    const touch = (issue: StandInIssue) => {
+        clock += 60_000;
+        issue.fields.updated = new Date(clock).toISOString();
+    };
+    const addIssue = (summary: string, status: keyof typeof STATUSES, priority: string) => {
+        const issue: StandInIssue = {
+            id: String(10000 + issues.length + 1),
+            key: `PROJ-${issues.length + 1}`,
+            fields: { summary, description: null, status: STATUSES[status], priority: { name: priority } }
+        };
+        touch(issue);
+        issues.push(issue);
+        return issue;
+    };
+
+    const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+        let raw = '';
+        for await (const chunk of req) raw += chunk;
+        const body = raw ? JSON.parse(raw) : {};
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const send = (status: number, payload?: unknown) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(payload === undefined ? undefined : JSON.stringify(payload));
+        };
+        const match = url.pathname.match(/^\/rest\/api\/2\/issue\/([^/]+)(\/transitions)?$/);
+        const issue = match ? issues.find(candidate => candidate.key === match[1]) : undefined;
+
+        if (req.headers.authorization !== 'Bearer jira-token') {
+            return send(401, { errorMessages: ['Unauthorized'] });
+        }
+        if (url.pathname === '/rest/api/2/myself') {
+            return send(200, { key: 'ada', displayName: 'Ada Lovelace', timeZone: 'Asia/Kolkata' });
+        }
+        if (req.method === 'POST' && url.pathname === '/rest/api/2/search') {
+            searches.push(body.jql);
+            const page = issues.slice(body.startAt, body.startAt + body.maxResults);
+            return send(200, { startAt: body.startAt, total: issues.length, issues: page });
+        }
+        if (req.method === 'POST' && url.pathname === '/rest/api/2/issue') {
+            const created = addIssue(body.fields.summary, 'todo', body.fields.priority?.name ?? 'Medium');
+            created.fields.description = body.fields.description ?? null;
+            return send(201, { id: created.id, key: created.key });
+        }
+        if (!issue) {
+            return send(404, { errorMessages: ['Issue does not exist'] });
+        }
+        if (req.method === 'GET' && !match![2]) {
+            return send(200, issue);
+        }
+        if (req.method === 'PUT' && !match![2]) {
+            Object.assign(issue.fields, body.fields);
+            touch(issue);
+            return send(204);
+        }
+        if (req.method === 'GET') {
+            return send(200, {
+                transitions: Object.entries(STATUSES).map(([id, to]) => ({ id, name: to.name, to }))
+            });
+        }
+        issue.fields.status = STATUSES[body.transition.id];
+        touch(issue);
+        return send(204);
+    });
+
+    return { server, issues, searches, addIssue, touch };
+}
+
+describe('Jira Sync', () => {
+    let globalDrizzle: DrizzleDatabaseManager;
+    let databaseService: DatabaseService;
+    let manager: RemoteInterfaceManager;
+    let workspacePath: string;
+    let jira: ReturnType<typeof createJiraStandIn>;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+        workspacePath = mkdtempSync(join(tmpdir(), 'taskpilot-jira-sync-test-'));
+        globalDrizzle = new DrizzleDatabaseManager(':memory:', DatabaseType.GLOBAL);
+        await globalDrizzle.initialize();
+        await new SeedManager(globalDrizzle).initializeGlobalData();
+        databaseService = new DatabaseService(globalDrizzle);
+        await databaseService.getGlobal().createWorkspace({ id: 'ws-1', path: workspacePath, name: 'Docs' });
+        manager = new RemoteInterfaceManager(databaseService);
+
+        jira = createJiraStandIn();
+        await new Promise<void>(resolve => jira.server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(jira.server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => jira.server.close(resolve));
+        await getWorkspaceDatabase(workspacePath).close();
+        await globalDrizzle.close();
+        rmSync(workspacePath, { recursive: true, force: true });
+    });
+
+    it('should import issues, export tasks and then sync changes both ways incrementally', async () => {
+        const workspaceDb = await databaseService.getWorkspace(workspacePath);
+        const localTask = await workspaceDb.createTask({ id: 'task-docs', title: 'Write docs', priority: 'low' });
+        jira.addIssue('Fix login', 'progress', 'Highest');
+        const remoteInterface = await manager.registerInterface('ws-1', 'jira', 'Jira', baseUrl, 'jira-token', { projectId: 'PROJ' });
+
+        const first = await manager.syncInterface('ws-1', remoteInterface.id);
+
+        expect(first).toMatchObject({ items_imported: 1, items_exported: 1, items_updated: 0, items_failed: 0, errors: [] });
+        expect(jira.searches).toEqual(['project = "PROJ" ORDER BY updated ASC']);
+        const imported = (await workspaceDb.getAllTasks()).find(task => task.title === 'Fix login');
+        expect(imported).toMatchObject({ status: 'in-progress', priority: 'high' });
+        expect(jira.issues[1].fields).toMatchObject({ summary: 'Write docs', priority: { name: 'Low' }, status: STATUSES.todo });
+
+        const mappings = await workspaceDb.getRemoteTaskMappings(remoteInterface.id);
+        expect(mappings.map(mapping => [mapping.taskId, mapping.remoteKey]).sort()).toEqual(
+            [[imported!.id, 'PROJ-1'], [localTask.id, 'PROJ-2']].sort()
+        );
+        expect(mappings[0].remoteUrl).toBe(`${baseUrl}/browse/${mappings[0].remoteKey}`);
+        expect((await manager.getInterface('ws-1', remoteInterface.id))?.last_sync).toBe(first.last_sync);
+
+        // Change one side of each pair
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await workspaceDb.updateTask(localTask.id, { title: 'Write user docs', status: 'done' });
+        jira.issues[0].fields.summary = 'Fix login redirect';
+        jira.touch(jira.issues[0]);
+
+        const second = await manager.syncInterface('ws-1', remoteInterface.id);
+
+        expect(second).toMatchObject({ items_imported: 0, items_exported: 0, items_updated: 2, items_failed: 0 });
+        // The bound is in the user's time zone, UTC+05:30
+        const bound = new Date(Date.parse(first.last_sync) + 330 * 60_000).toISOString();
+        expect(jira.searches[1]).toBe(
+            `project = "PROJ" AND updated >= "${bound.slice(0, 10).replace(/-/g, '/')} ${bound.slice(11, 16)}" ORDER BY updated ASC`
+        );
+        expect((await workspaceDb.getTask(imported!.id))?.title).toBe('Fix login redirect');
+        expect(jira.issues[1].fields).toMatchObject({ summary: 'Write user docs', status: STATUSES.done });
+
+        // Nothing changed since: the issues are seen but left alone
+        const third = await manager.syncInterface('ws-1', remoteInterface.id);
+        expect(third).toMatchObject({ items_imported: 0, items_exported: 0, items_updated: 0, items_failed: 0 });
+    });
+
+    it('should follow syncDirection and report failed items without advancing lastSync', async () => {
+        const workspaceDb = await databaseService.getWorkspace(workspacePath);
+        await workspaceDb.createTask({ id: 'task-local', title: 'Local only' });
+        jira.addIssue('Remote only', 'todo', 'Medium');
+
+        const importOnly = await manager.registerInterface('ws-1', 'jira', 'Jira import', baseUrl, 'jira-token', {
+            projectId: 'PROJ',
+            syncDirection: 'import_only'
+        });
+        expect(await manager.syncInterface('ws-1', importOnly.id)).toMatchObject({ items_imported: 1, items_exported: 0 });
+        expect(jira.issues).toHaveLength(1);
+
+        const unauthorized = await manager.registerInterface('ws-1', 'jira', 'Jira export', baseUrl, 'wrong-token', {
+            projectId: 'PROJ',
+            syncDirection: 'export_only'
+        });
+        const result = await manager.syncInterface('ws-1', unauthorized.id);
+
+        expect(jira.searches).toHaveLength(1);
+        // The task imported through the other interface is not exported
+        expect(result.items_failed).toBe(1);
+        expect(result.errors[0]).toMatch(/^TP-001: Jira API error: 401/);
+        expect((await manager.getInterface('ws-1', unauthorized.id))?.last_sync).toBeNull();
+    });
+});
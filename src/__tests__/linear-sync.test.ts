@@ -0,0 +1,191 @@
+/**
+ * Linear Sync Tests
+ *
+ * Runs RemoteInterfaceManager.syncInterface against a local stand-in for
+ * Linear's GraphQL API: priority and workflow state mapping in both
+ * directions, syncDirection, incremental filters and per-item failures.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DrizzleDatabaseManager, DatabaseType, getWorkspaceDatabase } from '../database/drizzle-connection.js';
+import { DatabaseService } from '../services/database-service.js';
+import { SeedManager } from '../services/seed-manager.js';
+import { RemoteInterfaceManager } from '../services/remote-interface-manager.js';
+import type { LinearIssue, LinearState } from '../services/linear-sync.js';
+
+const STATES: LinearState[] = [
+    { id: 'st-backlog', name: 'Backlog', type: 'backlog', position: 0 },
+    { id: 'st-progress', name: 'In Progress', type: 'started', position: 1 },
+    { id: 'st-blocked', name: 'Blocked', type: 'started', position: 2 },
+    { id: 'st-review', name: 'In Review', type: 'started', position: 3 },
+    { id: 'st-done', name: 'Done', type: 'completed', position: 4 },
+    { id: 'st-canceled', name: 'Canceled', type: 'canceled', position: 5 }
+];
+
+/**
+ * Answers the TeamStates, Issues, CreateIssue and UpdateIssue operations
+ * the sync sends, keeping issues in memory
+ */
+function createLinearStandIn() {
+    const issues: LinearIssue[] = [];
+    const filters: Record<string, any>[] = [];
+    let clock = 0;
+    const touch = (issue: LinearIssue) => {
+        clock = Math.max(clock + 1, Date.now());
+        issue.updatedAt = new Date(clock).toISOString();
+    };
+    const addIssue = (title: string, stateId: string, priority: number) => {
+        const identifier = `ENG-${issues.length + 1}`;
+        const issue: LinearIssue = {
+            id: `issue-${issues.length + 1}`,
+            identifier,
+            title,
+            description: null,
+            priority,
+            url: `https://linear.app/acme/issue/${identifier}`,
+            updatedAt: '',
+            state: STATES.find(state => state.id === stateId)!
+        };
+        touch(issue);
+        issues.push(issue);
+        return issue;
+    };
+    const applyInput = (issue: LinearIssue, input: Record<string, any>) => {
+        const { stateId, teamId, ...fields } = input;
+        Object.assign(issue, fields);
+        if (stateId) {
+            issue.state = STATES.find(state => state.id === stateId)!;
+        }
+        touch(issue);
+    };
+
+    const server: Server = createServer(async (req, res) => {
+        let raw = '';
+        for await (const chunk of req) raw += chunk;
+        const { query, variables } = JSON.parse(raw);
+        const reply = (payload: unknown) => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(payload));
+        };
+
+        if (req.headers.authorization !== 'lin_api_test') {
+            return reply({ errors: [{ message: 'Authentication required, not authenticated' }] });
+        }
+        if (query.includes('query TeamStates')) {
+            return reply({ data: { team: variables.teamId === 'team-eng' ? { states: { nodes: STATES } } : null } });
+        }
+        if (query.includes('query Issues')) {
+            filters.push(variables.filter);
+            const since = variables.filter.updatedAt?.gte;
+            const nodes = issues.filter(issue => !since || issue.updatedAt >= since);
+            return reply({ data: { issues: { nodes, pageInfo: { hasNextPage: false, endCursor: null } } } });
+        }
+        if (query.includes('mutation CreateIssue')) {
+            if (variables.input.title === 'Broken') {
+                return reply({ errors: [{ message: 'Argument Validation Error' }] });
+            }
+            const issue = addIssue(variables.input.title, 'st-backlog', 0);
+            applyInput(issue, variables.input);
+            return reply({ data: { issueCreate: { success: true, issue } } });
+        }
+        const issue = issues.find(candidate => candidate.id === variables.id)!;
+        applyInput(issue, variables.input);
+        return reply({ data: { issueUpdate: { success: true, issue } } });
+    });
+
+    return { server, issues, filters, addIssue, touch };
+}
+
+describe('Linear Sync', () => {
+    let globalDrizzle: DrizzleDatabaseManager;
+    let databaseService: DatabaseService;
+    let manager: RemoteInterfaceManager;
+    let workspacePath: string;
+    let linear: ReturnType<typeof createLinearStandIn>;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+        workspacePath = mkdtempSync(join(tmpdir(), 'taskpilot-linear-sync-test-'));
+        globalDrizzle = new DrizzleDatabaseManager(':memory:', DatabaseType.GLOBAL);
+        await globalDrizzle.initialize();
+        await new SeedManager(globalDrizzle).initializeGlobalData();
+        databaseService = new DatabaseService(globalDrizzle);
+        await databaseService.getGlobal().createWorkspace({ id: 'ws-1', path: workspacePath, name: 'Docs' });
+        manager = new RemoteInterfaceManager(databaseService);
+
+        linear = createLinearStandIn();
+        await new Promise<void>(resolve => linear.server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(linear.server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => linear.server.close(resolve));
+        await getWorkspaceDatabase(workspacePath).close();
+        await globalDrizzle.close();
+        rmSync(workspacePath, { recursive: true, force: true });
+    });
+
+    it('should map priorities and workflow states both ways and sync changes incrementally', async () => {
+        const workspaceDb = await databaseService.getWorkspace(workspacePath);
+        const localTask = await workspaceDb.createTask({ id: 'task-docs', title: 'Write docs', priority: 'low', status: 'in-progress' });
+        linear.addIssue('Fix login', 'st-review', 1);
+        linear.addIssue('Old spike', 'st-canceled', 0);
+        const remoteInterface = await manager.registerInterface('ws-1', 'linear', 'Linear', baseUrl, 'lin_api_test', { projectId: 'team-eng' });
+
+        const first = await manager.syncInterface('ws-1', remoteInterface.id);
+
+        expect(first).toMatchObject({ items_imported: 2, items_exported: 1, items_failed: 0, errors: [] });
+        expect(linear.filters[0]).toEqual({ team: { id: { eq: 'team-eng' } } });
+        const tasks = await workspaceDb.getAllTasks();
+        expect(tasks.find(task => task.title === 'Fix login')).toMatchObject({ status: 'review', priority: 'high' });
+        expect(tasks.find(task => task.title === 'Old spike')).toMatchObject({ status: 'dropped', priority: 'medium' });
+        expect(linear.issues[2]).toMatchObject({ title: 'Write docs', priority: 4, state: { name: 'In Progress' } });
+
+        const link = await workspaceDb.getRemoteTaskMappingByTask(remoteInterface.id, localTask.id);
+        expect(link).toMatchObject({ remoteId: 'issue-3', remoteKey: 'ENG-3', remoteUrl: 'https://linear.app/acme/issue/ENG-3' });
+
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await workspaceDb.updateTask(localTask.id, { status: 'blocked', priority: 'high' });
+        linear.issues[0].priority = 4;
+        linear.issues[0].state = STATES[4];
+        linear.touch(linear.issues[0]);
+
+        const second = await manager.syncInterface('ws-1', remoteInterface.id);
+
+        expect(second).toMatchObject({ items_imported: 0, items_exported: 0, items_updated: 2, items_failed: 0 });
+        expect(linear.filters[1].updatedAt).toEqual({ gte: first.last_sync });
+        expect(await workspaceDb.getTask(tasks.find(task => task.title === 'Fix login')!.id))
+            .toMatchObject({ status: 'done', priority: 'low' });
+        expect(linear.issues[2]).toMatchObject({ priority: 2, state: { name: 'Blocked' } });
+    });
+
+    it('should honor syncDirection and record per-item failures', async () => {
+        const workspaceDb = await databaseService.getWorkspace(workspacePath);
+        await workspaceDb.createTask({ id: 'task-ok', title: 'Ship it' });
+        await workspaceDb.createTask({ id: 'task-broken', title: 'Broken' });
+        linear.addIssue('Remote only', 'st-backlog', 3);
+
+        const exportOnly = await manager.registerInterface('ws-1', 'linear', 'Linear export', baseUrl, 'lin_api_test', {
+            projectId: 'team-eng',
+            syncDirection: 'export_only'
+        });
+        const result = await manager.syncInterface('ws-1', exportOnly.id);
+
+        expect(linear.filters).toHaveLength(0);
+        expect(result).toMatchObject({ items_imported: 0, items_exported: 1, items_failed: 1 });
+        expect(result.errors).toEqual(['TP-002: Linear API error: Argument Validation Error']);
+        expect((await manager.getInterface('ws-1', exportOnly.id))?.last_sync).toBeNull();
+
+        const importOnly = await manager.registerInterface('ws-1', 'linear', 'Linear import', baseUrl, 'lin_api_test', {
+            projectId: 'team-eng',
+            syncDirection: 'import_only'
+        });
+        expect(await manager.syncInterface('ws-1', importOnly.id)).toMatchObject({ items_imported: 2, items_exported: 0 });
+        expect(linear.issues).toHaveLength(2);
+    });
+});
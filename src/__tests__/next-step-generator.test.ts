@@ -4,9 +4,10 @@
  * Tests dynamic generation of next step instructions from database tool flows
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach } from 'vitest';
 import { NextStepTemplateGenerator } from '../services/next-step-generator.js';
 import type { DrizzleDatabaseManager } from '../database/drizzle-connection.js';
+import type { ToolFlow } from '../types/index.js';
 
 describe('NextStepTemplateGenerator', () => {
     let generator: NextStepTemplateGenerator;
@@ -86,6 +87,41 @@ describe('NextStepTemplateGenerator', () => {
         });
     });
 
+    describe('conditional branches', () => {
+        const toolFlow: ToolFlow = {
+            id: 'tf_add',
+            tool_name: 'taskpilot_add',
+            created_at: '',
+            updated_at: '',
+            flow_steps: [
+                {
+                    id: 's1',
+                    tool_flow_id: 'tf_add',
+                    step_order: 1,
+                    system_tool_fn: 'taskpilot_add:validate',
+                    metadata: {
+                        branches: [{ when: { field: 'duplicates', operator: 'truthy' }, next_step: 'merge' }],
+                        default_next_step: 'create'
+                    }
+                },
+                { id: 's2', tool_flow_id: 'tf_add', step_order: 2, system_tool_fn: 'taskpilot_add:create' },
+                { id: 's3', tool_flow_id: 'tf_add', step_order: 3, system_tool_fn: 'taskpilot_add:merge' }
+            ]
+        };
+
+        beforeEach(() => {
+            generator = new NextStepTemplateGenerator(mockDbManager, async (toolName) => toolName === toolFlow.tool_name ? toolFlow : null);
+        });
+
+        it('should pick the next step from the result data of the current step', async () => {
+            const merge = await generator.generateNextStepInstructions('taskpilot_add', 'validate', undefined, undefined, { duplicates: ['TP-001'] });
+            const create = await generator.generateNextStepInstructions('taskpilot_add', 'validate', undefined, undefined, { duplicates: [] });
+
+            expect(merge?.stepId).toBe('merge');
+            expect(create?.stepId).toBe('create');
+        });
+    });
+
     describe('error handling', () => {
         it('should handle database errors gracefully', async () => {
             // Test with invalid tool name that would cause internal errors
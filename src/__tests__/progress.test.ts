@@ -0,0 +1,114 @@
+/**
+ * Progress Reporting Tests
+ *
+ * Covers ProgressReporter counting and cancellation, the MCP
+ * notifications/progress it produces for a progressToken, and phase
+ * reporting from the taskpilot_init setup steps.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DrizzleDatabaseManager, DatabaseType, getWorkspaceDatabase } from '../database/drizzle-connection.js';
+import { GlobalDatabaseService } from '../database/global-queries.js';
+import { SeedManager } from '../services/seed-manager.js';
+import { InitToolNew } from '../tools/init.js';
+import { createProgressReporter, type ProgressNotification } from '../server/mcp-progress.js';
+import { OperationCancelledError, ProgressReporter, type ProgressUpdate } from '../utils/progress.js';
+
+describe('Progress Reporting', () => {
+    it('should count phases against a growing total and stop once cancelled', async () => {
+        const updates: ProgressUpdate[] = [];
+        const controller = new AbortController();
+        const progress = new ProgressReporter(async update => { updates.push(update); }, controller.signal);
+
+        progress.addWork(1);
+        await progress.advance('Loading interface configuration');
+        progress.addWork(2);
+        await progress.advance('Imported PROJ-1');
+
+        expect(updates).toEqual([
+            { progress: 1, total: 1, message: 'Loading interface configuration' },
+            { progress: 2, total: 3, message: 'Imported PROJ-1' }
+        ]);
+
+        controller.abort('User cancelled');
+        await expect(progress.advance('Imported PROJ-2')).rejects.toThrow(OperationCancelledError);
+        expect(updates).toHaveLength(2);
+    });
+
+    it('should send notifications only for calls with a progressToken', async () => {
+        const sent: ProgressNotification[] = [];
+        const send = async (notification: ProgressNotification) => { sent.push(notification); };
+
+        await createProgressReporter(undefined, new AbortController().signal, send).advance('Silent');
+        await createProgressReporter('init-1', new AbortController().signal, send).advance('Creating workspace database');
+
+        expect(sent).toEqual([{
+            method: 'notifications/progress',
+            params: { progressToken: 'init-1', progress: 1, message: 'Creating workspace database' }
+        }]);
+    });
+});
+
+describe('Init Progress', () => {
+    let globalDrizzle: DrizzleDatabaseManager;
+    let globalDb: GlobalDatabaseService;
+    let workspacePath: string;
+
+    beforeEach(async () => {
+        workspacePath = mkdtempSync(join(tmpdir(), 'taskpilot-progress-test-'));
+        globalDrizzle = new DrizzleDatabaseManager(':memory:', DatabaseType.GLOBAL);
+        await globalDrizzle.initialize();
+        await new SeedManager(globalDrizzle).initializeGlobalData();
+        globalDb = new GlobalDatabaseService(globalDrizzle);
+    });
+
+    afterEach(async () => {
+        await getWorkspaceDatabase(workspacePath).close();
+        await globalDrizzle.close();
+        rmSync(workspacePath, { recursive: true, force: true });
+    });
+
+    it('should report each setup and configuration phase', async () => {
+        const updates: ProgressUpdate[] = [];
+        const initTool = new InitToolNew(globalDrizzle);
+        const input = { workspace_path: workspacePath, project_requirements: 'CLI for release notes' };
+
+        await initTool.execute({ ...input, stepId: 'setup_structure', progress: new ProgressReporter(async update => { updates.push(update); }) });
+        expect(updates.map(update => update.message)).toEqual([
+            'Creating workspace database',
+            'Registering workspace',
+            'Generating setup guidance'
+        ]);
+        expect(updates.at(-1)).toMatchObject({ progress: 3, total: 3 });
+
+        updates.length = 0;
+        await initTool.execute({ ...input, stepId: 'configure_project', progress: new ProgressReporter(async update => { updates.push(update); }) });
+        expect(updates.map(update => update.message)).toEqual([
+            'Opening workspace database',
+            'Seeding initial task',
+            'Generating configuration guidance'
+        ]);
+    });
+
+    it('should stop before registering the workspace once cancelled', async () => {
+        const controller = new AbortController();
+        const progress = new ProgressReporter(async update => {
+            if (update.progress === 1) {
+                controller.abort();
+            }
+        }, controller.signal);
+
+        const result = await new InitToolNew(globalDrizzle).execute({
+            workspace_path: workspacePath,
+            project_requirements: 'CLI for release notes',
+            stepId: 'setup_structure',
+            progress
+        });
+
+        expect('isError' in result && result.isError).toBe(true);
+        expect(await globalDb.getWorkspaceByPath(workspacePath)).toBeNull();
+    });
+});
@@ -0,0 +1,245 @@
+/**
+ * Sync Conflict Tests
+ *
+ * Changes a task and its Linear issue between bidirectional syncs (against
+ * a local stand-in for Linear's GraphQL API) and checks the conflict
+ * policies: the manual review queue and its resolution, local-wins,
+ * remote-wins and newest-wins, that matching changes are no conflict, and
+ * that deleting a task drops its link and conflicts.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DrizzleDatabaseManager, DatabaseType, getWorkspaceDatabase } from '../database/drizzle-connection.js';
+import { DatabaseService } from '../services/database-service.js';
+import { SeedManager } from '../services/seed-manager.js';
+import { RemoteInterfaceManager, type ConflictPolicy } from '../services/remote-interface-manager.js';
+import type { LinearIssue, LinearState } from '../services/linear-sync.js';
+import type { WorkspaceDatabaseService } from '../database/workspace-queries.js';
+
+const STATES: LinearState[] = [
+    { id: 'st-backlog', name: 'Backlog', type: 'backlog', position: 0 },
+    { id: 'st-done', name: 'Done', type: 'completed', position: 1 }
+];
+
+/**
+ * Issues of one Linear team, kept in memory; `writes` counts mutations
+ */
+function createLinearStandIn() {
+    const issues: LinearIssue[] = [];
+    let writes = 0;
+    let clock = 0;
+    const update = (issue: LinearIssue, input: Record<string, any>) => {
+        const { stateId, teamId, ...fields } = input;
+        Object.assign(issue, fields);
+        if (stateId) {
+            issue.state = STATES.find(state => state.id === stateId)!;
+        }
+        clock = Math.max(clock + 1, Date.now());
+        issue.updatedAt = new Date(clock).toISOString();
+    };
+    const addIssue = (title: string) => {
+        const identifier = `ENG-${issues.length + 1}`;
+        const issue: LinearIssue = {
+            id: `issue-${issues.length + 1}`,
+            identifier,
+            title,
+            description: null,
+            priority: 3,
+            url: `https://linear.app/acme/issue/${identifier}`,
+            updatedAt: '',
+            state: STATES[0]
+        };
+        update(issue, {});
+        issues.push(issue);
+        return issue;
+    };
+
+    const server: Server = createServer(async (req, res) => {
+        let raw = '';
+        for await (const chunk of req) raw += chunk;
+        const { query, variables } = JSON.parse(raw);
+        const reply = (data: unknown) => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ data }));
+        };
+
+        if (query.includes('query TeamStates')) {
+            return reply({ team: { states: { nodes: STATES } } });
+        }
+        if (query.includes('query Issues')) {
+            const since = variables.filter.updatedAt?.gte;
+            const nodes = issues.filter(issue => !since || issue.updatedAt >= since);
+            return reply({ issues: { nodes, pageInfo: { hasNextPage: false, endCursor: null } } });
+        }
+        writes++;
+        if (query.includes('mutation CreateIssue')) {
+            const issue = addIssue(variables.input.title);
+            update(issue, variables.input);
+            return reply({ issueCreate: { success: true, issue } });
+        }
+        const issue = issues.find(candidate => candidate.id === variables.id)!;
+        update(issue, variables.input);
+        return reply({ issueUpdate: { success: true, issue } });
+    });
+
+    return { server, issues, addIssue, update, writes: () => writes };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+describe('Sync Conflicts', () => {
+    let globalDrizzle: DrizzleDatabaseManager;
+    let databaseService: DatabaseService;
+    let manager: RemoteInterfaceManager;
+    let workspaceDb: WorkspaceDatabaseService;
+    let workspacePath: string;
+    let linear: ReturnType<typeof createLinearStandIn>;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+        workspacePath = mkdtempSync(join(tmpdir(), 'taskpilot-sync-conflicts-test-'));
+        globalDrizzle = new DrizzleDatabaseManager(':memory:', DatabaseType.GLOBAL);
+        await globalDrizzle.initialize();
+        await new SeedManager(globalDrizzle).initializeGlobalData();
+        databaseService = new DatabaseService(globalDrizzle);
+        await databaseService.getGlobal().createWorkspace({ id: 'ws-1', path: workspacePath, name: 'Docs' });
+        workspaceDb = await databaseService.getWorkspace(workspacePath);
+        manager = new RemoteInterfaceManager(databaseService);
+
+        linear = createLinearStandIn();
+        await new Promise<void>(resolve => linear.server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(linear.server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => linear.server.close(resolve));
+        await getWorkspaceDatabase(workspacePath).close();
+        await globalDrizzle.close();
+        rmSync(workspacePath, { recursive: true, force: true });
+    });
+
+    /**
+     * Register an interface with the policy, import one issue and change
+     * its title on both sides; resolves to the interface id and the task id
+     */
+    async function divergeTitles(conflictPolicy?: ConflictPolicy, remoteFirst = true) {
+        linear.addIssue('Fix login');
+        const remoteInterface = await manager.registerInterface('ws-1', 'linear', 'Linear', baseUrl, 'lin_api_test', {
+            projectId: 'team-eng',
+            conflictPolicy
+        });
+        await manager.syncInterface('ws-1', remoteInterface.id);
+        const [task] = await workspaceDb.getAllTasks();
+
+        await tick();
+        if (remoteFirst) {
+            linear.update(linear.issues[0], { title: 'Fix login (remote)' });
+            await tick();
+            await workspaceDb.updateTask(task.id, { title: 'Fix login (local)' });
+        } else {
+            await workspaceDb.updateTask(task.id, { title: 'Fix login (local)' });
+            await tick();
+            linear.update(linear.issues[0], { title: 'Fix login (remote)' });
+        }
+        return { interfaceId: remoteInterface.id, taskId: task.id };
+    }
+
+    it('should queue manual conflicts and apply the side picked for them', async () => {
+        const { interfaceId, taskId } = await divergeTitles();
+        const writesBefore = linear.writes();
+
+        const result = await manager.syncInterface('ws-1', interfaceId);
+
+        expect(result).toMatchObject({ items_updated: 0, items_conflicted: 1, items_failed: 0 });
+        expect(linear.writes()).toBe(writesBefore);
+        expect((await workspaceDb.getTask(taskId))?.title).toBe('Fix login (local)');
+        const [conflict] = await manager.getConflicts('ws-1', 'open');
+        expect(conflict).toMatchObject({
+            interfaceId,
+            taskId,
+            remoteKey: 'ENG-1',
+            status: 'open',
+            localValues: { title: 'Fix login (local)', status: 'backlog', priority: 'medium' },
+            remoteValues: { title: 'Fix login (remote)' }
+        });
+
+        // A task waiting for review is not exported, and stays one conflict
+        await workspaceDb.updateTask(taskId, { priority: 'high' });
+        linear.update(linear.issues[0], { title: 'Fix login (remote, again)' });
+        await manager.syncInterface('ws-1', interfaceId);
+        expect(linear.writes()).toBe(writesBefore);
+        expect(await manager.getConflicts('ws-1')).toHaveLength(1);
+
+        const resolved = await manager.resolveConflict('ws-1', conflict.id, 'remote');
+        expect(resolved).toMatchObject({ status: 'resolved', resolution: 'remote' });
+        expect(await workspaceDb.getTask(taskId)).toMatchObject({ title: 'Fix login (remote, again)', priority: 'medium' });
+        await expect(manager.resolveConflict('ws-1', conflict.id, 'local')).rejects.toThrow('already resolved');
+
+        // Both sides hold the remote values now
+        const next = await manager.syncInterface('ws-1', interfaceId);
+        expect(next).toMatchObject({ items_updated: 0, items_conflicted: 0 });
+        expect(linear.writes()).toBe(writesBefore);
+        expect(await manager.getConflicts('ws-1', 'open')).toHaveLength(0);
+    });
+
+    it('should drop the link and conflicts of a deleted task', async () => {
+        const { interfaceId, taskId } = await divergeTitles();
+        await manager.syncInterface('ws-1', interfaceId);
+        expect(await manager.getConflicts('ws-1', 'open')).toHaveLength(1);
+
+        await workspaceDb.deleteTask(taskId);
+
+        expect(await manager.getConflicts('ws-1')).toEqual([]);
+        expect(await workspaceDb.getRemoteTaskMappings(interfaceId)).toEqual([]);
+        expect(await manager.syncInterface('ws-1', interfaceId)).toMatchObject({ items_failed: 0, errors: [] });
+    });
+
+    it('should push the local side of a conflict resolved for it on the next sync', async () => {
+        const { interfaceId } = await divergeTitles('manual');
+        await manager.syncInterface('ws-1', interfaceId);
+        const [conflict] = await manager.getConflicts('ws-1', 'open');
+
+        await manager.resolveConflict('ws-1', conflict.id, 'local');
+        const result = await manager.syncInterface('ws-1', interfaceId);
+
+        expect(result).toMatchObject({ items_updated: 1, items_conflicted: 0 });
+        expect(linear.issues[0].title).toBe('Fix login (local)');
+    });
+
+    it.each([
+        ['local-wins', true, 'Fix login (local)'],
+        ['remote-wins', true, 'Fix login (remote)'],
+        ['newest-wins', true, 'Fix login (local)'],
+        ['newest-wins', false, 'Fix login (remote)']
+    ] as const)('should resolve conflicts with %s (remote changed first: %s)', async (policy, remoteFirst, title) => {
+        const { interfaceId, taskId } = await divergeTitles(policy, remoteFirst);
+
+        const result = await manager.syncInterface('ws-1', interfaceId);
+
+        expect(result).toMatchObject({ items_conflicted: 0, items_failed: 0 });
+        expect((await workspaceDb.getTask(taskId))?.title).toBe(title);
+        expect(linear.issues[0].title).toBe(title);
+        expect(await manager.getConflicts('ws-1')).toHaveLength(0);
+
+        // Both sides agree now, so a further sync leaves them alone
+        const writes = linear.writes();
+        expect(await manager.syncInterface('ws-1', interfaceId)).toMatchObject({ items_updated: 0 });
+        expect(linear.writes()).toBe(writes);
+    });
+
+    it('should not treat the same change on both sides as a conflict', async () => {
+        const { interfaceId, taskId } = await divergeTitles();
+        linear.update(linear.issues[0], { title: 'Fix login (local)' });
+
+        const result = await manager.syncInterface('ws-1', interfaceId);
+
+        expect(result).toMatchObject({ items_updated: 1, items_conflicted: 0 });
+        expect((await workspaceDb.getTask(taskId))?.title).toBe('Fix login (local)');
+        expect(await manager.getConflicts('ws-1')).toHaveLength(0);
+    });
+});
@@ -0,0 +1,210 @@
+/**
+ * Sync Scheduler Tests
+ *
+ * Runs SyncScheduler against a local stand-in for Linear's GraphQL API:
+ * which interfaces are due, the sync-run log, backoff after failed runs,
+ * the limit on syncs running at once and manual syncs waiting for
+ * scheduled ones of the same interface.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DrizzleDatabaseManager, DatabaseType, getWorkspaceDatabase } from '../database/drizzle-connection.js';
+import { DatabaseService } from '../services/database-service.js';
+import { SeedManager } from '../services/seed-manager.js';
+import { RemoteInterfaceManager } from '../services/remote-interface-manager.js';
+import { SyncScheduler } from '../services/sync-scheduler.js';
+import type { WorkspaceDatabaseService } from '../database/workspace-queries.js';
+
+/**
+ * A Linear team without issues; answers slowly so that syncs overlap, and
+ * with errors while `failing` is set
+ */
+function createLinearStandIn() {
+    const state = { failing: false, inFlight: 0, maxInFlight: 0, requests: 0 };
+
+    const server: Server = createServer(async (req, res) => {
+        let raw = '';
+        for await (const chunk of req) raw += chunk;
+        const { query } = JSON.parse(raw);
+        state.requests++;
+        state.inFlight++;
+        state.maxInFlight = Math.max(state.maxInFlight, state.inFlight);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        state.inFlight--;
+
+        res.writeHead(state.failing ? 500 : 200, { 'Content-Type': 'application/json' });
+        if (state.failing) {
+            return res.end(JSON.stringify({ errors: [{ message: 'Internal error' }] }));
+        }
+        const data = query.includes('query TeamStates')
+            ? { team: { states: { nodes: [{ id: 'st-backlog', name: 'Backlog', type: 'backlog', position: 0 }] } } }
+            : { issues: { nodes: [], pageInfo: { hasNextPage: false, endCursor: null } } };
+        res.end(JSON.stringify({ data }));
+    });
+
+    return { server, state };
+}
+
+describe('Sync Scheduler', () => {
+    let globalDrizzle: DrizzleDatabaseManager;
+    let databaseService: DatabaseService;
+    let manager: RemoteInterfaceManager;
+    let workspaceDb: WorkspaceDatabaseService;
+    let workspacePath: string;
+    let linear: ReturnType<typeof createLinearStandIn>;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+        workspacePath = mkdtempSync(join(tmpdir(), 'taskpilot-sync-scheduler-test-'));
+        globalDrizzle = new DrizzleDatabaseManager(':memory:', DatabaseType.GLOBAL);
+        await globalDrizzle.initialize();
+        await new SeedManager(globalDrizzle).initializeGlobalData();
+        databaseService = new DatabaseService(globalDrizzle);
+        await databaseService.getGlobal().createWorkspace({ id: 'ws-1', path: workspacePath, name: 'Docs' });
+        workspaceDb = await databaseService.getWorkspace(workspacePath);
+        manager = new RemoteInterfaceManager(databaseService);
+
+        linear = createLinearStandIn();
+        await new Promise<void>(resolve => linear.server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(linear.server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => linear.server.close(resolve));
+        await getWorkspaceDatabase(workspacePath).close();
+        await globalDrizzle.close();
+        rmSync(workspacePath, { recursive: true, force: true });
+    });
+
+    const register = (name: string, options: { syncEnabled?: boolean; syncIntervalMinutes?: number } = {}) =>
+        manager.registerInterface('ws-1', 'linear', name, baseUrl, 'lin_api_test', { projectId: 'team-eng', ...options });
+
+    /**
+     * Move the runs of an interface back in time until the latest one
+     * finished the given minutes ago
+     */
+    async function age(interfaceId: string, minutes: number) {
+        const runs = await workspaceDb.getSyncRuns(interfaceId);
+        const shift = Date.parse(runs[0].finishedAt!) - (Date.now() - minutes * 60 * 1000);
+        const earlier = (time: string) => new Date(Date.parse(time) - shift).toISOString();
+        for (const run of runs) {
+            await workspaceDb.updateSyncRun(run.id, { startedAt: earlier(run.startedAt), finishedAt: earlier(run.finishedAt!) });
+        }
+    }
+
+    it('should sync enabled interfaces once their interval has passed and log each run', async () => {
+        const scheduled = await register('Linear');
+        await register('Disabled', { syncEnabled: false });
+        await register('Manual only', { syncIntervalMinutes: 0 });
+        const scheduler = new SyncScheduler(databaseService);
+
+        await scheduler.runDueSyncs();
+
+        const [run] = await manager.getSyncRuns('ws-1', scheduled.id);
+        expect(run).toMatchObject({
+            interfaceId: scheduled.id,
+            trigger: 'scheduled',
+            status: 'succeeded',
+            itemsImported: 0,
+            errors: []
+        });
+        expect(run.finishedAt).not.toBeNull();
+        expect((await manager.getInterface('ws-1', scheduled.id))?.last_sync).toBe(run.startedAt);
+        for (const remoteInterface of await manager.getWorkspaceInterfaces('ws-1')) {
+            expect(await manager.getSyncRuns('ws-1', remoteInterface.id)).toHaveLength(remoteInterface.id === scheduled.id ? 1 : 0);
+        }
+
+        // Not due again until 15 minutes later
+        const requests = linear.state.requests;
+        await scheduler.runDueSyncs();
+        expect(linear.state.requests).toBe(requests);
+
+        await age(scheduled.id, 16);
+        await scheduler.runDueSyncs();
+        expect(await manager.getSyncRuns('ws-1', scheduled.id)).toHaveLength(2);
+
+        // A manual sync counts as the latest run
+        await manager.syncInterface('ws-1', scheduled.id);
+        const runs = await manager.getSyncRuns('ws-1', scheduled.id);
+        expect(runs.map(entry => entry.trigger)).toEqual(['manual', 'scheduled', 'scheduled']);
+    });
+
+    it('should double the wait after each failed run, up to the maximum', async () => {
+        const remoteInterface = await register('Linear', { syncIntervalMinutes: 10 });
+        const scheduler = new SyncScheduler(databaseService, { maxBackoffMinutes: 30 });
+        linear.state.failing = true;
+
+        await scheduler.runDueSyncs();
+        const [failed] = await manager.getSyncRuns('ws-1', remoteInterface.id);
+        expect(failed).toMatchObject({ status: 'failed', trigger: 'scheduled' });
+        expect(failed.errors).toEqual(['Linear API error: Internal error']);
+
+        // One failure: 20 minutes
+        await age(remoteInterface.id, 15);
+        await scheduler.runDueSyncs();
+        expect(await manager.getSyncRuns('ws-1', remoteInterface.id)).toHaveLength(1);
+        await age(remoteInterface.id, 21);
+        await scheduler.runDueSyncs();
+        expect(await manager.getSyncRuns('ws-1', remoteInterface.id)).toHaveLength(2);
+
+        // Two failures: 40 minutes, capped at 30
+        await age(remoteInterface.id, 31);
+        linear.state.failing = false;
+        await scheduler.runDueSyncs();
+        const runs = await manager.getSyncRuns('ws-1', remoteInterface.id);
+        expect(runs.map(run => run.status)).toEqual(['succeeded', 'failed', 'failed']);
+
+        // Back to the plain interval after a run that succeeded
+        await age(remoteInterface.id, 11);
+        await scheduler.runDueSyncs();
+        expect(await manager.getSyncRuns('ws-1', remoteInterface.id)).toHaveLength(4);
+    });
+
+    it('should run no more syncs at once than the concurrency limit', async () => {
+        const interfaces = await Promise.all(['A', 'B', 'C', 'D', 'E'].map(name => register(name)));
+        const scheduler = new SyncScheduler(databaseService, { maxConcurrent: 2 });
+
+        await scheduler.runDueSyncs();
+
+        expect(linear.state.maxInFlight).toBe(2);
+        for (const remoteInterface of interfaces) {
+            const runs = await manager.getSyncRuns('ws-1', remoteInterface.id);
+            expect(runs.map(run => run.status)).toEqual(['succeeded']);
+        }
+    });
+
+    it('should not overlap a manual sync with a scheduled one of the same interface', async () => {
+        const remoteInterface = await register('Linear');
+        const scheduler = new SyncScheduler(databaseService);
+
+        await Promise.all([scheduler.runDueSyncs(), manager.syncInterface('ws-1', remoteInterface.id)]);
+
+        expect(linear.state.maxInFlight).toBe(1);
+        const runs = await manager.getSyncRuns('ws-1', remoteInterface.id);
+        expect(runs.map(run => run.status)).toEqual(['succeeded', 'succeeded']);
+        expect(Date.parse(runs[0].startedAt)).toBeGreaterThanOrEqual(Date.parse(runs[1].finishedAt!));
+    });
+
+    it('should leave GitHub interfaces alone while their GitHub config has autoSync off', async () => {
+        await workspaceDb.createGithubConfig({
+            id: 'gh-config',
+            repoUrl: 'https://github.com/acme/docs',
+            repoOwner: 'acme',
+            repoName: 'docs',
+            githubToken: 'ghp_test',
+            autoSync: false
+        });
+        const github = await manager.registerInterface('ws-1', 'github', 'acme/docs', 'https://api.github.com', 'ghp_test');
+        const linearInterface = await register('Linear');
+
+        await new SyncScheduler(databaseService).runDueSyncs();
+
+        expect(await manager.getSyncRuns('ws-1', github.id)).toHaveLength(0);
+        expect(await manager.getSyncRuns('ws-1', linearInterface.id)).toHaveLength(1);
+    });
+});
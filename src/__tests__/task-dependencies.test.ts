@@ -0,0 +1,176 @@
+/**
+ * Task Dependency Tests
+ *
+ * Covers "blocked by" edges between tasks, cycle detection, automatic
+ * blocked/backlog transitions, the ready-to-start focus list and the
+ * blocked_by field of taskpilot_update.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DrizzleDatabaseManager, DatabaseType, getWorkspaceDatabase } from '../database/drizzle-connection.js';
+import { WorkspaceDatabaseService } from '../database/workspace-queries.js';
+import { GlobalDatabaseService } from '../database/global-queries.js';
+import { SeedManager } from '../services/seed-manager.js';
+import { UpdateToolNew } from '../tools/update.js';
+import { toToolOutput } from '../tools/tool-output.js';
+import { ToolNames } from '../constants/tool-names.js';
+
+describe('Task Dependencies', () => {
+    let dbManager: DrizzleDatabaseManager;
+    let workspaceDb: WorkspaceDatabaseService;
+
+    beforeEach(async () => {
+        dbManager = new DrizzleDatabaseManager(':memory:', DatabaseType.WORKSPACE);
+        workspaceDb = new WorkspaceDatabaseService('/unused', dbManager);
+        await workspaceDb.initialize();
+
+        await workspaceDb.createTask({ id: 'TP-1', title: 'Schema', priority: 'low' });
+        await workspaceDb.createTask({ id: 'TP-2', title: 'API', priority: 'medium' });
+        await workspaceDb.createTask({ id: 'TP-3', title: 'UI', priority: 'high' });
+    });
+
+    afterEach(async () => {
+        await dbManager.close();
+    });
+
+    it('should add and remove dependency edges', async () => {
+        await workspaceDb.addTaskDependency('TP-2', 'TP-1');
+
+        expect((await workspaceDb.getTaskDependencies('TP-2')).map(t => t.id)).toEqual(['TP-1']);
+        expect((await workspaceDb.getDependentTasks('TP-1')).map(t => t.id)).toEqual(['TP-2']);
+
+        await workspaceDb.removeTaskDependency('TP-2', 'TP-1');
+        expect(await workspaceDb.getTaskDependencies('TP-2')).toEqual([]);
+    });
+
+    it('should reject self-dependencies, unknown tasks and cycles', async () => {
+        await workspaceDb.addTaskDependency('TP-2', 'TP-1');
+        await workspaceDb.addTaskDependency('TP-3', 'TP-2');
+
+        await expect(workspaceDb.addTaskDependency('TP-1', 'TP-1')).rejects.toThrow('depend on itself');
+        await expect(workspaceDb.addTaskDependency('TP-1', 'TP-404')).rejects.toThrow('not found');
+        await expect(workspaceDb.addTaskDependency('TP-1', 'TP-3'))
+            .rejects.toThrow('Dependency cycle detected: TP-001 -> TP-003 -> TP-002 -> TP-001');
+    });
+
+    it('should block a task on an unfinished dependency and release it when done', async () => {
+        const blocked = await workspaceDb.addTaskDependency('TP-2', 'TP-1');
+        expect(blocked?.status).toBe('blocked');
+
+        await workspaceDb.updateTask('TP-1', { status: 'done' });
+        expect((await workspaceDb.getTask('TP-2'))?.status).toBe('backlog');
+    });
+
+    it('should stay blocked until every dependency is done', async () => {
+        await workspaceDb.setTaskDependencies('TP-3', ['TP-1', 'TP-2']);
+
+        await workspaceDb.updateTaskProgress('TP-1', 100);
+        expect((await workspaceDb.getTask('TP-3'))?.status).toBe('blocked');
+
+        await workspaceDb.updateTaskProgress('TP-2', 100);
+        expect((await workspaceDb.getTask('TP-3'))?.status).toBe('backlog');
+    });
+
+    it('should keep a task blocked on a dropped dependency', async () => {
+        await workspaceDb.addTaskDependency('TP-2', 'TP-1');
+        await workspaceDb.updateTask('TP-1', { status: 'dropped' });
+        expect((await workspaceDb.getTask('TP-2'))?.status).toBe('blocked');
+        expect((await workspaceDb.getFocusTasks()).readyToStart.map(t => t.id)).not.toContain('TP-2');
+
+        await workspaceDb.removeTaskDependency('TP-2', 'TP-1');
+        expect((await workspaceDb.getTask('TP-2'))?.status).toBe('backlog');
+    });
+
+    it('should keep tasks blocked by hand blocked', async () => {
+        await workspaceDb.updateTask('TP-1', { status: 'blocked' }, { source: 'rest', reason: 'Waiting on the design review' });
+        expect((await workspaceDb.syncBlockedStatus('TP-1'))?.status).toBe('blocked');
+
+        await workspaceDb.addTaskDependency('TP-1', 'TP-2');
+        await workspaceDb.removeTaskDependency('TP-1', 'TP-2');
+        expect((await workspaceDb.getTask('TP-1'))?.status).toBe('blocked');
+    });
+
+    it('should leave tasks in review untouched', async () => {
+        await workspaceDb.updateTask('TP-2', { status: 'review' });
+        const task = await workspaceDb.addTaskDependency('TP-2', 'TP-1');
+
+        expect(task?.status).toBe('review');
+    });
+
+    it('should drop edges to deleted tasks and unblock dependents', async () => {
+        await workspaceDb.addTaskDependency('TP-2', 'TP-1');
+        await workspaceDb.deleteTask('TP-1');
+
+        const task = await workspaceDb.getTask('TP-2');
+        expect(task?.dependencies).toEqual([]);
+        expect(task?.status).toBe('backlog');
+    });
+
+    it('should list ready-to-start tasks by priority and unblocking impact', async () => {
+        await workspaceDb.createTask({ id: 'TP-4', title: 'Docs', priority: 'low' });
+        await workspaceDb.addTaskDependency('TP-3', 'TP-2');
+        await workspaceDb.addTaskDependency('TP-2', 'TP-4');
+        await workspaceDb.updateTask('TP-1', { status: 'in-progress' });
+
+        const focus = await workspaceDb.getFocusTasks();
+        expect(focus.inProgress.map(t => t.id)).toEqual(['TP-1']);
+        expect(focus.readyToStart.map(t => t.id)).toEqual(['TP-4']);
+        expect(focus.blocked.map(t => t.id).sort()).toEqual(['TP-2', 'TP-3']);
+
+        await workspaceDb.updateTask('TP-4', { status: 'done' });
+        expect((await workspaceDb.getFocusTasks()).readyToStart.map(t => t.id)).toEqual(['TP-2']);
+    });
+});
+
+describe('taskpilot_update blocked_by', () => {
+    let globalDrizzle: DrizzleDatabaseManager;
+    let workspacePath: string;
+    let workspaceDb: WorkspaceDatabaseService;
+
+    beforeEach(async () => {
+        workspacePath = mkdtempSync(join(tmpdir(), 'taskpilot-dependencies-test-'));
+        globalDrizzle = new DrizzleDatabaseManager(':memory:', DatabaseType.GLOBAL);
+        await globalDrizzle.initialize();
+        await new SeedManager(globalDrizzle).initializeGlobalData();
+        await new GlobalDatabaseService(globalDrizzle).createWorkspace({ id: 'ws-1', path: workspacePath, name: 'Demo' });
+        workspaceDb = new WorkspaceDatabaseService(workspacePath, getWorkspaceDatabase(workspacePath));
+        await workspaceDb.initialize();
+
+        for (const [index, title] of ['Schema', 'API', 'UI'].entries()) {
+            await workspaceDb.createTask({ id: `task-${index + 1}`, title });
+        }
+    });
+
+    afterEach(async () => {
+        await getWorkspaceDatabase(workspacePath).close();
+        await globalDrizzle.close();
+        rmSync(workspacePath, { recursive: true, force: true });
+    });
+
+    const updateBlockedBy = (value: string) => new UpdateToolNew(globalDrizzle).execute({
+        stepId: 'confirm',
+        task_id: 'TP-003',
+        field: 'blocked_by',
+        value,
+        workspace_path: workspacePath
+    });
+
+    it('should add and remove several dependencies in one update', async () => {
+        await updateBlockedBy('TP-001, TP-002');
+        await updateBlockedBy('-TP-001');
+
+        expect((await workspaceDb.getTaskDependencies('TP-003')).map(task => task.taskKey)).toEqual(['TP-002']);
+    });
+
+    it('should leave the dependencies untouched when one ID is rejected', async () => {
+        const result = await updateBlockedBy('TP-001, TP-404');
+
+        expect(toToolOutput(ToolNames.UPDATE, result).success).toBe(false);
+        const task = await workspaceDb.getTask('TP-003');
+        expect(task?.dependencies).toEqual([]);
+        expect(task?.status).toBe('backlog');
+    });
+});
@@ -0,0 +1,93 @@
+/**
+ * Task Event Tests
+ *
+ * Covers the task_events audit trail: create/update/delete events,
+ * source and session attribution, and automatic changes.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DrizzleDatabaseManager, DatabaseType } from '../database/drizzle-connection.js';
+import { WorkspaceDatabaseService } from '../database/workspace-queries.js';
+
+describe('Task Events', () => {
+    let dbManager: DrizzleDatabaseManager;
+    let workspaceDb: WorkspaceDatabaseService;
+
+    beforeEach(async () => {
+        dbManager = new DrizzleDatabaseManager(':memory:', DatabaseType.WORKSPACE);
+        workspaceDb = new WorkspaceDatabaseService('/unused', dbManager);
+        await workspaceDb.initialize();
+    });
+
+    afterEach(async () => {
+        await dbManager.close();
+    });
+
+    it('should record creation with its source and session', async () => {
+        await workspaceDb.createTask(
+            { id: 'TP-1', title: 'Write docs' },
+            { source: 'mcp', sessionId: 'session-123' }
+        );
+
+        const [event] = await workspaceDb.getTaskEvents('TP-1');
+        expect(event).toMatchObject({
+            eventType: 'created',
+            newValue: 'Write docs',
+            source: 'mcp',
+            sessionId: 'session-123'
+        });
+    });
+
+    it('should record one event per changed field with old and new values', async () => {
+        await workspaceDb.createTask({ id: 'TP-1', title: 'Write docs' });
+        await workspaceDb.updateTask(
+            'TP-1',
+            { title: 'Write API docs', priority: 'high', notes: null },
+            { source: 'rest', reason: 'Scope clarified' }
+        );
+
+        const updates = (await workspaceDb.getTaskEvents('TP-1')).filter(e => e.eventType === 'updated');
+        expect(updates.map(e => [e.field, e.oldValue, e.newValue])).toEqual([
+            ['title', 'Write docs', 'Write API docs'],
+            ['priority', 'medium', 'high']
+        ]);
+        expect(updates.every(e => e.source === 'rest' && e.reason === 'Scope clarified')).toBe(true);
+    });
+
+    it('should keep history after the task is deleted', async () => {
+        await workspaceDb.createTask({ id: 'TP-1', title: 'Write docs' });
+        await workspaceDb.deleteTask('TP-1', { source: 'cli', reason: 'Duplicate' });
+
+        const events = await workspaceDb.getTaskEvents('TP-1');
+        expect(events.map(e => e.eventType)).toEqual(['created', 'deleted']);
+        expect(events[1]).toMatchObject({ oldValue: 'Write docs', source: 'cli', reason: 'Duplicate' });
+    });
+
+    it('should explain automatic status changes caused by dependencies', async () => {
+        await workspaceDb.createTask({ id: 'TP-1', title: 'Schema' });
+        await workspaceDb.createTask({ id: 'TP-2', title: 'API' });
+        await workspaceDb.addTaskDependency('TP-2', 'TP-1', { source: 'mcp', sessionId: 's-1' });
+        await workspaceDb.updateTask('TP-1', { status: 'done' }, { source: 'mcp', sessionId: 's-1' });
+
+        const statusEvents = (await workspaceDb.getTaskEvents('TP-2')).filter(e => e.field === 'status');
+        expect(statusEvents.map(e => [e.newValue, e.reason])).toEqual([
+            ['blocked', 'Waiting on TP-001'],
+            ['backlog', 'All dependencies resolved']
+        ]);
+        expect(statusEvents.every(e => e.sessionId === 's-1')).toBe(true);
+    });
+
+    it('should attribute unlabelled changes to the system', async () => {
+        await workspaceDb.createTask({ id: 'TP-1', title: 'Parent' });
+        await workspaceDb.createTask({ id: 'TP-2', title: 'Child', parentTaskId: 'TP-1' });
+        await workspaceDb.updateTaskProgress('TP-2', 60);
+
+        const rollup = (await workspaceDb.getTaskEvents('TP-1')).find(e => e.field === 'progress');
+        expect(rollup).toMatchObject({
+            oldValue: '0',
+            newValue: '60',
+            source: 'system',
+            reason: 'Progress rolled up from subtasks'
+        });
+    });
+});
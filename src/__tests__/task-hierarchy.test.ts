@@ -0,0 +1,118 @@
+/**
+ * Task Hierarchy Tests
+ *
+ * Covers parent/child task storage, tree queries and progress rollup
+ * in the workspace database.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { DrizzleDatabaseManager, DatabaseType } from '../database/drizzle-connection.js';
+import { WorkspaceDatabaseService } from '../database/workspace-queries.js';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+describe('Task Hierarchy', () => {
+    let dbManager: DrizzleDatabaseManager;
+    let workspaceDb: WorkspaceDatabaseService;
+
+    beforeEach(async () => {
+        dbManager = new DrizzleDatabaseManager(':memory:', DatabaseType.WORKSPACE);
+        workspaceDb = new WorkspaceDatabaseService('/unused', dbManager);
+        await workspaceDb.initialize();
+
+        await workspaceDb.createTask({ id: 'TP-1', title: 'Epic' });
+        await workspaceDb.createTask({ id: 'TP-2', title: 'Story A', parentTaskId: 'TP-1' });
+        await workspaceDb.createTask({ id: 'TP-3', title: 'Story B', parentTaskId: 'TP-1' });
+        await workspaceDb.createTask({ id: 'TP-4', title: 'Subtask of A', parentTaskId: 'TP-2' });
+    });
+
+    afterEach(async () => {
+        await dbManager.close();
+    });
+
+    it('should persist parent_task_id', async () => {
+        const task = await workspaceDb.getTask('TP-2');
+        expect(task?.parentTaskId).toBe('TP-1');
+    });
+
+    it('should return direct children, ancestors and full subtree', async () => {
+        const children = await workspaceDb.getChildTasks('TP-1');
+        expect(children.map(t => t.id).sort()).toEqual(['TP-2', 'TP-3']);
+
+        const ancestors = await workspaceDb.getTaskAncestors('TP-4');
+        expect(ancestors.map(t => t.id)).toEqual(['TP-2', 'TP-1']);
+
+        const subtree = await workspaceDb.getTaskSubtree('TP-1');
+        expect(subtree?.children).toHaveLength(2);
+        const storyA = subtree?.children.find(c => c.id === 'TP-2');
+        expect(storyA?.children.map(c => c.id)).toEqual(['TP-4']);
+    });
+
+    it('should build a forest of top-level tasks', async () => {
+        await workspaceDb.createTask({ id: 'TP-5', title: 'Standalone' });
+
+        const tree = await workspaceDb.getTaskTree();
+        expect(tree.map(t => t.id).sort()).toEqual(['TP-1', 'TP-5']);
+    });
+
+    it('should roll child progress up through all ancestors', async () => {
+        await workspaceDb.updateTask('TP-4', { progress: 50 });
+        expect((await workspaceDb.getTask('TP-2'))?.progress).toBe(50);
+        expect((await workspaceDb.getTask('TP-1'))?.progress).toBe(25);
+
+        await workspaceDb.updateTask('TP-3', { status: 'done' });
+        expect((await workspaceDb.getTask('TP-1'))?.progress).toBe(75);
+    });
+
+    it('should ignore dropped subtasks in rollup', async () => {
+        await workspaceDb.updateTask('TP-3', { status: 'dropped' });
+        await workspaceDb.updateTask('TP-4', { progress: 40 });
+
+        expect((await workspaceDb.getTask('TP-1'))?.progress).toBe(40);
+    });
+
+    it('should reject moving a task under its own subtask', async () => {
+        await expect(workspaceDb.setTaskParent('TP-1', 'TP-4')).rejects.toThrow('own subtask');
+        await expect(workspaceDb.setTaskParent('TP-1', 'TP-1')).rejects.toThrow('own parent');
+    });
+
+    it('should move subtasks up to the grandparent when a task is deleted', async () => {
+        await workspaceDb.deleteTask('TP-2');
+
+        const orphan = await workspaceDb.getTask('TP-4');
+        expect(orphan?.parentTaskId).toBe('TP-1');
+    });
+});
+
+describe('Task Hierarchy Migration', () => {
+    let testWorkspacePath: string;
+
+    beforeEach(() => {
+        testWorkspacePath = path.join(os.tmpdir(), `hierarchy-test-${Math.random().toString(36).substring(7)}`);
+        fs.mkdirSync(path.join(testWorkspacePath, '.taskpilot'), { recursive: true });
+    });
+
+    afterEach(() => {
+        fs.rmSync(testWorkspacePath, { recursive: true, force: true });
+    });
+
+    it('should add parent_task_id to databases created before the column existed', async () => {
+        const dbPath = path.join(testWorkspacePath, '.taskpilot', 'task.db');
+        const legacy = new Database(dbPath);
+        legacy.exec(`CREATE TABLE tasks (id TEXT PRIMARY KEY, title TEXT NOT NULL, description TEXT,
+            status TEXT DEFAULT 'backlog', priority TEXT DEFAULT 'medium', progress INTEGER DEFAULT 0,
+            dependencies TEXT DEFAULT '[]', notes TEXT, connected_files TEXT DEFAULT '[]',
+            github_issue_number INTEGER, github_url TEXT, created_at TEXT, updated_at TEXT, completed_at TEXT)`);
+        legacy.close();
+
+        const dbManager = new DrizzleDatabaseManager(dbPath, DatabaseType.WORKSPACE);
+        await dbManager.initialize();
+
+        const columns = dbManager.getSqlite().prepare('PRAGMA table_info(tasks)').all() as Array<{ name: string }>;
+        expect(columns.map(c => c.name)).toContain('parent_task_id');
+
+        await dbManager.close();
+    });
+});
@@ -0,0 +1,135 @@
+/**
+ * Task Key Tests
+ *
+ * Covers sequential per-workspace task keys (TP-001): assignment on create,
+ * lookup by key or UUID, backfill of legacy databases and key-based references.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DrizzleDatabaseManager, DatabaseType } from '../database/drizzle-connection.js';
+import { WorkspaceDatabaseService } from '../database/workspace-queries.js';
+import { normalizeTaskKey } from '../utils/task-keys.js';
+
+describe('Task Keys', () => {
+    let dbManager: DrizzleDatabaseManager;
+    let workspaceDb: WorkspaceDatabaseService;
+
+    beforeEach(async () => {
+        dbManager = new DrizzleDatabaseManager(':memory:', DatabaseType.WORKSPACE);
+        workspaceDb = new WorkspaceDatabaseService('/unused', dbManager);
+        await workspaceDb.initialize();
+    });
+
+    afterEach(async () => {
+        await dbManager.close();
+    });
+
+    it('should assign sequential keys alongside the UUID', async () => {
+        const first = await workspaceDb.createTask({ id: 'uuid-a', title: 'Schema' });
+        const second = await workspaceDb.createTask({ id: 'uuid-b', title: 'API' });
+
+        expect(first.taskKey).toBe('TP-001');
+        expect(second.taskKey).toBe('TP-002');
+        expect(second.id).toBe('uuid-b');
+    });
+
+    it('should not reuse keys of deleted tasks', async () => {
+        await workspaceDb.createTask({ id: 'uuid-a', title: 'Schema' });
+        await workspaceDb.deleteTask('TP-001');
+
+        const next = await workspaceDb.createTask({ id: 'uuid-b', title: 'API' });
+        expect(next.taskKey).toBe('TP-002');
+    });
+
+    it('should find tasks by UUID or key, ignoring case and padding', async () => {
+        await workspaceDb.createTask({ id: 'uuid-a', title: 'Schema' });
+
+        expect((await workspaceDb.getTask('uuid-a'))?.taskKey).toBe('TP-001');
+        expect((await workspaceDb.getTask('TP-001'))?.id).toBe('uuid-a');
+        expect((await workspaceDb.getTask('tp-1'))?.id).toBe('uuid-a');
+        expect(await workspaceDb.getTask('TP-002')).toBeNull();
+    });
+
+    it('should use the configured prefix for new keys', async () => {
+        await workspaceDb.setTaskKeyPrefix('WEB');
+        const task = await workspaceDb.createTask({ id: 'uuid-a', title: 'Landing page' });
+
+        expect(await workspaceDb.getTaskKeyPrefix()).toBe('WEB');
+        expect(task.taskKey).toBe('WEB-001');
+        await expect(workspaceDb.setTaskKeyPrefix('web-1')).rejects.toThrow('Invalid task key prefix: web-1');
+    });
+
+    it('should accept keys for updates, parents and dependencies while storing UUIDs', async () => {
+        await workspaceDb.createTask({ id: 'uuid-a', title: 'Schema' });
+        await workspaceDb.createTask({ id: 'uuid-b', title: 'API' });
+        const child = await workspaceDb.createTask({ id: 'uuid-c', title: 'Migrations', parentTaskId: 'TP-001' });
+
+        await workspaceDb.addTaskDependency('TP-002', 'tp-1');
+        await workspaceDb.updateTask('TP-002', { notes: 'Needs review' });
+
+        const api = await workspaceDb.getTask('uuid-b');
+        expect(child.parentTaskId).toBe('uuid-a');
+        expect(api?.dependencies).toEqual(['uuid-a']);
+        expect(api?.status).toBe('blocked');
+        expect(api?.notes).toBe('Needs review');
+        expect((await workspaceDb.getTaskEvents('TP-002')).length).toBeGreaterThan(0);
+    });
+
+    it('should normalize key input', () => {
+        expect(normalizeTaskKey(' tp-7 ')).toBe('TP-007');
+        expect(normalizeTaskKey('TP-1234')).toBe('TP-1234');
+        expect(normalizeTaskKey('3f2b9c1e-uuid')).toBe('3f2b9c1e-uuid');
+    });
+});
+
+describe('Task Key Backfill', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+        tempDir = mkdtempSync(join(tmpdir(), 'taskpilot-keys-'));
+    });
+
+    afterEach(() => {
+        rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should give existing tasks keys in creation order when upgrading', async () => {
+        const dbPath = join(tempDir, 'workspace.db');
+        const legacy = new Database(dbPath);
+        legacy.exec(`
+            CREATE TABLE tasks (
+                id TEXT PRIMARY KEY,
+                title TEXT NOT NULL,
+                description TEXT,
+                status TEXT DEFAULT 'backlog',
+                priority TEXT DEFAULT 'medium',
+                progress INTEGER DEFAULT 0,
+                dependencies TEXT DEFAULT '[]',
+                notes TEXT,
+                connected_files TEXT DEFAULT '[]',
+                github_issue_number INTEGER,
+                github_url TEXT,
+                created_at TEXT,
+                updated_at TEXT,
+                completed_at TEXT
+            );
+            INSERT INTO tasks (id, title, created_at) VALUES ('TP-555', 'Newer', '2024-02-01T00:00:00.000Z');
+            INSERT INTO tasks (id, title, created_at) VALUES ('TP-123', 'Older', '2024-01-01T00:00:00.000Z');
+        `);
+        legacy.close();
+
+        const dbManager = new DrizzleDatabaseManager(dbPath, DatabaseType.WORKSPACE);
+        const workspaceDb = new WorkspaceDatabaseService('/unused', dbManager);
+        await workspaceDb.initialize();
+
+        expect((await workspaceDb.getTask('TP-123'))?.taskKey).toBe('TP-001');
+        expect((await workspaceDb.getTask('TP-555'))?.taskKey).toBe('TP-002');
+        expect((await workspaceDb.createTask({ id: 'uuid-new', title: 'Next' })).taskKey).toBe('TP-003');
+
+        await dbManager.close();
+    });
+});
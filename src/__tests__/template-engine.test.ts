@@ -0,0 +1,111 @@
+/**
+ * Template Engine Tests
+ *
+ * Covers the sandboxed feedback step templates: expressions, filters,
+ * conditionals, loops, partials, unknown variable errors and compatibility
+ * with the seeded {{context.x}} templates.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TemplateEngine, TemplateError } from '../services/template-engine.js';
+import { GLOBAL_FEEDBACK_STEPS_SEED } from '../data/embedded-seed-data.js';
+
+describe('Template Engine', () => {
+    const engine = new TemplateEngine();
+
+    it('should substitute variables and apply filters', async () => {
+        const output = await engine.render(
+            '{{context.title | upper}} - {{context.notes | truncate(10)}} [{{context.labels | join(" / ")}}] {{context.owner | default("nobody")}}',
+            { context: { title: 'ship it', notes: 'a rather long note', labels: ['ui', 'api'] } }
+        );
+
+        expect(output).toBe('SHIP IT - a rathe... [ui / api] nobody');
+    });
+
+    it('should render conditionals and loops without leaving blank lines', async () => {
+        const template = [
+            '# Tasks',
+            '{{#each context.tasks as task}}',
+            '{{loop.number}}. {{task.title}}{{#if task.blocked}} (blocked){{/if}}',
+            '{{else}}',
+            'No tasks',
+            '{{/each}}',
+            '{{#if context.tasks.length > 1}}',
+            'Several tasks',
+            '{{else if context.tasks}}',
+            'One task',
+            '{{else}}',
+            'Nothing to do',
+            '{{/if}}'
+        ].join('\n');
+
+        expect(await engine.render(template, {
+            context: { tasks: [{ title: 'Parse', blocked: false }, { title: 'Render', blocked: true }] }
+        })).toBe('# Tasks\n1. Parse\n2. Render (blocked)\nSeveral tasks\n');
+        expect(await engine.render(template, { context: { tasks: [] } })).toBe('# Tasks\nNo tasks\nNothing to do\n');
+    });
+
+    it('should evaluate the expression forms used by seeded templates', async () => {
+        const template = "{{context.reason ? '**Reason:** ' + context.reason + '\\n' : ''}}"
+            + "{{context.items.map(item => '- ' + item.name + (item.done ? ' ✓' : '')).join('\\n')}}";
+
+        expect(await engine.render(template, {
+            context: { reason: 'cleanup', items: [{ name: 'a', done: true }, { name: 'b', done: false }] }
+        })).toBe('**Reason:** cleanup\n- a ✓\n- b');
+        expect(await engine.render("{{context.action | title}} {{context.action === 'list' && context.count === 0 ? 'none' : 'some'}}", {
+            context: { action: 'list', count: 0 }
+        })).toBe('List none');
+    });
+
+    it('should include partials and reject recursive ones', async () => {
+        const partials: Record<string, string> = {
+            header: '## {{context.workspace_name}}',
+            loop_a: '{{> loop_b}}',
+            loop_b: '{{> loop_a}}'
+        };
+        const resolvePartial = async (name: string) => partials[name];
+
+        expect(await engine.render('{{> header}}\nBody', { context: { workspace_name: 'Demo' } }, { resolvePartial }))
+            .toBe('## Demo\nBody');
+        await expect(engine.render('{{> loop_a}}', { context: {} }, { resolvePartial, name: 'main' }))
+            .rejects.toThrow('Partial "loop_a" includes itself (main -> loop_a -> loop_b -> loop_a)');
+        await expect(engine.render('{{> missing}}', { context: {} }, { resolvePartial }))
+            .rejects.toThrow('Unknown partial "missing" (line 1)');
+    });
+
+    it('should report unknown variables in strict mode and keep their tags otherwise', async () => {
+        const template = 'Task {{context.task_id}}\nBy {{context.owner.name}}';
+
+        await expect(engine.render(template, { context: { task_id: 'T-1' } }))
+            .rejects.toThrow('Unknown variable "context.owner" (line 2)');
+        expect(await engine.render(template, { context: { task_id: 'T-1' } }, { strict: false }))
+            .toBe('Task T-1\nBy {{context.owner.name}}');
+    });
+
+    it('should keep tags that do not parse as-is outside strict mode', async () => {
+        const template = 'Task {{context.task_id}}\n{{context.items.map(item => item.name + \'\\n\'\\n).join(\'\')}}\n{{#unless context.done}}';
+
+        await expect(engine.render(template, { context: { task_id: 'T-1' } })).rejects.toThrow(TemplateError);
+        expect(await engine.render(template, { context: { task_id: 'T-1' } }, { strict: false }))
+            .toBe('Task T-1\n{{context.items.map(item => item.name + \'\\n\'\\n).join(\'\')}}\n{{#unless context.done}}');
+        expect(await engine.render('Open {{context.task_id', { context: {} }, { strict: false })).toBe('Open {{context.task_id');
+    });
+
+    it('should keep templates sandboxed', async () => {
+        await expect(engine.render('{{context.constructor}}', { context: {} })).rejects.toThrow('Access to "constructor" is not allowed');
+        await expect(engine.render('{{context.title.replace("a", "b")}}', { context: { title: 'a' } }))
+            .rejects.toThrow('Method "replace" is not available on a string');
+        await expect(engine.render('{{process.exit()}}', { context: {} })).rejects.toThrow(TemplateError);
+        expect(() => engine.validate('{{#if context.a}}open')).toThrow('Unclosed {{#if}} (line 1)');
+        expect(() => engine.validate('{{context.a | shout}}')).toThrow('Unknown filter "shout"');
+    });
+
+    it('should parse and render every seeded feedback step', async () => {
+        for (const step of GLOBAL_FEEDBACK_STEPS_SEED) {
+            const { variables } = engine.getReferences(step.templateContent);
+            const output = await engine.render(step.templateContent, { context: {} }, { strict: false });
+            expect(typeof output, step.name).toBe('string');
+            expect(Array.isArray(variables)).toBe(true);
+        }
+    });
+});
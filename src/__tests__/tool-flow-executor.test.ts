@@ -1,9 +1,12 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { DrizzleDatabaseManager, DatabaseType } from '../database/drizzle-connection.js';
-import { GlobalDatabaseService } from '../database/global-queries.js';
+import { GlobalDatabaseService, toolFlowChanges, type ToolFlowChange } from '../database/global-queries.js';
+import { WorkspaceDatabaseService } from '../database/workspace-queries.js';
 import { SeedManager } from '../services/seed-manager.js';
 import { ToolFlowExecutor } from '../services/tool-flow-executor.js';
 import { StatusToolNew } from '../tools/status.js';
+import type { StepHandlerMap } from '../services/tool-flow-executor.js';
+import type { MultiStepToolInput, ToolStepResult } from '../types/index.js';
 
 describe('ToolFlowExecutor Service', () => {
   let drizzleDb: DrizzleDatabaseManager;
@@ -42,6 +45,43 @@ describe('ToolFlowExecutor Service', () => {
       expect(stepIds.length).toBeGreaterThan(0);
     });
 
+    it('should announce step writes and list the renamed step ID', async () => {
+      const toolFlow = await globalDbService.getToolFlowByName('taskpilot_status');
+      const [firstStep] = await globalDbService.getToolFlowSteps(toolFlow!.id);
+      const changes: ToolFlowChange[] = [];
+      const onChange = (change: ToolFlowChange) => changes.push(change);
+
+      toolFlowChanges.on('change', onChange);
+      try {
+        await globalDbService.updateToolFlowStep(firstStep.id, { metadata: { stepId: 'overview' } });
+      } finally {
+        toolFlowChanges.off('change', onChange);
+      }
+
+      expect(changes).toEqual([{ toolFlowId: toolFlow!.id }]);
+      expect(await flowExecutor.getStepIds('taskpilot_status')).toContain('overview');
+    });
+
+    it('should announce workspace tool flow writes', async () => {
+      const workspaceManager = new DrizzleDatabaseManager(':memory:', DatabaseType.WORKSPACE);
+      const workspaceDb = new WorkspaceDatabaseService('/unused', workspaceManager);
+      await workspaceDb.initialize();
+      const changes: ToolFlowChange[] = [];
+      const onChange = (change: ToolFlowChange) => changes.push(change);
+
+      toolFlowChanges.on('change', onChange);
+      try {
+        await workspaceDb.createWorkspaceToolFlow({ id: 'wtf_status', toolName: 'taskpilot_status' });
+        await workspaceDb.updateWorkspaceToolFlow('wtf_status', { description: 'Team status' });
+        await workspaceDb.deleteWorkspaceToolFlow('wtf_status');
+      } finally {
+        toolFlowChanges.off('change', onChange);
+        await workspaceManager.close();
+      }
+
+      expect(changes).toEqual([{ toolFlowId: 'wtf_status' }, { toolFlowId: 'wtf_status' }, { toolFlowId: 'wtf_status' }]);
+    });
+
     it('should validate step transitions', async () => {
       const isValid = await flowExecutor.validateStepTransition(
         'taskpilot_status',
@@ -155,4 +195,176 @@ describe('ToolFlowExecutor Service', () => {
       }
     });
   });
+
+  describe('Flow Runs', () => {
+    const calls: MultiStepToolInput[] = [];
+    const handlers: StepHandlerMap = {
+      initial: async (input) => {
+        calls.push(input);
+        return { isFinalStep: false, nextStepId: 'review', feedback: 'Collected draft', data: { draft: `${input.topic} draft` } };
+      },
+      review: async (input) => {
+        calls.push(input);
+        return { isFinalStep: false, nextStepId: 'publish', feedback: 'Reviewed', data: { reviewed: true } };
+      },
+      publish: async (input) => {
+        calls.push(input);
+        return { isFinalStep: true, feedback: 'Published', data: { published: true } };
+      }
+    };
+
+    beforeEach(async () => {
+      calls.length = 0;
+      await globalDbService.createToolFlow({ id: 'tf_test_runs', toolName: 'test_runs', isGlobal: true });
+      await globalDbService.createToolFlowStep({
+        id: 'step_test_review',
+        toolFlowId: 'tf_test_runs',
+        stepOrder: 1,
+        systemToolFn: 'review',
+        metadata: { timeout_minutes: 5 }
+      });
+      await globalDbService.createToolFlowStep({
+        id: 'step_test_publish',
+        toolFlowId: 'tf_test_runs',
+        stepOrder: 2,
+        systemToolFn: 'publish'
+      });
+    });
+
+    it('should start a run and resume it with only the run id', async () => {
+      const first = await flowExecutor.executeStep('test_runs', undefined, { workspace_path: '/ws', topic: 'Docs' }, handlers) as ToolStepResult;
+      const runId = first.data.run_id;
+      expect(runId).toBeDefined();
+      expect(first.feedback).toContain(`run_id="${runId}"`);
+
+      const run = await globalDbService.getFlowRun(runId);
+      expect(run).toMatchObject({ status: 'active', currentStep: 'review', lastStep: 'initial' });
+
+      const second = await flowExecutor.executeStep('test_runs', undefined, { run_id: runId }, handlers) as ToolStepResult;
+      expect(calls[1]).toMatchObject({ stepId: 'review', topic: 'Docs', draft: 'Docs draft', workspace_path: '/ws' });
+      expect(second.nextStepId).toBe('publish');
+
+      await flowExecutor.executeStep('test_runs', undefined, { run_id: runId }, handlers);
+      expect(await globalDbService.getFlowRun(runId)).toMatchObject({ status: 'completed', currentStep: null, lastStep: 'publish' });
+      await expect(flowExecutor.executeStep('test_runs', undefined, { run_id: runId }, handlers))
+        .rejects.toThrow('is completed');
+    });
+
+    it('should continue the active run of the same session when a later step is requested', async () => {
+      const origin = { source: 'mcp' as const, sessionId: 'session-1' };
+      const first = await flowExecutor.executeStep('test_runs', undefined, { topic: 'API', origin }, handlers) as ToolStepResult;
+      await flowExecutor.executeStep('test_runs', undefined, { topic: 'Other', origin: { source: 'mcp', sessionId: 'session-2' } }, handlers);
+
+      const second = await flowExecutor.executeStep('test_runs', 'review', { origin }, handlers) as ToolStepResult;
+      expect(second.data.run_id).toBe(first.data.run_id);
+      expect(calls[2]).toMatchObject({ topic: 'API', draft: 'API draft' });
+    });
+
+    it('should use the step timeout_minutes for expiry and reject expired runs', async () => {
+      const before = Date.now();
+      const first = await flowExecutor.executeStep('test_runs', undefined, { topic: 'Docs' }, handlers) as ToolStepResult;
+      const run = await globalDbService.getFlowRun(first.data.run_id);
+      const expiresIn = new Date(run!.expiresAt!).getTime() - before;
+      expect(expiresIn).toBeGreaterThanOrEqual(5 * 60_000);
+      expect(expiresIn).toBeLessThan(6 * 60_000);
+
+      await globalDbService.updateFlowRun(run!.id, { expiresAt: new Date(Date.now() - 1000).toISOString() });
+      await expect(flowExecutor.resumeInput({ run_id: run!.id })).rejects.toThrow('is expired');
+      expect((await globalDbService.getFlowRun(run!.id))?.status).toBe('expired');
+    });
+
+    it('should keep the run at the failed step so it can be retried', async () => {
+      const first = await flowExecutor.executeStep('test_runs', undefined, { topic: 'Docs' }, handlers) as ToolStepResult;
+      const failing: StepHandlerMap = {
+        ...handlers,
+        review: async () => ({ isFinalStep: true, feedback: 'Failed', data: { error: true } })
+      };
+
+      await flowExecutor.executeStep('test_runs', undefined, { run_id: first.data.run_id }, failing);
+      expect(await globalDbService.getFlowRun(first.data.run_id)).toMatchObject({ status: 'active', currentStep: 'review' });
+    });
+  });
+
+  describe('Conditional Branches', () => {
+    const handlers: StepHandlerMap = {
+      initial: async () => ({ isFinalStep: false, nextStepId: 'validate', feedback: 'Started' }),
+      validate: async (input) => ({
+        isFinalStep: false,
+        feedback: 'Validated',
+        data: { validation: { duplicates: input.duplicates ?? [], status: input.status ?? 'ok' } }
+      }),
+      create: async () => ({ isFinalStep: true, feedback: 'Created' }),
+      merge: async () => ({ isFinalStep: true, feedback: 'Merged' })
+    };
+
+    beforeEach(async () => {
+      await globalDbService.createToolFlow({ id: 'tf_test_branches', toolName: 'test_branches', isGlobal: true });
+      await globalDbService.createToolFlowStep({
+        id: 'step_branch_validate',
+        toolFlowId: 'tf_test_branches',
+        stepOrder: 1,
+        systemToolFn: 'validate',
+        metadata: {
+          branches: [
+            { when: { field: 'validation.status', operator: 'equals', value: 'rejected' }, next_step: 'end' },
+            { when: { field: 'validation.duplicates', operator: 'truthy' }, next_step: 'merge' }
+          ],
+          default_next_step: 'create'
+        }
+      });
+      await globalDbService.createToolFlowStep({ id: 'step_branch_merge', toolFlowId: 'tf_test_branches', stepOrder: 2, systemToolFn: 'merge' });
+      await globalDbService.createToolFlowStep({ id: 'step_branch_create', toolFlowId: 'tf_test_branches', stepOrder: 3, systemToolFn: 'create' });
+    });
+
+    it('should follow the first branch whose condition matches the step result', async () => {
+      const result = await flowExecutor.executeStep('test_branches', 'validate', { duplicates: ['TP-001'] }, handlers) as ToolStepResult;
+      expect(result.nextStepId).toBe('merge');
+      expect(result.feedback).toContain('stepId="merge"');
+    });
+
+    it('should use default_next_step when no branch matches', async () => {
+      const result = await flowExecutor.executeStep('test_branches', 'validate', {}, handlers) as ToolStepResult;
+      expect(result.nextStepId).toBe('create');
+
+      const run = await globalDbService.getFlowRun(result.data.run_id);
+      expect(run?.currentStep).toBe('create');
+    });
+
+    it('should finish the flow when a branch targets end', async () => {
+      const result = await flowExecutor.executeStep('test_branches', 'validate', { status: 'rejected', duplicates: ['TP-001'] }, handlers) as ToolStepResult;
+      expect(result.isFinalStep).toBe(true);
+      expect(result.nextStepId).toBeUndefined();
+      expect((await globalDbService.getFlowRun(result.data.run_id))?.status).toBe('completed');
+    });
+
+    it('should fall back to step order for steps without branches', async () => {
+      const steps: StepHandlerMap = { ...handlers, merge: async () => ({ isFinalStep: false, feedback: 'Merged' }) };
+      const result = await flowExecutor.executeStep('test_branches', 'merge', {}, steps) as ToolStepResult;
+      expect(result.nextStepId).toBe('create');
+    });
+
+    it('should reject branches that target unknown steps', async () => {
+      await globalDbService.updateToolFlowStep('step_branch_validate', {
+        metadata: { default_next_step: 'archive' }
+      });
+      await expect(flowExecutor.executeStep('test_branches', 'validate', {}, handlers))
+        .rejects.toThrow('Branch target "archive" of step validate is not a step in this flow');
+    });
+
+    it('should keep branch edits when the seed data is applied again', async () => {
+      const branching = { branches: [{ when: { field: 'validated', operator: 'falsy' }, next_step: 'end' }], default_next_step: 'create' };
+      await globalDbService.createWorkspace({ id: 'ws-1', path: '/ws', name: 'Workspace' });
+      const clone = await globalDbService.cloneToolFlow('tf_add_001', 'ws-1');
+      const [cloneStep] = await globalDbService.getToolFlowSteps(clone!.id);
+      await globalDbService.updateToolFlowStep(cloneStep.id, { metadata: { ...cloneStep.metadata as object, ...branching } });
+      await globalDbService.updateToolFlowStep('step_add_validate', { metadata: { stepId: 'validate', ...branching } });
+
+      await seedManager.initializeGlobalData();
+
+      const [reseededCloneStep] = await globalDbService.getToolFlowSteps(clone!.id);
+      expect(reseededCloneStep.metadata).toMatchObject(branching);
+      const [globalStep] = await globalDbService.getToolFlowSteps('tf_add_001');
+      expect(globalStep.metadata).toMatchObject(branching);
+    });
+  });
 });
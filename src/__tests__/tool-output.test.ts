@@ -0,0 +1,108 @@
+/**
+ * Structured Tool Output Tests
+ *
+ * Covers the structuredContent returned next to tool text: step state,
+ * the task a step acted on and step data, validated against the JSON
+ * outputSchema each tool advertises.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Ajv from 'ajv';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { ZodTypeAny } from 'zod';
+import { DrizzleDatabaseManager, DatabaseType, getWorkspaceDatabase } from '../database/drizzle-connection.js';
+import { GlobalDatabaseService } from '../database/global-queries.js';
+import { SeedManager } from '../services/seed-manager.js';
+import { AddToolNew, addToolOutputSchema } from '../tools/add.js';
+import { UpdateToolNew, updateToolOutputSchema } from '../tools/update.js';
+import { promptToolOutputSchema, toToolOutput, type ToolOutput } from '../tools/tool-output.js';
+import { ToolNames } from '../constants/tool-names.js';
+
+function expectValid(schema: ZodTypeAny, output: ToolOutput) {
+    const validate = new Ajv().compile(zodToJsonSchema(schema));
+    expect(validate(output), JSON.stringify(validate.errors)).toBe(true);
+}
+
+describe('Structured Tool Output', () => {
+    let globalDrizzle: DrizzleDatabaseManager;
+    let workspacePath: string;
+
+    beforeEach(async () => {
+        workspacePath = mkdtempSync(join(tmpdir(), 'taskpilot-output-test-'));
+        globalDrizzle = new DrizzleDatabaseManager(':memory:', DatabaseType.GLOBAL);
+        await globalDrizzle.initialize();
+        await new SeedManager(globalDrizzle).initializeGlobalData();
+        await new GlobalDatabaseService(globalDrizzle).createWorkspace({ id: 'ws-1', path: workspacePath, name: 'Demo' });
+    });
+
+    afterEach(async () => {
+        await getWorkspaceDatabase(workspacePath).close();
+        await globalDrizzle.close();
+        rmSync(workspacePath, { recursive: true, force: true });
+    });
+
+    it('should report the next step of an unfinished flow', async () => {
+        const result = await new AddToolNew(globalDrizzle).execute({
+            task_description: 'Write the changelog',
+            workspace_path: workspacePath
+        });
+        const output = toToolOutput(ToolNames.ADD, result);
+
+        expectValid(addToolOutputSchema, output);
+        expect(output.success).toBe(true);
+        expect(output.step).toMatchObject({ is_final_step: false, next_step_id: 'validate' });
+        expect(output.step?.run_id).toEqual(expect.any(String));
+        expect(output.task).toBeNull();
+        expect(output.data.task_description).toBe('Write the changelog');
+    });
+
+    it('should carry the created and updated task', async () => {
+        const addTool = new AddToolNew(globalDrizzle);
+        const created = toToolOutput(ToolNames.ADD, await addTool.execute({
+            stepId: 'create',
+            task_description: 'Write the changelog',
+            title: 'Changelog',
+            priority: 'High',
+            workspace_path: workspacePath
+        }));
+
+        expectValid(addToolOutputSchema, created);
+        expect(created.step).toMatchObject({ is_final_step: true, next_step_id: null });
+        expect(created.task).toMatchObject({ task_key: 'TP-001', title: 'Changelog', priority: 'high', status: 'backlog' });
+        expect(created.data).toMatchObject({ task_id: 'TP-001', created: true });
+        expect(created.data).not.toHaveProperty('run_id');
+
+        const updated = toToolOutput(ToolNames.UPDATE, await new UpdateToolNew(globalDrizzle).execute({
+            stepId: 'confirm',
+            task_id: 'TP-001',
+            field: 'status',
+            value: 'in-progress',
+            workspace_path: workspacePath
+        }));
+
+        expectValid(updateToolOutputSchema, updated);
+        expect(updated.task).toMatchObject({ id: created.task?.id, status: 'in-progress' });
+        expect(updated.data).toMatchObject({ update_applied: true, status: 'in-progress' });
+    });
+
+    it('should mark failed steps and prompt-only results', async () => {
+        const failed = toToolOutput(ToolNames.UPDATE, await new UpdateToolNew(globalDrizzle).execute({
+            stepId: 'confirm',
+            task_id: 'TP-404',
+            field: 'status',
+            value: 'done',
+            workspace_path: workspacePath
+        }));
+
+        expectValid(updateToolOutputSchema, failed);
+        expect(failed.success).toBe(false);
+        expect(failed.task).toBeNull();
+
+        const prompt = toToolOutput(ToolNames.START, { content: [{ type: 'text', text: 'Session started' }] });
+        expectValid(promptToolOutputSchema, prompt);
+        expect(prompt).toEqual({ tool: ToolNames.START, success: true, step: null, task: null, data: {} });
+    });
+});
@@ -0,0 +1,230 @@
+/**
+ * Trello Sync Tests
+ *
+ * Runs RemoteInterfaceManager and taskpilot_remote_interface against a local
+ * stand-in for Trello's REST API: list mapping in both directions, the
+ * activity filter of incremental syncs, which tasks go to a second board,
+ * the connection test, board discovery and syncs through the tool with
+ * progress and cancellation.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DrizzleDatabaseManager, DatabaseType, getWorkspaceDatabase } from '../database/drizzle-connection.js';
+import { DatabaseService } from '../services/database-service.js';
+import { SeedManager } from '../services/seed-manager.js';
+import { RemoteInterfaceManager } from '../services/remote-interface-manager.js';
+import { RemoteInterfaceTool } from '../tools/remote-interface.js';
+import type { TrelloCard, TrelloList } from '../services/trello-sync.js';
+import { ProgressReporter, type ProgressUpdate } from '../utils/progress.js';
+
+// Answered out of order; the sync sorts lists by position
+const LISTS: TrelloList[] = [
+    { id: 'list-done', name: 'Done', pos: 3 },
+    { id: 'list-todo', name: 'To Do', pos: 1 },
+    { id: 'list-doing', name: 'Doing', pos: 2 }
+];
+
+// Board b-2 has a single list
+const OPS_LISTS: TrelloList[] = [{ id: 'list-ops', name: 'To Do', pos: 1 }];
+const BOARD_LISTS: Record<string, TrelloList[]> = { 'b-1': LISTS, 'b-2': OPS_LISTS };
+
+const AUTHORIZATION = 'OAuth oauth_consumer_key="key", oauth_token="token"';
+
+/**
+ * Boards b-1 and b-2 with their lists and open cards kept in memory
+ */
+function createTrelloStandIn() {
+    const cards: TrelloCard[] = [];
+    let clock = 0;
+    const touch = (card: TrelloCard) => {
+        clock = Math.max(clock + 1, Date.now());
+        card.dateLastActivity = new Date(clock).toISOString();
+    };
+    const addCard = (name: string, idList: string) => {
+        const idShort = cards.length + 1;
+        const card: TrelloCard = {
+            id: `card-${idShort}`,
+            idShort,
+            name,
+            desc: '',
+            idList,
+            shortUrl: `https://trello.com/c/card${idShort}`,
+            dateLastActivity: ''
+        };
+        touch(card);
+        cards.push(card);
+        return card;
+    };
+
+    const server: Server = createServer(async (req, res) => {
+        let raw = '';
+        for await (const chunk of req) raw += chunk;
+        const body = raw ? JSON.parse(raw) : {};
+        const path = new URL(req.url ?? '/', 'http://localhost').pathname.replace(/^\/1/, '');
+        const send = (payload: unknown) => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(payload));
+        };
+
+        if (req.headers.authorization !== AUTHORIZATION) {
+            res.writeHead(401, { 'Content-Type': 'text/plain' });
+            return res.end('invalid token');
+        }
+        if (path === '/members/me') {
+            return send({ id: 'member-1', username: 'ada', fullName: 'Ada Lovelace' });
+        }
+        if (path === '/members/me/boards') {
+            return send([{ id: 'b-1', name: 'Roadmap', url: 'https://trello.com/b/b-1' }, { id: 'b-2', name: 'Ops', url: 'https://trello.com/b/b-2' }]);
+        }
+        const boardMatch = path.match(/^\/boards\/([^/]+)\/(lists|cards\/open)$/);
+        if (boardMatch) {
+            const lists = BOARD_LISTS[boardMatch[1]];
+            return send(boardMatch[2] === 'lists' ? lists : cards.filter(card => lists.some(list => list.id === card.idList)));
+        }
+        if (path === '/cards' && req.method === 'POST') {
+            const card = addCard(body.name, body.idList);
+            Object.assign(card, body);
+            return send(card);
+        }
+        const card = cards.find(candidate => path === `/cards/${candidate.id}`)!;
+        if (req.method === 'PUT') {
+            Object.assign(card, body);
+            touch(card);
+        }
+        return send(card);
+    });
+
+    return { server, cards, addCard, touch };
+}
+
+describe('Trello Sync', () => {
+    let globalDrizzle: DrizzleDatabaseManager;
+    let databaseService: DatabaseService;
+    let manager: RemoteInterfaceManager;
+    let workspacePath: string;
+    let trello: ReturnType<typeof createTrelloStandIn>;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+        workspacePath = mkdtempSync(join(tmpdir(), 'taskpilot-trello-sync-test-'));
+        globalDrizzle = new DrizzleDatabaseManager(':memory:', DatabaseType.GLOBAL);
+        await globalDrizzle.initialize();
+        await new SeedManager(globalDrizzle).initializeGlobalData();
+        databaseService = new DatabaseService(globalDrizzle);
+        await databaseService.getGlobal().createWorkspace({ id: 'ws-1', path: workspacePath, name: 'Docs' });
+        manager = new RemoteInterfaceManager(databaseService);
+
+        trello = createTrelloStandIn();
+        await new Promise<void>(resolve => trello.server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(trello.server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => trello.server.close(resolve));
+        await getWorkspaceDatabase(workspacePath).close();
+        await globalDrizzle.close();
+        rmSync(workspacePath, { recursive: true, force: true });
+    });
+
+    it('should map lists both ways and only import cards with new activity', async () => {
+        const workspaceDb = await databaseService.getWorkspace(workspacePath);
+        const localTask = await workspaceDb.createTask({ id: 'task-docs', title: 'Write docs', status: 'in-progress' });
+        await workspaceDb.createTask({ id: 'task-plan', title: 'Plan release' });
+        trello.addCard('Fix login', 'list-done');
+        trello.addCard('Triage', 'list-todo');
+        const remoteInterface = await manager.registerInterface('ws-1', 'trello', 'Trello', baseUrl, 'key:token', { projectId: 'b-1' });
+
+        const first = await manager.syncInterface('ws-1', remoteInterface.id);
+
+        expect(first).toMatchObject({ items_imported: 2, items_exported: 2, items_failed: 0, errors: [] });
+        const tasks = await workspaceDb.getAllTasks();
+        expect(tasks.find(task => task.title === 'Fix login')).toMatchObject({ status: 'done' });
+        expect(tasks.find(task => task.title === 'Triage')).toMatchObject({ status: 'backlog' });
+        expect(trello.cards.slice(2).map(card => [card.name, card.idList])).toEqual([
+            ['Write docs', 'list-doing'],
+            ['Plan release', 'list-todo']
+        ]);
+        expect(await workspaceDb.getRemoteTaskMappingByTask(remoteInterface.id, localTask.id))
+            .toMatchObject({ remoteId: 'card-3', remoteKey: '#3', remoteUrl: 'https://trello.com/c/card3' });
+
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await workspaceDb.updateTask(localTask.id, { status: 'done' });
+        trello.cards[0].idList = 'list-doing';
+        trello.touch(trello.cards[0]);
+
+        const second = await manager.syncInterface('ws-1', remoteInterface.id);
+
+        // Triage had no activity since the first sync
+        expect(second).toMatchObject({ items_imported: 0, items_exported: 0, items_updated: 2, items_failed: 0 });
+        expect(await workspaceDb.getTask(tasks.find(task => task.title === 'Fix login')!.id)).toMatchObject({ status: 'in-progress' });
+        expect(trello.cards[2].idList).toBe('list-done');
+    });
+
+    it('should not export tasks imported from another interface', async () => {
+        const workspaceDb = await databaseService.getWorkspace(workspacePath);
+        await workspaceDb.createTask({ id: 'task-docs', title: 'Write docs' });
+        trello.addCard('Fix login', 'list-todo');
+        const roadmap = await manager.registerInterface('ws-1', 'trello', 'Roadmap', baseUrl, 'key:token', { projectId: 'b-1' });
+        const ops = await manager.registerInterface('ws-1', 'trello', 'Ops', baseUrl, 'key:token', { projectId: 'b-2' });
+
+        expect(await manager.syncInterface('ws-1', roadmap.id)).toMatchObject({ items_imported: 1, items_exported: 1 });
+        expect(await manager.syncInterface('ws-1', ops.id)).toMatchObject({ items_imported: 0, items_exported: 1, errors: [] });
+
+        expect(trello.cards.filter(card => card.idList === 'list-ops').map(card => card.name)).toEqual(['Write docs']);
+    });
+
+    it('should test the connection and list boards through the tool', async () => {
+        const remoteInterface = await manager.registerInterface('ws-1', 'trello', 'Trello', `${baseUrl}/1`, 'key:token', { projectId: 'b-1' });
+        const tokenOnly = await manager.registerInterface('ws-1', 'trello', 'Trello (token only)', baseUrl, 'token');
+
+        expect(await manager.testConnection('ws-1', remoteInterface.id)).toEqual({
+            success: true,
+            info: { user: 'ada', name: 'Ada Lovelace' }
+        });
+        expect(await manager.testConnection('ws-1', tokenOnly.id)).toEqual({
+            success: false,
+            error: 'Trello API token must be "apiKey:token"'
+        });
+
+        const result = await new RemoteInterfaceTool(globalDrizzle).execute({
+            workspace_path: workspacePath,
+            interface_type: 'trello',
+            action: 'discover',
+            config: JSON.stringify({ interface_id: remoteInterface.id })
+        });
+
+        expect(result.isError).toBeFalsy();
+        expect(result.content[0].text).toBe(
+            'Trello can sync:\n- Roadmap: b-1 (synced)\n- Ops: b-2\n\nPick one with configure: {"project_id": "<id>"}.'
+        );
+        expect(result.stepResult?.data.projects).toHaveLength(2);
+    });
+
+    it('should sync through the tool, reporting progress until cancelled', async () => {
+        trello.addCard('Fix login', 'list-done');
+        trello.addCard('Triage', 'list-todo');
+        await manager.registerInterface('ws-1', 'trello', 'Trello', baseUrl, 'key:token', { projectId: 'b-1' });
+        const tool = new RemoteInterfaceTool(globalDrizzle);
+        const input = { workspace_path: workspacePath, interface_type: 'trello' as const, action: 'sync' as const };
+        const updates: ProgressUpdate[] = [];
+
+        const result = await tool.execute(input, new ProgressReporter(async update => { updates.push(update); }));
+
+        expect(result.isError).toBeFalsy();
+        expect(result.content[0].text).toBe('Trello synced: 2 imported, 0 exported, 0 updated, 0 conflicted, 0 failed.');
+        expect(updates[0]).toEqual({ progress: 1, total: 1, message: 'Loading interface configuration' });
+        expect(updates.length).toBeGreaterThan(2);
+
+        const controller = new AbortController();
+        controller.abort('User cancelled');
+        const cancelled = await tool.execute(input, new ProgressReporter(undefined, controller.signal));
+
+        expect(cancelled.isError).toBe(true);
+        expect(cancelled.content[0].text).toContain('Operation cancelled: User cancelled');
+    });
+});
@@ -0,0 +1,101 @@
+/**
+ * Variable Schema Tests
+ *
+ * Covers enforcing feedback step variableSchema as a JSON Schema for the
+ * render context: defaults, missing/invalid variable errors and rendering
+ * through PromptOrchestrator.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DrizzleDatabaseManager, DatabaseType } from '../database/drizzle-connection.js';
+import { GlobalDatabaseService } from '../database/global-queries.js';
+import { SeedManager } from '../services/seed-manager.js';
+import { PromptOrchestrator } from '../services/prompt-orchestrator.js';
+import { VariableSchemaValidator, FeedbackVariablesError } from '../services/variable-schema-validator.js';
+
+describe('Variable Schema', () => {
+    const validator = new VariableSchemaValidator();
+    const schema = {
+        type: 'object',
+        required: ['task_id', 'priority'],
+        properties: {
+            task_id: { type: 'string', description: 'Task key' },
+            priority: { type: 'string', enum: ['High', 'Medium', 'Low'] },
+            notes: { type: 'string', default: 'No notes' }
+        }
+    };
+
+    it('should fill declared defaults without touching the input', () => {
+        const input = { task_id: 'TP-1', priority: 'High' };
+        expect(validator.apply('step', schema, input)).toEqual({ task_id: 'TP-1', priority: 'High', notes: 'No notes' });
+        expect(input).not.toHaveProperty('notes');
+    });
+
+    it('should list every missing or invalid variable', () => {
+        try {
+            validator.apply('task_step', schema, { priority: 'Urgent', notes: 3 });
+            expect.fail('validation should fail');
+        } catch (error) {
+            expect(error).toBeInstanceOf(FeedbackVariablesError);
+            expect((error as FeedbackVariablesError).issues).toEqual([
+                { variable: 'task_id', problem: 'missing', message: 'task_id is required' },
+                { variable: 'priority', problem: 'invalid', message: 'priority should be equal to one of the allowed values' },
+                { variable: 'notes', problem: 'invalid', message: 'notes should be string' }
+            ]);
+        }
+    });
+
+    it('should describe declared variables, including shorthand schemas', () => {
+        expect(validator.getVariables(schema)).toEqual([
+            { name: 'task_id', type: 'string', description: 'Task key', required: true },
+            { name: 'priority', type: 'string', description: undefined, required: true },
+            { name: 'notes', type: 'string', description: undefined, required: false, default: 'No notes' }
+        ]);
+        expect(validator.getVariables({ reason: 'string' }).map(variable => variable.name)).toEqual(['reason']);
+        expect(validator.getVariables({})).toEqual([]);
+    });
+
+    describe('PromptOrchestrator', () => {
+        let drizzleDb: DrizzleDatabaseManager;
+        let globalDb: GlobalDatabaseService;
+        let orchestrator: PromptOrchestrator;
+
+        beforeEach(async () => {
+            drizzleDb = new DrizzleDatabaseManager(':memory:', DatabaseType.GLOBAL);
+            await drizzleDb.initialize();
+            globalDb = new GlobalDatabaseService(drizzleDb);
+            await globalDb.initialize();
+            await new SeedManager(drizzleDb).initializeGlobalData();
+            await globalDb.createWorkspace({ id: 'ws-1', path: '/ws', name: 'Workspace' });
+
+            const step = await globalDb.getFeedbackStepByName('task_creation_success');
+            await globalDb.updateFeedbackStep(step!.id, {
+                templateContent: 'Created {{context.task_id}} ({{context.priority}}) - {{context.notes}}',
+                variableSchema: schema
+            });
+            orchestrator = new PromptOrchestrator(drizzleDb);
+        });
+
+        afterEach(async () => {
+            await drizzleDb.close();
+        });
+
+        it('should render with schema defaults', async () => {
+            const result = await orchestrator.orchestratePrompt('taskpilot_add', 'ws-1', { task_id: 'TP-7', priority: 'Low' });
+            expect(result.prompt_text).toContain('Created TP-7 (Low) - No notes');
+        });
+
+        it('should render an unsaved feedback step for previews', async () => {
+            const result = await orchestrator.orchestratePrompt('taskpilot_add', 'ws-1', { task_description: 'Write docs' }, {
+                feedbackStep: { name: 'draft', templateContent: 'Draft for {{context.task_description | upper}}', variableSchema: {} }
+            });
+            expect(result.prompt_text).toContain('# Task Creation Workflow');
+            expect(result.prompt_text).toContain('Draft for WRITE DOCS');
+        });
+
+        it('should reject a render context that does not match the schema', async () => {
+            await expect(orchestrator.orchestratePrompt('taskpilot_add', 'ws-1', { priority: 'Low' }))
+                .rejects.toThrow('Feedback step "task_creation_success" has missing or invalid variables: task_id is required');
+        });
+    });
+});
@@ -0,0 +1,250 @@
+/**
+ * Webhook Tests
+ *
+ * Posts signed GitHub, Jira and Linear deliveries to the webhook router:
+ * signature checks, issue events becoming task changes through the
+ * interfaces' field mappings, redeliveries and events that are ignored.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createHmac } from 'crypto';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DrizzleDatabaseManager, DatabaseType, getWorkspaceDatabase } from '../database/drizzle-connection.js';
+import { DatabaseService } from '../services/database-service.js';
+import { SeedManager } from '../services/seed-manager.js';
+import { RemoteInterfaceManager } from '../services/remote-interface-manager.js';
+import { createWebhookRouter } from '../api/router.js';
+import type { WorkspaceDatabaseService } from '../database/workspace-queries.js';
+import type { ApiResponse, WebhookDeliveryResponse } from '../api/types.js';
+
+const SECRET = 'webhook-secret';
+
+const sign = (body: string, secret = SECRET) => createHmac('sha256', secret).update(body).digest('hex');
+
+function githubIssue(number: number, title: string, state: 'open' | 'closed' = 'open') {
+    return {
+        id: 5000 + number,
+        number,
+        title,
+        body: null,
+        state,
+        state_reason: state === 'closed' ? 'completed' : null,
+        labels: [{ name: 'priority: high' }],
+        html_url: `https://github.com/acme/docs/issues/${number}`,
+        updated_at: new Date().toISOString()
+    };
+}
+
+describe('Webhooks', () => {
+    let globalDrizzle: DrizzleDatabaseManager;
+    let manager: RemoteInterfaceManager;
+    let workspaceDb: WorkspaceDatabaseService;
+    let workspacePath: string;
+    let server: Server;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+        workspacePath = mkdtempSync(join(tmpdir(), 'taskpilot-webhooks-test-'));
+        globalDrizzle = new DrizzleDatabaseManager(':memory:', DatabaseType.GLOBAL);
+        await globalDrizzle.initialize();
+        await new SeedManager(globalDrizzle).initializeGlobalData();
+        const databaseService = new DatabaseService(globalDrizzle);
+        await databaseService.getGlobal().createWorkspace({ id: 'ws-1', path: workspacePath, name: 'Docs' });
+        workspaceDb = await databaseService.getWorkspace(workspacePath);
+        manager = new RemoteInterfaceManager(databaseService);
+
+        const app = express();
+        app.use('/webhooks', createWebhookRouter(databaseService));
+        server = await new Promise<Server>(resolve => {
+            const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+        });
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => server.close(resolve));
+        await getWorkspaceDatabase(workspacePath).close();
+        await globalDrizzle.close();
+        rmSync(workspacePath, { recursive: true, force: true });
+    });
+
+    async function deliver(path: string, payload: unknown, headers: Record<string, string>) {
+        const response = await fetch(`${baseUrl}/webhooks/${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: typeof payload === 'string' ? payload : JSON.stringify(payload)
+        });
+        return { status: response.status, body: await response.json() as ApiResponse<WebhookDeliveryResponse> };
+    }
+
+    /**
+     * Deliver a GitHub event signed with the given secret
+     */
+    function deliverGitHub(interfaceId: string, event: string, payload: unknown, deliveryId: string, secret = SECRET) {
+        const body = JSON.stringify(payload);
+        return deliver(`github/${interfaceId}`, body, {
+            'X-GitHub-Event': event,
+            'X-GitHub-Delivery': deliveryId,
+            'X-Hub-Signature-256': `sha256=${sign(body, secret)}`
+        });
+    }
+
+    async function registerGitHub() {
+        await workspaceDb.createGithubConfig({
+            id: 'gh-config',
+            repoUrl: 'https://github.com/acme/docs',
+            repoOwner: 'acme',
+            repoName: 'docs',
+            githubToken: 'ghp_test'
+        });
+        return manager.registerInterface('ws-1', 'github', 'acme/docs', 'https://api.github.com', 'ghp_test', { webhookSecret: SECRET });
+    }
+
+    it('should turn GitHub issue events into task changes once per delivery', async () => {
+        const { id } = await registerGitHub();
+        const repository = { full_name: 'acme/docs' };
+
+        const opened = await deliverGitHub(id, 'issues', { action: 'opened', issue: githubIssue(1, 'Fix the index'), repository }, 'd-1');
+        expect(opened.status).toBe(200);
+        expect(opened.body.data).toEqual({
+            delivery_id: 'd-1',
+            event: 'issues.opened',
+            status: 'processed',
+            items_imported: 1,
+            items_updated: 0,
+            items_conflicted: 0
+        });
+        const [task] = await workspaceDb.getAllTasks();
+        expect(task).toMatchObject({ title: 'Fix the index', status: 'backlog', priority: 'high', githubIssueNumber: 1 });
+
+        // Providers redeliver on timeouts; the task is not imported twice
+        const redelivered = await deliverGitHub(id, 'issues', { action: 'opened', issue: githubIssue(1, 'Fix the index'), repository }, 'd-1');
+        expect(redelivered.body.data?.status).toBe('duplicate');
+        expect(await workspaceDb.getAllTasks()).toHaveLength(1);
+
+        const closed = await deliverGitHub(id, 'issues', { action: 'closed', issue: githubIssue(1, 'Fix the index', 'closed'), repository }, 'd-2');
+        expect(closed.body.data).toMatchObject({ status: 'processed', items_updated: 1 });
+        expect((await workspaceDb.getTask(task.id))?.status).toBe('done');
+
+        // Comments, pull requests and other repositories don't touch tasks
+        const comment = await deliverGitHub(id, 'issue_comment', { action: 'created', issue: githubIssue(1, 'Fix the index'), repository }, 'd-3');
+        const pullRequest = await deliverGitHub(id, 'issues', {
+            action: 'opened',
+            issue: { ...githubIssue(2, 'Bump deps'), pull_request: {} },
+            repository
+        }, 'd-4');
+        const otherRepository = await deliverGitHub(id, 'issues', {
+            action: 'opened',
+            issue: githubIssue(3, 'Elsewhere'),
+            repository: { full_name: 'acme/site' }
+        }, 'd-5');
+        for (const ignored of [comment, pullRequest, otherRepository]) {
+            expect(ignored.body.data).toMatchObject({ status: 'ignored', items_imported: 0 });
+        }
+        expect(await workspaceDb.getAllTasks()).toHaveLength(1);
+    });
+
+    it('should reject deliveries that are not signed with the interface secret', async () => {
+        const { id } = await registerGitHub();
+        const payload = { action: 'opened', issue: githubIssue(1, 'Fix the index'), repository: { full_name: 'acme/docs' } };
+
+        const forged = await deliverGitHub(id, 'issues', payload, 'd-1', 'guessed');
+        expect(forged.status).toBe(401);
+        expect(forged.body.error?.code).toBe('UNAUTHORIZED');
+        const unsigned = await deliver(`github/${id}`, payload, { 'X-GitHub-Event': 'issues' });
+        expect(unsigned.status).toBe(401);
+        expect(await workspaceDb.getAllTasks()).toHaveLength(0);
+
+        const notJson = await deliver(`github/${id}`, 'not json', { 'X-Hub-Signature-256': `sha256=${sign('not json')}` });
+        expect(notJson.status).toBe(400);
+
+        // Interfaces of another provider, or without a secret, take no deliveries
+        expect((await deliverGitHub('ri_missing', 'issues', payload, 'd-2')).status).toBe(404);
+        expect((await deliver(`jira/${id}`, payload, {})).status).toBe(404);
+        expect((await deliver(`asana/${id}`, payload, {})).status).toBe(404);
+        const jira = await manager.registerInterface('ws-1', 'jira', 'Jira', 'http://127.0.0.1:1', 'token', { projectId: 'PROJ' });
+        const body = JSON.stringify({ webhookEvent: 'jira:issue_created' });
+        const noSecret = await deliver(`jira/${jira.id}`, body, { 'X-Hub-Signature': `sha256=${sign(body)}` });
+        expect(noSecret.status).toBe(401);
+    });
+
+    it('should map Jira and Linear issue events with the interface field mappings', async () => {
+        const jira = await manager.registerInterface('ws-1', 'jira', 'Jira', 'http://127.0.0.1:1', 'token', {
+            projectId: 'PROJ',
+            webhookSecret: SECRET
+        });
+        const jiraMappings = JSON.parse(jira.field_mappings).filter((mapping: any) => mapping.taskpilot_field !== 'status');
+        await manager.updateInterface('ws-1', jira.id, {
+            field_mappings: JSON.stringify([
+                ...jiraMappings,
+                { taskpilot_field: 'status', remote_field: 'status.name', transformation: 'custom', value_map: { 'Ready for QA': 'review' } }
+            ])
+        });
+        const deliverJira = (webhookEvent: string, statusName: string, deliveryId: string) => {
+            const body = JSON.stringify({
+                webhookEvent,
+                issue: {
+                    id: '10001',
+                    key: 'PROJ-1',
+                    fields: {
+                        summary: 'Crash on start',
+                        description: null,
+                        status: { name: statusName, statusCategory: { key: 'indeterminate' } },
+                        priority: { name: 'Highest' },
+                        project: { key: 'PROJ' },
+                        updated: new Date().toISOString()
+                    }
+                }
+            });
+            return deliver(`jira/${jira.id}`, body, {
+                'X-Atlassian-Webhook-Identifier': deliveryId,
+                'X-Hub-Signature': `sha256=${sign(body)}`
+            });
+        };
+
+        expect((await deliverJira('jira:issue_created', 'In Progress', 'j-1')).body.data?.items_imported).toBe(1);
+        expect((await deliverJira('jira:issue_updated', 'Ready for QA', 'j-2')).body.data?.items_updated).toBe(1);
+        const [jiraTask] = await workspaceDb.getAllTasks();
+        expect(jiraTask).toMatchObject({ title: 'Crash on start', status: 'review', priority: 'high' });
+
+        const linear = await manager.registerInterface('ws-1', 'linear', 'Linear', 'http://127.0.0.1:1', 'lin_api_test', {
+            projectId: 'team-eng',
+            webhookSecret: SECRET
+        });
+        const deliverLinear = (action: string, state: { name: string; type: string }, teamId = 'team-eng', updatedAt = new Date().toISOString()) => {
+            const body = JSON.stringify({
+                type: 'Issue',
+                action,
+                data: {
+                    id: 'lin-1',
+                    identifier: 'ENG-1',
+                    title: 'Ship webhooks',
+                    description: null,
+                    priority: 2,
+                    url: 'https://linear.app/acme/issue/ENG-1',
+                    updatedAt,
+                    teamId,
+                    state: { id: `st-${state.type}`, ...state }
+                }
+            });
+            return deliver(`linear/${linear.id}`, body, { 'Linear-Signature': sign(body) });
+        };
+
+        expect((await deliverLinear('create', { name: 'Todo', type: 'unstarted' })).body.data?.items_imported).toBe(1);
+        const closed = await deliverLinear('update', { name: 'Done', type: 'completed' });
+        expect(closed.body.data).toMatchObject({ event: 'Issue.update', status: 'processed', items_updated: 1 });
+        const linearTask = (await workspaceDb.getAllTasks()).find(task => task.id !== jiraTask.id);
+        expect(linearTask).toMatchObject({ title: 'Ship webhooks', status: 'done', priority: 'high' });
+
+        // Linear sends no delivery id with the body; an identical body is the same delivery
+        const updatedAt = new Date().toISOString();
+        expect((await deliverLinear('update', { name: 'Done', type: 'completed' }, 'team-eng', updatedAt)).body.data?.status).toBe('processed');
+        expect((await deliverLinear('update', { name: 'Done', type: 'completed' }, 'team-eng', updatedAt)).body.data?.status).toBe('duplicate');
+        expect((await deliverLinear('update', { name: 'Done', type: 'completed' }, 'team-ops')).body.data?.status).toBe('ignored');
+    });
+});
@@ -0,0 +1,88 @@
+/**
+ * Workspace Resource Tests
+ *
+ * Covers exposing workspace docs and tasks as taskpilot:// MCP resources:
+ * listing, reading, unknown URIs and change notifications for subscribers.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DrizzleDatabaseManager, DatabaseType, getWorkspaceDatabase } from '../database/drizzle-connection.js';
+import { DatabaseService } from '../services/database-service.js';
+import { WorkspaceResourceProvider, ResourceNotFoundError } from '../services/workspace-resources.js';
+
+describe('Workspace Resources', () => {
+    let globalDrizzle: DrizzleDatabaseManager;
+    let databaseService: DatabaseService;
+    let provider: WorkspaceResourceProvider;
+    let workspacePath: string;
+
+    beforeEach(async () => {
+        workspacePath = mkdtempSync(join(tmpdir(), 'taskpilot-resources-test-'));
+        mkdirSync(join(workspacePath, '.taskpilot'), { recursive: true });
+        writeFileSync(join(workspacePath, '.taskpilot', 'project.md'), '# Demo project\n');
+
+        globalDrizzle = new DrizzleDatabaseManager(':memory:', DatabaseType.GLOBAL);
+        await globalDrizzle.initialize();
+        databaseService = new DatabaseService(globalDrizzle);
+        await databaseService.getGlobal().createWorkspace({ id: 'ws-1', path: workspacePath, name: 'Demo' });
+        provider = new WorkspaceResourceProvider(databaseService);
+    });
+
+    afterEach(async () => {
+        await getWorkspaceDatabase(workspacePath).close();
+        await globalDrizzle.close();
+        rmSync(workspacePath, { recursive: true, force: true });
+    });
+
+    it('should list written docs and the task list of each workspace', async () => {
+        const uris = (await provider.listResources()).map(resource => resource.uri);
+        expect(uris).toEqual([
+            'taskpilot://workspaces/ws-1/docs/project.md',
+            'taskpilot://workspaces/ws-1/tasks'
+        ]);
+    });
+
+    it('should read docs, the task list and single tasks', async () => {
+        const workspaceDb = await databaseService.getWorkspace(workspacePath);
+        const task = await workspaceDb.createTask({ id: 'task-1', title: 'Write docs', priority: 'high' });
+
+        expect((await provider.readResource('taskpilot://workspaces/ws-1/docs/project.md')).text).toBe('# Demo project\n');
+
+        const list = JSON.parse((await provider.readResource('taskpilot://workspaces/ws-1/tasks')).text);
+        expect(list.tasks).toEqual([expect.objectContaining({ task_key: task.taskKey, title: 'Write docs', priority: 'high' })]);
+
+        const single = await provider.readResource(`taskpilot://workspaces/ws-1/tasks/${task.taskKey}`);
+        expect(single.mimeType).toBe('application/json');
+        expect(JSON.parse(single.text)).toMatchObject({ id: task.id, description: '' });
+    });
+
+    it('should reject unknown workspaces, paths and unwritten docs', async () => {
+        await expect(provider.readResource('taskpilot://workspaces/nope/tasks')).rejects.toThrow('Workspace not found');
+        await expect(provider.readResource('taskpilot://workspaces/ws-1/secrets')).rejects.toThrow(ResourceNotFoundError);
+        await expect(provider.readResource('taskpilot://workspaces/ws-1/docs/design.md')).rejects.toThrow('Document has not been written yet');
+    });
+
+    it('should report task changes to subscribers once per burst', async () => {
+        const workspaceDb = await databaseService.getWorkspace(workspacePath);
+        const task = await workspaceDb.createTask({ id: 'task-1', title: 'Write docs' });
+        const other = await workspaceDb.createTask({ id: 'task-2', title: 'Ship it' });
+
+        let listChanges = 0;
+        let taskChanges = 0;
+        const stopList = await provider.watch('taskpilot://workspaces/ws-1/tasks', () => listChanges++);
+        const stopTask = await provider.watch(`taskpilot://workspaces/ws-1/tasks/${task.taskKey}`, () => taskChanges++);
+
+        await workspaceDb.updateTask(task.id, { title: 'Write API docs', priority: 'high', progress: 50 });
+        await new Promise(resolve => setTimeout(resolve, 200));
+        await workspaceDb.updateTask(other.id, { status: 'in-progress' });
+        await new Promise(resolve => setTimeout(resolve, 200));
+        stopList();
+        stopTask();
+
+        expect(listChanges).toBe(2);
+        expect(taskChanges).toBe(1);
+    });
+});
@@ -1,15 +1,28 @@
 /**
  * Feedback Steps API Routes
  * GET /api/workspaces/{id}/feedback-steps - Get feedback steps for workspace
+ * POST /api/workspaces/{id}/feedback-steps/{stepId}/preview - Render a feedback step with a sample context
  */
 
 import { Request, Response } from 'express';
 import { DatabaseService } from '../services/database-service.js';
-import { FeedbackStepsResponse, FeedbackStep, WorkspaceRule, FeedbackStepsQueryParams } from './types.js';
-import { createSuccessResponse, createErrorResponse } from './middleware.js';
+import {
+  FeedbackStepsResponse,
+  FeedbackStep,
+  WorkspaceRule,
+  FeedbackStepsQueryParams,
+  FeedbackStepPreviewRequest,
+  FeedbackStepPreviewResponse
+} from './types.js';
+import { createSuccessResponse, createErrorResponse, NotFoundError, ValidationError } from './middleware.js';
 import { WorkspacesController } from './workspaces.js';
+import { VariableSchemaValidator } from '../services/variable-schema-validator.js';
+import { PromptOrchestrator } from '../services/prompt-orchestrator.js';
+import { TemplateError } from '../services/template-engine.js';
 
 export class FeedbackStepsController {
+  private variableSchemas = new VariableSchemaValidator();
+
   constructor(
     private databaseService: DatabaseService,
     private workspacesController: WorkspacesController
@@ -34,40 +47,24 @@ export class FeedbackStepsController {
       // Get global feedback steps if requested
       if (query.type === 'global' || query.type === 'all' || !query.type) {
         const globalStepsRaw = await this.databaseService.getGlobal().getGlobalFeedbackSteps();
-        globalSteps = globalStepsRaw.map((step: any) => ({
-          id: step.id,
-          name: step.name,
-          instructions: step.instructions,
-          metadata: step.metadata ? JSON.parse(step.metadata) : {},
-          created_at: step.created_at,
-          updated_at: step.updated_at
-        }));
+        globalSteps = globalStepsRaw.map(step => this.toFeedbackStep(step, true));
       }
 
       // Get workspace-specific feedback steps if requested
       if (query.type === 'workspace' || query.type === 'all' || !query.type) {
         try {
+          // Workspace steps stored in the global database (e.g. imported bundles) take
+          // precedence over same-named steps in the workspace database
+          const scopedSteps = await this.databaseService.getGlobal().getWorkspaceFeedbackSteps(workspace.id);
           const workspaceDb = await this.databaseService.getWorkspace(workspace.path);
           const workspaceStepsData = await workspaceDb.getAllWorkspaceFeedbackSteps();
 
-          workspaceSteps = workspaceStepsData.map((step: any) => {
-            let metadataObj = {};
-            if (step.metadata) {
-              try {
-                metadataObj = JSON.parse(step.metadata);
-              } catch (e) {
-                metadataObj = {};
-              }
-            }
-            return {
-              id: step.id,
-              name: step.name,
-              instructions: step.instructions,
-              metadata: metadataObj,
-              created_at: step.created_at,
-              updated_at: step.updated_at
-            };
-          });
+          workspaceSteps = [
+            ...scopedSteps.map(step => this.toFeedbackStep(step, false)),
+            ...workspaceStepsData
+              .filter(step => !scopedSteps.some(scoped => scoped.name === step.name))
+              .map(step => this.toFeedbackStep(step, false))
+          ];
         } catch (error) {
           // If workspace doesn't have feedback_steps table yet, return empty array
           console.warn(`No feedback steps table in workspace ${workspace.path}:`, error);
@@ -95,4 +92,124 @@ export class FeedbackStepsController {
       throw error;
     }
   }
+
+  /**
+   * POST /api/workspaces/{workspaceId}/feedback-steps/{stepId}/preview
+   * Render the prompt a tool would return with this feedback step, using a
+   * sample context as the tool arguments. template_content and variable_schema
+   * preview unsaved edits.
+   */
+  async previewFeedbackStep(req: Request, res: Response): Promise<void> {
+    const { workspaceId, stepId } = req.params;
+    const body: FeedbackStepPreviewRequest = req.body ?? {};
+
+    if (body.context !== undefined && (typeof body.context !== 'object' || body.context === null || Array.isArray(body.context))) {
+      throw new ValidationError('context must be an object');
+    }
+    if (body.template_content !== undefined && typeof body.template_content !== 'string') {
+      throw new ValidationError('template_content must be a string');
+    }
+
+    const workspace = await this.workspacesController.getWorkspaceById(workspaceId);
+    const globalDb = this.databaseService.getGlobal();
+
+    let step = await globalDb.getFeedbackStep(stepId);
+    if (step && !step.isGlobal && step.workspaceId !== workspace.id) {
+      step = null;
+    }
+    const feedbackStep = step ?? (await (await this.databaseService.getWorkspace(workspace.path)).getAllWorkspaceFeedbackSteps())
+      .find(candidate => candidate.id === stepId);
+    if (!feedbackStep) {
+      throw new NotFoundError(`Feedback step not found: ${stepId}`);
+    }
+
+    const toolName = body.tool_name || await this.findToolUsingStep(feedbackStep.name, workspace.id);
+    if (!toolName) {
+      throw new ValidationError(`No tool flow uses feedback step "${feedbackStep.name}"; pass tool_name to preview it`);
+    }
+    const toolFlow = await globalDb.getToolFlowByName(toolName, workspace.id) ?? await globalDb.getToolFlowByName(toolName);
+    if (!toolFlow) {
+      throw new NotFoundError(`Tool flow not found: ${toolName}`);
+    }
+
+    const args = body.context ?? {};
+    const orchestrator = new PromptOrchestrator(globalDb.getDrizzleManager());
+    try {
+      const result = await orchestrator.orchestratePrompt(toolName, workspace.id, args, {
+        feedbackStep: {
+          name: feedbackStep.name,
+          templateContent: body.template_content ?? feedbackStep.templateContent,
+          variableSchema: body.variable_schema ?? feedbackStep.variableSchema
+        }
+      });
+      const nextStepInstructions = await orchestrator.generateNextStepInstructions(
+        toolName,
+        typeof args.step === 'string' ? args.step : undefined,
+        workspace.id
+      );
+
+      const response: FeedbackStepPreviewResponse = {
+        tool_name: toolName,
+        feedback_step: feedbackStep.name,
+        prompt_text: result.prompt_text,
+        next_step_instructions: nextStepInstructions,
+        next_tool: result.next_tool ?? null,
+        prompt: `${result.prompt_text}\n\n${nextStepInstructions}`
+      };
+      res.json(createSuccessResponse(response));
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        throw new ValidationError(`Template error: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * First tool flow - workspace flows before global ones - that shows the step
+   * as its feedback step or as the feedback step of one of its steps
+   */
+  private async findToolUsingStep(name: string, workspaceId: string): Promise<string | null> {
+    const globalDb = this.databaseService.getGlobal();
+    const flows = [
+      ...await globalDb.getWorkspaceToolFlows(workspaceId),
+      ...await globalDb.getGlobalToolFlows()
+    ];
+    const flowLevel = flows.find(flow => flow.feedbackStepId === name);
+    if (flowLevel) {
+      return flowLevel.toolName;
+    }
+    for (const flow of flows) {
+      const steps = await globalDb.getToolFlowSteps(flow.id);
+      if (steps.some(step => step.feedbackStep === name)) {
+        return flow.toolName;
+      }
+    }
+    return null;
+  }
+
+  private toFeedbackStep(step: {
+    id: string;
+    name: string;
+    description: string | null;
+    templateContent: string;
+    variableSchema: unknown;
+    createdAt: string | null;
+    updatedAt: string | null;
+  }, isGlobal: boolean): FeedbackStep {
+    const variableSchema = (step.variableSchema ?? {}) as Record<string, any>;
+    return {
+      id: step.id,
+      name: step.name,
+      description: step.description ?? '',
+      instructions: step.templateContent,
+      template_content: step.templateContent,
+      variable_schema: variableSchema,
+      variables: this.variableSchemas.getVariables(variableSchema),
+      is_global: isGlobal,
+      metadata: {},
+      created_at: step.createdAt ?? '',
+      updated_at: step.updatedAt ?? ''
+    };
+  }
 }
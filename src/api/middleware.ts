@@ -4,6 +4,7 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { ApiResponse } from './types.js';
+import { FeedbackVariablesError } from '../services/variable-schema-validator.js';
 
 /**
  * Error response helper
@@ -53,6 +54,15 @@ export function errorHandler(
   } else if (error.name === 'BadRequestError') {
     statusCode = 400;
     errorResponse = createErrorResponse('BAD_REQUEST', error.message);
+  } else if (error.name === 'UnauthorizedError') {
+    statusCode = 401;
+    errorResponse = createErrorResponse('UNAUTHORIZED', error.message);
+  } else if (error instanceof FeedbackVariablesError) {
+    statusCode = 422;
+    errorResponse = createErrorResponse('INVALID_VARIABLES', error.message, {
+      feedback_step: error.feedbackStep,
+      issues: error.issues
+    });
   }
 
   res.status(statusCode).json(errorResponse);
@@ -211,3 +221,10 @@ export class BadRequestError extends Error {
     this.name = 'BadRequestError';
   }
 }
+
+export class UnauthorizedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnauthorizedError';
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Remote Interfaces API Routes
+ * POST /api/workspaces/{id}/remote-interfaces/{interfaceId}/sync - Sync tasks with a remote interface
+ * GET /api/workspaces/{id}/remote-interfaces/{interfaceId}/sync-runs - List the interface's sync runs
+ * GET /api/workspaces/{id}/sync-conflicts - List the sync conflict review queue
+ * POST /api/workspaces/{id}/sync-conflicts/{conflictId}/resolve - Keep the local or remote side of a conflict
+ */
+
+import { Request, Response } from 'express';
+import { DatabaseService } from '../services/database-service.js';
+import { RemoteInterfaceManager, SyncResult } from '../services/remote-interface-manager.js';
+import { createSuccessResponse, NotFoundError, ValidationError } from './middleware.js';
+import { WorkspacesController } from './workspaces.js';
+import type { SyncConflict as SyncConflictRow, SyncRun as SyncRunRow, Task } from '../database/schema/workspace-schema.js';
+import type { SyncConflict, SyncConflictsResponse, ResolveSyncConflictRequest, SyncRun, SyncRunsResponse } from './types.js';
+
+const CONFLICT_STATUSES = ['open', 'resolved'] as const;
+const RESOLUTIONS = ['local', 'remote'] as const;
+
+/**
+ * Map a sync conflict row and its task to the API shape
+ */
+function mapConflictToApi(conflict: SyncConflictRow, task: Task | null): SyncConflict {
+  return {
+    id: conflict.id,
+    interface_id: conflict.interfaceId,
+    task_id: conflict.taskId,
+    task_key: task?.taskKey ?? null,
+    task_title: task?.title ?? null,
+    remote_key: conflict.remoteKey,
+    local_values: conflict.localValues,
+    remote_values: conflict.remoteValues,
+    remote_updated_at: conflict.remoteUpdatedAt ?? null,
+    status: conflict.status,
+    resolution: conflict.resolution ?? null,
+    created_at: conflict.createdAt ?? '',
+    updated_at: conflict.updatedAt ?? '',
+    resolved_at: conflict.resolvedAt ?? null
+  };
+}
+
+/**
+ * Map a sync run row to the API shape
+ */
+function mapSyncRunToApi(run: SyncRunRow): SyncRun {
+  return {
+    id: run.id,
+    interface_id: run.interfaceId,
+    trigger: run.trigger,
+    status: run.status,
+    items_imported: run.itemsImported ?? 0,
+    items_exported: run.itemsExported ?? 0,
+    items_updated: run.itemsUpdated ?? 0,
+    items_failed: run.itemsFailed ?? 0,
+    items_conflicted: run.itemsConflicted ?? 0,
+    errors: run.errors ?? [],
+    started_at: run.startedAt,
+    finished_at: run.finishedAt ?? null
+  };
+}
+
+export class RemoteInterfacesController {
+  private remoteInterfaces: RemoteInterfaceManager;
+
+  constructor(
+    private databaseService: DatabaseService,
+    private workspacesController: WorkspacesController
+  ) {
+    this.remoteInterfaces = new RemoteInterfaceManager(databaseService);
+  }
+
+  /**
+   * POST /api/workspaces/{workspaceId}/remote-interfaces/{interfaceId}/sync
+   * Import, export and update tasks as configured for the interface. Errors
+   * of single items are reported in the result instead of failing the request.
+   */
+  async syncInterface(req: Request, res: Response): Promise<void> {
+    const { workspaceId, interfaceId } = req.params;
+    const workspace = await this.workspacesController.getWorkspaceById(workspaceId);
+
+    const remoteInterface = await this.remoteInterfaces.getInterface(workspace.id, interfaceId);
+    if (!remoteInterface) {
+      throw new NotFoundError(`Remote interface not found: ${interfaceId}`);
+    }
+    if (!remoteInterface.sync_enabled) {
+      throw new ValidationError(`Synchronization is disabled for remote interface ${interfaceId}`);
+    }
+
+    const result: SyncResult = await this.remoteInterfaces.syncInterface(workspace.id, interfaceId);
+    res.json(createSuccessResponse(result));
+  }
+
+  /**
+   * GET /api/workspaces/{workspaceId}/remote-interfaces/{interfaceId}/sync-runs?limit=50
+   * Scheduled and manual syncs of the interface, newest first
+   */
+  async getSyncRuns(req: Request, res: Response): Promise<void> {
+    const { workspaceId, interfaceId } = req.params;
+    const limit = req.query.limit !== undefined ? Number(req.query.limit) : 50;
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new ValidationError('limit must be a positive integer');
+    }
+    const workspace = await this.workspacesController.getWorkspaceById(workspaceId);
+
+    const remoteInterface = await this.remoteInterfaces.getInterface(workspace.id, interfaceId);
+    if (!remoteInterface) {
+      throw new NotFoundError(`Remote interface not found: ${interfaceId}`);
+    }
+
+    const runs = await this.remoteInterfaces.getSyncRuns(workspace.id, interfaceId, Math.min(limit, 200));
+    const response: SyncRunsResponse = {
+      runs: runs.map(mapSyncRunToApi),
+      total: runs.length
+    };
+    res.json(createSuccessResponse(response));
+  }
+
+  /**
+   * GET /api/workspaces/{workspaceId}/sync-conflicts?status=open
+   * Conflicts found by bidirectional syncs, newest first
+   */
+  async getConflicts(req: Request, res: Response): Promise<void> {
+    const { workspaceId } = req.params;
+    const status = req.query.status as string | undefined;
+    if (status !== undefined && !(CONFLICT_STATUSES as readonly string[]).includes(status)) {
+      throw new ValidationError(`status must be one of: ${CONFLICT_STATUSES.join(', ')}`);
+    }
+    const workspace = await this.workspacesController.getWorkspaceById(workspaceId);
+
+    const conflicts = await this.remoteInterfaces.getConflicts(workspace.id, status as SyncConflictRow['status'] | undefined);
+    const response: SyncConflictsResponse = {
+      conflicts: await this.withTasks(workspace.path, conflicts),
+      total: conflicts.length
+    };
+    res.json(createSuccessResponse(response));
+  }
+
+  /**
+   * POST /api/workspaces/{workspaceId}/sync-conflicts/{conflictId}/resolve
+   * Keep the local or the remote values of a task in the review queue
+   */
+  async resolveConflict(req: Request, res: Response): Promise<void> {
+    const { workspaceId, conflictId } = req.params;
+    const { resolution } = (req.body ?? {}) as Partial<ResolveSyncConflictRequest>;
+    if (!resolution || !RESOLUTIONS.includes(resolution)) {
+      throw new ValidationError(`resolution must be one of: ${RESOLUTIONS.join(', ')}`);
+    }
+    const workspace = await this.workspacesController.getWorkspaceById(workspaceId);
+
+    const conflict = await this.remoteInterfaces.getConflict(workspace.id, conflictId);
+    if (!conflict) {
+      throw new NotFoundError(`Sync conflict not found: ${conflictId}`);
+    }
+    if (conflict.status !== 'open') {
+      throw new ValidationError(`Sync conflict ${conflictId} is already resolved`);
+    }
+
+    const resolved = await this.remoteInterfaces.resolveConflict(workspace.id, conflictId, resolution);
+    const [response] = await this.withTasks(workspace.path, [resolved]);
+    res.json(createSuccessResponse(response));
+  }
+
+  private async withTasks(workspacePath: string, conflicts: SyncConflictRow[]): Promise<SyncConflict[]> {
+    const workspaceDb = await this.databaseService.getWorkspace(workspacePath);
+    return Promise.all(conflicts.map(async conflict => mapConflictToApi(conflict, await workspaceDb.getTask(conflict.taskId))));
+  }
+}
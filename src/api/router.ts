@@ -3,12 +3,14 @@
  * Combines all API controllers and sets up routes
  */
 
-import { Router, Request, Response } from 'express';
+import express, { Router, Request, Response } from 'express';
 import { DatabaseService } from '../services/database-service.js';
 import { WorkspacesController } from './workspaces.js';
 import { TasksController } from './tasks.js';
 import { ToolFlowsController } from './tool-flows.js';
 import { FeedbackStepsController } from './feedback-steps.js';
+import { RemoteInterfacesController } from './remote-interfaces.js';
+import { WebhooksController } from './webhooks.js';
 import { 
   errorHandler, 
   notFoundHandler, 
@@ -30,6 +32,7 @@ export function createApiRouter(databaseService: DatabaseService): Router {
   const tasksController = new TasksController(databaseService, workspacesController);
   const toolFlowsController = new ToolFlowsController(databaseService, workspacesController);
   const feedbackStepsController = new FeedbackStepsController(databaseService, workspacesController);
+  const remoteInterfacesController = new RemoteInterfacesController(databaseService, workspacesController);
 
   // Apply middleware
   router.use(corsHandler);
@@ -134,6 +137,129 @@ router.post(
     }
   });
 
+  // 7. Task dependency graph
+  router.get('/workspaces/:workspaceId/tasks/:taskId/dependencies', readRateLimit, validateWorkspaceId, validateTaskId, async (req, res, next) => {
+    try {
+      await tasksController.getTaskDependencies(req, res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.post('/workspaces/:workspaceId/tasks/:taskId/dependencies', writeRateLimit, validateWorkspaceId, validateTaskId, async (req, res, next) => {
+    try {
+      await tasksController.addTaskDependency(req, res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.delete('/workspaces/:workspaceId/tasks/:taskId/dependencies/:dependsOnId', writeRateLimit, validateWorkspaceId, validateTaskId, async (req, res, next) => {
+    try {
+      await tasksController.removeTaskDependency(req, res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // 8. GET /api/workspaces/{id}/tasks/{taskId}/history - Task change history
+  router.get('/workspaces/:workspaceId/tasks/:taskId/history', readRateLimit, validateWorkspaceId, validateTaskId, async (req, res, next) => {
+    try {
+      await tasksController.getTaskHistory(req, res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // 9. PUT /api/workspaces/{id}/tool-flows/{flowId}/steps/{stepId}/branches - Conditional step branches
+  router.put('/workspaces/:workspaceId/tool-flows/:flowId/steps/:stepId/branches', writeRateLimit, validateWorkspaceId, async (req, res, next) => {
+    try {
+      await toolFlowsController.updateStepBranches(req, res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // 10. Tool flow bundles - export/import flows with their steps and feedback steps
+  router.get('/workspaces/:workspaceId/tool-flows/export', readRateLimit, validateWorkspaceId, async (req, res, next) => {
+    try {
+      await toolFlowsController.exportToolFlows(req, res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.post('/workspaces/:workspaceId/tool-flows/import', writeRateLimit, validateWorkspaceId, async (req, res, next) => {
+    try {
+      await toolFlowsController.importToolFlows(req, res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // 11. POST /api/tool-flows/validate - Lint a stored or unsaved tool flow
+  router.post('/tool-flows/validate', readRateLimit, async (req, res, next) => {
+    try {
+      await toolFlowsController.validateToolFlow(req, res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // 12. POST /api/workspaces/{id}/feedback-steps/{stepId}/preview - Render a feedback step with a sample context
+  router.post('/workspaces/:workspaceId/feedback-steps/:stepId/preview', readRateLimit, validateWorkspaceId, async (req, res, next) => {
+    try {
+      await feedbackStepsController.previewFeedbackStep(req, res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // 13. POST /api/workspaces/{id}/remote-interfaces/{interfaceId}/sync - Sync tasks with a remote interface
+  router.post('/workspaces/:workspaceId/remote-interfaces/:interfaceId/sync', writeRateLimit, validateWorkspaceId, async (req, res, next) => {
+    try {
+      await remoteInterfacesController.syncInterface(req, res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // 14. GET /api/workspaces/{id}/sync-conflicts - List the sync conflict review queue
+  router.get('/workspaces/:workspaceId/sync-conflicts', readRateLimit, validateWorkspaceId, async (req, res, next) => {
+    try {
+      await remoteInterfacesController.getConflicts(req, res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // 15. POST /api/workspaces/{id}/sync-conflicts/{conflictId}/resolve - Resolve a sync conflict
+  router.post('/workspaces/:workspaceId/sync-conflicts/:conflictId/resolve', writeRateLimit, validateWorkspaceId, async (req, res, next) => {
+    try {
+      await remoteInterfacesController.resolveConflict(req, res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // 16. GET /api/workspaces/{id}/remote-interfaces/{interfaceId}/sync-runs - List the sync-run log of a remote interface
+  router.get('/workspaces/:workspaceId/remote-interfaces/:interfaceId/sync-runs', readRateLimit, validateWorkspaceId, async (req, res, next) => {
+    try {
+      await remoteInterfacesController.getSyncRuns(req, res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // 17. PUT /api/workspaces/{id}/task-key-prefix - Change the prefix of new task keys
+  router.put('/workspaces/:workspaceId/task-key-prefix', writeRateLimit, validateWorkspaceId, async (req, res, next) => {
+    try {
+      await workspacesController.updateTaskKeyPrefix(req, res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Error handling middleware
   router.use(notFoundHandler);
   router.use(errorHandler);
@@ -141,6 +267,35 @@ router.post(
   return router;
 }
 
+/**
+ * Create the router of inbound provider webhooks. It reads request bodies
+ * itself: signatures are computed over the raw body.
+ */
+export function createWebhookRouter(databaseService: DatabaseService): Router {
+  const router = Router();
+  const webhooksController = new WebhooksController(databaseService);
+
+  router.use(requestLogger);
+  router.use(express.raw({ type: '*/*', limit: '5mb' }));
+
+  // Providers send bursts of deliveries for bulk edits
+  const webhookRateLimit = rateLimit(300, 60 * 1000); // 300 requests per minute
+
+  // POST /webhooks/{provider}/{interfaceId} - Receive issue events from GitHub, Jira or Linear
+  router.post('/:provider/:interfaceId', webhookRateLimit, async (req, res, next) => {
+    try {
+      await webhooksController.receive(req, res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.use(notFoundHandler);
+  router.use(errorHandler);
+
+  return router;
+}
+
 /**
  * SSE Event Manager
  * Manages Server-Sent Events for real-time updates
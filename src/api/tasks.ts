@@ -3,14 +3,82 @@
  * GET /api/workspaces/{id}/tasks - Get tasks for workspace
  * POST /api/workspaces/{id}/tasks - Create new task
  * PUT /api/workspaces/{id}/tasks/{taskId} - Update task
+ * GET /api/workspaces/{id}/tasks/{taskId}/dependencies - Get task dependencies
+ * POST /api/workspaces/{id}/tasks/{taskId}/dependencies - Add a dependency
+ * DELETE /api/workspaces/{id}/tasks/{taskId}/dependencies/{dependsOnId} - Remove a dependency
+ * GET /api/workspaces/{id}/tasks/{taskId}/history - Get task change history
+ *
+ * {taskId} accepts either the task UUID or its key (e.g. TP-001).
  */
 
 import { Request, Response } from 'express';
 import { DatabaseService } from '../services/database-service.js';
-import { TasksResponse, Task, CreateTaskRequest, UpdateTaskRequest, TasksQueryParams } from './types.js';
+import {
+  TasksResponse,
+  Task,
+  CreateTaskRequest,
+  UpdateTaskRequest,
+  TasksQueryParams,
+  AddTaskDependencyRequest,
+  TaskDependenciesResponse,
+  TaskHistoryEvent,
+  TaskHistoryResponse
+} from './types.js';
 import { createSuccessResponse, createErrorResponse, NotFoundError, ValidationError } from './middleware.js';
 import { WorkspacesController } from './workspaces.js';
 import { v4 as uuidv4 } from 'uuid';
+import type { Task as DbTask, NewTask, TaskEvent } from '../database/schema/workspace-schema.js';
+import type { TaskChangeContext } from '../database/workspace-queries.js';
+
+/**
+ * Map a workspace database task row to the API task shape
+ */
+function mapTaskDbToApi(task: DbTask): Task {
+  return {
+    id: task.id,
+    task_key: task.taskKey ?? null,
+    title: task.title,
+    description: task.description ?? '',
+    priority: (task.priority ?? 'medium') as Task['priority'],
+    status: (task.status ?? 'backlog') as Task['status'],
+    progress: task.progress ?? 0,
+    parent_task_id: task.parentTaskId ?? null,
+    blocked_by_task_id: null,
+    dependencies: Array.isArray(task.dependencies) ? task.dependencies as string[] : [],
+    connected_files: Array.isArray(task.connectedFiles) ? task.connectedFiles as string[] : [],
+    notes: task.notes ?? null,
+    github_issue_number: task.githubIssueNumber ?? null,
+    github_url: task.githubUrl ?? null,
+    created_at: task.createdAt ?? '',
+    updated_at: task.updatedAt ?? '',
+    completed_at: task.completedAt ?? null
+  };
+}
+
+/**
+ * Map a task event row to the API history shape
+ */
+function mapTaskEventToApi(event: TaskEvent): TaskHistoryEvent {
+  return {
+    id: event.id,
+    task_id: event.taskId,
+    event_type: event.eventType,
+    field: event.field ?? null,
+    old_value: event.oldValue ?? null,
+    new_value: event.newValue ?? null,
+    reason: event.reason ?? null,
+    source: event.source ?? 'system',
+    session_id: event.sessionId ?? null,
+    created_at: event.createdAt ?? ''
+  };
+}
+
+/**
+ * Audit context for changes made through the REST API
+ */
+function restContext(reason?: string): TaskChangeContext {
+  return { source: 'rest', reason: reason?.trim() || null };
+}
 
 export class TasksController {
   constructor(
@@ -36,25 +104,7 @@ export class TasksController {
       const workspaceDb = await this.databaseService.getWorkspace(workspace.path);
       const tasks = await workspaceDb.getTasksPaginated(query.status, limit, offset);
       const total = await workspaceDb.countTasks(query.status);
-      const transformedTasks: Task[] = tasks.map((task: any) => ({
-        id: task.id,
-        title: task.title,
-        description: task.description,
-        priority: task.priority,
-        status: task.status,
-        progress: task.progress,
-        parent_task_id: task.parent_task_id,
-        blocked_by_task_id: task.blocked_by_task_id,
-        connected_files: task.connected_files ? JSON.parse(task.connected_files) : [],
-        notes: task.notes,
-        github_issue_number: task.github_issue_number,
-        github_url: task.github_url,
-        created_at: task.created_at,
-        updated_at: task.updated_at,
-        completed_at: task.completed_at
-      }));
-
-      // Transform tasks (parse connected_files JSON)
+      const transformedTasks: Task[] = tasks.map(mapTaskDbToApi);
 
       const response: TasksResponse = {
         tasks: transformedTasks,
@@ -100,7 +150,7 @@ export class TasksController {
       const workspace = await this.workspacesController.getWorkspaceById(workspaceId);
 
       // Generate task ID and timestamp
-      const taskId = `TP-${Date.now().toString().slice(-6)}`;
+      const taskId = uuidv4();
       const now = new Date().toISOString();
 
       // Verify parent task exists if specified
@@ -115,51 +165,25 @@ export class TasksController {
 
       // Insert new task
       const workspaceDb = await this.databaseService.getWorkspace(workspace.path);
-      // Prepare DB object in snake_case
-      const dbTask = {
+      const dbTask: NewTask = {
         id: taskId,
         title: taskData.title.trim(),
         description: taskData.description.trim(),
-        priority: (taskData.priority ? taskData.priority.toLowerCase() : undefined) as 'high' | 'medium' | 'low' | null | undefined,
-        status: 'backlog' as 'backlog',
+        priority: taskData.priority.toLowerCase() as 'high' | 'medium' | 'low',
+        status: 'backlog',
         progress: 0,
-        parent_task_id: taskData.parent_task_id || null,
-        connected_files: '[]',
-        created_at: now,
-        updated_at: now,
-        notes: null,
-        github_issue_number: null,
-        github_url: null,
-        blocked_by_task_id: null,
-        completed_at: null,
+        parentTaskId: taskData.parent_task_id || null,
+        connectedFiles: [],
+        createdAt: now,
+        updatedAt: now
       };
 
-      const createdTask = await workspaceDb.createTask(dbTask as any);
+      const createdTask = await workspaceDb.createTask(dbTask, restContext());
 
       if (!createdTask) {
         throw new Error('Failed to create task');
       }
 
-      // Map DB result to camelCase for API response
-      function mapTaskDbToApi(task: any): Task {
-        return {
-          id: task.id,
-          title: task.title,
-          description: task.description ?? '',
-          priority: task.priority ?? 'medium',
-          status: task.status ?? 'backlog',
-          progress: task.progress ?? 0,
-          parent_task_id: task.parent_task_id ?? null,
-          blocked_by_task_id: task.blocked_by_task_id ?? null,
-          connected_files: task.connected_files ? JSON.parse(task.connected_files) : [],
-          notes: task.notes ?? null,
-          github_issue_number: task.github_issue_number ?? null,
-          github_url: task.github_url ?? null,
-          created_at: task.created_at ?? null,
-          updated_at: task.updated_at ?? null,
-          completed_at: task.completed_at ?? null,
-        };
-      }
       const responseTask: Task = mapTaskDbToApi(createdTask);
 
       res.status(201).json(createSuccessResponse({ task: responseTask }));
@@ -182,7 +206,8 @@ export class TasksController {
       if (!updateData.field) {
         throw new ValidationError('Field to update is required');
       }
-      if (updateData.value === undefined || updateData.value === null) {
+      // A null parent_task_id moves the task to the top level
+      if (updateData.value === undefined || (updateData.value === null && updateData.field !== 'parent_task_id')) {
         throw new ValidationError('Value is required');
       }
       if (!updateData.reason?.trim()) {
@@ -201,7 +226,7 @@ export class TasksController {
       }
 
       // Validate field and value
-      const allowedFields = ['title', 'description', 'priority', 'status', 'progress', 'notes'];
+      const allowedFields = ['title', 'description', 'priority', 'status', 'progress', 'notes', 'parent_task_id'];
       if (!allowedFields.includes(updateData.field)) {
         throw new ValidationError(`Invalid field: ${updateData.field}`);
       }
@@ -222,15 +247,25 @@ export class TasksController {
         }
       }
 
-      // Update task
-      const now = new Date().toISOString();
-      // Reuse workspaceDb, do not redeclare
-      let updates: any = { [updateData.field]: updateData.value, updated_at: now };
-      if (updateData.field === 'status' && updateData.value === 'Done') {
-        updates.completed_at = now;
+      // Update task (status and priority are stored lowercase)
+      const value = updateData.field === 'status' || updateData.field === 'priority'
+        ? String(updateData.value).toLowerCase()
+        : updateData.field === 'progress' ? Number(updateData.value) : updateData.value;
+
+      const context = restContext(updateData.reason);
+      if (updateData.field === 'parent_task_id') {
+        // setTaskParent rejects cycles and rolls progress up into the old parent
+        try {
+          await workspaceDb.setTaskParent(taskId, updateData.value ? String(updateData.value) : null, context);
+        } catch (error) {
+          throw new ValidationError(error instanceof Error ? error.message : String(error));
+        }
+      } else {
+        await workspaceDb.updateTask(taskId, { [updateData.field]: value }, context);
+      }
+      if (updateData.field === 'status') {
+        await workspaceDb.syncBlockedStatus(taskId, context);
       }
-
-      await workspaceDb.updateTask(taskId, updates);
 
       // Fetch updated task
       const updatedTask = await workspaceDb.getTask(taskId);
@@ -243,7 +278,7 @@ export class TasksController {
         task: {
           id: updatedTask.id,
           updatedAt: updatedTask.updatedAt,
-          [updateData.field]: updatedTask[updateData.field]
+          [updateData.field]: mapTaskDbToApi(updatedTask)[updateData.field]
         }
       }));
     } catch (error) {
@@ -251,4 +286,97 @@ export class TasksController {
       throw error;
     }
   }
+
+  /**
+   * GET /api/workspaces/{workspaceId}/tasks/{taskId}/dependencies
+   * Get the tasks blocking this task and the tasks it blocks
+   */
+  async getTaskDependencies(req: Request, res: Response): Promise<void> {
+    const { workspaceId, taskId } = req.params;
+
+    const workspace = await this.workspacesController.getWorkspaceById(workspaceId);
+    const workspaceDb = await this.databaseService.getWorkspace(workspace.path);
+    const task = await workspaceDb.getTask(taskId);
+    if (!task) {
+      throw new NotFoundError(`Task not found: ${taskId}`);
+    }
+
+    const response: TaskDependenciesResponse = {
+      task_id: task.id,
+      blocked_by: (await workspaceDb.getTaskDependencies(task.id)).map(mapTaskDbToApi),
+      blocking: (await workspaceDb.getDependentTasks(task.id)).map(mapTaskDbToApi)
+    };
+
+    res.json(createSuccessResponse(response));
+  }
+
+  /**
+   * POST /api/workspaces/{workspaceId}/tasks/{taskId}/dependencies
+   * Mark a task as blocked by another task
+   */
+  async addTaskDependency(req: Request, res: Response): Promise<void> {
+    const { workspaceId, taskId } = req.params;
+    const { depends_on }: AddTaskDependencyRequest = req.body;
+
+    if (!depends_on?.trim()) {
+      throw new ValidationError('depends_on is required');
+    }
+
+    const workspace = await this.workspacesController.getWorkspaceById(workspaceId);
+    const workspaceDb = await this.databaseService.getWorkspace(workspace.path);
+
+    let task: DbTask | null;
+    try {
+      task = await workspaceDb.addTaskDependency(taskId, depends_on.trim(), restContext());
+    } catch (error) {
+      throw new ValidationError(error instanceof Error ? error.message : String(error));
+    }
+    if (!task) {
+      throw new NotFoundError(`Task not found: ${taskId}`);
+    }
+
+    res.status(201).json(createSuccessResponse({ task: mapTaskDbToApi(task) }));
+  }
+
+  /**
+   * DELETE /api/workspaces/{workspaceId}/tasks/{taskId}/dependencies/{dependsOnId}
+   * Remove a dependency from a task
+   */
+  async removeTaskDependency(req: Request, res: Response): Promise<void> {
+    const { workspaceId, taskId, dependsOnId } = req.params;
+
+    const workspace = await this.workspacesController.getWorkspaceById(workspaceId);
+    const workspaceDb = await this.databaseService.getWorkspace(workspace.path);
+
+    const task = await workspaceDb.removeTaskDependency(taskId, dependsOnId, restContext());
+    if (!task) {
+      throw new NotFoundError(`Task not found: ${taskId}`);
+    }
+
+    res.json(createSuccessResponse({ task: mapTaskDbToApi(task) }));
+  }
+
+  /**
+   * GET /api/workspaces/{workspaceId}/tasks/{taskId}/history
+   * Get the change history of a task, oldest first.
+   * History outlives the task, so deleted tasks still return their events.
+   */
+  async getTaskHistory(req: Request, res: Response): Promise<void> {
+    const { workspaceId, taskId } = req.params;
+
+    const workspace = await this.workspacesController.getWorkspaceById(workspaceId);
+    const workspaceDb = await this.databaseService.getWorkspace(workspace.path);
+
+    const events = await workspaceDb.getTaskEvents(taskId);
+    if (events.length === 0 && !(await workspaceDb.getTask(taskId))) {
+      throw new NotFoundError(`Task not found: ${taskId}`);
+    }
+
+    const response: TaskHistoryResponse = {
+      task_id: taskId,
+      events: events.map(mapTaskEventToApi)
+    };
+
+    res.json(createSuccessResponse(response));
+  }
 }
@@ -1,12 +1,28 @@
 /**
  * Tool Flows API Routes
  * GET /api/workspaces/{id}/tool-flows - Get tool flows for workspace
+ * PUT /api/workspaces/{id}/tool-flows/{flowId}/steps/{stepId}/branches - Set conditional step branches
+ * GET /api/workspaces/{id}/tool-flows/export - Export flows as a YAML/JSON bundle
+ * POST /api/workspaces/{id}/tool-flows/import - Import a flow bundle
+ * POST /api/tool-flows/validate - Lint a stored or unsaved flow
  */
 
 import { Request, Response } from 'express';
 import { DatabaseService } from '../services/database-service.js';
-import { ToolFlowsResponse, ToolFlow, ToolFlowsQueryParams } from './types.js';
-import { createSuccessResponse, createErrorResponse } from './middleware.js';
+import {
+  ToolFlowsResponse,
+  ToolFlow,
+  ToolFlowsQueryParams,
+  UpdateStepBranchesRequest,
+  ToolFlowExportQueryParams,
+  ToolFlowExportResponse,
+  ToolFlowImportRequest,
+  ValidateToolFlowRequest,
+  ToolFlowValidationResponse
+} from './types.js';
+import { createSuccessResponse, createErrorResponse, BadRequestError, NotFoundError, ValidationError } from './middleware.js';
+import { FlowBundleService, FlowBundleValidationError, type FlowBundleToolFlow } from '../services/flow-bundle-service.js';
+import { FlowLinter, type FlowLintResult } from '../services/flow-linter.js';
 import { WorkspacesController } from './workspaces.js';
 
 export class ToolFlowsController {
@@ -63,6 +79,7 @@ export class ToolFlowsController {
                   system_tool_fn: step.systemToolFn || step.system_tool_fn || '',
                   feedback_step: step.feedbackStep || step.feedback_step || null,
                   next_tool: step.nextTool || step.next_tool || null,
+                  metadata: step.metadata || {},
                   created_at: step.createdAt || step.created_at || new Date().toISOString(),
                   updated_at: step.updatedAt || step.updated_at || new Date().toISOString()
                 }));
@@ -118,6 +135,7 @@ export class ToolFlowsController {
                   system_tool_fn: step.systemToolFn || step.system_tool_fn || '',
                   feedback_step: step.feedbackStep || step.feedback_step || null,
                   next_tool: step.nextTool || step.next_tool || null,
+                  metadata: step.metadata || {},
                   created_at: step.createdAt || step.created_at || new Date().toISOString(),
                   updated_at: step.updatedAt || step.updated_at || new Date().toISOString()
                 }));
@@ -179,8 +197,9 @@ export class ToolFlowsController {
 
       // Clone the flow to the workspace
       const clonedFlow = await workspaceDb.cloneToolFlow(flowId, workspaceId);
+      const lint = clonedFlow ? await this.getLinter().lintStoredFlow(clonedFlow.id) : null;
 
-      res.json({ success: true, clonedFlow });
+      res.json({ success: true, clonedFlow, lint: lint ? this.toValidationResponse(lint) : null });
     } catch (error) {
       console.error('Error cloning tool flow:', error);
       res.status(500).json({ error: 'Failed to clone tool flow' });
@@ -206,6 +225,234 @@ export class ToolFlowsController {
     }
   }
 
+  /**
+   * PUT /api/workspaces/:workspaceId/tool-flows/:flowId/steps/:stepId/branches
+   * Replace the conditional branches of a tool flow step. Branch targets must be
+   * step IDs of the same flow or "end". Only workspace flows can be edited here;
+   * global flows are cloned into the workspace first.
+   */
+  public async updateStepBranches(req: Request, res: Response): Promise<void> {
+    const { workspaceId, flowId, stepId } = req.params;
+    const body: UpdateStepBranchesRequest = req.body ?? {};
+
+    await this.workspacesController.getWorkspaceById(workspaceId);
+    const globalDb = this.databaseService.getGlobal();
+
+    const flow = await globalDb.getToolFlowById(flowId);
+    if (!flow || (!flow.isGlobal && flow.workspaceId !== workspaceId)) {
+      throw new NotFoundError(`Tool flow not found: ${flowId}`);
+    }
+    if (flow.isGlobal) {
+      throw new BadRequestError(`Tool flow ${flow.toolName} is global; clone it into the workspace before editing its steps`);
+    }
+
+    const steps = await globalDb.getToolFlowSteps(flowId);
+    const step = steps.find(s => s.id === stepId);
+    if (!step) {
+      throw new NotFoundError(`Tool flow step not found: ${stepId}`);
+    }
+
+    const branches = body.branches ?? [];
+    const defaultNextStep = body.default_next_step || undefined;
+    const { branches: _branches, default_next_step: _default, ...rest } = (step.metadata ?? {}) as Record<string, unknown>;
+    const metadata = {
+      ...rest,
+      ...(branches.length > 0 ? { branches } : {}),
+      ...(defaultNextStep ? { default_next_step: defaultNextStep } : {})
+    };
+
+    // Lint the flow as it will look after the update
+    const lint = await this.getLinter().lintFlow({
+      toolName: flow.toolName,
+      feedbackStepId: flow.feedbackStepId,
+      nextTool: flow.nextTool,
+      steps: steps.map(s => ({
+        stepOrder: s.stepOrder,
+        systemToolFn: s.systemToolFn,
+        feedbackStep: s.feedbackStep,
+        nextTool: s.nextTool,
+        metadata: s.id === step.id ? metadata : s.metadata ?? {}
+      }))
+    }, { workspaceId: flow.workspaceId });
+    this.assertLintPassed(lint);
+
+    const updated = await globalDb.updateToolFlowStep(step.id, { metadata });
+
+    res.json(createSuccessResponse({
+      step: {
+        id: updated!.id,
+        step_order: updated!.stepOrder,
+        system_tool_fn: updated!.systemToolFn,
+        feedback_step: updated!.feedbackStep ?? null,
+        next_tool: updated!.nextTool ?? null,
+        metadata: updated!.metadata ?? {},
+        created_at: updated!.createdAt,
+        updated_at: updated!.updatedAt
+      },
+      lint: this.toValidationResponse(lint)
+    }));
+  }
+
+  /**
+   * GET /api/workspaces/:workspaceId/tool-flows/export
+   * Export global or workspace tool flows as a bundle (YAML by default)
+   */
+  public async exportToolFlows(req: Request, res: Response): Promise<void> {
+    const { workspaceId } = req.params;
+    const query: ToolFlowExportQueryParams = req.query;
+    const scope = this.parseScope(query.scope);
+    if (query.format && query.format !== 'yaml' && query.format !== 'json') {
+      throw new ValidationError('format must be yaml or json');
+    }
+    const format = query.format ?? 'yaml';
+
+    const workspace = await this.workspacesController.getWorkspaceById(workspaceId);
+    const toolNames = query.tools ? query.tools.split(',').map(name => name.trim()).filter(Boolean) : undefined;
+    const bundleService = this.getBundleService();
+
+    const bundle = await bundleService.exportBundle(scope === 'workspace' ? workspace.id : null, toolNames);
+    const missing = (toolNames ?? []).filter(toolName => !bundle.toolFlows.some(flow => flow.toolName === toolName));
+    if (missing.length > 0) {
+      throw new NotFoundError(`Tool flow not found in ${scope} scope: ${missing.join(', ')}`);
+    }
+
+    const name = scope === 'workspace' ? workspace.name.replace(/[^A-Za-z0-9_-]+/g, '-') : 'global';
+    const response: ToolFlowExportResponse = {
+      filename: `taskpilot-flows-${name}.${format}`,
+      format,
+      content: bundleService.serialize(bundle, format)
+    };
+    res.json(createSuccessResponse(response));
+  }
+
+  /**
+   * POST /api/workspaces/:workspaceId/tool-flows/import
+   * Validate a bundle and upsert it into the global scope or this workspace
+   */
+  public async importToolFlows(req: Request, res: Response): Promise<void> {
+    const { workspaceId } = req.params;
+    const body: ToolFlowImportRequest = req.body ?? {};
+    const scope = this.parseScope(body.scope);
+
+    if (typeof body.content !== 'string' && body.bundle === undefined) {
+      throw new ValidationError('Either content (YAML or JSON text) or bundle is required');
+    }
+
+    const workspace = await this.workspacesController.getWorkspaceById(workspaceId);
+    const bundleService = this.getBundleService();
+
+    try {
+      const bundle = typeof body.content === 'string' ? bundleService.parse(body.content) : bundleService.validate(body.bundle);
+      const targetWorkspaceId = scope === 'workspace' ? workspace.id : null;
+
+      const linter = this.getLinter();
+      const lint: FlowLintResult[] = [];
+      for (const flow of bundle.toolFlows) {
+        const result = await linter.lintFlow(flow, { workspaceId: targetWorkspaceId, feedbackSteps: bundle.feedbackSteps });
+        this.assertLintPassed(result);
+        lint.push(result);
+      }
+
+      const result = await bundleService.importBundle(bundle, targetWorkspaceId);
+      res.json(createSuccessResponse({ ...result, lint: lint.map(entry => this.toValidationResponse(entry)) }));
+    } catch (error) {
+      if (error instanceof FlowBundleValidationError) {
+        throw new ValidationError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * POST /api/tool-flows/validate
+   * Lint a stored flow by flow_id, or an unsaved flow definition
+   */
+  public async validateToolFlow(req: Request, res: Response): Promise<void> {
+    const body: ValidateToolFlowRequest = req.body ?? {};
+    const linter = this.getLinter();
+
+    if (body.flow_id) {
+      const lint = await linter.lintStoredFlow(body.flow_id);
+      if (!lint) {
+        throw new NotFoundError(`Tool flow not found: ${body.flow_id}`);
+      }
+      res.json(createSuccessResponse(this.toValidationResponse(lint)));
+      return;
+    }
+
+    const flow = body.flow;
+    if (!flow || typeof flow.tool_name !== 'string' || !flow.tool_name) {
+      throw new ValidationError('Either flow_id or flow with a tool_name is required');
+    }
+    if (flow.steps !== undefined && !Array.isArray(flow.steps)) {
+      throw new ValidationError('flow.steps must be an array');
+    }
+    if (body.workspace_id) {
+      await this.workspacesController.getWorkspaceById(body.workspace_id);
+    }
+
+    const definition: FlowBundleToolFlow = {
+      toolName: flow.tool_name,
+      feedbackStepId: flow.feedback_step_id ?? null,
+      nextTool: flow.next_tool ?? null,
+      steps: (flow.steps ?? []).map((step, index) => {
+        if (typeof step.step_order !== 'number' || typeof step.system_tool_fn !== 'string') {
+          throw new ValidationError(`flow.steps[${index}] needs a numeric step_order and a system_tool_fn`);
+        }
+        return {
+          stepOrder: step.step_order,
+          systemToolFn: step.system_tool_fn,
+          feedbackStep: step.feedback_step ?? null,
+          nextTool: step.next_tool ?? null,
+          metadata: step.metadata ?? {}
+        };
+      })
+    };
+
+    const lint = await linter.lintFlow(definition, { workspaceId: body.workspace_id ?? null });
+    res.json(createSuccessResponse(this.toValidationResponse(lint)));
+  }
+
+  private assertLintPassed(lint: FlowLintResult): void {
+    const errors = lint.issues.filter(issue => issue.severity === 'error');
+    if (errors.length > 0) {
+      throw new ValidationError(`Tool flow ${lint.toolName} is invalid: ${errors.map(issue => issue.message).join('; ')}`);
+    }
+  }
+
+  private toValidationResponse(lint: FlowLintResult): ToolFlowValidationResponse {
+    const toIssue = (issue: FlowLintResult['issues'][number]) => ({
+      severity: issue.severity,
+      code: issue.code,
+      message: issue.message,
+      step: issue.step ?? null
+    });
+    return {
+      tool_name: lint.toolName,
+      valid: lint.valid,
+      errors: lint.issues.filter(issue => issue.severity === 'error').map(toIssue),
+      warnings: lint.issues.filter(issue => issue.severity === 'warning').map(toIssue)
+    };
+  }
+
+  private getLinter(): FlowLinter {
+    return new FlowLinter(this.databaseService.getGlobal().getDrizzleManager());
+  }
+
+  private parseScope(scope: unknown): 'global' | 'workspace' {
+    if (scope === undefined || scope === 'workspace') {
+      return 'workspace';
+    }
+    if (scope === 'global') {
+      return 'global';
+    }
+    throw new ValidationError('scope must be global or workspace');
+  }
+
+  private getBundleService(): FlowBundleService {
+    return new FlowBundleService(this.databaseService.getGlobal().getDrizzleManager());
+  }
+
   /**
    * GET /api/workspaces/:workspaceId/tool-flows/global-feedback-steps
    * Fetch feedback steps for all global tool flows
@@ -2,6 +2,9 @@
  * API Types and Interfaces for TaskPilot REST API
  */
 
+import type { StepBranch } from '../types/index.js';
+import type { SchemaVariable } from '../services/variable-schema-validator.js';
+
 // Common response wrapper
 export interface ApiResponse<T = any> {
   data?: T;
@@ -29,9 +32,19 @@ export interface WorkspacesResponse {
   workspaces: WorkspaceSummary[];
 }
 
+export interface UpdateTaskKeyPrefixRequest {
+  prefix: string;
+}
+
+export interface TaskKeyPrefixResponse {
+  workspace_id: string;
+  prefix: string; // used for new task keys; existing keys keep theirs
+}
+
 // Task types
 export interface Task {
   id: string;
+  task_key: string | null;
   title: string;
   description: string;
   priority: 'High' | 'Medium' | 'Low';
@@ -39,6 +52,7 @@ export interface Task {
   progress: number;
   parent_task_id: string | null;
   blocked_by_task_id: string | null;
+  dependencies: string[];
   connected_files: string[];
   notes: string | null;
   github_issue_number: number | null;
@@ -66,9 +80,37 @@ export interface CreateTaskRequest {
   parent_task_id?: string | null;
 }
 
+export interface AddTaskDependencyRequest {
+  depends_on: string;
+}
+
+export interface TaskDependenciesResponse {
+  task_id: string;
+  blocked_by: Task[];
+  blocking: Task[];
+}
+
+export interface TaskHistoryEvent {
+  id: string;
+  task_id: string;
+  event_type: 'created' | 'updated' | 'deleted';
+  field: string | null;
+  old_value: string | null;
+  new_value: string | null;
+  reason: string | null;
+  source: 'mcp' | 'rest' | 'cli' | 'system';
+  session_id: string | null;
+  created_at: string;
+}
+
+export interface TaskHistoryResponse {
+  task_id: string;
+  events: TaskHistoryEvent[];
+}
+
 export interface UpdateTaskRequest {
-  field: 'title' | 'description' | 'priority' | 'status' | 'progress' | 'notes';
-  value: string | number;
+  field: 'title' | 'description' | 'priority' | 'status' | 'progress' | 'notes' | 'parent_task_id';
+  value: string | number | null;
   reason: string;
 }
 
@@ -79,10 +121,34 @@ export interface ToolFlowStep {
   system_tool_fn: string;
   feedback_step: string | null;
   next_tool: string | null;
+  metadata: Record<string, any>;
   created_at: string;
   updated_at: string;
 }
 
+export interface ToolFlowExportQueryParams {
+  scope?: 'global' | 'workspace';
+  format?: 'yaml' | 'json';
+  tools?: string; // comma-separated tool names, all flows of the scope when omitted
+}
+
+export interface ToolFlowExportResponse {
+  filename: string;
+  format: 'yaml' | 'json';
+  content: string;
+}
+
+export interface ToolFlowImportRequest {
+  scope?: 'global' | 'workspace';
+  content?: string; // YAML or JSON text
+  bundle?: unknown; // already parsed bundle
+}
+
+export interface UpdateStepBranchesRequest {
+  branches: StepBranch[];
+  default_next_step?: string | null;
+}
+
 export interface ToolFlow {
   id: string;
   tool_name: string;
@@ -111,7 +177,12 @@ export interface ToolFlowsResponse {
 export interface FeedbackStep {
   id: string;
   name: string;
+  description: string;
   instructions: string;
+  template_content: string;
+  variable_schema: Record<string, any>;
+  variables: SchemaVariable[]; // variables declared by variable_schema
+  is_global: boolean;
   metadata: any;
   created_at: string;
   updated_at: string;
@@ -190,3 +261,110 @@ export interface ToolFlowsQueryParams {
 export interface FeedbackStepsQueryParams {
   type?: 'global' | 'workspace' | 'all';
 }
+
+export interface FeedbackStepPreviewRequest {
+  context?: Record<string, any>; // sample tool arguments
+  tool_name?: string; // defaults to the first tool flow using the step
+  template_content?: string; // unsaved template to preview
+  variable_schema?: Record<string, any>; // unsaved schema to preview
+}
+
+export interface FeedbackStepPreviewResponse {
+  tool_name: string;
+  feedback_step: string;
+  prompt_text: string; // basic tool prompt plus rendered feedback step
+  next_step_instructions: string;
+  next_tool: string | null;
+  prompt: string; // prompt_text followed by next_step_instructions
+}
+
+export interface ValidateToolFlowStep {
+  step_order: number;
+  system_tool_fn: string;
+  feedback_step?: string | null;
+  next_tool?: string | null;
+  metadata?: Record<string, any>;
+}
+
+export interface ValidateToolFlowRequest {
+  flow_id?: string; // validate a stored flow
+  flow?: {
+    tool_name: string;
+    feedback_step_id?: string | null;
+    next_tool?: string | null;
+    steps?: ValidateToolFlowStep[];
+  };
+  workspace_id?: string; // resolves workspace feedback steps for an unsaved flow
+}
+
+export interface ToolFlowLintIssue {
+  severity: 'error' | 'warning';
+  code: string;
+  message: string;
+  step: string | null;
+}
+
+export interface ToolFlowValidationResponse {
+  tool_name: string;
+  valid: boolean;
+  errors: ToolFlowLintIssue[];
+  warnings: ToolFlowLintIssue[];
+}
+
+// Sync conflict types
+export interface SyncConflict {
+  id: string;
+  interface_id: string;
+  task_id: string;
+  task_key: string | null;
+  task_title: string | null; // null when the task was deleted since
+  remote_key: string;
+  local_values: Record<string, unknown>; // synced task fields when the conflict was found
+  remote_values: Record<string, unknown>; // the same fields as mapped from the remote item
+  remote_updated_at: string | null;
+  status: 'open' | 'resolved';
+  resolution: 'local' | 'remote' | null;
+  created_at: string;
+  updated_at: string;
+  resolved_at: string | null;
+}
+
+export interface SyncConflictsResponse {
+  conflicts: SyncConflict[];
+  total: number;
+}
+
+export interface ResolveSyncConflictRequest {
+  resolution: 'local' | 'remote'; // which side's values to keep
+}
+
+// Sync run types
+export interface SyncRun {
+  id: string;
+  interface_id: string;
+  trigger: 'scheduled' | 'manual';
+  status: 'running' | 'succeeded' | 'partial' | 'failed'; // partial: single items failed
+  items_imported: number;
+  items_exported: number;
+  items_updated: number;
+  items_failed: number;
+  items_conflicted: number;
+  errors: string[];
+  started_at: string;
+  finished_at: string | null;
+}
+
+export interface SyncRunsResponse {
+  runs: SyncRun[];
+  total: number;
+}
+
+// Webhook types
+export interface WebhookDeliveryResponse {
+  delivery_id: string;
+  event: string;
+  status: 'processed' | 'ignored' | 'duplicate'; // ignored: not an issue event of the interface's project
+  items_imported: number;
+  items_updated: number;
+  items_conflicted: number;
+}
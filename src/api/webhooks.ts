@@ -0,0 +1,93 @@
+/**
+ * Webhook Routes
+ * POST /webhooks/{provider}/{interfaceId} - Receive issue events from GitHub, Jira or Linear
+ */
+
+import { Request, Response } from 'express';
+import { DatabaseService } from '../services/database-service.js';
+import { RemoteInterfaceManager } from '../services/remote-interface-manager.js';
+import { isWebhookProvider, parseWebhookEvent, verifyWebhookSignature, type WebhookEvent } from '../services/webhooks.js';
+import { BadRequestError, createSuccessResponse, NotFoundError, UnauthorizedError } from './middleware.js';
+import type { WebhookDeliveryResponse } from './types.js';
+
+// How long delivery ids are kept to recognize redeliveries
+const DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export class WebhooksController {
+  private remoteInterfaces: RemoteInterfaceManager;
+
+  constructor(private databaseService: DatabaseService) {
+    this.remoteInterfaces = new RemoteInterfaceManager(databaseService);
+  }
+
+  /**
+   * POST /webhooks/{provider}/{interfaceId}
+   * Verify the delivery's signature with the interface's webhook secret and
+   * import the issue of issue events. A delivery is handled once; when
+   * importing fails, it is forgotten again so the provider's retry can
+   * succeed.
+   */
+  async receive(req: Request, res: Response): Promise<void> {
+    const { provider, interfaceId } = req.params;
+    if (!isWebhookProvider(provider)) {
+      throw new NotFoundError(`Unknown webhook provider: ${provider}`);
+    }
+    const remoteInterface = await this.remoteInterfaces.findInterface(interfaceId);
+    if (!remoteInterface || remoteInterface.interface_type !== provider) {
+      throw new NotFoundError(`Remote interface not found: ${interfaceId}`);
+    }
+    if (!remoteInterface.webhook_secret) {
+      throw new UnauthorizedError(`Remote interface ${interfaceId} has no webhook secret`);
+    }
+
+    const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    if (!verifyWebhookSignature(provider, remoteInterface.webhook_secret, rawBody, req.headers)) {
+      throw new UnauthorizedError('Invalid webhook signature');
+    }
+    let event: WebhookEvent;
+    try {
+      event = parseWebhookEvent(provider, rawBody, req.headers);
+    } catch {
+      throw new BadRequestError('Webhook payload is not valid JSON');
+    }
+
+    const response: WebhookDeliveryResponse = {
+      delivery_id: event.deliveryId,
+      event: event.event,
+      status: 'duplicate',
+      items_imported: 0,
+      items_updated: 0,
+      items_conflicted: 0
+    };
+    const workspace = (await this.databaseService.getGlobal().getWorkspace(remoteInterface.workspace_id))!;
+    const workspaceDb = await this.databaseService.getWorkspace(workspace.path);
+    const receivedAt = new Date();
+    const delivery = await workspaceDb.createWebhookDelivery({
+      interfaceId,
+      deliveryId: event.deliveryId,
+      event: event.event,
+      receivedAt: receivedAt.toISOString()
+    });
+    if (!delivery) {
+      res.json(createSuccessResponse(response));
+      return;
+    }
+
+    try {
+      const result = event.issue ? await this.remoteInterfaces.receiveIssue(remoteInterface, event.issue, event.project) : null;
+      if (result && result.items_failed > 0) {
+        throw new Error(`Importing ${event.event} failed: ${result.errors.join('; ')}`);
+      }
+      response.status = result ? 'processed' : 'ignored';
+      response.items_imported = result?.items_imported ?? 0;
+      response.items_updated = result?.items_updated ?? 0;
+      response.items_conflicted = result?.items_conflicted ?? 0;
+    } catch (error) {
+      await workspaceDb.deleteWebhookDelivery(delivery.id);
+      throw error;
+    }
+
+    await workspaceDb.pruneWebhookDeliveries(interfaceId, new Date(receivedAt.getTime() - DELIVERY_RETENTION_MS).toISOString());
+    res.json(createSuccessResponse(response));
+  }
+}
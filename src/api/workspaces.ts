@@ -1,12 +1,14 @@
 /**
  * Workspaces API Routes
  * GET /api/workspaces - List all workspaces
+ * PUT /api/workspaces/:workspaceId/task-key-prefix - Change the prefix of new task keys
  */
 
 import { Request, Response } from 'express';
 import { DatabaseService } from '../services/database-service.js';
-import { WorkspacesResponse, WorkspaceSummary } from './types.js';
-import { createSuccessResponse, createErrorResponse, NotFoundError } from './middleware.js';
+import { WorkspacesResponse, WorkspaceSummary, UpdateTaskKeyPrefixRequest, TaskKeyPrefixResponse } from './types.js';
+import { createSuccessResponse, createErrorResponse, NotFoundError, ValidationError } from './middleware.js';
+import { isValidTaskKeyPrefix } from '../utils/task-keys.js';
 
 export class WorkspacesController {
   constructor(private databaseService: DatabaseService) {}
@@ -87,6 +89,29 @@ export class WorkspacesController {
     }
   }
 
+  /**
+   * PUT /api/workspaces/:workspaceId/task-key-prefix
+   * Change the prefix of new task keys; existing keys are kept
+   */
+  async updateTaskKeyPrefix(req: Request, res: Response): Promise<void> {
+    const { workspaceId } = req.params;
+    const body: UpdateTaskKeyPrefixRequest = req.body ?? {};
+    const prefix = typeof body.prefix === 'string' ? body.prefix.trim().toUpperCase() : '';
+    if (!isValidTaskKeyPrefix(prefix)) {
+      throw new ValidationError('prefix must be a letter followed by up to 9 letters or digits');
+    }
+    const workspace = await this.getWorkspaceById(workspaceId);
+
+    const workspaceDb = await this.databaseService.getWorkspace(workspace.path);
+    await workspaceDb.setTaskKeyPrefix(prefix);
+
+    const response: TaskKeyPrefixResponse = {
+      workspace_id: workspace.id,
+      prefix: await workspaceDb.getTaskKeyPrefix()
+    };
+    res.json(createSuccessResponse(response));
+  }
+
   /**
    * Helper method to get workspace info by ID
    */
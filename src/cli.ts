@@ -4,11 +4,15 @@ import { initializeGlobalDatabaseService, GlobalDatabaseService } from './databa
 import { DatabaseService } from './services/database-service.js';
 import { SeedManager } from './services/seed-manager.js';
 import { PromptOrchestrator } from './services/prompt-orchestrator.js';
+import { ToolFlowExecutor } from './services/tool-flow-executor.js';
+import { FlowBundleService, type FlowBundleFormat } from './services/flow-bundle-service.js';
+import { FlowLinter } from './services/flow-linter.js';
 import type { DrizzleDatabaseManager } from './database/drizzle-connection.js';
 import type { BaseTool } from './tools/base-tool.js';
 import type { z } from 'zod';
 import { validateToolName, ToolNames } from './constants/tool-names.js';
 import { getTestDatabaseInstances } from './test-utils/database-test-helpers.js';
+import { readFileSync, writeFileSync } from 'fs';
 
 // Tools
 import { InitToolNew, initToolSchema } from './tools/init.js';
@@ -26,6 +30,10 @@ import { RemoteInterfaceTool, remoteInterfaceToolSchema } from './tools/remote-i
  * CLI tool for testing MCP tool calls programmatically
  * Usage: npm run test:tool -- <toolName> <arguments>
  * Example: npm run test:tool -- taskpilot_start '{"workspace_path": "/tmp/test-workspace"}'
+ *
+ * Tool flow bundles:
+ *   npm run test:tool -- flows:export [toolName...] [--workspace=<path>] [--format=yaml|json] [--out=<file>]
+ *   npm run test:tool -- flows:import <file> [--workspace=<path>]
  */
 
 // TODO: do we need ToolRegistry and SchemaRegistry be defined here or can it be centralized?
@@ -65,6 +73,7 @@ let globalDrizzleManager: DrizzleDatabaseManager | null = null;
 async function initializeTools(): Promise<{
     tools: ToolRegistry;
     schemas: SchemaRegistry;
+    flowExecutor: ToolFlowExecutor;
 }> {
     // Check if test database instances are available
     const testInstances = getTestDatabaseInstances();
@@ -104,7 +113,7 @@ async function initializeTools(): Promise<{
             [ToolNames.REMOTE_INTERFACE]: remoteInterfaceToolSchema,
         };
 
-        return { tools, schemas };
+        return { tools, schemas, flowExecutor: new ToolFlowExecutor(globalDrizzleManager) };
     }
 
     try {
@@ -173,7 +182,7 @@ async function initializeTools(): Promise<{
             [ToolNames.REMOTE_INTERFACE]: remoteInterfaceToolSchema,
         };
 
-        return { tools, schemas };
+        return { tools, schemas, flowExecutor: new ToolFlowExecutor(globalDrizzleManager) };
     } catch (error) {
         console.error('Error getting drizzle manager:', error);
         throw error;
@@ -184,21 +193,21 @@ async function executeToolCall(toolName: string, toolArguments: Record<string, u
     // Pre-validate tool name before initializing database
     validateToolName(toolName);
 
-    const { tools, schemas } = await initializeTools();
+    const { tools, schemas, flowExecutor } = await initializeTools();
 
     if (!(toolName in tools)) {
         throw new Error(`Unknown tool: ${toolName}. Available tools: ${Object.keys(tools).join(', ')}`);
     }
 
-    // Parse and validate arguments
+    // Parse and validate arguments, filling in data saved by an earlier step when run_id is given
     const schema = schemas[toolName as keyof typeof schemas];
-    const validatedArgs = schema.parse(toolArguments);
+    const validatedArgs = schema.parse(await flowExecutor.resumeInput(toolArguments));
 
     // Execute the tool based on name
     switch (toolName) {
         case 'taskpilot_init': {
             const args = validatedArgs as z.infer<typeof initToolSchema>;
-            return await tools.taskpilot_init.execute(args);
+            return await tools.taskpilot_init.execute({ ...args, origin: { source: 'cli' } });
         }
         case 'taskpilot_start': {
             const args = validatedArgs as z.infer<typeof startToolSchema>;
@@ -206,7 +215,7 @@ async function executeToolCall(toolName: string, toolArguments: Record<string, u
         }
         case 'taskpilot_add': {
             const args = validatedArgs as z.infer<typeof addToolSchema>;
-            return await tools.taskpilot_add.execute(args);
+            return await tools.taskpilot_add.execute({ ...args, origin: { source: 'cli' } });
         }
         case 'taskpilot_status': {
             const args = validatedArgs as z.infer<typeof statusToolSchema>;
@@ -214,7 +223,7 @@ async function executeToolCall(toolName: string, toolArguments: Record<string, u
         }
         case 'taskpilot_update': {
             const args = validatedArgs as z.infer<typeof updateToolSchema>;
-            return await tools.taskpilot_update.execute(args);
+            return await tools.taskpilot_update.execute({ ...args, origin: { source: 'cli' } });
         }
         case 'taskpilot_audit': {
             const args = validatedArgs as z.infer<typeof auditToolSchema>;
@@ -241,8 +250,79 @@ async function executeToolCall(toolName: string, toolArguments: Record<string, u
     }
 }
 
+/**
+ * Export or import tool flow bundles. Flows are global unless --workspace names
+ * a registered workspace path. Returns the text to print (the bundle or an import summary).
+ */
+async function executeFlowBundleCommand(command: string, args: string[]): Promise<string> {
+    await initializeTools();
+    const bundleService = new FlowBundleService(globalDrizzleManager!);
+
+    const options: Record<string, string> = {};
+    const positional: string[] = [];
+    for (const arg of args) {
+        const match = arg.match(/^--([a-z]+)=(.*)$/);
+        if (match) {
+            options[match[1]] = match[2];
+        } else {
+            positional.push(arg);
+        }
+    }
+
+    let workspaceId: string | null = null;
+    if (options.workspace) {
+        const workspace = await globalDbService!.getWorkspaceByPath(options.workspace);
+        if (!workspace) {
+            throw new Error(`Workspace not found: ${options.workspace}`);
+        }
+        workspaceId = workspace.id;
+    }
+
+    switch (command) {
+        case 'flows:export': {
+            const format: FlowBundleFormat = options.format === 'json' || options.out?.endsWith('.json') ? 'json' : 'yaml';
+            const bundle = await bundleService.exportBundle(workspaceId, positional);
+            const missing = positional.filter(toolName => !bundle.toolFlows.some(flow => flow.toolName === toolName));
+            if (missing.length > 0) {
+                throw new Error(`Tool flow not found in ${workspaceId ? 'workspace' : 'global'} scope: ${missing.join(', ')}`);
+            }
+            const content = bundleService.serialize(bundle, format);
+            if (options.out) {
+                writeFileSync(options.out, content);
+                return `Exported ${bundle.toolFlows.length} tool flow(s) and ${bundle.feedbackSteps.length} feedback step(s) to ${options.out}`;
+            }
+            return content;
+        }
+        case 'flows:import': {
+            if (!positional[0]) {
+                throw new Error('Usage: flows:import <file> [--workspace=<path>]');
+            }
+            const bundle = bundleService.parse(readFileSync(positional[0], 'utf-8'));
+            // Nothing is imported unless every flow passes the linter
+            const linter = new FlowLinter(globalDrizzleManager!);
+            for (const flow of bundle.toolFlows) {
+                const lint = await linter.lintFlow(flow, { workspaceId, feedbackSteps: bundle.feedbackSteps });
+                const errors = lint.issues.filter(issue => issue.severity === 'error');
+                if (errors.length > 0) {
+                    throw new Error(`Tool flow ${lint.toolName} is invalid: ${errors.map(issue => issue.message).join('; ')}`);
+                }
+            }
+            const result = await bundleService.importBundle(bundle, workspaceId);
+            return [
+                `Imported into ${result.scope} scope`,
+                `Tool flows created: ${result.toolFlows.created.join(', ') || 'none'}`,
+                `Tool flows updated: ${result.toolFlows.updated.join(', ') || 'none'}`,
+                `Feedback steps created: ${result.feedbackSteps.created.join(', ') || 'none'}`,
+                `Feedback steps updated: ${result.feedbackSteps.updated.join(', ') || 'none'}`
+            ].join('\n');
+        }
+        default:
+            throw new Error(`Unknown command: ${command}`);
+    }
+}
+
 // Export for testing
-export { executeToolCall };
+export { executeToolCall, executeFlowBundleCommand };
 
 async function main() {
     const args = process.argv.slice(2);
@@ -262,9 +342,23 @@ async function main() {
         console.error('  taskpilot_github');
         console.error('  taskpilot_rule_update');
         console.error('  taskpilot_remote_interface');
+        console.error('');
+        console.error('Tool flow bundles:');
+        console.error('  flows:export [toolName...] [--workspace=<path>] [--format=yaml|json] [--out=<file>]');
+        console.error('  flows:import <file> [--workspace=<path>]');
         process.exit(1);
     }
 
+    if (args[0].startsWith('flows:')) {
+        try {
+            console.log(await executeFlowBundleCommand(args[0], args.slice(1)));
+        } catch (error) {
+            console.error('Error:', error instanceof Error ? error.message : String(error));
+            process.exit(1);
+        }
+        return;
+    }
+
     const toolName = args[0];
     const toolArguments = args[1] ? JSON.parse(args[1]) : {};
 
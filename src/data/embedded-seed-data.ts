@@ -150,7 +150,7 @@ export const GLOBAL_FEEDBACK_STEPS_SEED: NewFeedbackStep[] = [
     id: 'fs_task_focus_context',
     name: 'task_focus_context',
     description: 'Provide comprehensive context when focusing on a task',
-    templateContent: "# Focused on Task: {{context.task_id}}\n\n**Title:** {{context.task_title}}\n**Description:** {{context.task_description}}\n**Priority:** {{context.task_priority}}\n**Status:** {{context.task_status}}\n**Progress:** {{context.task_progress}}%\n{{context.parent_task_id ? '**Parent Task:** ' + context.parent_task_id + '\\n' : ''}}{{context.blocked_by_task ? '**Blocked By:** ' + context.blocked_by_task + '\\n' : ''}}\n**Connected Files:** {{context.connected_files}}\n**Dependencies:** {{context.dependencies_count}} tasks depend on this\n**Subtasks:** {{context.subtasks_count}} subtasks\n\n## Implementation Context\n{{context.notes}}\n\n**Last Updated:** {{context.updated_at}}\n**Workspace:** {{context.workspace_name}}\n\n## Next Steps\nYou are now focused on this task. Use this context to guide your implementation approach. If status was changed to In-Progress, begin working on the requirements. Consider the connected files and dependencies when making changes.",
+    templateContent: "# Focused on Task: {{context.task_id}}\n\n**Title:** {{context.task_title}}\n**Description:** {{context.task_description}}\n**Priority:** {{context.task_priority}}\n**Status:** {{context.task_status}}\n**Progress:** {{context.task_progress}}%\n{{context.parent_task_id ? '**Parent Task:** ' + context.parent_task_id + '\\n' : ''}}{{context.blocked_by_task ? '**Blocked By:** ' + context.blocked_by_task + '\\n' : ''}}\n**Connected Files:** {{context.connected_files}}\n**Dependencies:** {{context.dependencies_count}} tasks depend on this\n**Subtasks:** {{context.subtasks_count}} subtasks\n\n## Implementation Context\n{{context.notes}}\n\n## Recent History\n{{context.task_history}}\n\n**Last Updated:** {{context.updated_at}}\n**Workspace:** {{context.workspace_name}}\n\n## Next Steps\nYou are now focused on this task. Use this context to guide your implementation approach. If status was changed to In-Progress, begin working on the requirements. Consider the connected files and dependencies when making changes.",
     isGlobal: true
   },
   {
@@ -164,7 +164,7 @@ export const GLOBAL_FEEDBACK_STEPS_SEED: NewFeedbackStep[] = [
     id: 'fs_remote_interface_result',
     name: 'remote_interface_result',
     description: 'Results and status from remote interface management operations',
-    templateContent: "# Remote Interface Management - {{context.action | title}} Action\n\n**Workspace:** {{context.workspace_name}}\n**Action:** {{context.action}}\n{{context.interface_type ? '**Interface Type:** ' + context.interface_type + '\\n' : ''}}\n{{context.mcp_server_name ? '**MCP Server:** ' + context.mcp_server_name + '\\n' : ''}}\n**Timestamp:** {{context.timestamp}}\n\n## Result Summary\n{{context.result.success ? '✅ **SUCCESS**' : '❌ **FAILED**'}}\n\n{{context.result.message ? '**Message:** ' + context.result.message + '\\n\\n' : ''}}\n\n{{context.result.interface ? '**Interface Registered:**\\n' +\n'- **ID:** ' + context.result.interface.id + '\\n' +\n'- **Name:** ' + context.result.interface.name + '\\n' +\n'- **Type:** ' + context.result.interface.interface_type + '\\n' +\n'- **MCP Server:** ' + context.result.interface.mcp_server_name + '\\n\\n' : ''}}\n\n{{context.result.interfaces ? '**Workspace Interfaces:**\\n' +\ncontext.result.interfaces.map(iface => \n'### ' + iface.name + ' (' + iface.type + ')\\n' +\n'- **ID:** ' + iface.id + '\\n' +\n'- **MCP Server:** ' + iface.mcp_server_name + '\\n' +\n'- **Sync:** ' + (iface.sync_enabled ? 'Enabled' : 'Disabled') + '\\n'\\n).join('') + '\\n' : ''}}\n\n{{context.mcp_delegation ? '## 🔗 MCP Server Delegation\\n' +\n'The remote interface is connected and ready. Use the specialized `' + context.mcp_server_name + '` MCP server to perform platform-specific operations while TaskPilot coordinates the workflow.\\n\\n' +\n'**Multi-step Tool Flow:** For complex operations like synchronization, TaskPilot may orchestrate multiple calls to the ' + context.mcp_server_name + ' server through configured tool flows.\\n\\n' : ''}}\n\n**Next Steps:** {{context.action === 'register' && context.result.success ? 'Use the `' + context.mcp_server_name + '` MCP server for platform operations, or test the connection first.' : ''}}\n{{context.action === 'test' && context.result.success ? 'Connection verified! Use the specialized MCP server for platform operations.' : ''}}\n{{context.action === 'list' && context.result.interfaces && context.result.interfaces.length === 0 ? 'No interfaces registered. Use register action to connect platforms.' : ''}}",
+    templateContent: "# Remote Interface Management - {{context.action | title}} Action\n\n**Workspace:** {{context.workspace_name}}\n**Action:** {{context.action}}\n{{context.interface_type ? '**Interface Type:** ' + context.interface_type + '\\n' : ''}}\n{{context.mcp_server_name ? '**MCP Server:** ' + context.mcp_server_name + '\\n' : ''}}\n**Timestamp:** {{context.timestamp}}\n\n## Result Summary\n{{context.result.success ? '✅ **SUCCESS**' : '❌ **FAILED**'}}\n\n{{context.result.message ? '**Message:** ' + context.result.message + '\\n\\n' : ''}}\n\n{{context.result.interface ? '**Interface Registered:**\\n' +\n'- **ID:** ' + context.result.interface.id + '\\n' +\n'- **Name:** ' + context.result.interface.name + '\\n' +\n'- **Type:** ' + context.result.interface.interface_type + '\\n' +\n'- **MCP Server:** ' + context.result.interface.mcp_server_name + '\\n\\n' : ''}}\n\n{{context.result.interfaces ? '**Workspace Interfaces:**\\n' +\ncontext.result.interfaces.map(iface => \n'### ' + iface.name + ' (' + iface.type + ')\\n' +\n'- **ID:** ' + iface.id + '\\n' +\n'- **MCP Server:** ' + iface.mcp_server_name + '\\n' +\n'- **Sync:** ' + (iface.sync_enabled ? 'Enabled' : 'Disabled') + '\\n'\n).join('') + '\\n' : ''}}\n\n{{context.mcp_delegation ? '## 🔗 MCP Server Delegation\\n' +\n'The remote interface is connected and ready. Use the specialized `' + context.mcp_server_name + '` MCP server to perform platform-specific operations while TaskPilot coordinates the workflow.\\n\\n' +\n'**Multi-step Tool Flow:** For complex operations like synchronization, TaskPilot may orchestrate multiple calls to the ' + context.mcp_server_name + ' server through configured tool flows.\\n\\n' : ''}}\n\n**Next Steps:** {{context.action === 'register' && context.result.success ? 'Use the `' + context.mcp_server_name + '` MCP server for platform operations, or test the connection first.' : ''}}\n{{context.action === 'test' && context.result.success ? 'Connection verified! Use the specialized MCP server for platform operations.' : ''}}\n{{context.action === 'list' && context.result.interfaces && context.result.interfaces.length === 0 ? 'No interfaces registered. Use register action to connect platforms.' : ''}}",
     isGlobal: true
   },
   {
@@ -269,7 +269,8 @@ export const GLOBAL_TOOL_FLOW_STEPS_SEED: NewToolFlowStep[] = [
     nextTool: 'end',
     metadata: {
       description: 'Get comprehensive project status overview',
-      requiredContext: ['workspace_name', 'workspace_path']
+      requiredContext: ['workspace_name', 'workspace_path'],
+      stepId: 'overview'
     }
   },
   {
@@ -281,7 +282,8 @@ export const GLOBAL_TOOL_FLOW_STEPS_SEED: NewToolFlowStep[] = [
     nextTool: 'end',
     metadata: {
       description: 'Get detailed task breakdown and metrics',
-      requiredContext: ['task_count', 'status_breakdown']
+      requiredContext: ['task_count', 'status_breakdown'],
+      stepId: 'detailed'
     }
   },
   // Add tool flow steps
@@ -322,7 +324,8 @@ export const GLOBAL_TOOL_FLOW_STEPS_SEED: NewToolFlowStep[] = [
     nextTool: 'end',
     metadata: {
       description: 'Update task field and provide confirmation',
-      requiredContext: ['task_id', 'field_updated', 'new_value']
+      requiredContext: ['task_id', 'field_updated', 'new_value'],
+      stepId: 'confirm'
     }
   },
   // Focus tool flow steps
@@ -335,7 +338,8 @@ export const GLOBAL_TOOL_FLOW_STEPS_SEED: NewToolFlowStep[] = [
     nextTool: 'end',
     metadata: {
       description: 'Focus on specific task with full context',
-      requiredContext: ['task_id', 'task_title', 'task_status']
+      requiredContext: ['task_id', 'task_title', 'task_status'],
+      stepId: 'initial'
     }
   },
   // Audit tool flow steps
@@ -361,7 +365,8 @@ export const GLOBAL_TOOL_FLOW_STEPS_SEED: NewToolFlowStep[] = [
     nextTool: 'taskpilot_start',
     metadata: {
       description: 'Initialize project structure and rules',
-      requiredContext: ['project_requirements', 'workspace_path']
+      requiredContext: ['project_requirements', 'workspace_path'],
+      stepId: 'initial'
     }
   },
   // Start tool flow steps
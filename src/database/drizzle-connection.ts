@@ -2,12 +2,14 @@ import Database from 'better-sqlite3';
 import { drizzle } from 'drizzle-orm/better-sqlite3';
 import { migrate } from 'drizzle-orm/better-sqlite3/migrator';
 import { mkdirSync, existsSync } from 'fs';
+import { AsyncLocalStorage } from 'async_hooks';
 import { join, dirname } from 'path';
 
 // Import schemas
 import * as globalSchema from './schema/global-schema.js';
 import * as workspaceSchema from './schema/workspace-schema.js';
 import * as relations from './schema/relations.js';
+import { formatTaskKey } from '../utils/task-keys.js';
 
 export enum DatabaseType {
   GLOBAL = 'global',
@@ -19,6 +21,10 @@ export class DrizzleDatabaseManager {
   private sqlite: Database.Database | null = null;
   private isInitialized = false;
   private readonly dbType: DatabaseType;
+  // Transactions share the one connection, so they run one after another
+  private transactionQueue: Promise<unknown> = Promise.resolve();
+  // Set while a transaction callback runs, for the calls made from inside it
+  private readonly transactionScope = new AsyncLocalStorage<true>();
 
   get initialized(): boolean {
     return this.isInitialized;
@@ -175,6 +181,20 @@ export class DrizzleDatabaseManager {
           updated_at TEXT DEFAULT CURRENT_TIMESTAMP
         );
 
+        CREATE TABLE IF NOT EXISTS flow_runs (
+          id TEXT PRIMARY KEY,
+          tool_name TEXT NOT NULL,
+          workspace_id TEXT REFERENCES workspaces(id) ON DELETE CASCADE,
+          session_id TEXT,
+          status TEXT NOT NULL DEFAULT 'active' CHECK(status IN ('active', 'completed', 'expired')),
+          current_step TEXT,
+          last_step TEXT,
+          data TEXT DEFAULT '{}',
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          expires_at TEXT
+        );
+
         CREATE TABLE IF NOT EXISTS mcp_server_mappings (
           id TEXT PRIMARY KEY,
           interface_type TEXT NOT NULL CHECK(interface_type IN ('github', 'jira', 'linear', 'asana', 'trello', 'custom')),
@@ -192,6 +212,7 @@ export class DrizzleDatabaseManager {
         CREATE INDEX IF NOT EXISTS idx_tool_flows_tool_name ON tool_flows(tool_name);
         CREATE INDEX IF NOT EXISTS idx_feedback_steps_workspace_id ON feedback_steps(workspace_id);
         CREATE INDEX IF NOT EXISTS idx_feedback_steps_name ON feedback_steps(name);
+        CREATE INDEX IF NOT EXISTS idx_flow_runs_lookup ON flow_runs(tool_name, workspace_id, session_id, status);
         CREATE INDEX IF NOT EXISTS idx_mcp_server_mappings_interface_type ON mcp_server_mappings(interface_type);
         CREATE INDEX IF NOT EXISTS idx_mcp_server_mappings_default ON mcp_server_mappings(is_default);
       `);
@@ -200,12 +221,15 @@ export class DrizzleDatabaseManager {
       this.sqlite.exec(`
         CREATE TABLE IF NOT EXISTS tasks (
           id TEXT PRIMARY KEY,
+          task_key TEXT,
           title TEXT NOT NULL,
           description TEXT,
           status TEXT DEFAULT 'backlog' CHECK(status IN ('backlog', 'in-progress', 'blocked', 'review', 'done', 'dropped')),
           priority TEXT DEFAULT 'medium' CHECK(priority IN ('high', 'medium', 'low')),
           progress INTEGER DEFAULT 0 CHECK(progress >= 0 AND progress <= 100),
+          parent_task_id TEXT,
           dependencies TEXT DEFAULT '[]',
+          blocked_by_dependencies INTEGER DEFAULT 0,
           notes TEXT,
           connected_files TEXT DEFAULT '[]',
           github_issue_number INTEGER,
@@ -215,6 +239,27 @@ export class DrizzleDatabaseManager {
           completed_at TEXT
         );
 
+        CREATE TABLE IF NOT EXISTS task_key_sequence (
+          id INTEGER PRIMARY KEY CHECK(id = 1),
+          prefix TEXT NOT NULL DEFAULT 'TP',
+          counter INTEGER NOT NULL DEFAULT 0
+        );
+
+        INSERT OR IGNORE INTO task_key_sequence (id, prefix, counter) VALUES (1, 'TP', 0);
+
+        CREATE TABLE IF NOT EXISTS task_events (
+          id TEXT PRIMARY KEY,
+          task_id TEXT NOT NULL,
+          event_type TEXT NOT NULL CHECK(event_type IN ('created', 'updated', 'deleted')),
+          field TEXT,
+          old_value TEXT,
+          new_value TEXT,
+          reason TEXT,
+          source TEXT DEFAULT 'system' CHECK(source IN ('mcp', 'rest', 'cli', 'system')),
+          session_id TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
         CREATE TABLE IF NOT EXISTS github_configs (
           id TEXT PRIMARY KEY,
           repo_url TEXT NOT NULL,
@@ -223,6 +268,7 @@ export class DrizzleDatabaseManager {
           github_token TEXT NOT NULL,
           auto_sync INTEGER DEFAULT 0,
           sync_direction TEXT CHECK(sync_direction IN ('bidirectional', 'github_to_taskpilot', 'taskpilot_to_github')) DEFAULT 'bidirectional',
+          conflict_policy TEXT CHECK(conflict_policy IN ('local-wins', 'remote-wins', 'newest-wins', 'manual')) DEFAULT 'manual',
           last_sync TEXT,
           created_at TEXT DEFAULT CURRENT_TIMESTAMP,
           updated_at TEXT DEFAULT CURRENT_TIMESTAMP
@@ -238,11 +284,68 @@ export class DrizzleDatabaseManager {
           sync_enabled INTEGER DEFAULT 1,
           sync_direction TEXT CHECK(sync_direction IN ('bidirectional', 'import_only', 'export_only')) DEFAULT 'bidirectional',
           field_mappings TEXT DEFAULT '[]',
+          conflict_policy TEXT CHECK(conflict_policy IN ('local-wins', 'remote-wins', 'newest-wins', 'manual')) DEFAULT 'manual',
+          sync_interval_minutes INTEGER DEFAULT 15,
+          webhook_secret TEXT,
           last_sync TEXT,
           created_at TEXT DEFAULT CURRENT_TIMESTAMP,
           updated_at TEXT DEFAULT CURRENT_TIMESTAMP
         );
 
+        CREATE TABLE IF NOT EXISTS remote_task_mappings (
+          id TEXT PRIMARY KEY,
+          interface_id TEXT NOT NULL,
+          task_id TEXT NOT NULL,
+          remote_id TEXT NOT NULL,
+          remote_key TEXT NOT NULL,
+          remote_url TEXT,
+          remote_updated_at TEXT,
+          imported INTEGER DEFAULT 0,
+          local_hash TEXT,
+          remote_hash TEXT,
+          last_synced_at TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS sync_conflicts (
+          id TEXT PRIMARY KEY,
+          interface_id TEXT NOT NULL,
+          task_id TEXT NOT NULL,
+          remote_key TEXT NOT NULL,
+          local_values TEXT NOT NULL,
+          remote_values TEXT NOT NULL,
+          remote_hash TEXT NOT NULL,
+          remote_updated_at TEXT,
+          status TEXT NOT NULL CHECK(status IN ('open', 'resolved')) DEFAULT 'open',
+          resolution TEXT CHECK(resolution IN ('local', 'remote')),
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          resolved_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS sync_runs (
+          id TEXT PRIMARY KEY,
+          interface_id TEXT NOT NULL,
+          trigger TEXT NOT NULL CHECK(trigger IN ('scheduled', 'manual')),
+          status TEXT NOT NULL CHECK(status IN ('running', 'succeeded', 'partial', 'failed')) DEFAULT 'running',
+          items_imported INTEGER DEFAULT 0,
+          items_exported INTEGER DEFAULT 0,
+          items_updated INTEGER DEFAULT 0,
+          items_failed INTEGER DEFAULT 0,
+          items_conflicted INTEGER DEFAULT 0,
+          errors TEXT DEFAULT '[]',
+          started_at TEXT NOT NULL,
+          finished_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS webhook_deliveries (
+          id TEXT PRIMARY KEY,
+          interface_id TEXT NOT NULL,
+          delivery_id TEXT NOT NULL,
+          event TEXT NOT NULL,
+          received_at TEXT NOT NULL
+        );
+
         CREATE TABLE IF NOT EXISTS workspace_tool_flows (
           id TEXT PRIMARY KEY,
           tool_name TEXT NOT NULL,
@@ -267,13 +370,96 @@ export class DrizzleDatabaseManager {
         CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
         CREATE INDEX IF NOT EXISTS idx_tasks_priority ON tasks(priority);
         CREATE INDEX IF NOT EXISTS idx_tasks_github_issue_number ON tasks(github_issue_number);
+        CREATE INDEX IF NOT EXISTS idx_task_events_task_id ON task_events(task_id);
         CREATE INDEX IF NOT EXISTS idx_remote_interfaces_type ON remote_interfaces(interface_type);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_remote_task_mappings_task ON remote_task_mappings(interface_id, task_id);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_remote_task_mappings_remote_key ON remote_task_mappings(interface_id, remote_key);
+        CREATE INDEX IF NOT EXISTS idx_sync_conflicts_status ON sync_conflicts(status);
+        CREATE INDEX IF NOT EXISTS idx_sync_conflicts_task ON sync_conflicts(interface_id, task_id);
+        CREATE INDEX IF NOT EXISTS idx_sync_runs_interface ON sync_runs(interface_id, started_at);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_deliveries_delivery ON webhook_deliveries(interface_id, delivery_id);
         CREATE INDEX IF NOT EXISTS idx_workspace_tool_flows_tool_name ON workspace_tool_flows(tool_name);
         CREATE INDEX IF NOT EXISTS idx_workspace_feedback_steps_name ON workspace_feedback_steps(name);
       `);
+
+      // Bring databases created by older versions up to date
+      this.addMissingColumns('tasks', {
+        parent_task_id: 'TEXT',
+        task_key: 'TEXT',
+        blocked_by_dependencies: 'INTEGER DEFAULT 0'
+      });
+      this.addMissingColumns('github_configs', {
+        conflict_policy: "TEXT DEFAULT 'manual'"
+      });
+      this.addMissingColumns('remote_interfaces', {
+        conflict_policy: "TEXT DEFAULT 'manual'",
+        sync_interval_minutes: 'INTEGER DEFAULT 15',
+        webhook_secret: 'TEXT'
+      });
+      this.addMissingColumns('remote_task_mappings', {
+        imported: 'INTEGER DEFAULT 0',
+        local_hash: 'TEXT',
+        remote_hash: 'TEXT'
+      });
+      this.backfillTaskKeys();
+
+      this.sqlite.exec(`
+        CREATE INDEX IF NOT EXISTS idx_tasks_parent_task_id ON tasks(parent_task_id);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_task_key ON tasks(task_key);
+      `);
     }
   }
 
+  /**
+   * Add columns that were introduced after a table was first created.
+   * CREATE TABLE IF NOT EXISTS leaves existing tables untouched, so new
+   * columns have to be added explicitly for databases already on disk.
+   */
+  private addMissingColumns(table: string, columns: Record<string, string>): void {
+    if (!this.sqlite) {
+      throw new Error('SQLite connection not available');
+    }
+
+    const existing = new Set(
+      (this.sqlite.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>)
+        .map(column => column.name)
+    );
+
+    for (const [column, definition] of Object.entries(columns)) {
+      if (!existing.has(column)) {
+        this.sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    }
+  }
+
+  /**
+   * Give tasks created before task keys existed a sequential key, oldest first
+   */
+  private backfillTaskKeys(): void {
+    if (!this.sqlite) {
+      throw new Error('SQLite connection not available');
+    }
+
+    const missing = this.sqlite
+      .prepare('SELECT id FROM tasks WHERE task_key IS NULL ORDER BY created_at, rowid')
+      .all() as Array<{ id: string }>;
+    if (missing.length === 0) {
+      return;
+    }
+
+    const nextKey = this.sqlite.prepare(
+      'UPDATE task_key_sequence SET counter = counter + 1 WHERE id = 1 RETURNING prefix, counter'
+    );
+    const assignKey = this.sqlite.prepare('UPDATE tasks SET task_key = ? WHERE id = ?');
+
+    this.sqlite.transaction(() => {
+      for (const task of missing) {
+        const { prefix, counter } = nextKey.get() as { prefix: string; counter: number };
+        assignKey.run(formatTaskKey(prefix, counter), task.id);
+      }
+    })();
+  }
+
   /**
    * Get Drizzle database instance
    */
@@ -314,11 +500,32 @@ export class DrizzleDatabaseManager {
   }
 
   /**
-   * Execute a transaction
+   * Execute a transaction. better-sqlite3 transactions cannot wait on
+   * promises, so the callback runs between an explicit BEGIN and COMMIT.
+   * Transactions started while another one is open wait for it to finish,
+   * unless they are started from inside its callback, where they join it.
    */
   async transaction<T>(callback: (tx: any) => Promise<T>): Promise<T> {
     const db = this.getDb();
-    return db.transaction(callback);
+    if (this.transactionScope.getStore()) {
+      return callback(db);
+    }
+
+    const run = this.transactionQueue.then(() => this.transactionScope.run(true, async () => {
+      this.sqlite!.exec('BEGIN');
+      try {
+        const result = await callback(db);
+        this.sqlite!.exec('COMMIT');
+        return result;
+      } catch (error) {
+        if (this.sqlite!.inTransaction) {
+          this.sqlite!.exec('ROLLBACK');
+        }
+        throw error;
+      }
+    }));
+    this.transactionQueue = run.catch(() => undefined);
+    return run;
   }
 }
 
@@ -1,4 +1,5 @@
-import { eq, and, or, desc, asc, isNull, isNotNull } from 'drizzle-orm';
+import { EventEmitter } from 'events';
+import { eq, and, or, desc, asc, isNull, isNotNull, lt } from 'drizzle-orm';
 import { DrizzleDatabaseManager, getGlobalDatabase } from './drizzle-connection.js';
 import {
   workspaces,
@@ -6,6 +7,7 @@ import {
   toolFlows,
   toolFlowSteps,
   feedbackSteps,
+  flowRuns,
   mcpServerMappings
 } from './schema/global-schema.js';
 import type {
@@ -19,10 +21,30 @@ import type {
   NewToolFlowStep,
   FeedbackStep,
   NewFeedbackStep,
+  FlowRun,
+  NewFlowRun,
   McpServerMapping,
   NewMcpServerMapping
 } from './schema/global-schema.js';
 
+/**
+ * A written tool flow or tool flow step, broadcast on toolFlowChanges as 'change'
+ */
+export interface ToolFlowChange {
+  toolFlowId: string;
+}
+
+/**
+ * Tool flow and step writes made in this process. Tool input schemas are
+ * derived from flows, so MCP servers announce these as tools/list_changed.
+ */
+export const toolFlowChanges = new EventEmitter();
+
+export function notifyToolFlowChange(toolFlowId: string): void {
+  const change: ToolFlowChange = { toolFlowId };
+  toolFlowChanges.emit('change', change);
+}
+
 export class GlobalDatabaseService {
   private db: DrizzleDatabaseManager;
 
@@ -200,6 +222,7 @@ export class GlobalDatabaseService {
   async createToolFlow(toolFlow: NewToolFlow): Promise<ToolFlow> {
     const db = this.db.getDb();
     const [result] = await db.insert(toolFlows).values(toolFlow).returning();
+    notifyToolFlowChange(result.id);
     return result;
   }
 
@@ -289,6 +312,9 @@ export class GlobalDatabaseService {
       })
       .where(eq(toolFlows.id, id))
       .returning();
+    if (updatedFlow) {
+      notifyToolFlowChange(id);
+    }
     return updatedFlow || null;
   }
 
@@ -298,6 +324,9 @@ export class GlobalDatabaseService {
   async deleteToolFlow(id: string): Promise<boolean> {
     const db = this.db.getDb();
     const result = await db.delete(toolFlows).where(eq(toolFlows.id, id));
+    if (result.changes > 0) {
+      notifyToolFlowChange(id);
+    }
     return result.changes > 0;
   }
 
@@ -318,6 +347,7 @@ export class GlobalDatabaseService {
   async createToolFlowStep(step: NewToolFlowStep): Promise<ToolFlowStep> {
     const db = this.db.getDb();
     const [result] = await db.insert(toolFlowSteps).values(step).returning();
+    notifyToolFlowChange(result.toolFlowId);
     return result;
   }
 
@@ -333,6 +363,9 @@ export class GlobalDatabaseService {
       })
       .where(eq(toolFlowSteps.id, id))
       .returning();
+    if (updatedStep) {
+      notifyToolFlowChange(updatedStep.toolFlowId);
+    }
     return updatedStep || null;
   }
 
@@ -341,8 +374,11 @@ export class GlobalDatabaseService {
    */
   async deleteToolFlowStep(id: string): Promise<boolean> {
     const db = this.db.getDb();
-    const result = await db.delete(toolFlowSteps).where(eq(toolFlowSteps.id, id));
-    return result.changes > 0;
+    const [result] = await db.delete(toolFlowSteps).where(eq(toolFlowSteps.id, id)).returning();
+    if (result) {
+      notifyToolFlowChange(result.toolFlowId);
+    }
+    return !!result;
   }
 
 
@@ -388,6 +424,7 @@ export class GlobalDatabaseService {
       });
     }
 
+    notifyToolFlowChange(newFlow.id);
     return newFlow;
   }
 
@@ -510,6 +547,69 @@ export class GlobalDatabaseService {
     return result.changes > 0;
   }
 
+  // ========================================
+  // FLOW RUN OPERATIONS
+  // ========================================
+
+  /**
+   * Create a flow run
+   */
+  async createFlowRun(run: NewFlowRun): Promise<FlowRun> {
+    const db = this.db.getDb();
+    const [result] = await db.insert(flowRuns).values(run).returning();
+    return result;
+  }
+
+  /**
+   * Get flow run by ID
+   */
+  async getFlowRun(id: string): Promise<FlowRun | null> {
+    const db = this.db.getDb();
+    const [result] = await db.select().from(flowRuns).where(eq(flowRuns.id, id)).limit(1);
+    return result || null;
+  }
+
+  /**
+   * Get the most recent active run of a tool for a workspace and MCP session
+   */
+  async getActiveFlowRun(toolName: string, workspaceId: string | null, sessionId: string | null): Promise<FlowRun | null> {
+    const db = this.db.getDb();
+    const [result] = await db.select()
+      .from(flowRuns)
+      .where(and(
+        eq(flowRuns.toolName, toolName),
+        workspaceId ? eq(flowRuns.workspaceId, workspaceId) : isNull(flowRuns.workspaceId),
+        sessionId ? eq(flowRuns.sessionId, sessionId) : isNull(flowRuns.sessionId),
+        eq(flowRuns.status, 'active')
+      ))
+      .orderBy(desc(flowRuns.updatedAt))
+      .limit(1);
+    return result || null;
+  }
+
+  /**
+   * Update flow run
+   */
+  async updateFlowRun(id: string, updates: Partial<Omit<FlowRun, 'id' | 'createdAt'>>): Promise<FlowRun | null> {
+    const db = this.db.getDb();
+    const [result] = await db.update(flowRuns)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(eq(flowRuns.id, id))
+      .returning();
+    return result || null;
+  }
+
+  /**
+   * Mark active runs whose expiry time has passed as expired
+   */
+  async expireStaleFlowRuns(now: string = new Date().toISOString()): Promise<number> {
+    const db = this.db.getDb();
+    const result = await db.update(flowRuns)
+      .set({ status: 'expired', updatedAt: now })
+      .where(and(eq(flowRuns.status, 'active'), lt(flowRuns.expiresAt, now)));
+    return result.changes;
+  }
+
   // ========================================
   // TOOL FLOW OPERATIONS
   // ========================================
@@ -63,6 +63,23 @@ export const toolFlowSteps = sqliteTable('tool_flow_steps', {
   updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`)
 });
 
+// Progress of a multi-step tool flow, so an agent can resume it with only the run id
+export const flowRuns = sqliteTable('flow_runs', {
+  id: text('id').primaryKey(),
+  toolName: text('tool_name').notNull(),
+  workspaceId: text('workspace_id').references(() => workspaces.id, { onDelete: 'cascade' }),
+  sessionId: text('session_id'),
+  status: text('status', {
+    enum: ['active', 'completed', 'expired']
+  }).notNull().default('active'),
+  currentStep: text('current_step'),
+  lastStep: text('last_step'),
+  data: text('data', { mode: 'json' }).default({}),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
+  expiresAt: text('expires_at')
+});
+
 export const mcpServerMappings = sqliteTable('mcp_server_mappings', {
   id: text('id').primaryKey(),
   interfaceType: text('interface_type', { 
@@ -86,5 +103,7 @@ export type ToolFlowStep = typeof toolFlowSteps.$inferSelect;
 export type NewToolFlowStep = typeof toolFlowSteps.$inferInsert;
 export type FeedbackStep = typeof feedbackSteps.$inferSelect;
 export type NewFeedbackStep = typeof feedbackSteps.$inferInsert;
+export type FlowRun = typeof flowRuns.$inferSelect;
+export type NewFlowRun = typeof flowRuns.$inferInsert;
 export type McpServerMapping = typeof mcpServerMappings.$inferSelect;
 export type NewMcpServerMapping = typeof mcpServerMappings.$inferInsert;
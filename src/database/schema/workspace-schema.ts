@@ -5,6 +5,7 @@ import { sql } from 'drizzle-orm';
 
 export const tasks = sqliteTable('tasks', {
   id: text('id').primaryKey(),
+  taskKey: text('task_key').unique(),
   title: text('title').notNull(),
   description: text('description'),
   status: text('status', {
@@ -14,7 +15,10 @@ export const tasks = sqliteTable('tasks', {
     enum: ['high', 'medium', 'low']
   }).default('medium'),
   progress: integer('progress').default(0),
+  parentTaskId: text('parent_task_id'),
   dependencies: text('dependencies', { mode: 'json' }).default([]),
+  // Set while the task is blocked because of its dependencies rather than by hand
+  blockedByDependencies: integer('blocked_by_dependencies', { mode: 'boolean' }).default(false),
   notes: text('notes'),
   connectedFiles: text('connected_files', { mode: 'json' }).default([]),
   githubIssueNumber: integer('github_issue_number'),
@@ -24,6 +28,30 @@ export const tasks = sqliteTable('tasks', {
   completedAt: text('completed_at')
 });
 
+// Single-row counter used to hand out sequential task keys (e.g. TP-001)
+export const taskKeySequence = sqliteTable('task_key_sequence', {
+  id: integer('id').primaryKey(),
+  prefix: text('prefix').notNull().default('TP'),
+  counter: integer('counter').notNull().default(0)
+});
+
+export const taskEvents = sqliteTable('task_events', {
+  id: text('id').primaryKey(),
+  taskId: text('task_id').notNull(),
+  eventType: text('event_type', {
+    enum: ['created', 'updated', 'deleted']
+  }).notNull(),
+  field: text('field'),
+  oldValue: text('old_value'),
+  newValue: text('new_value'),
+  reason: text('reason'),
+  source: text('source', {
+    enum: ['mcp', 'rest', 'cli', 'system']
+  }).default('system'),
+  sessionId: text('session_id'),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`)
+});
+
 export const githubConfigs = sqliteTable('github_configs', {
   id: text('id').primaryKey(),
   repoUrl: text('repo_url').notNull(),
@@ -34,6 +62,9 @@ export const githubConfigs = sqliteTable('github_configs', {
   syncDirection: text('sync_direction', {
     enum: ['bidirectional', 'github_to_taskpilot', 'taskpilot_to_github']
   }).default('bidirectional'),
+  conflictPolicy: text('conflict_policy', {
+    enum: ['local-wins', 'remote-wins', 'newest-wins', 'manual']
+  }).default('manual'),
   lastSync: text('last_sync'),
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
   updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`)
@@ -53,11 +84,78 @@ export const remoteInterfaces = sqliteTable('remote_interfaces', {
     enum: ['bidirectional', 'import_only', 'export_only']
   }).default('bidirectional'),
   fieldMappings: text('field_mappings', { mode: 'json' }).default([]),
+  conflictPolicy: text('conflict_policy', {
+    enum: ['local-wins', 'remote-wins', 'newest-wins', 'manual']
+  }).default('manual'),
+  // Minutes between scheduled background syncs; 0 turns them off
+  syncIntervalMinutes: integer('sync_interval_minutes').default(15),
+  // Shared secret that signs the provider's webhook deliveries
+  webhookSecret: text('webhook_secret'),
   lastSync: text('last_sync'),
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
   updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`)
 });
 
+// Links a task to the issue it is synced with on a remote interface
+export const remoteTaskMappings = sqliteTable('remote_task_mappings', {
+  id: text('id').primaryKey(),
+  interfaceId: text('interface_id').notNull(),
+  taskId: text('task_id').notNull(),
+  remoteId: text('remote_id').notNull(),
+  remoteKey: text('remote_key').notNull(),
+  remoteUrl: text('remote_url'),
+  remoteUpdatedAt: text('remote_updated_at'),
+  // Set when the task was created from the remote issue rather than exported to it
+  imported: integer('imported', { mode: 'boolean' }).default(false),
+  // Hashes of the synced field values on each side as of the last sync
+  localHash: text('local_hash'),
+  remoteHash: text('remote_hash'),
+  lastSyncedAt: text('last_synced_at'),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`)
+});
+
+// A task changed both locally and remotely, waiting for someone to pick a side
+export const syncConflicts = sqliteTable('sync_conflicts', {
+  id: text('id').primaryKey(),
+  interfaceId: text('interface_id').notNull(),
+  taskId: text('task_id').notNull(),
+  remoteKey: text('remote_key').notNull(),
+  localValues: text('local_values', { mode: 'json' }).$type<Record<string, unknown>>().notNull(),
+  remoteValues: text('remote_values', { mode: 'json' }).$type<Record<string, unknown>>().notNull(),
+  remoteHash: text('remote_hash').notNull(),
+  remoteUpdatedAt: text('remote_updated_at'),
+  status: text('status', { enum: ['open', 'resolved'] }).notNull().default('open'),
+  resolution: text('resolution', { enum: ['local', 'remote'] }),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
+  resolvedAt: text('resolved_at')
+});
+
+// One sync of a remote interface, scheduled or started by hand
+export const syncRuns = sqliteTable('sync_runs', {
+  id: text('id').primaryKey(),
+  interfaceId: text('interface_id').notNull(),
+  trigger: text('trigger', { enum: ['scheduled', 'manual'] }).notNull(),
+  status: text('status', { enum: ['running', 'succeeded', 'partial', 'failed'] }).notNull().default('running'),
+  itemsImported: integer('items_imported').default(0),
+  itemsExported: integer('items_exported').default(0),
+  itemsUpdated: integer('items_updated').default(0),
+  itemsFailed: integer('items_failed').default(0),
+  itemsConflicted: integer('items_conflicted').default(0),
+  errors: text('errors', { mode: 'json' }).$type<string[]>().default([]),
+  startedAt: text('started_at').notNull(),
+  finishedAt: text('finished_at')
+});
+
+// Webhook deliveries already handled, so redelivered events are ignored
+export const webhookDeliveries = sqliteTable('webhook_deliveries', {
+  id: text('id').primaryKey(),
+  interfaceId: text('interface_id').notNull(),
+  deliveryId: text('delivery_id').notNull(),
+  event: text('event').notNull(),
+  receivedAt: text('received_at').notNull()
+});
+
 export const workspaceToolFlows = sqliteTable('workspace_tool_flows', {
   id: text('id').primaryKey(),
   toolName: text('tool_name').notNull(),
@@ -81,10 +179,21 @@ export const workspaceFeedbackSteps = sqliteTable('workspace_feedback_steps', {
 // Export types for use in other files
 export type Task = typeof tasks.$inferSelect;
 export type NewTask = typeof tasks.$inferInsert;
+export type TaskKeySequence = typeof taskKeySequence.$inferSelect;
+export type TaskEvent = typeof taskEvents.$inferSelect;
+export type NewTaskEvent = typeof taskEvents.$inferInsert;
 export type GithubConfig = typeof githubConfigs.$inferSelect;
 export type NewGithubConfig = typeof githubConfigs.$inferInsert;
 export type RemoteInterface = typeof remoteInterfaces.$inferSelect;
 export type NewRemoteInterface = typeof remoteInterfaces.$inferInsert;
+export type RemoteTaskMapping = typeof remoteTaskMappings.$inferSelect;
+export type NewRemoteTaskMapping = typeof remoteTaskMappings.$inferInsert;
+export type SyncConflict = typeof syncConflicts.$inferSelect;
+export type NewSyncConflict = typeof syncConflicts.$inferInsert;
+export type SyncRun = typeof syncRuns.$inferSelect;
+export type NewSyncRun = typeof syncRuns.$inferInsert;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDeliveries.$inferInsert;
 export type WorkspaceToolFlow = typeof workspaceToolFlows.$inferSelect;
 export type NewWorkspaceToolFlow = typeof workspaceToolFlows.$inferInsert;
 export type WorkspaceFeedbackStep = typeof workspaceFeedbackSteps.$inferSelect;
@@ -1,29 +1,98 @@
-import { eq, and, or, desc, asc, isNull, isNotNull, inArray, notInArray, sql } from 'drizzle-orm';
+import { eq, and, or, desc, asc, lt, isNull, isNotNull, inArray, notInArray, sql } from 'drizzle-orm';
 import { DrizzleDatabaseManager, getWorkspaceDatabase } from './drizzle-connection.js';
+import { notifyToolFlowChange } from './global-queries.js';
 import {
   tasks,
+  taskKeySequence,
+  taskEvents,
   githubConfigs,
   remoteInterfaces,
+  remoteTaskMappings,
+  syncConflicts,
+  syncRuns,
+  webhookDeliveries,
   workspaceToolFlows,
   workspaceFeedbackSteps,
   type Task,
   type NewTask,
+  type TaskEvent,
+  type NewTaskEvent,
   type GithubConfig,
   type NewGithubConfig,
   type RemoteInterface,
   type NewRemoteInterface,
+  type RemoteTaskMapping,
+  type NewRemoteTaskMapping,
+  type SyncConflict,
+  type NewSyncConflict,
+  type SyncRun,
+  type NewSyncRun,
+  type WebhookDelivery,
+  type NewWebhookDelivery,
   type WorkspaceToolFlow,
   type NewWorkspaceToolFlow,
   type WorkspaceFeedbackStep,
   type NewWorkspaceFeedbackStep
 } from './schema/workspace-schema.js';
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { formatTaskKey, isValidTaskKeyPrefix, normalizeTaskKey } from '../utils/task-keys.js';
+
+/**
+ * A task together with its nested subtasks
+ */
+export interface TaskTreeNode extends Task {
+  children: TaskTreeNode[];
+}
+
+/**
+ * Who made a task change and why, recorded in the task event log
+ */
+export interface TaskChangeContext {
+  source: NonNullable<TaskEvent['source']>;
+  sessionId?: string | null;
+  reason?: string | null;
+}
+
+/**
+ * Tasks to focus on, derived from status, priority and the dependency graph
+ */
+export interface FocusTasks {
+  inProgress: Task[];
+  readyToStart: Task[];
+  blocked: Task[];
+}
+
+/**
+ * A recorded task change, broadcast on taskChanges as 'change'
+ */
+export interface TaskChange {
+  workspacePath: string;
+  taskId: string;
+  eventType: TaskEvent['eventType'];
+  source: NonNullable<TaskEvent['source']>;
+}
+
+/**
+ * Task changes made through any WorkspaceDatabaseService in this process
+ */
+export const taskChanges = new EventEmitter();
+
+// Statuses that satisfy a dependency. A dropped dependency keeps its
+// dependents blocked until the edge is removed.
+const RESOLVED_STATUSES = ['done'];
+
+const PRIORITY_RANK: Record<string, number> = { high: 0, medium: 1, low: 2 };
+
+// Timestamps and the dependency block marker follow from other changes and are not logged as separate events
+const UNTRACKED_FIELDS = new Set(['createdAt', 'updatedAt', 'completedAt', 'blockedByDependencies']);
 
 export class WorkspaceDatabaseService {
 
   // ========== CONSTRUCTOR & DB INIT ==========
   private db: DrizzleDatabaseManager;
 
-  constructor(workspacePath: string, dbInstance?: DrizzleDatabaseManager) {
+  constructor(private readonly workspacePath: string, dbInstance?: DrizzleDatabaseManager) {
     this.db = dbInstance || getWorkspaceDatabase(workspacePath);
   }
 
@@ -76,21 +145,42 @@ export class WorkspaceDatabaseService {
   }
 
   /**
-   * Create a new task
+   * Create a new task, assigning the next task key unless one is given.
+   * parentTaskId may be a task key or UUID.
    */
-  async createTask(task: NewTask): Promise<Task> {
+  async createTask(task: NewTask, context?: TaskChangeContext): Promise<Task> {
     const db = this.db.getDb();
-    const [result] = await db.insert(tasks).values(task).returning();
+    const parentTaskId = task.parentTaskId
+      ? (await this.getTask(task.parentTaskId))?.id ?? task.parentTaskId
+      : task.parentTaskId;
+    const [result] = await db.insert(tasks).values({
+      ...task,
+      parentTaskId,
+      taskKey: task.taskKey ?? await this.nextTaskKey()
+    }).returning();
+    await this.recordTaskEvent({
+      taskId: result.id,
+      eventType: 'created',
+      newValue: result.title,
+      ...this.eventContext(context)
+    });
+    if (result.parentTaskId) {
+      await this.rollupProgress(result.parentTaskId, context);
+    }
     return result;
   }
 
   /**
-   * Get task by ID
+   * Get task by UUID or task key (case-insensitive, e.g. "tp-7" matches TP-007)
    */
-  async getTask(id: string): Promise<Task | null> {
+  async getTask(ref: string): Promise<Task | null> {
     const db = this.db.getDb();
-    const [result] = await db.select().from(tasks).where(eq(tasks.id, id)).limit(1);
-    return result || null;
+    const [byId] = await db.select().from(tasks).where(eq(tasks.id, ref)).limit(1);
+    if (byId) {
+      return byId;
+    }
+    const [byKey] = await db.select().from(tasks).where(eq(tasks.taskKey, normalizeTaskKey(ref))).limit(1);
+    return byKey || null;
   }
 
   /**
@@ -140,54 +230,304 @@ export class WorkspaceDatabaseService {
   /**
    * Update task
    */
-  async updateTask(id: string, updates: Partial<Omit<Task, 'id' | 'createdAt'>>): Promise<Task | null> {
+  async updateTask(
+    ref: string,
+    updates: Partial<Omit<Task, 'id' | 'createdAt'>>,
+    context?: TaskChangeContext
+  ): Promise<Task | null> {
     const db = this.db.getDb();
+    const existing = await this.getTask(ref);
+    if (!existing) {
+      return null;
+    }
+    const id = existing.id;
     const updateData = { ...updates, updatedAt: new Date().toISOString() };
 
     // If status is being changed to 'done', set completedAt
     if (updates.status === 'done' && !updates.completedAt) {
       updateData.completedAt = new Date().toISOString();
     }
+    // A status set here is set by hand, so syncBlockedStatus no longer owns it
+    if (updates.status && updates.status !== existing.status) {
+      updateData.blockedByDependencies = false;
+    }
 
     const [result] = await db.update(tasks)
       .set(updateData)
       .where(eq(tasks.id, id))
       .returning();
-    return result || null;
+    if (!result) {
+      return null;
+    }
+
+    await this.recordFieldChanges(existing, result, context);
+    if (result.parentTaskId) {
+      await this.rollupProgress(result.parentTaskId, context);
+    }
+    if (result.status !== existing.status) {
+      await this.refreshDependentTasks(id, context);
+    }
+    return result;
   }
 
   /**
    * Update task progress
    */
-  async updateTaskProgress(id: string, progress: number): Promise<Task | null> {
-    const db = this.db.getDb();
-    const updateData: any = {
-      progress,
-      updatedAt: new Date().toISOString()
-    };
+  async updateTaskProgress(id: string, progress: number, context?: TaskChangeContext): Promise<Task | null> {
+    const updates: Partial<Omit<Task, 'id' | 'createdAt'>> = { progress };
 
     // If progress is 100%, mark as done
     if (progress >= 100) {
-      updateData.status = 'done';
-      updateData.completedAt = new Date().toISOString();
+      updates.status = 'done';
     }
 
-    const [result] = await db.update(tasks)
-      .set(updateData)
-      .where(eq(tasks.id, id))
-      .returning();
-    return result || null;
+    return this.updateTask(id, updates, context);
   }
 
   /**
    * Delete task
+   * Subtasks of the deleted task are moved up to its parent, dependency
+   * edges pointing at it are removed, and so are its links to remote
+   * issues and its sync conflicts
    */
-  async deleteTask(id: string): Promise<boolean> {
+  async deleteTask(ref: string, context?: TaskChangeContext): Promise<boolean> {
     const db = this.db.getDb();
+    const existing = await this.getTask(ref);
+    if (!existing) {
+      return false;
+    }
+
+    const id = existing.id;
+    const derived = this.derivedContext(context, `Task ${this.displayKey(existing)} was deleted`);
+    for (const child of await this.getChildTasks(id)) {
+      await this.updateTask(child.id, { parentTaskId: existing.parentTaskId ?? null }, derived);
+    }
+
+    const dependents = await this.getDependentTasks(id);
+    await db.delete(remoteTaskMappings).where(eq(remoteTaskMappings.taskId, id));
+    await db.delete(syncConflicts).where(eq(syncConflicts.taskId, id));
     const result = await db.delete(tasks).where(eq(tasks.id, id));
+    await this.recordTaskEvent({
+      taskId: id,
+      eventType: 'deleted',
+      oldValue: existing.title,
+      ...this.eventContext(context)
+    });
+    if (existing.parentTaskId) {
+      await this.rollupProgress(existing.parentTaskId, context);
+    }
+    for (const dependent of dependents) {
+      await this.setTaskDependencies(
+        dependent.id,
+        this.parseDependencies(dependent).filter(depId => depId !== id),
+        derived
+      );
+    }
     return result.changes > 0;
   }
 
+  // ========================================
+  // TASK KEY OPERATIONS
+  // ========================================
+
+  /**
+   * Get the prefix used for new task keys in this workspace
+   */
+  async getTaskKeyPrefix(): Promise<string> {
+    const db = this.db.getDb();
+    const [sequence] = await db.select().from(taskKeySequence).where(eq(taskKeySequence.id, 1)).limit(1);
+    return sequence.prefix;
+  }
+
+  /**
+   * Change the prefix for new task keys. Existing keys are kept as they are.
+   */
+  async setTaskKeyPrefix(prefix: string): Promise<void> {
+    if (!isValidTaskKeyPrefix(prefix)) {
+      throw new Error(`Invalid task key prefix: ${prefix}`);
+    }
+    const db = this.db.getDb();
+    await db.update(taskKeySequence).set({ prefix }).where(eq(taskKeySequence.id, 1));
+  }
+
+  /**
+   * Reserve the next sequential task key
+   */
+  private async nextTaskKey(): Promise<string> {
+    const db = this.db.getDb();
+    const [sequence] = await db.update(taskKeySequence)
+      .set({ counter: sql`${taskKeySequence.counter} + 1` })
+      .where(eq(taskKeySequence.id, 1))
+      .returning();
+    return formatTaskKey(sequence.prefix, sequence.counter);
+  }
+
+  /**
+   * The identifier shown to users: the task key, or the UUID for keyless tasks
+   */
+  private displayKey(task: Task): string {
+    return task.taskKey ?? task.id;
+  }
+
+  // ========================================
+  // TASK HIERARCHY OPERATIONS
+  // ========================================
+
+  /**
+   * Get direct subtasks of a task
+   */
+  async getChildTasks(parentId: string): Promise<Task[]> {
+    const db = this.db.getDb();
+    return db.select()
+      .from(tasks)
+      .where(eq(tasks.parentTaskId, parentId))
+      .orderBy(asc(tasks.createdAt));
+  }
+
+  /**
+   * Get ancestors of a task, nearest parent first
+   */
+  async getTaskAncestors(id: string): Promise<Task[]> {
+    const ancestors: Task[] = [];
+    const visited = new Set<string>([id]);
+    let current = await this.getTask(id);
+
+    while (current?.parentTaskId && !visited.has(current.parentTaskId)) {
+      visited.add(current.parentTaskId);
+      current = await this.getTask(current.parentTaskId);
+      if (current) {
+        ancestors.push(current);
+      }
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * Get a task with its full subtree of subtasks
+   */
+  async getTaskSubtree(ref: string): Promise<TaskTreeNode | null> {
+    const allTasks = await this.getAllTasks();
+    const key = normalizeTaskKey(ref);
+    const root = allTasks.find(task => task.id === ref) ?? allTasks.find(task => task.taskKey === key);
+    if (!root) {
+      return null;
+    }
+    return this.buildTree(root, this.groupByParent(allTasks), new Set());
+  }
+
+  /**
+   * Get all tasks arranged as a forest of top-level tasks
+   */
+  async getTaskTree(): Promise<TaskTreeNode[]> {
+    const allTasks = await this.getAllTasks();
+    const ids = new Set(allTasks.map(task => task.id));
+    const childrenByParent = this.groupByParent(allTasks);
+    const visited = new Set<string>();
+
+    // Tasks whose parent no longer exists are treated as top-level
+    return allTasks
+      .filter(task => !task.parentTaskId || !ids.has(task.parentTaskId))
+      .map(task => this.buildTree(task, childrenByParent, visited));
+  }
+
+  /**
+   * Move a task under a new parent (or to top level when parentId is null)
+   */
+  async setTaskParent(ref: string, parentRef: string | null, context?: TaskChangeContext): Promise<Task | null> {
+    const task = await this.getTask(ref);
+    if (!task) {
+      return null;
+    }
+    const id = task.id;
+
+    let parentId: string | null = null;
+    if (parentRef) {
+      const parent = await this.getTask(parentRef);
+      if (!parent) {
+        throw new Error(`Parent task not found: ${parentRef}`);
+      }
+      if (parent.id === id) {
+        throw new Error('A task cannot be its own parent');
+      }
+      parentId = parent.id;
+      const parentAncestors = await this.getTaskAncestors(parentId);
+      if (parentAncestors.some(ancestor => ancestor.id === id)) {
+        throw new Error(`Cannot move task ${this.displayKey(task)} under its own subtask ${this.displayKey(parent)}`);
+      }
+    }
+
+    const previousParentId = task.parentTaskId;
+    const updated = await this.updateTask(id, { parentTaskId: parentId }, context);
+    if (previousParentId && previousParentId !== parentId) {
+      await this.rollupProgress(previousParentId, context);
+    }
+    return updated;
+  }
+
+  /**
+   * Recalculate a parent's progress from its subtasks and propagate upwards.
+   * Done subtasks count as 100%, dropped subtasks are ignored.
+   */
+  async rollupProgress(parentId: string, context?: TaskChangeContext): Promise<void> {
+    const db = this.db.getDb();
+    const visited = new Set<string>();
+    let currentId: string | null = parentId;
+
+    while (currentId && !visited.has(currentId)) {
+      visited.add(currentId);
+
+      const children = (await this.getChildTasks(currentId))
+        .filter(child => child.status !== 'dropped');
+      const parent = await this.getTask(currentId);
+      if (!parent) {
+        return;
+      }
+
+      if (children.length > 0) {
+        const total = children.reduce(
+          (sum, child) => sum + (child.status === 'done' ? 100 : child.progress ?? 0),
+          0
+        );
+        const progress = Math.round(total / children.length);
+
+        if (progress !== parent.progress) {
+          const [updated] = await db.update(tasks)
+            .set({ progress, updatedAt: new Date().toISOString() })
+            .where(eq(tasks.id, currentId))
+            .returning();
+          await this.recordFieldChanges(
+            parent,
+            updated,
+            this.derivedContext(context, 'Progress rolled up from subtasks')
+          );
+        }
+      }
+
+      currentId = parent.parentTaskId;
+    }
+  }
+
+  private groupByParent(allTasks: Task[]): Map<string, Task[]> {
+    const childrenByParent = new Map<string, Task[]>();
+    for (const task of allTasks) {
+      if (task.parentTaskId) {
+        const siblings = childrenByParent.get(task.parentTaskId) || [];
+        siblings.push(task);
+        childrenByParent.set(task.parentTaskId, siblings);
+      }
+    }
+    return childrenByParent;
+  }
+
+  private buildTree(task: Task, childrenByParent: Map<string, Task[]>, visited: Set<string>): TaskTreeNode {
+    visited.add(task.id);
+    const children = (childrenByParent.get(task.id) || [])
+      .filter(child => !visited.has(child.id))
+      .map(child => this.buildTree(child, childrenByParent, visited));
+    return { ...task, children };
+  }
+
   /**
    * Search tasks by title or description
    */
@@ -204,6 +544,272 @@ export class WorkspaceDatabaseService {
       .orderBy(desc(tasks.updatedAt));
   }
 
+  // ========================================
+  // TASK DEPENDENCY OPERATIONS
+  // ========================================
+
+  /**
+   * Get the tasks a task is blocked by
+   */
+  async getTaskDependencies(ref: string): Promise<Task[]> {
+    const task = await this.getTask(ref);
+    const dependencyIds = task ? this.parseDependencies(task) : [];
+    if (dependencyIds.length === 0) {
+      return [];
+    }
+    const db = this.db.getDb();
+    return db.select().from(tasks).where(inArray(tasks.id, dependencyIds));
+  }
+
+  /**
+   * Get the tasks that are blocked by a task
+   */
+  async getDependentTasks(ref: string): Promise<Task[]> {
+    const id = (await this.getTask(ref))?.id ?? ref;
+    const allTasks = await this.getAllTasks();
+    return allTasks.filter(task => this.parseDependencies(task).includes(id));
+  }
+
+  /**
+   * Add a "blocked by" edge from taskId to dependsOnId.
+   * Rejects self-dependencies and edges that would close a cycle.
+   */
+  async addTaskDependency(taskRef: string, dependsOnRef: string, context?: TaskChangeContext): Promise<Task | null> {
+    const task = await this.getTask(taskRef);
+    if (!task) {
+      return null;
+    }
+
+    const dependsOnId = (await this.getTask(dependsOnRef))?.id ?? dependsOnRef;
+    const dependencies = this.parseDependencies(task);
+    if (dependencies.includes(dependsOnId)) {
+      return task;
+    }
+    return this.setTaskDependencies(task.id, [...dependencies, dependsOnId], context);
+  }
+
+  /**
+   * Remove a "blocked by" edge from taskId to dependsOnId
+   */
+  async removeTaskDependency(taskRef: string, dependsOnRef: string, context?: TaskChangeContext): Promise<Task | null> {
+    const task = await this.getTask(taskRef);
+    if (!task) {
+      return null;
+    }
+    const dependsOnId = (await this.getTask(dependsOnRef))?.id ?? dependsOnRef;
+    return this.setTaskDependencies(
+      task.id,
+      this.parseDependencies(task).filter(id => id !== dependsOnId),
+      context
+    );
+  }
+
+  /**
+   * Replace the full dependency list of a task, validating every edge.
+   * Dependencies may be given as task keys or UUIDs and are stored as UUIDs.
+   */
+  async setTaskDependencies(taskRef: string, dependsOnRefs: string[], context?: TaskChangeContext): Promise<Task | null> {
+    const db = this.db.getDb();
+    const task = await this.getTask(taskRef);
+    if (!task) {
+      return null;
+    }
+
+    const taskId = task.id;
+    const allTasks = await this.getAllTasks();
+    const byId = new Map(allTasks.map(t => [t.id, t]));
+    const byKey = new Map(allTasks.filter(t => t.taskKey).map(t => [t.taskKey!, t]));
+    const dependencies = [...new Set(dependsOnRefs.map(ref => {
+      const dependency = byId.get(ref) ?? byKey.get(normalizeTaskKey(ref));
+      if (!dependency) {
+        throw new Error(`Dependency task not found: ${ref}`);
+      }
+      return dependency.id;
+    }))];
+    const edges = new Map(allTasks.map(t => [t.id, this.parseDependencies(t)]));
+    edges.set(taskId, dependencies);
+
+    for (const dependsOnId of dependencies) {
+      if (dependsOnId === taskId) {
+        throw new Error('A task cannot depend on itself');
+      }
+      const cycle = this.findDependencyPath(dependsOnId, taskId, edges);
+      if (cycle) {
+        const path = [taskId, ...cycle].map(id => this.displayKey(byId.get(id)!));
+        throw new Error(`Dependency cycle detected: ${path.join(' -> ')}`);
+      }
+    }
+
+    const [updated] = await db.update(tasks)
+      .set({ dependencies, updatedAt: new Date().toISOString() })
+      .where(eq(tasks.id, taskId))
+      .returning();
+    await this.recordFieldChanges(task, updated, context);
+
+    return this.syncBlockedStatus(taskId, context);
+  }
+
+  /**
+   * Move a task to blocked while any dependency is unresolved, and back to
+   * backlog once all of them are done. Tasks in review, done or dropped are
+   * left alone, and so are tasks that were set to blocked by hand.
+   */
+  async syncBlockedStatus(ref: string, context?: TaskChangeContext): Promise<Task | null> {
+    const db = this.db.getDb();
+    const task = await this.getTask(ref);
+    if (!task) {
+      return null;
+    }
+    const id = task.id;
+
+    const dependencies = await this.getTaskDependencies(id);
+    const unresolved = dependencies.filter(dep => !RESOLVED_STATUSES.includes(dep.status ?? 'backlog'));
+
+    let status = task.status;
+    if (unresolved.length > 0 && (task.status === 'backlog' || task.status === 'in-progress')) {
+      status = 'blocked';
+    } else if (unresolved.length === 0 && task.status === 'blocked' && task.blockedByDependencies) {
+      status = 'backlog';
+    }
+
+    if (status === task.status) {
+      return task;
+    }
+
+    const [result] = await db.update(tasks)
+      .set({ status, blockedByDependencies: status === 'blocked', updatedAt: new Date().toISOString() })
+      .where(eq(tasks.id, id))
+      .returning();
+    const reason = status === 'blocked'
+      ? `Waiting on ${unresolved.map(dep => this.displayKey(dep)).join(', ')}`
+      : 'All dependencies resolved';
+    await this.recordFieldChanges(task, result, this.derivedContext(context, reason));
+    return result || null;
+  }
+
+  /**
+   * Re-evaluate the blocked state of every task that depends on the given task
+   */
+  private async refreshDependentTasks(id: string, context?: TaskChangeContext): Promise<void> {
+    for (const dependent of await this.getDependentTasks(id)) {
+      await this.syncBlockedStatus(dependent.id, context);
+    }
+  }
+
+  /**
+   * Depth-first search along dependency edges, returning the path from `from` to `to` if one exists
+   */
+  private findDependencyPath(from: string, to: string, edges: Map<string, string[]>): string[] | null {
+    const visited = new Set<string>();
+    const stack: Array<{ id: string; path: string[] }> = [{ id: from, path: [from] }];
+
+    while (stack.length > 0) {
+      const { id, path } = stack.pop()!;
+      if (id === to) {
+        return path;
+      }
+      if (visited.has(id)) {
+        continue;
+      }
+      visited.add(id);
+      for (const next of edges.get(id) || []) {
+        stack.push({ id: next, path: [...path, next] });
+      }
+    }
+
+    return null;
+  }
+
+  private parseDependencies(task: Task): string[] {
+    return Array.isArray(task.dependencies)
+      ? (task.dependencies as unknown[]).filter((id): id is string => typeof id === 'string')
+      : [];
+  }
+
+  // ========================================
+  // TASK EVENT OPERATIONS
+  // ========================================
+
+  /**
+   * Get the change history of a task, oldest first
+   */
+  async getTaskEvents(taskRef: string): Promise<TaskEvent[]> {
+    const db = this.db.getDb();
+    const taskId = (await this.getTask(taskRef))?.id ?? taskRef;
+    return db.select()
+      .from(taskEvents)
+      .where(eq(taskEvents.taskId, taskId))
+      .orderBy(asc(taskEvents.createdAt), sql`rowid`);
+  }
+
+  /**
+   * Append an event to the task log
+   */
+  private async recordTaskEvent(event: Omit<NewTaskEvent, 'id' | 'createdAt'>): Promise<void> {
+    const db = this.db.getDb();
+    await db.insert(taskEvents).values({
+      id: uuidv4(),
+      ...event,
+      createdAt: new Date().toISOString()
+    });
+    const change: TaskChange = {
+      workspacePath: this.workspacePath,
+      taskId: event.taskId,
+      eventType: event.eventType,
+      source: event.source ?? 'system'
+    };
+    taskChanges.emit('change', change);
+  }
+
+  /**
+   * Record one 'updated' event per field that differs between two versions of a task
+   */
+  private async recordFieldChanges(before: Task, after: Task | undefined, context?: TaskChangeContext): Promise<void> {
+    if (!after) {
+      return;
+    }
+
+    for (const key of Object.keys(after) as Array<keyof Task>) {
+      if (UNTRACKED_FIELDS.has(key)) {
+        continue;
+      }
+      const oldValue = this.serializeEventValue(before[key]);
+      const newValue = this.serializeEventValue(after[key]);
+      if (oldValue !== newValue) {
+        await this.recordTaskEvent({
+          taskId: after.id,
+          eventType: 'updated',
+          field: key.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`),
+          oldValue,
+          newValue,
+          ...this.eventContext(context)
+        });
+      }
+    }
+  }
+
+  private eventContext(context?: TaskChangeContext): Pick<NewTaskEvent, 'source' | 'sessionId' | 'reason'> {
+    return {
+      source: context?.source ?? 'system',
+      sessionId: context?.sessionId ?? null,
+      reason: context?.reason ?? null
+    };
+  }
+
+  /**
+   * Context for changes made automatically as a consequence of another change
+   */
+  private derivedContext(context: TaskChangeContext | undefined, reason: string): TaskChangeContext {
+    return { source: context?.source ?? 'system', sessionId: context?.sessionId ?? null, reason };
+  }
+
+  private serializeEventValue(value: unknown): string | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+
   // ========================================
   // GITHUB CONFIG OPERATIONS
   // ========================================
@@ -301,14 +907,240 @@ export class WorkspaceDatabaseService {
   }
 
   /**
-   * Delete remote interface
+   * Delete remote interface with its task links and sync conflicts
    */
   async deleteRemoteInterface(id: string): Promise<boolean> {
     const db = this.db.getDb();
+    await db.delete(remoteTaskMappings).where(eq(remoteTaskMappings.interfaceId, id));
+    await db.delete(syncConflicts).where(eq(syncConflicts.interfaceId, id));
+    await db.delete(syncRuns).where(eq(syncRuns.interfaceId, id));
+    await db.delete(webhookDeliveries).where(eq(webhookDeliveries.interfaceId, id));
     const result = await db.delete(remoteInterfaces).where(eq(remoteInterfaces.id, id));
     return result.changes > 0;
   }
 
+  // ========================================
+  // REMOTE TASK MAPPING OPERATIONS
+  // ========================================
+
+  /**
+   * Link a task to a remote issue
+   */
+  async createRemoteTaskMapping(mapping: Omit<NewRemoteTaskMapping, 'id'>): Promise<RemoteTaskMapping> {
+    const db = this.db.getDb();
+    const [result] = await db.insert(remoteTaskMappings).values({ id: uuidv4(), ...mapping }).returning();
+    return result;
+  }
+
+  /**
+   * Get all task links of a remote interface
+   */
+  async getRemoteTaskMappings(interfaceId: string): Promise<RemoteTaskMapping[]> {
+    const db = this.db.getDb();
+    return db.select()
+      .from(remoteTaskMappings)
+      .where(eq(remoteTaskMappings.interfaceId, interfaceId))
+      .orderBy(asc(remoteTaskMappings.createdAt));
+  }
+
+  /**
+   * IDs of the tasks created from a remote issue, on any interface
+   */
+  async getImportedTaskIds(): Promise<Set<string>> {
+    const db = this.db.getDb();
+    const rows = await db.select({ taskId: remoteTaskMappings.taskId })
+      .from(remoteTaskMappings)
+      .where(eq(remoteTaskMappings.imported, true));
+    return new Set(rows.map(row => row.taskId));
+  }
+
+  /**
+   * Get the remote issue a task is linked to on an interface
+   */
+  async getRemoteTaskMappingByTask(interfaceId: string, taskId: string): Promise<RemoteTaskMapping | null> {
+    const db = this.db.getDb();
+    const [result] = await db.select()
+      .from(remoteTaskMappings)
+      .where(and(eq(remoteTaskMappings.interfaceId, interfaceId), eq(remoteTaskMappings.taskId, taskId)))
+      .limit(1);
+    return result || null;
+  }
+
+  /**
+   * Get the task linked to a remote issue key on an interface
+   */
+  async getRemoteTaskMappingByRemoteKey(interfaceId: string, remoteKey: string): Promise<RemoteTaskMapping | null> {
+    const db = this.db.getDb();
+    const [result] = await db.select()
+      .from(remoteTaskMappings)
+      .where(and(eq(remoteTaskMappings.interfaceId, interfaceId), eq(remoteTaskMappings.remoteKey, remoteKey)))
+      .limit(1);
+    return result || null;
+  }
+
+  /**
+   * Update a task link, e.g. after a sync
+   */
+  async updateRemoteTaskMapping(
+    id: string,
+    updates: Partial<Omit<RemoteTaskMapping, 'id' | 'interfaceId' | 'taskId' | 'createdAt'>>
+  ): Promise<RemoteTaskMapping | null> {
+    const db = this.db.getDb();
+    const [result] = await db.update(remoteTaskMappings)
+      .set(updates)
+      .where(eq(remoteTaskMappings.id, id))
+      .returning();
+    return result || null;
+  }
+
+  // ========================================
+  // SYNC CONFLICT OPERATIONS
+  // ========================================
+
+  /**
+   * Record a conflict for review
+   */
+  async createSyncConflict(conflict: Omit<NewSyncConflict, 'id'>): Promise<SyncConflict> {
+    const db = this.db.getDb();
+    const [result] = await db.insert(syncConflicts).values({ id: uuidv4(), ...conflict }).returning();
+    return result;
+  }
+
+  /**
+   * Get sync conflicts, newest first, optionally only those with a status
+   */
+  async getSyncConflicts(status?: SyncConflict['status']): Promise<SyncConflict[]> {
+    const db = this.db.getDb();
+    return db.select()
+      .from(syncConflicts)
+      .where(status ? eq(syncConflicts.status, status) : undefined)
+      .orderBy(desc(syncConflicts.createdAt));
+  }
+
+  /**
+   * Get sync conflict by ID
+   */
+  async getSyncConflict(id: string): Promise<SyncConflict | null> {
+    const db = this.db.getDb();
+    const [result] = await db.select().from(syncConflicts).where(eq(syncConflicts.id, id)).limit(1);
+    return result || null;
+  }
+
+  /**
+   * Get the unresolved conflict of a task on an interface
+   */
+  async getOpenSyncConflict(interfaceId: string, taskId: string): Promise<SyncConflict | null> {
+    const db = this.db.getDb();
+    const [result] = await db.select()
+      .from(syncConflicts)
+      .where(and(
+        eq(syncConflicts.interfaceId, interfaceId),
+        eq(syncConflicts.taskId, taskId),
+        eq(syncConflicts.status, 'open')
+      ))
+      .limit(1);
+    return result || null;
+  }
+
+  /**
+   * Update sync conflict
+   */
+  async updateSyncConflict(
+    id: string,
+    updates: Partial<Omit<SyncConflict, 'id' | 'interfaceId' | 'taskId' | 'createdAt'>>
+  ): Promise<SyncConflict | null> {
+    const db = this.db.getDb();
+    const [result] = await db.update(syncConflicts)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(eq(syncConflicts.id, id))
+      .returning();
+    return result || null;
+  }
+
+  // ========================================
+  // SYNC RUN OPERATIONS
+  // ========================================
+
+  /**
+   * Record the start of a sync run
+   */
+  async createSyncRun(run: Omit<NewSyncRun, 'id'>): Promise<SyncRun> {
+    const db = this.db.getDb();
+    const [result] = await db.insert(syncRuns).values({ id: uuidv4(), ...run }).returning();
+    return result;
+  }
+
+  /**
+   * Update sync run
+   */
+  async updateSyncRun(id: string, updates: Partial<Omit<SyncRun, 'id' | 'interfaceId'>>): Promise<SyncRun | null> {
+    const db = this.db.getDb();
+    const [result] = await db.update(syncRuns).set(updates).where(eq(syncRuns.id, id)).returning();
+    return result || null;
+  }
+
+  /**
+   * Get the latest sync runs of an interface, newest first
+   */
+  async getSyncRuns(interfaceId: string, limit = 50): Promise<SyncRun[]> {
+    const db = this.db.getDb();
+    return db.select()
+      .from(syncRuns)
+      .where(eq(syncRuns.interfaceId, interfaceId))
+      .orderBy(desc(syncRuns.startedAt))
+      .limit(limit);
+  }
+
+  /**
+   * Delete all but the latest runs of an interface
+   */
+  async pruneSyncRuns(interfaceId: string, keep: number): Promise<void> {
+    const db = this.db.getDb();
+    const kept = db.select({ id: syncRuns.id })
+      .from(syncRuns)
+      .where(eq(syncRuns.interfaceId, interfaceId))
+      .orderBy(desc(syncRuns.startedAt))
+      .limit(keep);
+    await db.delete(syncRuns).where(and(eq(syncRuns.interfaceId, interfaceId), notInArray(syncRuns.id, kept)));
+  }
+
+  // ========================================
+  // WEBHOOK DELIVERY OPERATIONS
+  // ========================================
+
+  /**
+   * Record a webhook delivery; resolves to null when the interface already
+   * has a delivery with the same id
+   */
+  async createWebhookDelivery(delivery: Omit<NewWebhookDelivery, 'id'>): Promise<WebhookDelivery | null> {
+    const db = this.db.getDb();
+    const [result] = await db.insert(webhookDeliveries)
+      .values({ id: uuidv4(), ...delivery })
+      .onConflictDoNothing()
+      .returning();
+    return result || null;
+  }
+
+  /**
+   * Delete webhook delivery
+   */
+  async deleteWebhookDelivery(id: string): Promise<boolean> {
+    const db = this.db.getDb();
+    const result = await db.delete(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return result.changes > 0;
+  }
+
+  /**
+   * Delete the deliveries an interface received before the given time
+   */
+  async pruneWebhookDeliveries(interfaceId: string, before: string): Promise<void> {
+    const db = this.db.getDb();
+    await db.delete(webhookDeliveries).where(and(
+      eq(webhookDeliveries.interfaceId, interfaceId),
+      lt(webhookDeliveries.receivedAt, before)
+    ));
+  }
+
   // ========================================
   // WORKSPACE TOOL FLOW OPERATIONS
   // ========================================
@@ -319,6 +1151,7 @@ export class WorkspaceDatabaseService {
   async createWorkspaceToolFlow(toolFlow: NewWorkspaceToolFlow): Promise<WorkspaceToolFlow> {
     const db = this.db.getDb();
     const [result] = await db.insert(workspaceToolFlows).values(toolFlow).returning();
+    notifyToolFlowChange(result.id);
     return result;
   }
 
@@ -351,6 +1184,9 @@ export class WorkspaceDatabaseService {
       .set({ ...updates, updatedAt: new Date().toISOString() })
       .where(eq(workspaceToolFlows.id, id))
       .returning();
+    if (result) {
+      notifyToolFlowChange(id);
+    }
     return result || null;
   }
 
@@ -360,6 +1196,9 @@ export class WorkspaceDatabaseService {
   async deleteWorkspaceToolFlow(id: string): Promise<boolean> {
     const db = this.db.getDb();
     const result = await db.delete(workspaceToolFlows).where(eq(workspaceToolFlows.id, id));
+    if (result.changes > 0) {
+      notifyToolFlowChange(id);
+    }
     return result.changes > 0;
   }
 
@@ -466,17 +1305,36 @@ export class WorkspaceDatabaseService {
   }
 
   /**
-   * Get high-priority in-progress tasks (for focus mode)
+   * Get tasks for focus mode: work in progress, tasks whose dependencies are
+   * all resolved (ready to start) and tasks still waiting on others.
+   * Ready tasks are ordered by priority, then by how many tasks they unblock.
    */
-  async getFocusTasks(): Promise<Task[]> {
-    const db = this.db.getDb();
-    return db.select()
-      .from(tasks)
-      .where(and(
-        eq(tasks.status, 'in-progress'),
-        eq(tasks.priority, 'high')
-      ))
-      .orderBy(desc(tasks.updatedAt));
+  async getFocusTasks(): Promise<FocusTasks> {
+    const allTasks = await this.getAllTasks();
+    const statusById = new Map(allTasks.map(task => [task.id, task.status ?? 'backlog']));
+    const unblockCount = new Map<string, number>();
+    for (const task of allTasks) {
+      for (const depId of this.parseDependencies(task)) {
+        unblockCount.set(depId, (unblockCount.get(depId) || 0) + 1);
+      }
+    }
+
+    const byPriority = (a: Task, b: Task) =>
+      (PRIORITY_RANK[a.priority ?? 'medium'] ?? 1) - (PRIORITY_RANK[b.priority ?? 'medium'] ?? 1);
+    const isReady = (task: Task) => this.parseDependencies(task)
+      .every(depId => RESOLVED_STATUSES.includes(statusById.get(depId) ?? 'done'));
+
+    return {
+      inProgress: allTasks
+        .filter(task => task.status === 'in-progress')
+        .sort(byPriority),
+      readyToStart: allTasks
+        .filter(task => task.status === 'backlog' && isReady(task))
+        .sort((a, b) => byPriority(a, b) || (unblockCount.get(b.id) || 0) - (unblockCount.get(a.id) || 0)),
+      blocked: allTasks
+        .filter(task => task.status === 'blocked' || (task.status === 'backlog' && !isReady(task)))
+        .sort(byPriority)
+    };
   }
 
   /**
@@ -14,10 +14,16 @@ import {
   ListToolsRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 
-import { initializeGlobalDatabaseService, type GlobalDatabaseService } from './database/global-queries.js';
+import { initializeGlobalDatabaseService, toolFlowChanges, type GlobalDatabaseService } from './database/global-queries.js';
 import { DatabaseService } from './services/database-service.js';
 import { SeedManager } from './services/seed-manager.js';
+import { ToolFlowExecutor, type DatabaseDrivenTool } from './services/tool-flow-executor.js';
 import { PromptOrchestrator } from './services/prompt-orchestrator.js';
+import { WorkspaceResourceProvider } from './services/workspace-resources.js';
+import { FeedbackPromptProvider } from './services/feedback-prompts.js';
+import { ArgumentCompletionProvider } from './services/argument-completions.js';
+import { GitHubAutoSync } from './services/github-auto-sync.js';
+import { SyncScheduler } from './services/sync-scheduler.js';
 
 // Type definitions
 interface CmdOptions {
@@ -31,29 +37,40 @@ import { parseCliArgs, displayHelp } from './utils/cli-parser.js';
 import { ensurePortFree } from './utils/process-manager.js';
 
 // Express server
-import { ExpressServer, MCPToolHandlers } from './server/express-server.js';
+import { ExpressServer, MCPToolHandlers, TOOL_LIST_CHANGED_DEBOUNCE_MS } from './server/express-server.js';
+import { ResourceSubscriptions, registerResourceHandlers } from './server/mcp-resources.js';
+import { registerPromptHandlers } from './server/mcp-prompts.js';
+import { registerCompletionHandler } from './server/mcp-completions.js';
+import { createProgressReporter } from './server/mcp-progress.js';
+import { debounce } from './utils/debounce.js';
+import { NO_PROGRESS, type ProgressReporter } from './utils/progress.js';
 
 import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { ZodTypeAny } from 'zod';
 // Tools
-import { InitToolNew, initToolSchema } from './tools/init.js';
+import { InitToolNew, initToolSchema, initToolOutputSchema } from './tools/init.js';
 import { StartTool, startToolSchema } from './tools/start.js';
-import { AddToolNew, addToolSchema } from './tools/add.js';
-import { StatusToolNew, statusToolSchema } from './tools/status.js';
-import { UpdateToolNew, updateToolSchema } from './tools/update.js';
-import { AuditToolNew, auditToolSchema } from './tools/audit.js';
-import { FocusToolNew, focusToolSchema } from './tools/focus.js';
+import { AddToolNew, addToolSchema, addToolOutputSchema } from './tools/add.js';
+import { StatusToolNew, statusToolSchema, statusToolOutputSchema } from './tools/status.js';
+import { UpdateToolNew, updateToolSchema, updateToolOutputSchema } from './tools/update.js';
+import { AuditToolNew, auditToolSchema, auditToolOutputSchema } from './tools/audit.js';
+import { FocusToolNew, focusToolSchema, focusToolOutputSchema } from './tools/focus.js';
 import { GitHubTool, githubToolSchema } from './tools/github.js';
 import { RuleUpdateTool, ruleUpdateToolSchema } from './tools/rule-update.js';
 import { RemoteInterfaceTool, remoteInterfaceToolSchema } from './tools/remote-interface.js';
 import { UpdateResourcesTool, updateResourcesToolSchema } from './tools/update-resources.js';
 import { UpdateStepsTool, updateStepsToolSchema } from './tools/update-steps.js';
+import { promptToolOutputSchema, toToolOutput } from './tools/tool-output.js';
 import { InstanceManager } from './server/instance-manager.js';
-import { ToolStepResult, TaskPilotToolResult } from './types/index.js';
+import { ToolStepResult, TaskPilotToolResult, MCPToolResult, ToolCallOrigin } from './types/index.js';
 
 /**
- * Convert ToolStepResult to MCP-compatible format
+ * Convert ToolStepResult to MCP-compatible format, with structuredContent
+ * matching the tool's outputSchema
  */
-function convertToMCPResult(result: ToolStepResult | TaskPilotToolResult): TaskPilotToolResult {
+function convertToMCPResult(toolName: string, result: ToolStepResult | TaskPilotToolResult): MCPToolResult {
+  const structuredContent = toToolOutput(toolName, result);
+
   if ('isFinalStep' in result) {
     // ToolStepResult - convert to TaskPilotToolResult format
     let feedback = result.feedback || '';
@@ -72,12 +89,16 @@ function convertToMCPResult(result: ToolStepResult | TaskPilotToolResult): TaskP
         type: 'text',
         text: feedback
       }],
-      isError: result.data?.error === true
+      isError: result.data?.error === true,
+      structuredContent
     };
   }
 
-  // Already TaskPilotToolResult format
-  return result;
+  return {
+    content: result.content,
+    isError: result.isError,
+    structuredContent
+  };
 }
 
 // Global variables
@@ -96,10 +117,16 @@ let ruleUpdateTool: RuleUpdateTool;
 let remoteInterfaceTool: RemoteInterfaceTool;
 let updateResourcesTool: UpdateResourcesTool;
 let updateStepsTool: UpdateStepsTool;
+let flowExecutor: ToolFlowExecutor;
 
 let globalDbService: GlobalDatabaseService;
 let databaseService: DatabaseService;
+let workspaceResources: WorkspaceResourceProvider;
+let feedbackPrompts: FeedbackPromptProvider;
+let argumentCompletions: ArgumentCompletionProvider;
 let expressServer: ExpressServer | null = null;
+let githubAutoSync: GitHubAutoSync | null = null;
+let syncScheduler: SyncScheduler | null = null;
 
 async function initializeServer() {
   try {
@@ -109,6 +136,9 @@ async function initializeServer() {
 
     // Create DatabaseService for API endpoints
     databaseService = new DatabaseService(globalDrizzleManager);
+    workspaceResources = new WorkspaceResourceProvider(databaseService);
+    feedbackPrompts = new FeedbackPromptProvider(databaseService);
+    argumentCompletions = new ArgumentCompletionProvider(databaseService);
 
 
     // Initialize services with pure Drizzle operations
@@ -129,6 +159,7 @@ async function initializeServer() {
     remoteInterfaceTool = new RemoteInterfaceTool(globalDrizzleManager);
     updateResourcesTool = new UpdateResourcesTool(globalDrizzleManager);
     updateStepsTool = new UpdateStepsTool(globalDrizzleManager);
+    flowExecutor = new ToolFlowExecutor(globalDrizzleManager);
 
     // Initialize global seed data using pure TypeScript approach
     await seedManager.initializeGlobalData();
@@ -139,6 +170,20 @@ async function initializeServer() {
   }
 }
 
+/**
+ * Input schema of a flow-driven tool, with stepId limited to the steps of its
+ * current flow and its step handlers. Flow edits are announced with
+ * tools/list_changed.
+ */
+async function flowToolInputSchema(tool: DatabaseDrivenTool, schema: ZodTypeAny) {
+  const inputSchema = zodToJsonSchema(schema) as { properties?: Record<string, Record<string, unknown>> };
+  const stepIds = await flowExecutor.getStepIds(tool.getToolName(), Object.keys(tool.getStepHandlers()));
+  if (inputSchema.properties?.stepId && stepIds.length > 0) {
+    inputSchema.properties.stepId = { ...inputSchema.properties.stepId, enum: stepIds };
+  }
+  return inputSchema;
+}
+
 function createMCPToolHandlers(): MCPToolHandlers {
   return {
     async listTools() {
@@ -147,160 +192,156 @@ function createMCPToolHandlers(): MCPToolHandlers {
           {
             name: ToolNames.INIT,
             description: "Initialize a TaskPilot workspace with .task folder structure and configuration",
-            inputSchema: zodToJsonSchema(initToolSchema),
+            inputSchema: await flowToolInputSchema(initTool, initToolSchema),
+            outputSchema: zodToJsonSchema(initToolOutputSchema),
           },
           {
             name: ToolNames.START,
             description: "Initialize TaskPilot session for a workspace and provide comprehensive project context",
             inputSchema: zodToJsonSchema(startToolSchema),
+            outputSchema: zodToJsonSchema(promptToolOutputSchema),
           },
           {
             name: ToolNames.ADD,
             description: "Orchestrate task creation workflow with analytical validation",
-            inputSchema: zodToJsonSchema(addToolSchema),
+            inputSchema: await flowToolInputSchema(addTool, addToolSchema),
+            outputSchema: zodToJsonSchema(addToolOutputSchema),
           },
           {
             name: ToolNames.STATUS,
             description: "Generate comprehensive project status report with analysis and recommendations",
-            inputSchema: zodToJsonSchema(statusToolSchema),
+            inputSchema: await flowToolInputSchema(statusTool, statusToolSchema),
+            outputSchema: zodToJsonSchema(statusToolOutputSchema),
           },
           {
             name: ToolNames.UPDATE,
             description: "Update task properties with audit trail and validation",
-            inputSchema: zodToJsonSchema(updateToolSchema),
+            inputSchema: await flowToolInputSchema(updateTool, updateToolSchema),
+            outputSchema: zodToJsonSchema(updateToolOutputSchema),
           },
           {
             name: ToolNames.AUDIT,
             description: "Perform comprehensive project audit with health checking and cleanup recommendations",
             inputSchema: zodToJsonSchema(auditToolSchema),
+            outputSchema: zodToJsonSchema(auditToolOutputSchema),
           },
           {
             name: ToolNames.FOCUS,
             description: "Focus on a specific task and provide comprehensive implementation context",
-            inputSchema: zodToJsonSchema(focusToolSchema),
+            inputSchema: await flowToolInputSchema(focusTool, focusToolSchema),
+            outputSchema: zodToJsonSchema(focusToolOutputSchema),
           },
           {
             name: ToolNames.GITHUB,
             description: "Integrate with GitHub for issue creation, PR management, and task synchronization",
             inputSchema: zodToJsonSchema(githubToolSchema),
+            outputSchema: zodToJsonSchema(promptToolOutputSchema),
           },
           {
             name: ToolNames.RULE_UPDATE,
             description: "Manage workspace-specific rules and guidelines",
             inputSchema: zodToJsonSchema(ruleUpdateToolSchema),
+            outputSchema: zodToJsonSchema(promptToolOutputSchema),
           },
           {
             name: ToolNames.REMOTE_INTERFACE,
             description: "Manage connections to external systems for task synchronization",
             inputSchema: zodToJsonSchema(remoteInterfaceToolSchema),
+            outputSchema: zodToJsonSchema(promptToolOutputSchema),
           },
           {
             name: ToolNames.UPDATE_RESOURCES,
             description: "Update project documentation resources like project.md and design.md",
             inputSchema: zodToJsonSchema(updateResourcesToolSchema),
+            outputSchema: zodToJsonSchema(promptToolOutputSchema),
           },
           {
             name: ToolNames.UPDATE_STEPS,
             description: "Update workspace-specific feedback steps and validation rules",
             inputSchema: zodToJsonSchema(updateStepsToolSchema),
+            outputSchema: zodToJsonSchema(promptToolOutputSchema),
           },
         ],
       };
     },
 
-    async handleToolCall(name: string, args: Record<string, unknown>) {
+    async handleToolCall(name: string, rawArgs: Record<string, unknown>, origin: ToolCallOrigin = { source: 'mcp' }, progress: ProgressReporter = NO_PROGRESS) {
       try {
+        // A run_id restores the arguments collected by earlier steps of a multi-step flow
+        const args = await flowExecutor.resumeInput(rawArgs);
         switch (name) {
           case ToolNames.INIT: {
             const input = initToolSchema.parse(args);
-            const result = await initTool.execute(input);
-            return convertToMCPResult(result);
+            const result = await initTool.execute({ ...input, origin, progress });
+            return convertToMCPResult(name, result);
           }
 
           case ToolNames.START: {
             const input = startToolSchema.parse(args);
             const result = await startTool.execute(input);
-            return {
-              content: result.content,
-              isError: result.isError
-            };
+            return convertToMCPResult(name, result);
           }
 
           case ToolNames.ADD: {
             const input = addToolSchema.parse(args);
-            const result = await addTool.execute(input);
-            return convertToMCPResult(result);
+            const result = await addTool.execute({ ...input, origin });
+            return convertToMCPResult(name, result);
           }
 
 
 
           case ToolNames.STATUS: {
             const input = statusToolSchema.parse(args);
-            const result = await statusTool.execute(input);
-            return convertToMCPResult(result);
+            const result = await statusTool.execute({ ...input, origin });
+            return convertToMCPResult(name, result);
           }
 
           case ToolNames.UPDATE: {
             const input = updateToolSchema.parse(args);
-            const result = await updateTool.execute(input);
-            return convertToMCPResult(result);
+            const result = await updateTool.execute({ ...input, origin });
+            return convertToMCPResult(name, result);
           }
 
           case ToolNames.AUDIT: {
             const input = auditToolSchema.parse(args);
             const result = await auditTool.execute(input);
-            return convertToMCPResult(result);
+            return convertToMCPResult(name, result);
           }
 
           case ToolNames.FOCUS: {
             const input = focusToolSchema.parse(args);
-            const result = await focusTool.execute(input);
-            return convertToMCPResult(result);
+            const result = await focusTool.execute({ ...input, origin });
+            return convertToMCPResult(name, result);
           }
 
           case ToolNames.GITHUB: {
             const input = githubToolSchema.parse(args);
             const result = await githubTool.execute(input);
-            return {
-              content: result.content,
-              isError: result.isError
-            };
+            return convertToMCPResult(name, result);
           }
 
           case ToolNames.RULE_UPDATE: {
             const input = ruleUpdateToolSchema.parse(args);
             const result = await ruleUpdateTool.execute(input);
-            return {
-              content: result.content,
-              isError: result.isError
-            };
+            return convertToMCPResult(name, result);
           }
 
           case ToolNames.REMOTE_INTERFACE: {
             const input = remoteInterfaceToolSchema.parse(args);
-            const result = await remoteInterfaceTool.execute(input);
-            return {
-              content: result.content,
-              isError: result.isError
-            };
+            const result = await remoteInterfaceTool.execute(input, progress);
+            return convertToMCPResult(name, result);
           }
 
           case ToolNames.UPDATE_RESOURCES: {
             const input = updateResourcesToolSchema.parse(args);
             const result = await updateResourcesTool.execute(input);
-            return {
-              content: result.content,
-              isError: result.isError
-            };
+            return convertToMCPResult(name, result);
           }
 
           case ToolNames.UPDATE_STEPS: {
             const input = updateStepsToolSchema.parse(args);
             const result = await updateStepsTool.execute(input);
-            return {
-              content: result.content,
-              isError: result.isError
-            };
+            return convertToMCPResult(name, result);
           }
 
           default:
@@ -331,7 +372,10 @@ async function startStdioMode(cliOptions: CmdOptions) {
     },
     {
       capabilities: {
-        tools: {},
+        tools: { listChanged: true },
+        resources: { subscribe: true },
+        prompts: {},
+        completions: {},
       },
     }
   );
@@ -342,15 +386,33 @@ async function startStdioMode(cliOptions: CmdOptions) {
   server.setRequestHandler(ListToolsRequestSchema, toolHandlers.listTools);
 
   // Handle tool calls
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     // Avoid debug logs in stdio mode
     if (cliOptions.mode !== 'stdio') {
       console.debug(`[DEBUG] MCP tool call received: ${request.params.name}`);
     }
     const { name, arguments: args } = request.params;
-    return await toolHandlers.handleToolCall(name, args);
+    const progress = createProgressReporter(request.params._meta?.progressToken, extra.signal, extra.sendNotification);
+    return await toolHandlers.handleToolCall(name, args, { source: 'mcp' }, progress);
   });
 
+  // Workspace docs and tasks as resources; stdio has a single client to notify
+  const subscriptions = new ResourceSubscriptions(workspaceResources, (_sessionId, uri) => {
+    server.sendResourceUpdated({ uri }).catch(() => { });
+  });
+  registerResourceHandlers(server, workspaceResources, subscriptions);
+
+  // Feedback steps as prompts
+  registerPromptHandlers(server, feedbackPrompts);
+
+  // Suggestions for task ids, step names, stepIds and workspace paths
+  registerCompletionHandler(server, argumentCompletions);
+
+  // Tool input schemas follow the flows
+  toolFlowChanges.on('change', debounce(() => {
+    server.sendToolListChanged().catch(() => { });
+  }, TOOL_LIST_CHANGED_DEBOUNCE_MS));
+
   // Start the server
   const transport = new StdioServerTransport();
   if (cliOptions.mode !== 'stdio') {
@@ -388,14 +450,25 @@ async function startHttpMode(port: number) {
   });
   // Setup MCP endpoint with SSE
   const toolHandlers = createMCPToolHandlers();
-  expressServer.setupMCPEndpoint(toolHandlers);
+  expressServer.setupMCPEndpoint(toolHandlers, { resources: workspaceResources, prompts: feedbackPrompts, completions: argumentCompletions });
 
   // Setup REST API endpoints
   expressServer.setupAPIEndpoints(databaseService);
 
+  // Setup webhook receivers for remote interfaces
+  expressServer.setupWebhookEndpoints(databaseService);
+
   // Setup health check
   expressServer.setupHealthCheck();
 
+  // Push task changes to GitHub for workspaces with autoSync
+  githubAutoSync = new GitHubAutoSync(databaseService);
+  githubAutoSync.start();
+
+  // Sync remote interfaces in the background on their syncIntervalMinutes
+  syncScheduler = new SyncScheduler(databaseService);
+  syncScheduler.start();
+
   // Setup graceful shutdown handling with Express server cleanup
   setupGracefulShutdown();
 
@@ -408,6 +481,8 @@ function setupGracefulShutdown(): void {
     console.log(`\n${signal} received. Shutting down TaskPilot Integrated Server gracefully...`);
 
     try {
+      githubAutoSync?.stop();
+      syncScheduler?.stop();
       if (expressServer) {
         await expressServer.stop();
       }
@@ -13,11 +13,23 @@ import { fileURLToPath } from 'url';
 import { 
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  type RequestId,
 } from '@modelcontextprotocol/sdk/types.js';
 
 // Import existing API router
-import { createApiRouter } from '../api/router.js';
+import { createApiRouter, createWebhookRouter } from '../api/router.js';
 import type { DatabaseService } from '../services/database-service.js';
+import type { ToolCallOrigin } from '../types/index.js';
+import type { WorkspaceResourceProvider } from '../services/workspace-resources.js';
+import type { FeedbackPromptProvider } from '../services/feedback-prompts.js';
+import type { ArgumentCompletionProvider } from '../services/argument-completions.js';
+import { ResourceSubscriptions, registerResourceHandlers } from './mcp-resources.js';
+import { registerPromptHandlers } from './mcp-prompts.js';
+import { registerCompletionHandler } from './mcp-completions.js';
+import { createProgressReporter } from './mcp-progress.js';
+import type { ProgressReporter } from '../utils/progress.js';
+import { toolFlowChanges } from '../database/global-queries.js';
+import { debounce, type Debounced } from '../utils/debounce.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -29,9 +41,21 @@ export interface ExpressServerOptions {
 
 export interface MCPToolHandlers {
   listTools: () => Promise<any>;
-  handleToolCall: (name: string, args: any) => Promise<any>;
+  handleToolCall: (name: string, args: any, origin?: ToolCallOrigin, progress?: ProgressReporter) => Promise<any>;
 }
 
+/**
+ * Optional MCP capabilities beyond tools
+ */
+export interface MCPProviders {
+  resources?: WorkspaceResourceProvider;
+  prompts?: FeedbackPromptProvider;
+  completions?: ArgumentCompletionProvider;
+}
+
+// A flow import or step reorder writes many rows; announce them once
+export const TOOL_LIST_CHANGED_DEBOUNCE_MS = 200;
+
 interface MCPSession {
   transport: StreamableHTTPServerTransport;
   lastActivity: number;
@@ -42,6 +66,8 @@ export class ExpressServer {
   private httpServer: HttpServer | null = null;
   private mcpServer: MCPServer | null = null;
   private sessions: Map<string, MCPSession> = new Map();
+  private resourceSubscriptions: ResourceSubscriptions | null = null;
+  private toolListChanged: Debounced | null = null;
   private readonly SESSION_TIMEOUT = 30 * 60 * 1000; // 30 minutes
 
   constructor(private options: ExpressServerOptions) {
@@ -56,8 +82,9 @@ export class ExpressServer {
   }
 
   private setupMiddleware(): void {
-    // Parse JSON bodies
-    this.app.use(express.json());
+    // Parse JSON bodies; webhooks check signatures over the raw body and read it themselves
+    const parseJson = express.json();
+    this.app.use((req, res, next) => req.path.startsWith('/webhooks/') ? next() : parseJson(req, res, next));
     
     // Enable CORS for development and localhost access
     this.app.use((req, res, next) => {
@@ -108,6 +135,7 @@ export class ExpressServer {
       if (now - session.lastActivity > this.SESSION_TIMEOUT) {
         session.transport.close().catch(console.error);
         this.sessions.delete(sessionId);
+        this.resourceSubscriptions?.clear(sessionId);
       }
     }
   }
@@ -146,38 +174,6 @@ export class ExpressServer {
     return { transport: newTransport, isNew: true, sessionId };
   }
 
-  private setupMCPSSE(req: Request, res: Response, sessionId: string): void {
-    const session = this.sessions.get(sessionId);
-    if (!session) {
-      res.status(404).json({ error: 'Session not found' });
-      return;
-    }
-
-    // Set SSE headers
-    res.writeHead(200, {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
-      'Access-Control-Allow-Origin': '*',
-      'Mcp-Session-Id': sessionId
-    });
-
-    // Handle client disconnection
-    req.on('close', () => {
-      console.log(`SSE connection closed for session: ${sessionId}`);
-    });
-
-    // Keep the connection alive
-    const keepAlive = setInterval(() => {
-      res.write('\n');
-    }, 30000);
-
-    // Clean up on connection close
-    res.on('close', () => {
-      clearInterval(keepAlive);
-    });
-  }
-
   private handleDeleteSession(sessionId: string, res: Response): void {
     console.log(`Received DELETE request for session: ${sessionId}`);
     
@@ -194,6 +190,7 @@ export class ExpressServer {
       
       // Remove the session
       this.sessions.delete(sessionId);
+      this.resourceSubscriptions?.clear(sessionId);
       console.log(`Successfully terminated session: ${sessionId}`);
       
       res.status(200).json({ message: 'Session terminated' });
@@ -203,7 +200,19 @@ export class ExpressServer {
     }
   }
 
-  setupMCPEndpoint(toolHandlers: MCPToolHandlers): void {
+  /**
+   * Send a server-initiated notification on a session's standalone SSE stream
+   */
+  private notifySession(sessionId: string, method: string, params?: Record<string, unknown>, relatedRequestId?: RequestId): void {
+    const session = this.sessions.get(sessionId);
+    const message = { jsonrpc: '2.0' as const, method, ...(params ? { params } : {}) };
+    // Notifications about a request go out on that request's response stream
+    session?.transport.send(message, relatedRequestId !== undefined ? { relatedRequestId } : undefined).catch((error) => {
+      console.error(`Failed to send ${method} to session ${sessionId}:`, error);
+    });
+  }
+
+  setupMCPEndpoint(toolHandlers: MCPToolHandlers, { resources, prompts, completions }: MCPProviders = {}): void {
     // Initialize MCP server if not already done
     if (!this.mcpServer) {
       this.mcpServer = new MCPServer(
@@ -213,17 +222,49 @@ export class ExpressServer {
         },
         {
           capabilities: {
-            tools: {},
+            tools: { listChanged: true },
+            ...(resources ? { resources: { subscribe: true } } : {}),
+            ...(prompts ? { prompts: {} } : {}),
+            ...(completions ? { completions: {} } : {}),
           },
         }
       );
 
       // Setup MCP handlers
       this.mcpServer.setRequestHandler(ListToolsRequestSchema, toolHandlers.listTools);
-      this.mcpServer.setRequestHandler(CallToolRequestSchema, async (request) => {
+      this.mcpServer.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
         const { name, arguments: args } = request.params;
-        return await toolHandlers.handleToolCall(name, args);
+        const progress = createProgressReporter(request.params._meta?.progressToken, extra.signal, async (notification) => {
+          if (extra.sessionId) {
+            this.notifySession(extra.sessionId, notification.method, notification.params, extra.requestId);
+          } else {
+            await extra.sendNotification(notification);
+          }
+        });
+        return await toolHandlers.handleToolCall(name, args, { source: 'mcp', sessionId: extra.sessionId }, progress);
       });
+
+      if (resources) {
+        this.resourceSubscriptions = new ResourceSubscriptions(resources, (sessionId, uri) => {
+          this.notifySession(sessionId, 'notifications/resources/updated', { uri });
+        });
+        registerResourceHandlers(this.mcpServer, resources, this.resourceSubscriptions);
+      }
+      if (prompts) {
+        registerPromptHandlers(this.mcpServer, prompts);
+      }
+
+      if (completions) {
+        registerCompletionHandler(this.mcpServer, completions);
+      }
+
+      // Tool input schemas follow the flows, so every session refetches tools/list
+      this.toolListChanged = debounce(() => {
+        for (const sessionId of this.sessions.keys()) {
+          this.notifySession(sessionId, 'notifications/tools/list_changed');
+        }
+      }, TOOL_LIST_CHANGED_DEBOUNCE_MS);
+      toolFlowChanges.on('change', this.toolListChanged);
     }
 
     // MCP HTTP endpoint with streamable transport
@@ -310,8 +351,18 @@ export class ExpressServer {
         return;
       }
 
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+
+      // Standalone SSE stream carrying server-initiated notifications
       console.log(`Setting up SSE for session: ${sessionId}`);
-      this.setupMCPSSE(req, res, sessionId);
+      session.lastActivity = Date.now();
+      session.transport.handleRequest(req, res).catch((error) => {
+        console.error(`SSE stream error for session ${sessionId}:`, error);
+      });
     });
 
     // Session termination endpoint
@@ -339,6 +390,14 @@ export class ExpressServer {
     }
   }
 
+  /**
+   * Setup inbound webhook routes of remote interfaces
+   */
+  setupWebhookEndpoints(databaseService: DatabaseService): void {
+    this.app.use('/webhooks', createWebhookRouter(databaseService));
+    console.log('Webhook endpoints configured');
+  }
+
   /**
    * Setup health check and root endpoints
    */
@@ -353,6 +412,7 @@ export class ExpressServer {
         endpoints: {
           api: '/api',
           mcp_sse: '/sse',
+          webhooks: '/webhooks',
           health: '/health'
         }
       });
@@ -420,6 +480,11 @@ export class ExpressServer {
       }
     }
     this.sessions.clear();
+    this.resourceSubscriptions?.clearAll();
+    if (this.toolListChanged) {
+      toolFlowChanges.off('change', this.toolListChanged);
+      this.toolListChanged.cancel();
+    }
 
     return new Promise((resolve) => {
       if (this.httpServer) {
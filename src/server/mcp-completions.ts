@@ -0,0 +1,28 @@
+/**
+ * MCP completion handler
+ *
+ * Wires ArgumentCompletionProvider into an MCP server as completion/complete,
+ * so clients can suggest task ids, step names, stepIds and workspace paths.
+ */
+
+import type { Server as MCPServer } from '@modelcontextprotocol/sdk/server/index.js';
+import { CompleteRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { MAX_COMPLETIONS, type ArgumentCompletionProvider } from '../services/argument-completions.js';
+
+export function registerCompletionHandler(server: MCPServer, completions: ArgumentCompletionProvider): void {
+  server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    const { ref, argument, context } = request.params;
+    const values = await completions.complete(
+      ref.type === 'ref/prompt' ? { type: 'ref/prompt', name: String(ref.name) } : { type: 'ref/resource', uri: String(ref.uri) },
+      argument,
+      context?.arguments
+    );
+    return {
+      completion: {
+        values: values.slice(0, MAX_COMPLETIONS),
+        total: values.length,
+        hasMore: values.length > MAX_COMPLETIONS
+      }
+    };
+  });
+}
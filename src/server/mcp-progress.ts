@@ -0,0 +1,30 @@
+/**
+ * MCP progress reporting
+ *
+ * Builds the ProgressReporter for a tools/call request: updates become
+ * notifications/progress for the request's progressToken, and the SDK's
+ * abort signal (set by notifications/cancelled) cancels the operation.
+ */
+
+import type { ProgressToken } from '@modelcontextprotocol/sdk/types.js';
+import { ProgressReporter } from '../utils/progress.js';
+
+export interface ProgressNotification {
+  method: 'notifications/progress';
+  params: { progressToken: ProgressToken; progress: number; total?: number; message?: string };
+}
+
+export function createProgressReporter(
+  progressToken: ProgressToken | undefined,
+  signal: AbortSignal,
+  send: (notification: ProgressNotification) => Promise<void>
+): ProgressReporter {
+  if (progressToken === undefined) {
+    // Without a token the client gets no updates, but can still cancel
+    return new ProgressReporter(undefined, signal);
+  }
+  return new ProgressReporter(
+    update => send({ method: 'notifications/progress', params: { progressToken, ...update } }),
+    signal
+  );
+}
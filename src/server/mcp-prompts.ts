@@ -0,0 +1,38 @@
+/**
+ * MCP prompt handlers
+ *
+ * Wires FeedbackPromptProvider into an MCP server as prompts/list and
+ * prompts/get, so clients can offer feedback steps as slash commands.
+ */
+
+import type { Server as MCPServer } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  McpError,
+  ErrorCode
+} from '@modelcontextprotocol/sdk/types.js';
+import { PromptNotFoundError, type FeedbackPromptProvider } from '../services/feedback-prompts.js';
+import { FeedbackVariablesError } from '../services/variable-schema-validator.js';
+import { TemplateError } from '../services/template-engine.js';
+
+export function registerPromptHandlers(server: MCPServer, prompts: FeedbackPromptProvider): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: await prompts.listPrompts()
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    try {
+      return await prompts.getPrompt(request.params.name, request.params.arguments);
+    } catch (error) {
+      // Unknown prompts and bad arguments are the caller's to fix
+      if (error instanceof FeedbackVariablesError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message, { issues: error.issues });
+      }
+      if (error instanceof PromptNotFoundError || error instanceof TemplateError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,103 @@
+/**
+ * MCP resource handlers
+ *
+ * Wires WorkspaceResourceProvider into an MCP server: resources/list,
+ * resources/templates/list, resources/read and per-session subscriptions
+ * that are answered with notifications/resources/updated.
+ */
+
+import type { Server as MCPServer } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  McpError
+} from '@modelcontextprotocol/sdk/types.js';
+import { ResourceNotFoundError, type WorkspaceResourceProvider } from '../services/workspace-resources.js';
+
+// JSON-RPC error code the MCP spec assigns to unknown resources
+const RESOURCE_NOT_FOUND = -32002;
+
+// Subscription key for transports without sessions (stdio)
+export const DEFAULT_SESSION = 'default';
+
+/**
+ * Resource subscriptions per MCP session
+ */
+export class ResourceSubscriptions {
+  private sessions = new Map<string, Map<string, () => void>>();
+
+  constructor(
+    private resources: WorkspaceResourceProvider,
+    private notify: (sessionId: string, uri: string) => void
+  ) {}
+
+  async subscribe(sessionId: string, uri: string): Promise<void> {
+    const subscriptions = this.sessions.get(sessionId) ?? new Map<string, () => void>();
+    if (subscriptions.has(uri)) {
+      return;
+    }
+    const stop = await this.resources.watch(uri, () => this.notify(sessionId, uri));
+    subscriptions.set(uri, stop);
+    this.sessions.set(sessionId, subscriptions);
+  }
+
+  unsubscribe(sessionId: string, uri: string): void {
+    const subscriptions = this.sessions.get(sessionId);
+    subscriptions?.get(uri)?.();
+    subscriptions?.delete(uri);
+  }
+
+  /**
+   * Drop every subscription of a closed session
+   */
+  clear(sessionId: string): void {
+    for (const stop of this.sessions.get(sessionId)?.values() ?? []) {
+      stop();
+    }
+    this.sessions.delete(sessionId);
+  }
+
+  clearAll(): void {
+    for (const sessionId of [...this.sessions.keys()]) {
+      this.clear(sessionId);
+    }
+  }
+}
+
+export function registerResourceHandlers(
+  server: MCPServer,
+  resources: WorkspaceResourceProvider,
+  subscriptions: ResourceSubscriptions
+): void {
+  const withNotFound = async <T>(action: () => Promise<T>): Promise<T> => {
+    try {
+      return await action();
+    } catch (error) {
+      if (error instanceof ResourceNotFoundError) {
+        throw new McpError(RESOURCE_NOT_FOUND, error.message, { uri: error.uri });
+      }
+      throw error;
+    }
+  };
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: await resources.listResources()
+  }));
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: resources.listResourceTemplates()
+  }));
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => withNotFound(async () => ({
+    contents: [await resources.readResource(request.params.uri)]
+  })));
+  server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => withNotFound(async () => {
+    await subscriptions.subscribe(extra.sessionId ?? DEFAULT_SESSION, request.params.uri);
+    return {};
+  }));
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request, extra) => {
+    subscriptions.unsubscribe(extra.sessionId ?? DEFAULT_SESSION, request.params.uri);
+    return {};
+  });
+}
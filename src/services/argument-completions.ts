@@ -0,0 +1,116 @@
+/**
+ * ArgumentCompletionProvider - Suggestions for MCP completion/complete
+ *
+ * Completes arguments by name, wherever they appear: task ids (matched by
+ * key or title), feedback step names, a tool's stepIds and registered
+ * workspace paths. Prompts and the task resource template are referenced
+ * the standard way; tool arguments are completed with a ref/prompt whose
+ * name is the tool name. Task and step suggestions are narrowed to the
+ * workspace given by workspace_path or workspace_id in the context, or by
+ * the "{workspace_id}/" prefix of a workspace prompt.
+ */
+
+import type { DatabaseService } from './database-service.js';
+import { ToolFlowExecutor } from './tool-flow-executor.js';
+import { getStepHandlerNames } from './flow-linter.js';
+import type { Workspace } from '../database/schema/global-schema.js';
+
+export type CompletionRef =
+  | { type: 'ref/prompt'; name: string }
+  | { type: 'ref/resource'; uri: string };
+
+// completion/complete returns at most 100 values
+export const MAX_COMPLETIONS = 100;
+
+const TASK_ARGUMENTS = new Set(['task_id', 'task_key', 'parent_task_id']);
+
+export class ArgumentCompletionProvider {
+  private flowExecutor: ToolFlowExecutor;
+  private stepHandlerNames: Record<string, string[]>;
+
+  constructor(private databaseService: DatabaseService) {
+    const drizzleDb = databaseService.getGlobal().getDrizzleManager();
+    this.flowExecutor = new ToolFlowExecutor(drizzleDb);
+    this.stepHandlerNames = getStepHandlerNames(drizzleDb);
+  }
+
+  /**
+   * All values for the argument that match what has been typed so far
+   */
+  async complete(ref: CompletionRef, argument: { name: string; value: string }, context: Record<string, string> = {}): Promise<string[]> {
+    const typed = argument.value.toLowerCase();
+    const matches = (candidate: string) => candidate.toLowerCase().includes(typed);
+
+    if (argument.name === 'workspace_path') {
+      const workspaces = await this.databaseService.getGlobal().getAllWorkspaces();
+      return workspaces.map(workspace => workspace.path).filter(matches);
+    }
+    if (argument.name === 'workspace_id') {
+      const workspaces = await this.databaseService.getGlobal().getAllWorkspaces();
+      return workspaces.map(workspace => workspace.id).filter(matches);
+    }
+    if (TASK_ARGUMENTS.has(argument.name)) {
+      return this.completeTasks(await this.resolveWorkspaces(ref, context), typed);
+    }
+    if (argument.name === 'step_name') {
+      return (await this.getStepNames(await this.resolveWorkspaces(ref, context))).filter(matches);
+    }
+    if (argument.name === 'stepId' && ref.type === 'ref/prompt') {
+      return (await this.flowExecutor.getStepIds(ref.name, this.stepHandlerNames[ref.name])).filter(matches);
+    }
+    return [];
+  }
+
+  /**
+   * Task keys whose key, id or title matches, in task order
+   */
+  private async completeTasks(workspaces: Workspace[], typed: string): Promise<string[]> {
+    const values: string[] = [];
+    for (const workspace of workspaces) {
+      const workspaceDb = await this.databaseService.getWorkspace(workspace.path);
+      for (const task of await workspaceDb.getAllTasks()) {
+        const key = task.taskKey ?? task.id;
+        if ([key, task.id, task.title].some(candidate => candidate.toLowerCase().includes(typed))) {
+          values.push(key);
+        }
+      }
+    }
+    return [...new Set(values)];
+  }
+
+  /**
+   * Global steps plus the steps of each workspace, by name
+   */
+  private async getStepNames(workspaces: Workspace[]): Promise<string[]> {
+    const globalDb = this.databaseService.getGlobal();
+    const names = (await globalDb.getGlobalFeedbackSteps()).map(step => step.name);
+    for (const workspace of workspaces) {
+      names.push(...(await globalDb.getWorkspaceFeedbackSteps(workspace.id)).map(step => step.name));
+      try {
+        const workspaceDb = await this.databaseService.getWorkspace(workspace.path);
+        names.push(...(await workspaceDb.getAllWorkspaceFeedbackSteps()).map(step => step.name));
+      } catch (error) {
+        console.warn(`No feedback steps table in workspace ${workspace.path}:`, error);
+      }
+    }
+    return [...new Set(names)].sort();
+  }
+
+  /**
+   * The workspace the request is about, or every workspace when it names none
+   */
+  private async resolveWorkspaces(ref: CompletionRef, context: Record<string, string>): Promise<Workspace[]> {
+    const globalDb = this.databaseService.getGlobal();
+    let workspace: Workspace | null = null;
+    if (context.workspace_path) {
+      workspace = await globalDb.getWorkspaceByPath(context.workspace_path);
+    } else if (context.workspace_id) {
+      workspace = await globalDb.getWorkspace(context.workspace_id);
+    } else if (ref.type === 'ref/prompt' && ref.name.includes('/')) {
+      workspace = await globalDb.getWorkspace(ref.name.slice(0, ref.name.indexOf('/')));
+    } else {
+      return globalDb.getAllWorkspaces();
+    }
+    return workspace ? [workspace] : [];
+  }
+}
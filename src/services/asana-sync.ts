@@ -0,0 +1,264 @@
+/**
+ * AsanaSync - Synchronizes workspace tasks with the tasks of an Asana project
+ *
+ * Talks to Asana's REST API with a personal access token or OAuth token; the
+ * interface's projectId is the project gid. A task's section in the project
+ * gives its status by section name, and completed tasks are done whatever
+ * their section. Exporting a status marks the task completed for done and
+ * moves it to the first section that maps back to the status. Incremental
+ * syncs only fetch tasks modified since lastSync.
+ */
+
+import type { Task, RemoteTaskMapping } from '../database/schema/workspace-schema.js';
+import type { FieldMapping } from './remote-interface-manager.js';
+import type { RemoteAdapter } from './remote-adapters.js';
+import { IssueSync, columnNameToTask, type RemoteIssueRef, type TaskStatus } from './issue-sync.js';
+import { applyTransformation, mapRemoteValue } from './field-mapping.js';
+
+export interface AsanaSection {
+  gid: string;
+  name: string;
+}
+
+export interface AsanaTask {
+  gid: string;
+  name: string;
+  notes: string;
+  completed: boolean;
+  completed_at: string | null;
+  modified_at: string;
+  permalink_url: string;
+  memberships?: Array<{ project: { gid: string }; section: AsanaSection | null }>;
+  [field: string]: unknown;
+}
+
+export const ASANA_FIELD_MAPPINGS: FieldMapping[] = [
+  { taskpilot_field: 'title', remote_field: 'name' },
+  { taskpilot_field: 'description', remote_field: 'notes' },
+  { taskpilot_field: 'status', remote_field: 'section.name' },
+  { taskpilot_field: 'completedAt', remote_field: 'completed_at', transformation: 'custom', parse_date: true }
+];
+
+const TASK_FIELDS = [
+  'name', 'notes', 'completed', 'completed_at', 'modified_at', 'permalink_url', 'due_on',
+  'memberships.project', 'memberships.section.name', 'assignee.name', 'tags.name'
+].join(',');
+
+// Task fields a mapping can write; the others are read-only or need their own endpoints
+const WRITABLE_FIELDS = ['name', 'notes', 'due_on'];
+
+const PAGE_SIZE = 100;
+
+/**
+ * Minimal Asana REST client. The base URL may be the API root
+ * (https://app.asana.com/api/1.0) or just the host.
+ */
+export class AsanaClient {
+  private apiUrl: string;
+
+  constructor(baseUrl: string, private token: string) {
+    const trimmed = baseUrl.replace(/\/+$/, '');
+    this.apiUrl = trimmed.includes('/api/') ? trimmed : `${trimmed}/api/1.0`;
+  }
+
+  async getCurrentUser(): Promise<{ gid: string; name: string; email: string }> {
+    return this.request('GET', '/users/me?opt_fields=name,email');
+  }
+
+  async listWorkspaces(): Promise<Array<{ gid: string; name: string }>> {
+    return this.paginate('/workspaces', {});
+  }
+
+  async listProjects(workspaceGid: string): Promise<Array<{ gid: string; name: string; permalink_url?: string }>> {
+    return this.paginate('/projects', { workspace: workspaceGid, archived: 'false', opt_fields: 'name,permalink_url' });
+  }
+
+  async listSections(projectGid: string): Promise<AsanaSection[]> {
+    return this.request('GET', `/projects/${encodeURIComponent(projectGid)}/sections?opt_fields=name`);
+  }
+
+  /**
+   * Tasks of the project, only those modified since `since` when given
+   */
+  async listTasks(projectGid: string, since: string | null): Promise<AsanaTask[]> {
+    const query: Record<string, string> = { project: projectGid, opt_fields: TASK_FIELDS };
+    if (since) {
+      query.modified_since = since;
+    }
+    return this.paginate('/tasks', query);
+  }
+
+  async getTask(gid: string): Promise<AsanaTask> {
+    return this.request('GET', `/tasks/${encodeURIComponent(gid)}?opt_fields=${TASK_FIELDS}`);
+  }
+
+  async createTask(fields: Record<string, unknown>): Promise<AsanaTask> {
+    return this.request('POST', `/tasks?opt_fields=${TASK_FIELDS}`, { data: fields });
+  }
+
+  async updateTask(gid: string, fields: Record<string, unknown>): Promise<AsanaTask> {
+    return this.request('PUT', `/tasks/${encodeURIComponent(gid)}?opt_fields=${TASK_FIELDS}`, { data: fields });
+  }
+
+  async addTaskToSection(sectionGid: string, taskGid: string): Promise<void> {
+    await this.request('POST', `/sections/${encodeURIComponent(sectionGid)}/addTask`, { data: { task: taskGid } });
+  }
+
+  /**
+   * All pages of a list endpoint, following next_page offsets
+   */
+  private async paginate<T>(path: string, query: Record<string, string>): Promise<T[]> {
+    const items: T[] = [];
+    let offset: string | undefined;
+    do {
+      const params = new URLSearchParams({ ...query, limit: String(PAGE_SIZE), ...(offset ? { offset } : {}) });
+      const page = await this.send<{ data: T[]; next_page?: { offset: string } | null }>('GET', `${path}?${params}`);
+      items.push(...page.data);
+      offset = page.next_page?.offset;
+    } while (offset);
+    return items;
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    return (await this.send<{ data: T }>(method, path, body)).data;
+  }
+
+  private async send<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${this.apiUrl}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Accept': 'application/json',
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {})
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+    if (!response.ok) {
+      const details = await response.json().catch(() => null) as { errors?: Array<{ message: string }> } | null;
+      const messages = (details?.errors ?? []).map(error => error.message);
+      throw new Error(`Asana API error: ${response.status} ${response.statusText}${messages.length ? ` - ${messages.join('; ')}` : ''}`);
+    }
+    return await response.json() as T;
+  }
+}
+
+export class AsanaSync extends IssueSync<AsanaTask> {
+  protected readonly providerName = 'Asana';
+  private client = new AsanaClient(this.remoteInterface.base_url, this.remoteInterface.api_token);
+  private sections: AsanaSection[] = [];
+
+  protected async prepare(): Promise<void> {
+    if (!this.remoteInterface.project_id) {
+      throw new Error('Asana interface has no project gid (projectId)');
+    }
+    if (this.mapsField('status')) {
+      this.sections = await this.client.listSections(this.remoteInterface.project_id);
+    }
+  }
+
+  protected async fetchIssues(since: string | null): Promise<AsanaTask[]> {
+    return this.client.listTasks(this.remoteInterface.project_id!, since);
+  }
+
+  protected describeIssue(task: AsanaTask): RemoteIssueRef {
+    return {
+      remoteId: task.gid,
+      remoteKey: task.gid,
+      remoteUrl: task.permalink_url ?? null,
+      remoteUpdatedAt: task.modified_at ?? null
+    };
+  }
+
+  protected async createIssue(task: Task): Promise<AsanaTask> {
+    const projectGid = this.remoteInterface.project_id!;
+    const section = this.mapsField('status') ? this.findSection(task.status ?? 'backlog') : undefined;
+    return this.client.createTask({
+      ...this.toTaskData(task),
+      ...(section ? { memberships: [{ project: projectGid, section: section.gid }] } : { projects: [projectGid] })
+    });
+  }
+
+  protected async updateIssue(link: RemoteTaskMapping, task: Task): Promise<AsanaTask> {
+    const updated = await this.client.updateTask(link.remoteId, this.toTaskData(task));
+    const section = this.mapsField('status') ? this.findSection(task.status ?? 'backlog') : undefined;
+    if (!section || this.sectionOf(updated)?.gid === section.gid) {
+      return updated;
+    }
+    await this.client.addTaskToSection(section.gid, link.remoteId);
+    return this.client.getTask(link.remoteId);
+  }
+
+  /**
+   * Task fields of an Asana task. Mappings read the task with its section in
+   * the synced project as `section`.
+   */
+  protected toTaskFields(task: AsanaTask): Partial<Task> {
+    const item = { ...task, section: this.sectionOf(task) };
+    const fields: Record<string, any> = {};
+    for (const mapping of this.mappings) {
+      if (mapping.taskpilot_field === 'status') {
+        fields.status = mapRemoteValue(item, mapping, value =>
+          task.completed ? 'done' : columnNameToTask(typeof value === 'string' ? value : item.section?.name));
+      } else {
+        fields[mapping.taskpilot_field] = mapRemoteValue(item, mapping, value => value ?? null);
+      }
+    }
+    return this.compactTaskFields(fields);
+  }
+
+  /**
+   * Asana fields for a task; status becomes the completed flag, the section
+   * is set separately
+   */
+  private toTaskData(task: Task): Record<string, unknown> {
+    const data: Record<string, unknown> = {};
+    for (const mapping of this.exportMappings) {
+      const field = mapping.remote_field.split('.')[0];
+      if (mapping.taskpilot_field === 'status') {
+        data.completed = task.status === 'done';
+      } else if (WRITABLE_FIELDS.includes(field)) {
+        data[field] = applyTransformation(task[mapping.taskpilot_field as keyof Task] ?? '', mapping);
+      }
+    }
+    return data;
+  }
+
+  private sectionOf(task: AsanaTask): AsanaSection | null {
+    return task.memberships?.find(membership => membership.project?.gid === this.remoteInterface.project_id)?.section ?? null;
+  }
+
+  /**
+   * First section of the project that maps back to the task status
+   */
+  private findSection(status: TaskStatus): AsanaSection | undefined {
+    const mapping = this.mappings.find(candidate => candidate.taskpilot_field === 'status')!;
+    return this.sections.find(section => mapRemoteValue({ section }, mapping, () => columnNameToTask(section.name)) === status);
+  }
+}
+
+/**
+ * Asana interfaces sync the tasks of one project; its gid is the projectId
+ */
+export const asanaAdapter: RemoteAdapter = {
+  defaultFieldMappings: ASANA_FIELD_MAPPINGS,
+
+  async testConnection(remoteInterface) {
+    const user = await new AsanaClient(remoteInterface.base_url, remoteInterface.api_token).getCurrentUser();
+    return { success: true, info: { user: user.gid, name: user.name, email: user.email } };
+  },
+
+  async listProjects(remoteInterface) {
+    const client = new AsanaClient(remoteInterface.base_url, remoteInterface.api_token);
+    const projects = [];
+    for (const workspace of await client.listWorkspaces()) {
+      for (const project of await client.listProjects(workspace.gid)) {
+        projects.push({ id: project.gid, name: `${workspace.name} / ${project.name}`, url: project.permalink_url });
+      }
+    }
+    return projects;
+  },
+
+  async createSync(remoteInterface, workspaceDb) {
+    return new AsanaSync(remoteInterface, workspaceDb);
+  }
+};
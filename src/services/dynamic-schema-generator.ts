@@ -48,6 +48,7 @@ export class DynamicSchemaGenerator<T extends z.ZodRawShape = z.ZodRawShape> {
     // Build complete schema
     const baseSchema = {
       stepId: stepIdSchema.describe(`Optional step ID for multi-step workflow. Available steps: ${stepIds.join(', ')}`),
+      run_id: z.string().optional().describe('Flow run ID returned by an earlier step; resumes that run with its saved data'),
       workspace_path: z.string().describe('Absolute path to the workspace directory'),
       ...(additionalProperties as T)
     } as const;
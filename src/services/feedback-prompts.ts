@@ -0,0 +1,183 @@
+/**
+ * FeedbackPromptProvider - Feedback steps as MCP prompts
+ *
+ * Global feedback steps are listed under their own name and take an optional
+ * workspace_path argument, which renders the workspace's version of the step
+ * when it has one. Workspace-only steps are listed as "{workspace_id}/{name}".
+ * Prompt arguments come from the step's variableSchema, or from the context
+ * variables its template references when it declares none.
+ */
+
+import type { DatabaseService } from './database-service.js';
+import { PromptOrchestrator } from './prompt-orchestrator.js';
+import { TemplateEngine } from './template-engine.js';
+import { VariableSchemaValidator, type SchemaVariable } from './variable-schema-validator.js';
+import type { FeedbackStep, Workspace } from '../database/schema/global-schema.js';
+
+export interface FeedbackPromptArgument {
+  name: string;
+  description?: string;
+  required: boolean;
+}
+
+export interface FeedbackPrompt {
+  name: string;
+  description?: string;
+  arguments: FeedbackPromptArgument[];
+}
+
+// A type alias, so it satisfies the SDK's open result type
+export type RenderedFeedbackPrompt = {
+  description?: string;
+  messages: Array<{ role: 'user'; content: { type: 'text'; text: string } }>;
+};
+
+type PromptStep = Pick<FeedbackStep, 'name' | 'description' | 'templateContent' | 'variableSchema'>;
+
+/**
+ * Raised when a prompt name does not match a feedback step, or names a workspace that does not exist
+ */
+export class PromptNotFoundError extends Error {
+  constructor(public readonly promptName: string, message = `Prompt not found: ${promptName}`) {
+    super(message);
+    this.name = 'PromptNotFoundError';
+  }
+}
+
+const WORKSPACE_ARGUMENT: FeedbackPromptArgument = {
+  name: 'workspace_path',
+  description: 'Workspace to render in; its own version of the step is used when it has one',
+  required: false
+};
+
+export class FeedbackPromptProvider {
+  private orchestrator: PromptOrchestrator;
+  private templateEngine = new TemplateEngine();
+  private variableSchemas = new VariableSchemaValidator();
+
+  constructor(private databaseService: DatabaseService) {
+    this.orchestrator = new PromptOrchestrator(databaseService.getGlobal().getDrizzleManager());
+  }
+
+  async listPrompts(): Promise<FeedbackPrompt[]> {
+    const globalDb = this.databaseService.getGlobal();
+    const globalSteps = await globalDb.getGlobalFeedbackSteps();
+    const prompts = globalSteps.map(step => this.toPrompt(step.name, step, true));
+
+    for (const workspace of await globalDb.getAllWorkspaces()) {
+      for (const step of await this.getWorkspaceSteps(workspace)) {
+        if (!globalSteps.some(globalStep => globalStep.name === step.name)) {
+          prompts.push(this.toPrompt(`${workspace.id}/${step.name}`, step, false));
+        }
+      }
+    }
+    return prompts;
+  }
+
+  /**
+   * Render a prompt through PromptOrchestrator. Arguments arrive as strings
+   * and are parsed as JSON for variables the schema declares as non-strings.
+   */
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<RenderedFeedbackPrompt> {
+    const globalDb = this.databaseService.getGlobal();
+    const { workspace_path: workspacePath, ...variables } = args;
+
+    let workspace: Workspace | null = null;
+    let step: PromptStep | null = null;
+    const separator = name.indexOf('/');
+    if (separator > 0) {
+      workspace = await globalDb.getWorkspace(name.slice(0, separator));
+      step = workspace ? await this.findWorkspaceStep(workspace, name.slice(separator + 1)) : null;
+    } else {
+      workspace = workspacePath ? await globalDb.getWorkspaceByPath(workspacePath) : null;
+      if (workspacePath && !workspace) {
+        throw new PromptNotFoundError(name, `Workspace not found at path: ${workspacePath}`);
+      }
+      step = (workspace ? await this.findWorkspaceStep(workspace, name) : null)
+        ?? await globalDb.getFeedbackStepByName(name);
+    }
+    if (!step) {
+      throw new PromptNotFoundError(name);
+    }
+
+    const text = await this.orchestrator.renderFeedbackStep(
+      step,
+      this.parseArguments(step, variables),
+      workspace?.id ?? ''
+    );
+    return {
+      description: step.description ?? undefined,
+      messages: [{ role: 'user', content: { type: 'text', text } }]
+    };
+  }
+
+  private toPrompt(name: string, step: PromptStep, isGlobal: boolean): FeedbackPrompt {
+    const declared = this.variableSchemas.getVariables(step.variableSchema);
+    const promptArguments: FeedbackPromptArgument[] = declared.length > 0
+      ? declared.map(variable => ({
+        name: variable.name,
+        description: variable.description ?? this.describeType(variable),
+        required: variable.required && variable.default === undefined
+      }))
+      : this.referencedVariables(step).map(variable => ({ name: variable, required: false }));
+
+    if (isGlobal && !promptArguments.some(argument => argument.name === WORKSPACE_ARGUMENT.name)) {
+      promptArguments.push(WORKSPACE_ARGUMENT);
+    }
+    return { name, description: step.description ?? undefined, arguments: promptArguments };
+  }
+
+  private referencedVariables(step: PromptStep): string[] {
+    try {
+      return this.templateEngine.getReferences(step.templateContent).variables;
+    } catch {
+      // A template that does not parse still gets listed; rendering reports the error
+      return [];
+    }
+  }
+
+  private describeType(variable: SchemaVariable): string | undefined {
+    const type = Array.isArray(variable.type) ? variable.type.join(' | ') : variable.type;
+    return type && type !== 'string' ? `${type} (JSON)` : undefined;
+  }
+
+  private parseArguments(step: PromptStep, args: Record<string, string>): Record<string, unknown> {
+    const declared = this.variableSchemas.getVariables(step.variableSchema);
+    return Object.fromEntries(Object.entries(args).map(([name, value]) => {
+      const variable = declared.find(candidate => candidate.name === name);
+      const types = variable?.type === undefined ? ['string'] : [variable.type].flat();
+      if (types.includes('string')) {
+        return [name, value];
+      }
+      try {
+        return [name, JSON.parse(value)];
+      } catch {
+        // Left as a string so schema validation reports it
+        return [name, value];
+      }
+    }));
+  }
+
+  /**
+   * A workspace's own step: scoped steps in the global database take
+   * precedence over same-named steps in the workspace database
+   */
+  private async findWorkspaceStep(workspace: Workspace, name: string): Promise<PromptStep | null> {
+    return (await this.getWorkspaceSteps(workspace)).find(step => step.name === name) ?? null;
+  }
+
+  private async getWorkspaceSteps(workspace: Workspace): Promise<PromptStep[]> {
+    const scopedSteps = await this.databaseService.getGlobal().getWorkspaceFeedbackSteps(workspace.id);
+    try {
+      const workspaceDb = await this.databaseService.getWorkspace(workspace.path);
+      const localSteps = await workspaceDb.getAllWorkspaceFeedbackSteps();
+      return [
+        ...scopedSteps,
+        ...localSteps.filter(step => !scopedSteps.some(scoped => scoped.name === step.name))
+      ];
+    } catch (error) {
+      console.warn(`No feedback steps table in workspace ${workspace.path}:`, error);
+      return scopedSteps;
+    }
+  }
+}
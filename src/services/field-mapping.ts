@@ -0,0 +1,239 @@
+/**
+ * Field mapping engine - Reads task values out of remote items
+ *
+ * A FieldMapping's remote_field is a dotted path into the remote item
+ * (`priority.name`); on a list, the rest of the path is read from every
+ * element (`labels.name`). Mappings with the 'custom' transformation can
+ * refine the value with rules, applied in this order:
+ *
+ * - label_prefix: value of the first "prefix:value" label in a label list
+ * - parse_date: date string or epoch time to an ISO timestamp
+ * - value_map: lookup table from remote values to task values, matched
+ *   case-insensitively; a hit is the task value
+ * - default: task value when the remote item has no value for the field
+ *
+ * Anything else goes through the provider's own conversion (Jira status
+ * categories, Linear priority numbers, ...) and the case transformation.
+ */
+
+import type { Task } from '../database/schema/workspace-schema.js';
+import type { FieldMapping } from './remote-interface-manager.js';
+
+// Task fields that can be mapped to remote fields
+export const MAPPABLE_TASK_FIELDS = ['title', 'description', 'status', 'priority', 'notes', 'progress', 'completedAt'] as const;
+
+// Task fields that are only ever read from the remote side
+export const IMPORT_ONLY_TASK_FIELDS = new Set<string>(['completedAt']);
+
+const TASK_FIELD_VALUES: Record<string, readonly string[]> = {
+  status: ['backlog', 'in-progress', 'blocked', 'review', 'done', 'dropped'],
+  priority: ['high', 'medium', 'low']
+};
+
+const TRANSFORMATIONS = ['direct', 'uppercase', 'lowercase', 'custom'];
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function readKey(value: unknown, key: string): unknown {
+  if (Array.isArray(value) && !/^\d+$/.test(key)) {
+    return value.map(item => readKey(item, key)).filter(item => item !== undefined);
+  }
+  return value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+}
+
+/**
+ * Value at a dotted path; on a list, the rest of the path is read from each element
+ */
+export function getPath(source: unknown, path: string): unknown {
+  return path.split('.').reduce(readKey, source);
+}
+
+export function setPath(target: Record<string, any>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    node = node[key] ??= {};
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+export function applyTransformation(value: unknown, mapping: FieldMapping): unknown {
+  if (typeof value !== 'string') return value;
+  if (mapping.transformation === 'uppercase') return value.toUpperCase();
+  if (mapping.transformation === 'lowercase') return value.toLowerCase();
+  return value;
+}
+
+/**
+ * Value of the first "prefix:value" label (case-insensitive prefix); labels
+ * may be names or objects with a name
+ */
+export function labelValue(labels: unknown, prefix: string): string | undefined {
+  const pattern = new RegExp(`^${prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*:\\s*(.+)$`, 'i');
+  for (const label of Array.isArray(labels) ? labels : [labels]) {
+    const name = typeof label === 'string' ? label : readKey(label, 'name');
+    const match = typeof name === 'string' ? name.match(pattern) : null;
+    if (match) {
+      return match[1].trim();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * ISO timestamp of a date string or epoch time (seconds or milliseconds)
+ */
+export function parseDate(value: unknown): string | undefined {
+  let time: number;
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+$/.test(value))) {
+    const epoch = Number(value);
+    time = epoch < 1e12 ? epoch * 1000 : epoch;
+  } else if (typeof value === 'string') {
+    // Jira writes offsets without a colon, e.g. 2026-01-05T10:00:00.000+0000
+    time = Date.parse(value.trim().replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+  } else {
+    return undefined;
+  }
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+/**
+ * Task value the lookup table has for a remote value; for a list, the
+ * first element it has one for
+ */
+export function lookupValue(valueMap: Record<string, string>, value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    return value.map(item => lookupValue(valueMap, item)).find(mapped => mapped !== undefined);
+  }
+  if (isEmpty(value) || typeof value === 'object') {
+    return undefined;
+  }
+  const key = String(value).toLowerCase();
+  return Object.entries(valueMap).find(([remote]) => remote.toLowerCase() === key)?.[1];
+}
+
+/**
+ * Remote value for a task value from a custom mapping's lookup table: the
+ * first remote value that maps to it
+ */
+export function reverseLookup(mapping: FieldMapping, taskValue: unknown): string | undefined {
+  if (mapping.transformation !== 'custom' || !mapping.value_map || isEmpty(taskValue)) {
+    return undefined;
+  }
+  return Object.entries(mapping.value_map).find(([, mapped]) => mapped === String(taskValue))?.[0];
+}
+
+/**
+ * Task value of a remote item for a mapping. `convert` is the provider's
+ * conversion of the value the path and rules leave.
+ */
+export function mapRemoteValue(
+  source: unknown,
+  mapping: FieldMapping,
+  convert: (value: unknown) => unknown = value => value
+): unknown {
+  let value = getPath(source, mapping.remote_field);
+  if (mapping.transformation === 'custom') {
+    if (mapping.label_prefix) {
+      value = labelValue(value, mapping.label_prefix);
+    }
+    if (mapping.parse_date) {
+      value = parseDate(value);
+    }
+    const mapped = mapping.value_map ? lookupValue(mapping.value_map, value) : undefined;
+    if (mapped !== undefined) {
+      return mapped;
+    }
+    if (isEmpty(value) && mapping.default !== undefined) {
+      return mapping.default;
+    }
+  }
+  return applyTransformation(convert(value), mapping);
+}
+
+/**
+ * Problems with user-supplied field mappings, one message per problem.
+ * Mappings with rules but no transformation are switched to 'custom'.
+ */
+export function validateFieldMappings(mappings: unknown): string[] {
+  if (!Array.isArray(mappings)) {
+    return ['field_mappings must be an array'];
+  }
+  const errors: string[] = [];
+  mappings.forEach((mapping, index) => {
+    const label = `field_mappings[${index}]`;
+    if (!mapping || typeof mapping !== 'object') {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    const { taskpilot_field, remote_field, transformation, value_map, label_prefix, parse_date } = mapping as FieldMapping;
+    if (!(MAPPABLE_TASK_FIELDS as readonly string[]).includes(taskpilot_field)) {
+      errors.push(`${label}.taskpilot_field must be one of: ${MAPPABLE_TASK_FIELDS.join(', ')}`);
+      return;
+    }
+    if (typeof remote_field !== 'string' || !remote_field.trim()) {
+      errors.push(`${label}.remote_field must be a dotted path, e.g. priority.name`);
+    }
+
+    const hasRules = value_map !== undefined || label_prefix !== undefined || parse_date !== undefined
+      || (mapping as FieldMapping).default !== undefined;
+    if (transformation === undefined && hasRules) {
+      (mapping as FieldMapping).transformation = 'custom';
+    } else if (transformation !== undefined && !TRANSFORMATIONS.includes(transformation)) {
+      errors.push(`${label}.transformation must be one of: ${TRANSFORMATIONS.join(', ')}`);
+    } else if (hasRules && transformation !== 'custom') {
+      errors.push(`${label}: value_map, label_prefix, parse_date and default need the 'custom' transformation`);
+    }
+
+    if (label_prefix !== undefined && (typeof label_prefix !== 'string' || !label_prefix.trim())) {
+      errors.push(`${label}.label_prefix must be a non-empty string`);
+    }
+    if (parse_date !== undefined && typeof parse_date !== 'boolean') {
+      errors.push(`${label}.parse_date must be true or false`);
+    }
+    const allowed = TASK_FIELD_VALUES[taskpilot_field];
+    if (value_map !== undefined) {
+      if (!value_map || typeof value_map !== 'object' || Array.isArray(value_map)) {
+        errors.push(`${label}.value_map must map remote values to task values`);
+      } else {
+        for (const [remote, value] of Object.entries(value_map)) {
+          if (typeof value !== 'string' || (allowed && !allowed.includes(value))) {
+            errors.push(`${label}.value_map["${remote}"] must be ${allowed ? `one of: ${allowed.join(', ')}` : 'a string'}`);
+          }
+        }
+      }
+    }
+    const fallback = (mapping as FieldMapping).default;
+    if (fallback !== undefined && allowed && !allowed.includes(String(fallback))) {
+      errors.push(`${label}.default must be one of: ${allowed.join(', ')}`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Task fields with values a task column accepts; others are dropped
+ */
+export function coerceTaskFields(fields: Record<string, unknown>): Partial<Task> {
+  const coerced: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(fields)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (field === 'progress') {
+      const progress = typeof value === 'number' ? value : Number(value);
+      if (value !== null && value !== '' && Number.isFinite(progress)) {
+        coerced.progress = Math.max(0, Math.min(100, Math.round(progress)));
+      }
+      continue;
+    }
+    const allowed = TASK_FIELD_VALUES[field];
+    if (allowed && !allowed.includes(String(value))) {
+      continue;
+    }
+    coerced[field] = Array.isArray(value) ? value.join(', ') : value;
+  }
+  return coerced as Partial<Task>;
+}
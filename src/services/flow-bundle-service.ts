@@ -0,0 +1,375 @@
+/**
+ * FlowBundleService - Tool flow import/export
+ *
+ * Packs tool flows with their steps and referenced feedback steps into a
+ * versioned bundle that can be shared as YAML or JSON, and upserts such a
+ * bundle into the global scope or a workspace. Bundle entries use the same
+ * shapes as the embedded seed data, without database ids and scope columns.
+ */
+
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { v4 as uuidv4 } from 'uuid';
+import type { DrizzleDatabaseManager } from '../database/drizzle-connection.js';
+import { GlobalDatabaseService } from '../database/global-queries.js';
+import type {
+  NewToolFlow,
+  NewToolFlowStep,
+  NewFeedbackStep,
+  ToolFlow,
+  FeedbackStep
+} from '../database/schema/global-schema.js';
+import { validateBranching } from '../utils/flow-branches.js';
+
+export const FLOW_BUNDLE_FORMAT = 'taskpilot-flow-bundle';
+export const FLOW_BUNDLE_VERSION = 1;
+
+export type FlowBundleStep = Omit<NewToolFlowStep, 'id' | 'toolFlowId' | 'createdAt' | 'updatedAt'>;
+
+export type FlowBundleToolFlow = Omit<NewToolFlow, 'id' | 'isGlobal' | 'workspaceId' | 'createdAt' | 'updatedAt'> & {
+  steps: FlowBundleStep[];
+};
+
+export type FlowBundleFeedbackStep = Omit<NewFeedbackStep, 'id' | 'isGlobal' | 'workspaceId' | 'createdAt' | 'updatedAt'>;
+
+export interface FlowBundle {
+  format: typeof FLOW_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  scope: 'global' | 'workspace';
+  toolFlows: FlowBundleToolFlow[];
+  feedbackSteps: FlowBundleFeedbackStep[];
+}
+
+export type FlowBundleFormat = 'yaml' | 'json';
+
+export interface FlowBundleImportResult {
+  scope: 'global' | 'workspace';
+  toolFlows: { created: string[]; updated: string[] };
+  feedbackSteps: { created: string[]; updated: string[] };
+}
+
+/**
+ * Raised when a bundle cannot be parsed or does not pass validation
+ */
+export class FlowBundleValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid flow bundle: ${errors.join('; ')}`);
+    this.name = 'FlowBundleValidationError';
+  }
+}
+
+export class FlowBundleService {
+  private globalDb: GlobalDatabaseService;
+
+  constructor(private drizzleDb: DrizzleDatabaseManager) {
+    this.globalDb = new GlobalDatabaseService(drizzleDb);
+  }
+
+  /**
+   * Export tool flows of one scope (global when workspaceId is null).
+   * All flows of the scope are exported unless toolNames is given; names
+   * without a flow in the scope are left out of the bundle.
+   */
+  async exportBundle(workspaceId: string | null, toolNames?: string[]): Promise<FlowBundle> {
+    const scopeFlows = await this.getScopeToolFlows(workspaceId);
+    const flows = toolNames?.length
+      ? scopeFlows.filter(flow => toolNames.includes(flow.toolName))
+      : scopeFlows;
+
+    const toolFlows: FlowBundleToolFlow[] = [];
+    const feedbackStepNames = new Set<string>();
+
+    for (const flow of flows) {
+      const steps = await this.globalDb.getToolFlowSteps(flow.id);
+      const feedbackStepName = await this.resolveFeedbackStepName(flow.feedbackStepId, workspaceId);
+      if (feedbackStepName) feedbackStepNames.add(feedbackStepName);
+
+      const bundleSteps: FlowBundleStep[] = [];
+      for (const step of steps) {
+        const stepFeedbackName = await this.resolveFeedbackStepName(step.feedbackStep, workspaceId);
+        if (stepFeedbackName) feedbackStepNames.add(stepFeedbackName);
+        bundleSteps.push({
+          stepOrder: step.stepOrder,
+          systemToolFn: step.systemToolFn,
+          feedbackStep: stepFeedbackName ?? step.feedbackStep,
+          nextTool: step.nextTool,
+          metadata: step.metadata ?? {}
+        });
+      }
+
+      toolFlows.push({
+        toolName: flow.toolName,
+        description: flow.description,
+        feedbackStepId: feedbackStepName ?? flow.feedbackStepId,
+        nextTool: flow.nextTool,
+        steps: bundleSteps
+      });
+    }
+
+    const feedbackSteps: FlowBundleFeedbackStep[] = [];
+    for (const name of feedbackStepNames) {
+      const step = await this.globalDb.getFeedbackStepByName(name, workspaceId ?? undefined);
+      if (step) {
+        feedbackSteps.push({
+          name: step.name,
+          description: step.description,
+          templateContent: step.templateContent,
+          variableSchema: step.variableSchema ?? {}
+        });
+      }
+    }
+
+    return {
+      format: FLOW_BUNDLE_FORMAT,
+      version: FLOW_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      scope: workspaceId ? 'workspace' : 'global',
+      toolFlows,
+      feedbackSteps
+    };
+  }
+
+  /**
+   * Serialize a bundle as YAML or JSON
+   */
+  serialize(bundle: FlowBundle, format: FlowBundleFormat = 'yaml'): string {
+    return format === 'json'
+      ? JSON.stringify(bundle, null, 2)
+      : stringifyYaml(bundle, { lineWidth: 0 });
+  }
+
+  /**
+   * Parse YAML or JSON content (JSON is valid YAML) and validate it as a bundle
+   */
+  parse(content: string): FlowBundle {
+    let raw: unknown;
+    try {
+      raw = parseYaml(content);
+    } catch (error) {
+      throw new FlowBundleValidationError([
+        `Could not parse bundle: ${error instanceof Error ? error.message : String(error)}`
+      ]);
+    }
+    return this.validate(raw);
+  }
+
+  /**
+   * Check the structure of a bundle and the references between its entries
+   */
+  validate(raw: unknown): FlowBundle {
+    const errors: string[] = [];
+    const bundle = (raw && typeof raw === 'object' ? raw : {}) as Partial<FlowBundle>;
+
+    if (bundle.format !== FLOW_BUNDLE_FORMAT) {
+      errors.push(`format must be "${FLOW_BUNDLE_FORMAT}"`);
+    }
+    if (!Number.isInteger(bundle.version) || bundle.version! < 1 || bundle.version! > FLOW_BUNDLE_VERSION) {
+      errors.push(`version must be between 1 and ${FLOW_BUNDLE_VERSION}`);
+    }
+    if (!Array.isArray(bundle.toolFlows) || bundle.toolFlows.length === 0) {
+      errors.push('toolFlows must be a non-empty array');
+    }
+    if (bundle.feedbackSteps !== undefined && !Array.isArray(bundle.feedbackSteps)) {
+      errors.push('feedbackSteps must be an array');
+    }
+    if (errors.length > 0) {
+      throw new FlowBundleValidationError(errors);
+    }
+
+    const feedbackSteps = bundle.feedbackSteps ?? [];
+    const feedbackNames = new Set<string>();
+    feedbackSteps.forEach((step, index) => {
+      const prefix = `feedbackSteps[${index}]`;
+      if (typeof step?.name !== 'string' || !step.name.trim()) {
+        errors.push(`${prefix}.name is required`);
+      } else if (feedbackNames.has(step.name)) {
+        errors.push(`${prefix}.name "${step.name}" is duplicated`);
+      } else {
+        feedbackNames.add(step.name);
+      }
+      if (typeof step?.templateContent !== 'string' || !step.templateContent.trim()) {
+        errors.push(`${prefix}.templateContent is required`);
+      }
+    });
+
+    const toolNames = new Set<string>();
+    bundle.toolFlows!.forEach((flow, index) => {
+      const prefix = `toolFlows[${index}]`;
+      if (typeof flow?.toolName !== 'string' || !flow.toolName.trim()) {
+        errors.push(`${prefix}.toolName is required`);
+      } else if (toolNames.has(flow.toolName)) {
+        errors.push(`${prefix}.toolName "${flow.toolName}" is duplicated`);
+      } else {
+        toolNames.add(flow.toolName);
+      }
+      if (!Array.isArray(flow?.steps)) {
+        errors.push(`${prefix}.steps must be an array`);
+        return;
+      }
+
+      const orders = new Set<number>();
+      const stepIds = flow.steps.flatMap(step => {
+        const metadata = (step?.metadata ?? {}) as Record<string, unknown>;
+        return typeof metadata.stepId === 'string' ? [step.systemToolFn, metadata.stepId] : [step?.systemToolFn];
+      });
+      flow.steps.forEach((step, stepIndex) => {
+        const stepPrefix = `${prefix}.steps[${stepIndex}]`;
+        if (!Number.isInteger(step?.stepOrder)) {
+          errors.push(`${stepPrefix}.stepOrder must be an integer`);
+        } else if (orders.has(step.stepOrder)) {
+          errors.push(`${stepPrefix}.stepOrder ${step.stepOrder} is duplicated`);
+        } else {
+          orders.add(step.stepOrder);
+        }
+        if (typeof step?.systemToolFn !== 'string' || !step.systemToolFn.trim()) {
+          errors.push(`${stepPrefix}.systemToolFn is required`);
+        }
+        if (step?.metadata !== undefined && (step.metadata === null || typeof step.metadata !== 'object')) {
+          errors.push(`${stepPrefix}.metadata must be an object`);
+        } else if (step?.metadata) {
+          for (const branchError of validateBranching(step.metadata as Record<string, any>, stepIds)) {
+            errors.push(`${stepPrefix}.metadata.${branchError}`);
+          }
+        }
+      });
+    });
+
+    if (errors.length > 0) {
+      throw new FlowBundleValidationError(errors);
+    }
+
+    return {
+      format: FLOW_BUNDLE_FORMAT,
+      version: bundle.version!,
+      exportedAt: bundle.exportedAt ?? new Date().toISOString(),
+      scope: bundle.scope === 'workspace' ? 'workspace' : 'global',
+      toolFlows: bundle.toolFlows!,
+      feedbackSteps
+    };
+  }
+
+  /**
+   * Upsert a bundle into the global scope (workspaceId null) or a workspace.
+   *
+   * Feedback steps are matched by name and tool flows by tool name within the
+   * target scope. The steps of an existing flow are replaced by the bundle's steps.
+   */
+  async importBundle(raw: unknown, workspaceId: string | null): Promise<FlowBundleImportResult> {
+    const bundle = this.validate(raw);
+    const isGlobal = workspaceId === null;
+    await this.checkFeedbackReferences(bundle, workspaceId);
+
+    const result: FlowBundleImportResult = {
+      scope: isGlobal ? 'global' : 'workspace',
+      toolFlows: { created: [], updated: [] },
+      feedbackSteps: { created: [], updated: [] }
+    };
+
+    // A bundle is imported completely or not at all
+    return this.drizzleDb.transaction(async () => {
+      const existingSteps = await this.getScopeFeedbackSteps(workspaceId);
+      for (const step of bundle.feedbackSteps) {
+        const values = {
+          name: step.name,
+          description: step.description ?? null,
+          templateContent: step.templateContent,
+          variableSchema: step.variableSchema ?? {}
+        };
+        const existing = existingSteps.find(candidate => candidate.name === step.name);
+        if (existing) {
+          await this.globalDb.updateFeedbackStep(existing.id, values);
+          result.feedbackSteps.updated.push(step.name);
+        } else {
+          await this.globalDb.createFeedbackStep({ id: uuidv4(), ...values, isGlobal, workspaceId });
+          result.feedbackSteps.created.push(step.name);
+        }
+      }
+
+      const existingFlows = await this.getScopeToolFlows(workspaceId);
+      for (const flow of bundle.toolFlows) {
+        const values = {
+          toolName: flow.toolName,
+          description: flow.description ?? null,
+          feedbackStepId: flow.feedbackStepId ?? null,
+          nextTool: flow.nextTool ?? null
+        };
+        const existing = existingFlows.find(candidate => candidate.toolName === flow.toolName);
+        let flowId: string;
+        if (existing) {
+          await this.globalDb.updateToolFlow(existing.id, values);
+          for (const step of await this.globalDb.getToolFlowSteps(existing.id)) {
+            await this.globalDb.deleteToolFlowStep(step.id);
+          }
+          flowId = existing.id;
+          result.toolFlows.updated.push(flow.toolName);
+        } else {
+          flowId = (await this.globalDb.createToolFlow({ id: uuidv4(), ...values, isGlobal, workspaceId })).id;
+          result.toolFlows.created.push(flow.toolName);
+        }
+
+        for (const step of flow.steps) {
+          await this.globalDb.createToolFlowStep({
+            id: uuidv4(),
+            toolFlowId: flowId,
+            stepOrder: step.stepOrder,
+            systemToolFn: step.systemToolFn,
+            feedbackStep: step.feedbackStep ?? null,
+            nextTool: step.nextTool ?? null,
+            metadata: step.metadata ?? {}
+          });
+        }
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * Every feedback step a flow refers to must be in the bundle or already
+   * resolvable from the target scope (workspace steps fall back to global ones)
+   */
+  private async checkFeedbackReferences(bundle: FlowBundle, workspaceId: string | null): Promise<void> {
+    const bundled = new Set(bundle.feedbackSteps.map(step => step.name));
+    const errors: string[] = [];
+
+    for (const flow of bundle.toolFlows) {
+      const references = [flow.feedbackStepId, ...flow.steps.map(step => step.feedbackStep)]
+        .filter((name): name is string => typeof name === 'string' && name.length > 0);
+      for (const name of new Set(references)) {
+        if (!bundled.has(name) && !(await this.globalDb.getFeedbackStepByName(name, workspaceId ?? undefined))) {
+          errors.push(`${flow.toolName} refers to unknown feedback step "${name}"`);
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new FlowBundleValidationError(errors);
+    }
+  }
+
+  /**
+   * Flows store feedback step names, but older rows may hold a feedback step id
+   */
+  private async resolveFeedbackStepName(reference: string | null, workspaceId: string | null): Promise<string | null> {
+    if (!reference) {
+      return null;
+    }
+    const byName = await this.globalDb.getFeedbackStepByName(reference, workspaceId ?? undefined);
+    if (byName) {
+      return byName.name;
+    }
+    return (await this.globalDb.getFeedbackStep(reference))?.name ?? null;
+  }
+
+  private async getScopeToolFlows(workspaceId: string | null): Promise<ToolFlow[]> {
+    return workspaceId
+      ? this.globalDb.getWorkspaceToolFlows(workspaceId)
+      : this.globalDb.getGlobalToolFlows();
+  }
+
+  private async getScopeFeedbackSteps(workspaceId: string | null): Promise<FeedbackStep[]> {
+    return workspaceId
+      ? this.globalDb.getWorkspaceFeedbackSteps(workspaceId)
+      : this.globalDb.getGlobalFeedbackSteps();
+  }
+}
@@ -0,0 +1,329 @@
+/**
+ * FlowLinter - Tool flow definition checks
+ *
+ * Reports problems in a tool flow before it is saved or executed: step
+ * functions without a handler, dangling feedback step and next_tool
+ * references, invalid branches, duplicate step orders, steps that can never
+ * be reached, feedback step templates that do not parse and template
+ * variables that are not declared in variableSchema.
+ */
+
+import type { DrizzleDatabaseManager } from '../database/drizzle-connection.js';
+import { GlobalDatabaseService } from '../database/global-queries.js';
+import { isValidToolName } from '../constants/tool-names.js';
+import { FLOW_END_STEP, getBranchingMetadata, validateBranching } from '../utils/flow-branches.js';
+import { TemplateEngine, TemplateError } from './template-engine.js';
+import { VariableSchemaValidator } from './variable-schema-validator.js';
+import type { FlowBundleToolFlow, FlowBundleFeedbackStep, FlowBundleStep } from './flow-bundle-service.js';
+import type { DatabaseDrivenTool } from './tool-flow-executor.js';
+import { AddToolNew } from '../tools/add.js';
+import { FocusToolNew } from '../tools/focus.js';
+import { InitToolNew } from '../tools/init.js';
+import { StatusToolNew } from '../tools/status.js';
+import { UpdateToolNew } from '../tools/update.js';
+
+export type FlowLintSeverity = 'error' | 'warning';
+
+export type FlowLintCode =
+  | 'missing_handler'
+  | 'missing_feedback_step'
+  | 'unknown_next_tool'
+  | 'invalid_branch'
+  | 'duplicate_step_order'
+  | 'unreachable_step'
+  | 'invalid_template'
+  | 'undeclared_template_variable';
+
+export interface FlowLintIssue {
+  severity: FlowLintSeverity;
+  code: FlowLintCode;
+  message: string;
+  step?: string; // step ID the issue belongs to, absent for flow-level issues
+}
+
+export interface FlowLintResult {
+  toolName: string;
+  valid: boolean; // false when there is at least one error
+  issues: FlowLintIssue[];
+}
+
+export interface FlowLintOptions {
+  workspaceId?: string | null;
+  // Feedback steps that are about to be written with the flow (e.g. from a bundle)
+  feedbackSteps?: FlowBundleFeedbackStep[];
+}
+
+/**
+ * Step handler names per tool, from the getStepHandlers() maps of the tools
+ * that route steps through the executor
+ */
+export function getStepHandlerNames(drizzleDb: DrizzleDatabaseManager): Record<string, string[]> {
+  const tools: DatabaseDrivenTool[] = [
+    new InitToolNew(drizzleDb),
+    new AddToolNew(drizzleDb),
+    new StatusToolNew(drizzleDb),
+    new UpdateToolNew(drizzleDb),
+    new FocusToolNew(drizzleDb)
+  ];
+  return Object.fromEntries(tools.map(tool => [tool.getToolName(), Object.keys(tool.getStepHandlers())]));
+}
+
+export class FlowLinter {
+  private globalDb: GlobalDatabaseService;
+  private templateEngine = new TemplateEngine();
+  private variableSchemas = new VariableSchemaValidator();
+  private stepHandlerNames: Record<string, string[]> | null;
+
+  /**
+   * @param stepHandlerNames Step handler names per tool; defaults to
+   * getStepHandlerNames()
+   */
+  constructor(private drizzleDb: DrizzleDatabaseManager, stepHandlerNames?: Record<string, string[]>) {
+    this.globalDb = new GlobalDatabaseService(drizzleDb);
+    this.stepHandlerNames = stepHandlerNames ?? null;
+  }
+
+  /**
+   * Lint a stored tool flow by id
+   */
+  async lintStoredFlow(flowId: string): Promise<FlowLintResult | null> {
+    const flow = await this.globalDb.getToolFlowById(flowId);
+    if (!flow) {
+      return null;
+    }
+    const steps = await this.globalDb.getToolFlowSteps(flowId);
+    return this.lintFlow({
+      toolName: flow.toolName,
+      description: flow.description,
+      feedbackStepId: flow.feedbackStepId,
+      nextTool: flow.nextTool,
+      steps: steps.map(step => ({
+        stepOrder: step.stepOrder,
+        systemToolFn: step.systemToolFn,
+        feedbackStep: step.feedbackStep,
+        nextTool: step.nextTool,
+        metadata: step.metadata ?? {}
+      }))
+    }, { workspaceId: flow.workspaceId });
+  }
+
+  /**
+   * Lint a flow definition in bundle shape
+   */
+  async lintFlow(flow: FlowBundleToolFlow, options: FlowLintOptions = {}): Promise<FlowLintResult> {
+    const issues: FlowLintIssue[] = [];
+    const steps = [...(flow.steps ?? [])].sort((a, b) => a.stepOrder - b.stepOrder);
+    const stepIds = steps.flatMap(step => this.getStepAliases(step));
+
+    this.checkNextTool(flow.nextTool, undefined, issues);
+    this.checkDuplicateOrders(steps, issues);
+    this.checkHandlers(flow.toolName, steps, issues);
+
+    for (const step of steps) {
+      const stepId = this.getStepId(step);
+      this.checkNextTool(step.nextTool, stepId, issues);
+      for (const error of validateBranching(getBranchingMetadata(step.metadata), stepIds)) {
+        issues.push({ severity: 'error', code: 'invalid_branch', message: `Branch ${error}`, step: stepId });
+      }
+    }
+
+    this.checkReachability(steps, issues);
+    await this.checkFeedbackSteps(flow, steps, options, issues);
+
+    return {
+      toolName: flow.toolName,
+      valid: !issues.some(issue => issue.severity === 'error'),
+      issues
+    };
+  }
+
+  private checkNextTool(nextTool: string | null | undefined, stepId: string | undefined, issues: FlowLintIssue[]): void {
+    if (nextTool && nextTool !== FLOW_END_STEP && !isValidToolName(nextTool)) {
+      issues.push({
+        severity: 'error',
+        code: 'unknown_next_tool',
+        message: `next_tool "${nextTool}" is not a TaskPilot tool`,
+        step: stepId
+      });
+    }
+  }
+
+  private checkDuplicateOrders(steps: FlowBundleStep[], issues: FlowLintIssue[]): void {
+    const seen = new Set<number>();
+    for (const step of steps) {
+      if (seen.has(step.stepOrder)) {
+        issues.push({
+          severity: 'error',
+          code: 'duplicate_step_order',
+          message: `Step order ${step.stepOrder} is used by more than one step`,
+          step: this.getStepId(step)
+        });
+      }
+      seen.add(step.stepOrder);
+    }
+  }
+
+  /**
+   * The executor runs a configured step with the handler named by system_tool_fn,
+   * or by the step's metadata.stepId when the step is requested by that ID
+   */
+  private checkHandlers(toolName: string, steps: FlowBundleStep[], issues: FlowLintIssue[]): void {
+    const handlers = this.getStepHandlerNames()[toolName];
+    if (!handlers) {
+      return;
+    }
+    for (const step of steps) {
+      if (!this.getStepAliases(step).some(alias => handlers.includes(alias))) {
+        issues.push({
+          severity: 'error',
+          code: 'missing_handler',
+          message: `system_tool_fn "${step.systemToolFn}" has no handler in ${toolName} (available: ${handlers.join(', ')})`,
+          step: this.getStepId(step)
+        });
+      }
+    }
+  }
+
+  /**
+   * Walk the flow from its first step through step order and branches
+   */
+  private checkReachability(steps: FlowBundleStep[], issues: FlowLintIssue[]): void {
+    if (steps.length === 0) {
+      return;
+    }
+
+    const reached = new Set<FlowBundleStep>();
+    const queue = [steps[0]];
+    while (queue.length > 0) {
+      const step = queue.shift()!;
+      if (reached.has(step)) continue;
+      reached.add(step);
+
+      const { branches, default_next_step } = getBranchingMetadata(step.metadata);
+      const targets = branches.map(branch => branch.next_step);
+      if (default_next_step) {
+        targets.push(default_next_step);
+      } else {
+        // Without a default, unmatched branches fall through to the next step in order
+        const next = steps[steps.indexOf(step) + 1];
+        if (next) queue.push(next);
+      }
+      for (const target of targets) {
+        const targetStep = steps.find(candidate => this.getStepAliases(candidate).includes(target));
+        if (targetStep) queue.push(targetStep);
+      }
+    }
+
+    for (const step of steps) {
+      if (!reached.has(step)) {
+        issues.push({
+          severity: 'warning',
+          code: 'unreachable_step',
+          message: `Step "${this.getStepId(step)}" cannot be reached from the first step`,
+          step: this.getStepId(step)
+        });
+      }
+    }
+  }
+
+  private async checkFeedbackSteps(
+    flow: FlowBundleToolFlow,
+    steps: FlowBundleStep[],
+    options: FlowLintOptions,
+    issues: FlowLintIssue[]
+  ): Promise<void> {
+    const references: Array<{ name: string; stepId?: string }> = [];
+    if (flow.feedbackStepId) {
+      references.push({ name: flow.feedbackStepId });
+    }
+    for (const step of steps) {
+      if (step.feedbackStep) {
+        references.push({ name: step.feedbackStep, stepId: this.getStepId(step) });
+      }
+    }
+
+    const checked = new Set<string>();
+    while (references.length > 0) {
+      const reference = references.shift()!;
+      const feedbackStep = await this.findFeedbackStep(reference.name, options);
+      if (!feedbackStep) {
+        issues.push({
+          severity: 'error',
+          code: 'missing_feedback_step',
+          message: `Feedback step "${reference.name}" does not exist`,
+          step: reference.stepId
+        });
+        continue;
+      }
+      if (checked.has(feedbackStep.name)) continue;
+      checked.add(feedbackStep.name);
+
+      let templateReferences;
+      try {
+        templateReferences = this.templateEngine.getReferences(feedbackStep.templateContent);
+      } catch (error) {
+        if (!(error instanceof TemplateError)) throw error;
+        issues.push({
+          severity: 'error',
+          code: 'invalid_template',
+          message: `Feedback step "${feedbackStep.name}" has an invalid template: ${error.message}`,
+          step: reference.stepId
+        });
+        continue;
+      }
+
+      // Partials are feedback steps too
+      references.push(...templateReferences.partials.map(name => ({ name, stepId: reference.stepId })));
+
+      const undeclared = this.getUndeclaredVariables(templateReferences.variables, feedbackStep.variableSchema);
+      if (undeclared.length > 0) {
+        issues.push({
+          severity: 'warning',
+          code: 'undeclared_template_variable',
+          message: `Feedback step "${feedbackStep.name}" uses variables missing from its variableSchema: ${undeclared.join(', ')}`,
+          step: reference.stepId
+        });
+      }
+    }
+  }
+
+  private async findFeedbackStep(
+    name: string,
+    options: FlowLintOptions
+  ): Promise<Pick<FlowBundleFeedbackStep, 'name' | 'templateContent' | 'variableSchema'> | null> {
+    const pending = options.feedbackSteps?.find(step => step.name === name);
+    if (pending) {
+      return pending;
+    }
+    return (await this.globalDb.getFeedbackStepByName(name, options.workspaceId ?? undefined))
+      ?? (await this.globalDb.getFeedbackStep(name));
+  }
+
+  /**
+   * Steps with an empty schema have not opted into declaring variables and are skipped
+   */
+  private getUndeclaredVariables(used: string[], variableSchema: unknown): string[] {
+    if (!this.variableSchemas.hasDeclaredVariables(variableSchema)) {
+      return [];
+    }
+    const declared = this.variableSchemas.getVariables(variableSchema).map(variable => variable.name);
+    return used.filter(name => !declared.includes(name));
+  }
+
+  private getStepHandlerNames(): Record<string, string[]> {
+    if (!this.stepHandlerNames) {
+      this.stepHandlerNames = getStepHandlerNames(this.drizzleDb);
+    }
+    return this.stepHandlerNames;
+  }
+
+  private getStepId(step: FlowBundleStep): string {
+    const metadata = (step.metadata ?? {}) as Record<string, unknown>;
+    return typeof metadata.stepId === 'string' ? metadata.stepId : step.systemToolFn;
+  }
+
+  private getStepAliases(step: FlowBundleStep): string[] {
+    const stepId = this.getStepId(step);
+    return stepId === step.systemToolFn ? [stepId] : [step.systemToolFn, stepId];
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * GitHubAutoSync - Pushes task changes to GitHub for workspaces with autoSync
+ *
+ * Listens to task changes in this process and, once a workspace's changes
+ * have settled, runs the GitHub Issues sync for it when its github_configs
+ * row has autoSync on. Changes made by the sync itself (and other system
+ * changes) do not trigger another run.
+ */
+
+import { resolve } from 'path';
+import type { DatabaseService } from './database-service.js';
+import { RemoteInterfaceManager } from './remote-interface-manager.js';
+import { taskChanges, type TaskChange } from '../database/workspace-queries.js';
+import { debounce, type Debounced } from '../utils/debounce.js';
+
+const AUTO_SYNC_DEBOUNCE_MS = 5000;
+
+export class GitHubAutoSync {
+  private remoteInterfaces: RemoteInterfaceManager;
+  private scheduled = new Map<string, Debounced>();
+  private running = new Map<string, Promise<void>>();
+
+  constructor(
+    private databaseService: DatabaseService,
+    private delayMs = AUTO_SYNC_DEBOUNCE_MS
+  ) {
+    this.remoteInterfaces = new RemoteInterfaceManager(databaseService);
+  }
+
+  start(): void {
+    taskChanges.on('change', this.onTaskChange);
+  }
+
+  stop(): void {
+    taskChanges.off('change', this.onTaskChange);
+    for (const scheduled of this.scheduled.values()) {
+      scheduled.cancel();
+    }
+    this.scheduled.clear();
+  }
+
+  /**
+   * Sync a workspace now if its GitHub config has autoSync on; resolves once done
+   */
+  async syncWorkspace(workspacePath: string): Promise<void> {
+    const previous = this.running.get(workspacePath);
+    if (previous) {
+      await previous;
+    }
+    const run = this.runSync(workspacePath).finally(() => {
+      if (this.running.get(workspacePath) === run) {
+        this.running.delete(workspacePath);
+      }
+    });
+    this.running.set(workspacePath, run);
+    await run;
+  }
+
+  private onTaskChange = (change: TaskChange): void => {
+    if (change.source === 'system') {
+      return;
+    }
+    const workspacePath = resolve(change.workspacePath);
+    let scheduled = this.scheduled.get(workspacePath);
+    if (!scheduled) {
+      scheduled = debounce(() => {
+        this.scheduled.delete(workspacePath);
+        this.syncWorkspace(workspacePath).catch(error => {
+          console.error(`GitHub auto-sync failed for ${workspacePath}:`, error);
+        });
+      }, this.delayMs);
+      this.scheduled.set(workspacePath, scheduled);
+    }
+    scheduled();
+  };
+
+  private async runSync(workspacePath: string): Promise<void> {
+    const workspace = await this.databaseService.getGlobal().getWorkspaceByPath(workspacePath);
+    if (!workspace) {
+      return;
+    }
+    const config = await (await this.databaseService.getWorkspace(workspace.path)).getGithubConfig();
+    if (!config?.autoSync) {
+      return;
+    }
+
+    const result = await this.remoteInterfaces.syncGitHub(workspace.id);
+    if (result.errors.length > 0) {
+      console.error(`GitHub auto-sync of ${workspace.path} finished with errors:`, result.errors);
+    }
+  }
+}
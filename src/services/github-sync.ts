@@ -0,0 +1,331 @@
+/**
+ * GitHubIssueSync - Synchronizes workspace tasks with GitHub Issues
+ *
+ * Driven by the workspace's github_configs row: the repository, token,
+ * syncDirection and lastSync come from there. Open/closed state maps to
+ * done and dropped (closed as not planned); other statuses and priorities
+ * travel as "status:" and "priority:" labels, leaving other labels alone.
+ * Linked tasks get githubIssueNumber and githubUrl. The first sync imports
+ * open issues only; later syncs fetch issues of any state updated since
+ * lastSync, which is how closing and reopening come back.
+ */
+
+import type { WorkspaceDatabaseService } from '../database/workspace-queries.js';
+import type { GithubConfig, Task, RemoteTaskMapping } from '../database/schema/workspace-schema.js';
+import type { FieldMapping, RemoteInterface, SyncResult } from './remote-interface-manager.js';
+import type { RemoteAdapter } from './remote-adapters.js';
+import type { ProgressReporter } from '../utils/progress.js';
+import { IssueSync, type RemoteIssueRef, type TaskStatus } from './issue-sync.js';
+import { applyTransformation, labelValue, mapRemoteValue, reverseLookup } from './field-mapping.js';
+
+export interface GitHubIssue {
+  id: number;
+  number: number;
+  title: string;
+  body: string | null;
+  state: 'open' | 'closed';
+  state_reason?: 'completed' | 'not_planned' | 'reopened' | null;
+  labels: Array<string | { name?: string }>;
+  html_url: string;
+  updated_at: string;
+  pull_request?: unknown;
+}
+
+export const GITHUB_FIELD_MAPPINGS: FieldMapping[] = [
+  { taskpilot_field: 'title', remote_field: 'title' },
+  { taskpilot_field: 'description', remote_field: 'body' },
+  { taskpilot_field: 'status', remote_field: 'state', transformation: 'custom' },
+  { taskpilot_field: 'priority', remote_field: 'labels', transformation: 'custom', label_prefix: 'priority' }
+];
+
+// Open statuses that are kept as a label; backlog is an open issue without one
+const LABELED_STATUSES: TaskStatus[] = ['in-progress', 'blocked', 'review'];
+
+const PAGE_SIZE = 100;
+
+const SYNC_DIRECTIONS: Record<NonNullable<GithubConfig['syncDirection']>, RemoteInterface['sync_direction']> = {
+  bidirectional: 'bidirectional',
+  github_to_taskpilot: 'import_only',
+  taskpilot_to_github: 'export_only'
+};
+
+function labelNames(issue: Pick<GitHubIssue, 'labels'>): string[] {
+  return issue.labels
+    .map(label => typeof label === 'string' ? label : label.name ?? '')
+    .filter(Boolean);
+}
+
+/**
+ * REST API root for a repository URL: api.github.com for github.com,
+ * /api/v3 on the same host for GitHub Enterprise Server
+ */
+export function githubApiUrl(repoUrl: string): string {
+  const url = new URL(repoUrl);
+  return url.hostname === 'github.com' ? 'https://api.github.com' : `${url.origin}/api/v3`;
+}
+
+/**
+ * Request to the GitHub REST API; throws with GitHub's message on errors
+ */
+async function githubRequest<T>(apiUrl: string, token: string, method: string, path: string, body?: unknown): Promise<T> {
+  const response = await fetch(`${apiUrl}${path}`, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Accept': 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {})
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined
+  });
+  if (!response.ok) {
+    const details = await response.json().catch(() => null) as { message?: string } | null;
+    throw new Error(`GitHub API error: ${response.status} ${response.statusText}${details?.message ? ` - ${details.message}` : ''}`);
+  }
+  return await response.json() as T;
+}
+
+/**
+ * Minimal GitHub REST client for the issues of one repository
+ */
+export class GitHubClient {
+  private repoPath: string;
+
+  constructor(
+    private apiUrl: string,
+    owner: string,
+    repo: string,
+    private token: string
+  ) {
+    this.repoPath = `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  }
+
+  /**
+   * Issues (without pull requests) in the given state, only those updated
+   * since `since` when given
+   */
+  async listIssues(state: 'open' | 'all', since: string | null): Promise<GitHubIssue[]> {
+    const issues: GitHubIssue[] = [];
+    for (let page = 1; ; page++) {
+      const query = new URLSearchParams({
+        state,
+        sort: 'updated',
+        direction: 'asc',
+        per_page: String(PAGE_SIZE),
+        page: String(page)
+      });
+      if (since) {
+        query.set('since', since);
+      }
+      const batch = await this.request<GitHubIssue[]>('GET', `/issues?${query}`);
+      issues.push(...batch.filter(issue => !issue.pull_request));
+      if (batch.length < PAGE_SIZE) {
+        return issues;
+      }
+    }
+  }
+
+  async getIssue(number: number): Promise<GitHubIssue> {
+    return this.request('GET', `/issues/${number}`);
+  }
+
+  async createIssue(fields: Record<string, unknown>): Promise<GitHubIssue> {
+    return this.request('POST', '/issues', fields);
+  }
+
+  async updateIssue(number: number, fields: Record<string, unknown>): Promise<GitHubIssue> {
+    return this.request('PATCH', `/issues/${number}`, fields);
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    return githubRequest(this.apiUrl, this.token, method, `${this.repoPath}${path}`, body);
+  }
+}
+
+export class GitHubIssueSync extends IssueSync<GitHubIssue> {
+  protected readonly providerName = 'GitHub';
+  private client: GitHubClient;
+
+  constructor(config: GithubConfig, workspaceDb: WorkspaceDatabaseService, fieldMappings: FieldMapping[] = GITHUB_FIELD_MAPPINGS) {
+    super({
+      id: config.id,
+      workspace_id: '',
+      interface_type: 'github',
+      name: `${config.repoOwner}/${config.repoName}`,
+      base_url: githubApiUrl(config.repoUrl),
+      api_token: config.githubToken,
+      project_id: `${config.repoOwner}/${config.repoName}`,
+      sync_enabled: true,
+      sync_direction: SYNC_DIRECTIONS[config.syncDirection ?? 'bidirectional'],
+      conflict_policy: config.conflictPolicy ?? 'manual',
+      sync_interval_minutes: 0,
+      field_mappings: JSON.stringify(fieldMappings),
+      last_sync: config.lastSync ?? null,
+      created_at: config.createdAt ?? '',
+      updated_at: config.updatedAt ?? ''
+    }, workspaceDb);
+    this.client = new GitHubClient(this.remoteInterface.base_url, config.repoOwner, config.repoName, config.githubToken);
+  }
+
+  /**
+   * Run the sync and advance the config's lastSync when every item synced
+   */
+  async run(result: SyncResult, progress: ProgressReporter): Promise<void> {
+    await super.run(result, progress);
+    if (result.items_failed === 0) {
+      await this.workspaceDb.updateGithubConfig(this.remoteInterface.id, { lastSync: result.last_sync });
+    }
+  }
+
+  protected async fetchIssues(since: string | null): Promise<GitHubIssue[]> {
+    return this.client.listIssues(since ? 'all' : 'open', since);
+  }
+
+  protected describeIssue(issue: GitHubIssue): RemoteIssueRef {
+    return {
+      remoteId: String(issue.id),
+      remoteKey: `#${issue.number}`,
+      remoteUrl: issue.html_url,
+      remoteUpdatedAt: issue.updated_at
+    };
+  }
+
+  protected taskLinkFields(ref: RemoteIssueRef): Partial<Task> {
+    return { githubIssueNumber: Number(ref.remoteKey.slice(1)), githubUrl: ref.remoteUrl };
+  }
+
+  protected async createIssue(task: Task): Promise<GitHubIssue> {
+    const { state, state_reason, ...fields } = this.toIssueFields(task, []);
+    const issue = await this.client.createIssue(fields);
+    if (state === 'closed') {
+      // Issues are always created open
+      return this.client.updateIssue(issue.number, { state, state_reason });
+    }
+    return issue;
+  }
+
+  protected async updateIssue(link: RemoteTaskMapping, task: Task): Promise<GitHubIssue> {
+    const number = Number(link.remoteKey.slice(1));
+    const current = await this.client.getIssue(number);
+    return this.client.updateIssue(number, this.toIssueFields(task, labelNames(current)));
+  }
+
+  protected toTaskFields(issue: GitHubIssue): Partial<Task> {
+    const fields: Record<string, any> = {};
+    for (const mapping of this.mappings) {
+      switch (mapping.taskpilot_field) {
+        case 'status':
+          fields.status = mapRemoteValue(issue, mapping, () => this.toTaskStatus(issue));
+          break;
+        case 'priority':
+          fields.priority = mapRemoteValue(issue, mapping, value =>
+            typeof value === 'string' ? value.toLowerCase() : undefined);
+          break;
+        default:
+          fields[mapping.taskpilot_field] = mapRemoteValue(issue, mapping, value => value ?? null);
+      }
+    }
+    return this.compactTaskFields(fields);
+  }
+
+  /**
+   * Closed issues are done or dropped; an open issue takes its status label
+   * and is in the backlog without one
+   */
+  private toTaskStatus(issue: GitHubIssue): TaskStatus {
+    if (issue.state === 'closed') {
+      return issue.state_reason === 'not_planned' ? 'dropped' : 'done';
+    }
+    const labeled = labelValue(issue.labels, 'status')?.toLowerCase();
+    return labeled && (LABELED_STATUSES as string[]).includes(labeled) ? labeled as TaskStatus : 'backlog';
+  }
+
+  /**
+   * Label prefixes the sync manages: "status:" and the priority mapping's
+   */
+  private managedLabelPrefixes(): string[] {
+    const priority = this.exportMappings.find(mapping => mapping.taskpilot_field === 'priority');
+    return ['status', priority?.label_prefix ?? 'priority'].map(prefix => prefix.toLowerCase());
+  }
+
+  /**
+   * Issue fields for a task. `currentLabels` are kept except for the
+   * status and priority labels the sync manages.
+   */
+  private toIssueFields(task: Task, currentLabels: string[]): Record<string, unknown> {
+    const fields: Record<string, unknown> = {};
+    const prefixes = this.managedLabelPrefixes();
+    const labels = currentLabels.filter(label => {
+      const separator = label.indexOf(':');
+      return separator < 0 || !prefixes.includes(label.slice(0, separator).trim().toLowerCase());
+    });
+    let managesLabels = false;
+
+    for (const mapping of this.exportMappings) {
+      switch (mapping.taskpilot_field) {
+        case 'status': {
+          const status = task.status ?? 'backlog';
+          const closed = status === 'done' || status === 'dropped';
+          fields.state = closed ? 'closed' : 'open';
+          if (closed) {
+            fields.state_reason = status === 'dropped' ? 'not_planned' : 'completed';
+          }
+          if (LABELED_STATUSES.includes(status)) {
+            labels.push(`status:${status}`);
+          }
+          managesLabels = true;
+          break;
+        }
+        case 'priority': {
+          const priority = task.priority ?? 'medium';
+          labels.push(`${mapping.label_prefix ?? 'priority'}:${reverseLookup(mapping, priority) ?? priority}`);
+          managesLabels = true;
+          break;
+        }
+        default:
+          fields[mapping.remote_field.split('.')[0]] = applyTransformation(task[mapping.taskpilot_field as keyof Task] ?? '', mapping);
+      }
+    }
+    if (managesLabels) {
+      fields.labels = labels;
+    }
+    return fields;
+  }
+}
+
+/**
+ * GitHub interfaces sync the repository configured in github_configs, with
+ * the interface's field mappings
+ */
+export const githubAdapter: RemoteAdapter = {
+  defaultFieldMappings: GITHUB_FIELD_MAPPINGS,
+
+  async testConnection(remoteInterface) {
+    const user = await githubRequest<{ login: string; name: string | null; type: string }>(
+      remoteInterface.base_url, remoteInterface.api_token, 'GET', '/user'
+    );
+    return { success: true, info: { user: user.login, name: user.name, type: user.type } };
+  },
+
+  async listProjects(remoteInterface) {
+    const repos: Array<{ full_name: string; html_url: string }> = [];
+    for (let page = 1; ; page++) {
+      const batch = await githubRequest<Array<{ full_name: string; html_url: string }>>(
+        remoteInterface.base_url, remoteInterface.api_token, 'GET', `/user/repos?sort=full_name&per_page=${PAGE_SIZE}&page=${page}`
+      );
+      repos.push(...batch);
+      if (batch.length < PAGE_SIZE) {
+        return repos.map(repo => ({ id: repo.full_name, name: repo.full_name, url: repo.html_url }));
+      }
+    }
+  },
+
+  async createSync(remoteInterface, workspaceDb) {
+    const config = await workspaceDb.getGithubConfig();
+    if (!config) {
+      throw new Error('GitHub is not configured for this workspace');
+    }
+    const mappings = JSON.parse(remoteInterface.field_mappings || '[]');
+    return new GitHubIssueSync(config, workspaceDb, Array.isArray(mappings) ? mappings : GITHUB_FIELD_MAPPINGS);
+  }
+};
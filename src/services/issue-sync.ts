@@ -0,0 +1,387 @@
+/**
+ * IssueSync - Shared flow of task/issue synchronization for remote interfaces
+ *
+ * Provider syncs (Jira, Linear, GitHub, ...) supply the API calls and the field
+ * conversion; this base class runs the import and export passes the
+ * interface's syncDirection asks for, keeps the remote_task_mappings link
+ * between each task and its issue, and records per-item failures in the
+ * SyncResult without stopping the sync. Local tasks are exported to every
+ * interface, tasks imported from one interface are not exported to others.
+ *
+ * Each link stores a hash of the synced field values on both sides as of
+ * the last sync, so an item is only pulled or pushed when its values
+ * changed. When a bidirectional sync finds that both sides changed to
+ * different values, the interface's conflict policy decides which side
+ * wins; with the manual policy the item waits in the sync_conflicts review
+ * queue and is left alone until someone resolves it.
+ */
+
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import type { WorkspaceDatabaseService } from '../database/workspace-queries.js';
+import type { Task, RemoteTaskMapping, SyncConflict } from '../database/schema/workspace-schema.js';
+import type { FieldMapping, RemoteInterface, SyncResult } from './remote-interface-manager.js';
+import type { ProgressReporter } from '../utils/progress.js';
+import { IMPORT_ONLY_TASK_FIELDS, MAPPABLE_TASK_FIELDS, coerceTaskFields } from './field-mapping.js';
+
+export type TaskStatus = NonNullable<Task['status']>;
+export type TaskPriority = NonNullable<Task['priority']>;
+
+/**
+ * Identity of a remote issue as stored in its task link
+ */
+export interface RemoteIssueRef {
+  remoteId: string;
+  remoteKey: string;
+  remoteUrl: string | null;
+  remoteUpdatedAt: string | null;
+}
+
+/**
+ * Epoch milliseconds of an ISO timestamp or a SQLite CURRENT_TIMESTAMP (UTC)
+ */
+export function toTime(timestamp: string | null | undefined): number {
+  if (!timestamp) return 0;
+  return Date.parse(timestamp.includes('T') ? timestamp : `${timestamp.replace(' ', 'T')}Z`);
+}
+
+/**
+ * Task status for the name of a board column (Asana section, Trello list),
+ * e.g. "Doing" or "Ready for review"; unrecognized names are backlog
+ */
+export function columnNameToTask(name: string | null | undefined): TaskStatus {
+  const normalized = (name ?? '').toLowerCase();
+  if (/\b(done|complete[d]?|closed|shipped|finished)\b/.test(normalized)) return 'done';
+  if (/cancel|dropped|won'?t do/.test(normalized)) return 'dropped';
+  if (normalized.includes('block')) return 'blocked';
+  if (/review|\bqa\b|testing/.test(normalized)) return 'review';
+  if (/progress|doing|started|active|working/.test(normalized)) return 'in-progress';
+  return 'backlog';
+}
+
+/**
+ * Values of the given task fields, with unset and empty values as null
+ */
+export function syncedValues(source: Partial<Task>, fields: string[]): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const field of fields) {
+    const value = source[field as keyof Task];
+    values[field] = value === undefined || value === '' ? null : value;
+  }
+  return values;
+}
+
+/**
+ * Hash of synced values, as stored on task links to detect changes
+ */
+export function syncHash(values: Record<string, unknown>): string {
+  return createHash('sha256').update(JSON.stringify(values)).digest('hex');
+}
+
+export abstract class IssueSync<TIssue> {
+  protected mappings: FieldMapping[];
+  // Mapped fields compared for local changes, and all fields read from remote items
+  private syncedFields: string[];
+  private importedFields: string[];
+
+  /** Provider name used in task event reasons, e.g. "Jira" */
+  protected abstract readonly providerName: string;
+
+  constructor(
+    protected remoteInterface: RemoteInterface,
+    protected workspaceDb: WorkspaceDatabaseService
+  ) {
+    const parsed = JSON.parse(remoteInterface.field_mappings || '[]');
+    this.mappings = (Array.isArray(parsed) ? parsed as FieldMapping[] : [])
+      .filter(mapping => (MAPPABLE_TASK_FIELDS as readonly string[]).includes(mapping.taskpilot_field));
+    this.importedFields = [...new Set(this.mappings.map(mapping => mapping.taskpilot_field))].sort();
+    this.syncedFields = this.importedFields.filter(field => !IMPORT_ONLY_TASK_FIELDS.has(field));
+  }
+
+  /**
+   * Run the sync, counting each item in the result. Failures of a single
+   * issue or task are recorded and the sync moves on to the next one.
+   */
+  async run(result: SyncResult, progress: ProgressReporter): Promise<void> {
+    await this.prepare();
+    const direction = this.remoteInterface.sync_direction;
+
+    if (direction !== 'export_only') {
+      await this.importIssues(result, progress);
+    }
+    if (direction !== 'import_only') {
+      await this.exportTasks(result, progress);
+    }
+  }
+
+  /**
+   * Project key, team or repository the interface syncs
+   */
+  get projectId(): string | undefined {
+    return this.remoteInterface.project_id;
+  }
+
+  /**
+   * Task fields a remote item maps to, e.g. to preview the field mappings
+   */
+  mapIssue(issue: TIssue): Partial<Task> {
+    return this.toTaskFields(issue);
+  }
+
+  /**
+   * Check the configuration and load what the conversions need
+   */
+  protected async prepare(): Promise<void> {}
+
+  /**
+   * Issues of the interface's project, only those updated since `since` when given
+   */
+  protected abstract fetchIssues(since: string | null): Promise<TIssue[]>;
+
+  protected abstract describeIssue(issue: TIssue): RemoteIssueRef;
+
+  protected abstract toTaskFields(issue: TIssue): Partial<Task>;
+
+  /**
+   * Create an issue for the task; resolves to the issue as it is now
+   */
+  protected abstract createIssue(task: Task): Promise<TIssue>;
+
+  /**
+   * Push the task to its linked issue; resolves to the issue as it is now
+   */
+  protected abstract updateIssue(link: RemoteTaskMapping, task: Task): Promise<TIssue>;
+
+  /**
+   * Task fields that point at the issue a task was linked to, if the
+   * provider keeps any on the task itself
+   */
+  protected taskLinkFields(_ref: RemoteIssueRef): Partial<Task> {
+    return {};
+  }
+
+  /**
+   * Mappings of the task fields pushed to remote items
+   */
+  protected get exportMappings(): FieldMapping[] {
+    return this.mappings.filter(mapping => !IMPORT_ONLY_TASK_FIELDS.has(mapping.taskpilot_field));
+  }
+
+  /**
+   * Whether any mapping reads or writes the task field
+   */
+  protected mapsField(field: string): boolean {
+    return this.mappings.some(mapping => mapping.taskpilot_field === field);
+  }
+
+  /**
+   * Drop fields a remote item left unset, so they keep their local values,
+   * and values the task columns do not accept
+   */
+  protected compactTaskFields(fields: Record<string, unknown>): Partial<Task> {
+    if (!fields.title) {
+      delete fields.title;
+    }
+    return coerceTaskFields(fields);
+  }
+
+  private async importIssues(result: SyncResult, progress: ProgressReporter): Promise<void> {
+    const issues = await this.fetchIssues(this.remoteInterface.last_sync);
+    progress.addWork(issues.length);
+
+    for (const issue of issues) {
+      await progress.advance(`Importing ${this.describeIssue(issue).remoteKey}`);
+      await this.importIssue(issue, result);
+    }
+  }
+
+  /**
+   * Create or update the task linked to the issue, unless the interface
+   * only exports. Deliveries of webhooks go through here too.
+   */
+  async importIssue(issue: TIssue, result: SyncResult): Promise<void> {
+    if (this.remoteInterface.sync_direction === 'export_only') {
+      return;
+    }
+    const ref = this.describeIssue(issue);
+    try {
+      const mapping = await this.workspaceDb.getRemoteTaskMappingByRemoteKey(this.remoteInterface.id, ref.remoteKey);
+      const existing = mapping ? await this.workspaceDb.getTask(mapping.taskId) : null;
+      const context = { source: 'system' as const, reason: `Imported from ${this.providerName} ${ref.remoteKey}` };
+      const fields = this.toTaskFields(issue);
+      const remoteHash = syncHash(syncedValues(fields, this.importedFields));
+
+      if (mapping && existing) {
+        const remoteChanged = mapping.remoteHash
+          ? remoteHash !== mapping.remoteHash
+          : !ref.remoteUpdatedAt || ref.remoteUpdatedAt !== mapping.remoteUpdatedAt;
+        if (!remoteChanged) {
+          return;
+        }
+        if (this.isConflict(mapping, existing, fields)) {
+          const winner = this.conflictWinner(existing, ref);
+          if (winner === 'manual') {
+            await this.queueConflict(existing, ref, fields, remoteHash);
+            result.items_conflicted++;
+            return;
+          }
+          if (winner === 'local') {
+            // Take note of the remote change; the export pass overwrites it
+            await this.workspaceDb.updateRemoteTaskMapping(mapping.id, { remoteUpdatedAt: ref.remoteUpdatedAt, remoteHash });
+            return;
+          }
+        }
+        const updated = await this.workspaceDb.updateTask(existing.id, fields, context);
+        await this.workspaceDb.updateRemoteTaskMapping(mapping.id, {
+          remoteUpdatedAt: ref.remoteUpdatedAt,
+          remoteHash,
+          localHash: this.hash(updated ?? existing),
+          lastSyncedAt: new Date().toISOString()
+        });
+        result.items_updated++;
+        return;
+      }
+
+      const task = await this.workspaceDb.createTask({
+        id: uuidv4(),
+        title: ref.remoteKey,
+        ...fields,
+        ...this.taskLinkFields(ref)
+      }, context);
+      const link = { taskId: task.id, ...ref, imported: true, remoteHash, localHash: this.hash(task), lastSyncedAt: new Date().toISOString() };
+      if (mapping) {
+        // The linked task was deleted locally; relink the issue to the new task
+        await this.workspaceDb.updateRemoteTaskMapping(mapping.id, link);
+      } else {
+        await this.workspaceDb.createRemoteTaskMapping({ interfaceId: this.remoteInterface.id, ...link });
+      }
+      result.items_imported++;
+    } catch (error) {
+      this.recordFailure(result, ref.remoteKey, error);
+    }
+  }
+
+  private async exportTasks(result: SyncResult, progress: ProgressReporter): Promise<void> {
+    const links = new Map<string, RemoteTaskMapping>();
+    for (const link of await this.workspaceDb.getRemoteTaskMappings(this.remoteInterface.id)) {
+      links.set(link.taskId, link);
+    }
+    const inReview = new Set((await this.workspaceDb.getSyncConflicts('open'))
+      .filter(conflict => conflict.interfaceId === this.remoteInterface.id)
+      .map(conflict => conflict.taskId));
+    // Tasks imported from another interface stay with the provider they came from
+    const imported = await this.workspaceDb.getImportedTaskIds();
+    const pending = (await this.workspaceDb.getAllTasks()).filter(task => {
+      const link = links.get(task.id);
+      if (!link) {
+        return task.status !== 'dropped' && !imported.has(task.id);
+      }
+      return !inReview.has(task.id) && this.localChanged(link, task);
+    });
+    progress.addWork(pending.length);
+
+    for (const task of pending) {
+      const label = task.taskKey ?? task.id;
+      await progress.advance(`Exporting ${label}`);
+      try {
+        const link = links.get(task.id);
+        if (link) {
+          const issue = await this.updateIssue(link, task);
+          await this.workspaceDb.updateRemoteTaskMapping(link.id, {
+            remoteUpdatedAt: this.describeIssue(issue).remoteUpdatedAt,
+            ...this.linkHashes(task, issue),
+            lastSyncedAt: new Date().toISOString()
+          });
+          result.items_updated++;
+        } else {
+          const issue = await this.createIssue(task);
+          const ref = this.describeIssue(issue);
+          const linkFields = this.taskLinkFields(ref);
+          if (Object.keys(linkFields).length > 0) {
+            await this.workspaceDb.updateTask(task.id, linkFields, {
+              source: 'system',
+              reason: `Exported to ${this.providerName} ${ref.remoteKey}`
+            });
+          }
+          await this.workspaceDb.createRemoteTaskMapping({
+            interfaceId: this.remoteInterface.id,
+            taskId: task.id,
+            ...ref,
+            ...this.linkHashes(task, issue),
+            lastSyncedAt: new Date().toISOString()
+          });
+          result.items_exported++;
+        }
+      } catch (error) {
+        this.recordFailure(result, label, error);
+      }
+    }
+  }
+
+  private hash(source: Partial<Task>): string {
+    return syncHash(syncedValues(source, this.syncedFields));
+  }
+
+  private linkHashes(task: Task, issue: TIssue): { localHash: string; remoteHash: string } {
+    return { localHash: this.hash(task), remoteHash: syncHash(syncedValues(this.toTaskFields(issue), this.importedFields)) };
+  }
+
+  /**
+   * Whether the task changed since it was last synced. Links from before
+   * hashes were kept fall back to comparing timestamps.
+   */
+  private localChanged(link: RemoteTaskMapping, task: Task): boolean {
+    return link.localHash
+      ? this.hash(task) !== link.localHash
+      : toTime(task.updatedAt) > toTime(link.lastSyncedAt);
+  }
+
+  /**
+   * A remote change is a conflict when the sync runs both ways, the task
+   * changed too, and the two sides do not already agree
+   */
+  private isConflict(link: RemoteTaskMapping, task: Task, remoteFields: Partial<Task>): boolean {
+    if (this.remoteInterface.sync_direction !== 'bidirectional' || !this.localChanged(link, task)) {
+      return false;
+    }
+    const fields = Object.keys(remoteFields).filter(field => !IMPORT_ONLY_TASK_FIELDS.has(field));
+    return syncHash(syncedValues(task, fields)) !== syncHash(syncedValues(remoteFields, fields));
+  }
+
+  private conflictWinner(task: Task, ref: RemoteIssueRef): 'local' | 'remote' | 'manual' {
+    switch (this.remoteInterface.conflict_policy ?? 'manual') {
+      case 'local-wins':
+        return 'local';
+      case 'remote-wins':
+        return 'remote';
+      case 'newest-wins':
+        return toTime(ref.remoteUpdatedAt) > toTime(task.updatedAt) ? 'remote' : 'local';
+      default:
+        return 'manual';
+    }
+  }
+
+  /**
+   * Put the conflict in the review queue, refreshing the remote side of an
+   * open conflict the task already has
+   */
+  private async queueConflict(task: Task, ref: RemoteIssueRef, remoteFields: Partial<Task>, remoteHash: string): Promise<SyncConflict> {
+    const values = {
+      remoteKey: ref.remoteKey,
+      localValues: syncedValues(task, this.syncedFields),
+      remoteValues: syncedValues(remoteFields, Object.keys(remoteFields)),
+      remoteHash,
+      remoteUpdatedAt: ref.remoteUpdatedAt
+    };
+    const open = await this.workspaceDb.getOpenSyncConflict(this.remoteInterface.id, task.id);
+    if (open) {
+      return (await this.workspaceDb.updateSyncConflict(open.id, values))!;
+    }
+    return this.workspaceDb.createSyncConflict({ interfaceId: this.remoteInterface.id, taskId: task.id, ...values });
+  }
+
+  private recordFailure(result: SyncResult, item: string, error: unknown): void {
+    result.items_failed++;
+    result.errors.push(`${item}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,398 @@
+/**
+ * JiraSync - Synchronizes workspace tasks with the issues of a Jira project
+ *
+ * Task fields are read from and written to issue fields through the
+ * interface's fieldMappings; status changes are applied with a workflow
+ * transition. Incremental syncs only fetch issues with updated >= lastSync.
+ */
+
+import type { Task, RemoteTaskMapping } from '../database/schema/workspace-schema.js';
+import type { FieldMapping } from './remote-interface-manager.js';
+import type { RemoteAdapter } from './remote-adapters.js';
+import { IssueSync, toTime, type RemoteIssueRef, type TaskPriority, type TaskStatus } from './issue-sync.js';
+import { applyTransformation, mapRemoteValue, reverseLookup, setPath } from './field-mapping.js';
+
+export interface JiraIssue {
+  id: string;
+  key: string;
+  fields: Record<string, any>;
+}
+
+interface JiraStatus {
+  name: string;
+  statusCategory?: { key: string };
+}
+
+interface JiraTransition {
+  id: string;
+  name: string;
+  to: JiraStatus;
+}
+
+export const JIRA_FIELD_MAPPINGS: FieldMapping[] = [
+  { taskpilot_field: 'title', remote_field: 'summary' },
+  { taskpilot_field: 'description', remote_field: 'description' },
+  { taskpilot_field: 'status', remote_field: 'status.name' },
+  { taskpilot_field: 'priority', remote_field: 'priority.name' },
+  { taskpilot_field: 'assignee', remote_field: 'assignee.displayName' }
+];
+
+const SEARCH_PAGE_SIZE = 50;
+
+/**
+ * Task status for a Jira status, by name where TaskPilot has a matching
+ * status and by status category otherwise
+ */
+export function jiraStatusToTask(name: string | undefined, categoryKey?: string): TaskStatus {
+  const normalized = (name ?? '').toLowerCase();
+  if (normalized.includes('block')) return 'blocked';
+  if (normalized.includes('review')) return 'review';
+  if (['dropped', "won't do", 'cancelled', 'canceled'].includes(normalized)) return 'dropped';
+  if (categoryKey === 'done' || normalized === 'done') return 'done';
+  if (categoryKey === 'indeterminate' || normalized === 'in progress') return 'in-progress';
+  return 'backlog';
+}
+
+export function jiraPriorityToTask(name: string | undefined): TaskPriority {
+  const normalized = (name ?? '').toLowerCase();
+  if (normalized === 'highest' || normalized === 'high' || normalized === 'critical' || normalized === 'blocker') return 'high';
+  if (normalized === 'low' || normalized === 'lowest' || normalized === 'trivial' || normalized === 'minor') return 'low';
+  return 'medium';
+}
+
+export function taskPriorityToJira(priority: Task['priority']): string {
+  return priority === 'high' ? 'High' : priority === 'low' ? 'Low' : 'Medium';
+}
+
+/**
+ * JQL date literal ("yyyy/MM/dd HH:mm") for a timestamp. Jira reads it in
+ * the searching user's profile time zone; unknown zones fall back to UTC.
+ */
+export function toJqlDate(timestamp: string, timeZone = 'UTC'): string {
+  let format: Intl.DateTimeFormat;
+  try {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23'
+    });
+  } catch {
+    return toJqlDate(timestamp);
+  }
+  const parts = Object.fromEntries(format.formatToParts(new Date(toTime(timestamp))).map(part => [part.type, part.value]));
+  return `${parts.year}/${parts.month}/${parts.day} ${parts.hour}:${parts.minute}`;
+}
+
+/**
+ * Plain text of an Atlassian Document Format node, one line per block
+ */
+function adfToText(node: any): string {
+  if (!node || typeof node !== 'object') return '';
+  if (node.type === 'text') return node.text ?? '';
+  if (node.type === 'hardBreak') return '\n';
+  const children: any[] = Array.isArray(node.content) ? node.content : [];
+  const separator = node.type === 'doc' || node.type === 'bulletList' || node.type === 'orderedList' ? '\n' : '';
+  return children.map(adfToText).join(separator);
+}
+
+function textToAdf(text: string): Record<string, any> {
+  return {
+    type: 'doc',
+    version: 1,
+    content: text.split('\n').map(line => ({
+      type: 'paragraph',
+      content: line ? [{ type: 'text', text: line }] : []
+    }))
+  };
+}
+
+/**
+ * Minimal Jira REST client. Tokens of the form "email:api-token" use basic
+ * auth (Jira Cloud); any other token is sent as a bearer token (personal
+ * access tokens on Jira Server/Data Center). The API version follows a
+ * /rest/api/{2|3} suffix of the base URL, defaulting to 3 on *.atlassian.net.
+ */
+export class JiraClient {
+  readonly siteUrl: string;
+  readonly apiVersion: '2' | '3';
+  private authorization: string;
+
+  constructor(baseUrl: string, apiToken: string) {
+    const trimmed = baseUrl.replace(/\/+$/, '');
+    const versioned = trimmed.match(/^(.*)\/rest\/api\/([23])$/);
+    this.siteUrl = versioned ? versioned[1] : trimmed;
+    this.apiVersion = versioned
+      ? versioned[2] as '2' | '3'
+      : /\.atlassian\.net$/i.test(new URL(this.siteUrl).hostname) ? '3' : '2';
+    this.authorization = apiToken.includes(':')
+      ? `Basic ${Buffer.from(apiToken).toString('base64')}`
+      : `Bearer ${apiToken}`;
+  }
+
+  get usesDocumentFormat(): boolean {
+    return this.apiVersion === '3';
+  }
+
+  issueUrl(key: string): string {
+    return `${this.siteUrl}/browse/${key}`;
+  }
+
+  /**
+   * All issues matching the JQL, following pagination
+   */
+  async searchIssues(jql: string, fields: string[]): Promise<JiraIssue[]> {
+    const issues: JiraIssue[] = [];
+    if (this.apiVersion === '3') {
+      let nextPageToken: string | undefined;
+      do {
+        const page = await this.request<{ issues: JiraIssue[]; nextPageToken?: string }>('POST', '/search/jql', {
+          jql,
+          fields,
+          maxResults: SEARCH_PAGE_SIZE,
+          ...(nextPageToken ? { nextPageToken } : {})
+        });
+        issues.push(...page.issues);
+        nextPageToken = page.nextPageToken;
+      } while (nextPageToken);
+      return issues;
+    }
+
+    let startAt = 0;
+    for (;;) {
+      const page = await this.request<{ issues: JiraIssue[]; total: number }>('POST', '/search', {
+        jql,
+        fields,
+        startAt,
+        maxResults: SEARCH_PAGE_SIZE
+      });
+      issues.push(...page.issues);
+      startAt += page.issues.length;
+      if (page.issues.length === 0 || startAt >= page.total) {
+        return issues;
+      }
+    }
+  }
+
+  async getIssue(key: string, fields: string[]): Promise<JiraIssue> {
+    return this.request('GET', `/issue/${encodeURIComponent(key)}?fields=${fields.join(',')}`);
+  }
+
+  async createIssue(fields: Record<string, any>): Promise<{ id: string; key: string }> {
+    return this.request('POST', '/issue', { fields });
+  }
+
+  async updateIssue(key: string, fields: Record<string, any>): Promise<void> {
+    await this.request('PUT', `/issue/${encodeURIComponent(key)}`, { fields });
+  }
+
+  /**
+   * The user the token belongs to; Jira Cloud identifies users by accountId,
+   * Server and Data Center by key
+   */
+  async getCurrentUser(): Promise<{ accountId?: string; key?: string; displayName: string; emailAddress?: string; timeZone?: string }> {
+    return this.request('GET', '/myself');
+  }
+
+  async listProjects(): Promise<Array<{ id: string; key: string; name: string }>> {
+    return this.request('GET', '/project');
+  }
+
+  async getTransitions(key: string): Promise<JiraTransition[]> {
+    const result = await this.request<{ transitions: JiraTransition[] }>('GET', `/issue/${encodeURIComponent(key)}/transitions`);
+    return result.transitions ?? [];
+  }
+
+  async transitionIssue(key: string, transitionId: string): Promise<void> {
+    await this.request('POST', `/issue/${encodeURIComponent(key)}/transitions`, { transition: { id: transitionId } });
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${this.siteUrl}/rest/api/${this.apiVersion}${path}`, {
+      method,
+      headers: {
+        'Authorization': this.authorization,
+        'Accept': 'application/json',
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {})
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+    if (!response.ok) {
+      const details = await response.json().catch(() => null) as { errorMessages?: string[]; errors?: Record<string, string> } | null;
+      const messages = [...(details?.errorMessages ?? []), ...Object.values(details?.errors ?? {})];
+      throw new Error(`Jira API error: ${response.status} ${response.statusText}${messages.length ? ` - ${messages.join('; ')}` : ''}`);
+    }
+    return (response.status === 204 ? undefined : await response.json()) as T;
+  }
+}
+
+export class JiraSync extends IssueSync<JiraIssue> {
+  protected readonly providerName = 'Jira';
+  private client = new JiraClient(this.remoteInterface.base_url, this.remoteInterface.api_token);
+
+  protected async prepare(): Promise<void> {
+    if (!this.remoteInterface.project_id) {
+      throw new Error('Jira interface has no project key (projectId)');
+    }
+  }
+
+  /**
+   * JQL for the project's issues, limited to those updated since the last
+   * sync; the bound is written in the token user's time zone
+   */
+  private buildJql(projectKey: string, since: string | null, timeZone?: string): string {
+    const clauses = [`project = "${projectKey.replace(/"/g, '\\"')}"`];
+    if (since) {
+      clauses.push(`updated >= "${toJqlDate(since, timeZone)}"`);
+    }
+    return `${clauses.join(' AND ')} ORDER BY updated ASC`;
+  }
+
+  protected async fetchIssues(since: string | null): Promise<JiraIssue[]> {
+    const timeZone = since ? (await this.client.getCurrentUser()).timeZone : undefined;
+    return this.client.searchIssues(this.buildJql(this.remoteInterface.project_id!, since, timeZone), this.issueFields());
+  }
+
+  protected describeIssue(issue: JiraIssue): RemoteIssueRef {
+    return {
+      remoteId: issue.id,
+      remoteKey: issue.key,
+      remoteUrl: this.client.issueUrl(issue.key),
+      remoteUpdatedAt: issue.fields.updated ?? null
+    };
+  }
+
+  protected async createIssue(task: Task): Promise<JiraIssue> {
+    const { key } = await this.client.createIssue({
+      project: { key: this.remoteInterface.project_id },
+      issuetype: { name: 'Task' },
+      ...this.toIssueFields(task)
+    });
+    return this.afterWrite(key, task);
+  }
+
+  protected async updateIssue(link: RemoteTaskMapping, task: Task): Promise<JiraIssue> {
+    await this.client.updateIssue(link.remoteKey, this.toIssueFields(task));
+    return this.afterWrite(link.remoteKey, task);
+  }
+
+  /**
+   * Apply the task status and read the issue back
+   */
+  private async afterWrite(key: string, task: Task): Promise<JiraIssue> {
+    if (this.mapsField('status')) {
+      await this.transitionTo(key, task.status ?? 'backlog');
+    }
+    return this.client.getIssue(key, this.issueFields());
+  }
+
+  /**
+   * Move the issue to a status matching the task status, when its workflow
+   * offers such a transition from the current status
+   */
+  private async transitionTo(key: string, status: TaskStatus): Promise<void> {
+    const issue = await this.client.getIssue(key, ['status']);
+    if (issue.fields.status && this.toTaskStatus(issue.fields.status) === status) {
+      return;
+    }
+    const transition = (await this.client.getTransitions(key))
+      .find(candidate => this.toTaskStatus(candidate.to) === status);
+    if (transition) {
+      await this.client.transitionIssue(key, transition.id);
+    }
+  }
+
+  /**
+   * Task status of a Jira status, through the status mapping's lookup table
+   * when it has one
+   */
+  private toTaskStatus(status: JiraStatus): TaskStatus {
+    const mapping = this.mappings.find(candidate => candidate.taskpilot_field === 'status');
+    const convert = () => jiraStatusToTask(status.name, status.statusCategory?.key);
+    return (mapping ? mapRemoteValue({ status }, mapping, convert) : convert()) as TaskStatus;
+  }
+
+  /**
+   * Issue fields the mappings read, plus what the sync itself needs
+   */
+  private issueFields(): string[] {
+    const fields = new Set(['updated', 'status']);
+    for (const mapping of this.mappings) {
+      fields.add(mapping.remote_field.split('.')[0]);
+    }
+    return [...fields];
+  }
+
+  protected toTaskFields(issue: JiraIssue): Partial<Task> {
+    const fields: Record<string, any> = {};
+    for (const mapping of this.mappings) {
+      switch (mapping.taskpilot_field) {
+        case 'status':
+          fields.status = mapRemoteValue(issue.fields, mapping, value => jiraStatusToTask(
+            typeof value === 'string' ? value : issue.fields.status?.name,
+            issue.fields.status?.statusCategory?.key
+          ));
+          break;
+        case 'priority':
+          fields.priority = mapRemoteValue(issue.fields, mapping, value =>
+            jiraPriorityToTask(typeof value === 'string' ? value : issue.fields.priority?.name));
+          break;
+        default:
+          fields[mapping.taskpilot_field] = mapRemoteValue(issue.fields, mapping, value =>
+            value && typeof value === 'object' && !Array.isArray(value) ? adfToText(value) : value ?? null);
+      }
+    }
+    return this.compactTaskFields(fields);
+  }
+
+  /**
+   * Issue fields for a task. Status is left out: Jira only changes it
+   * through a workflow transition.
+   */
+  private toIssueFields(task: Task): Record<string, any> {
+    const fields: Record<string, any> = {};
+    for (const mapping of this.exportMappings) {
+      let value: unknown = task[mapping.taskpilot_field as keyof Task];
+      switch (mapping.taskpilot_field) {
+        case 'status':
+          continue;
+        case 'priority':
+          value = reverseLookup(mapping, task.priority) ?? taskPriorityToJira(task.priority);
+          break;
+        case 'title':
+        case 'description':
+        case 'notes':
+          value = applyTransformation(value ?? '', mapping);
+          if (mapping.remote_field === 'description' && this.client.usesDocumentFormat) {
+            value = textToAdf(value as string);
+          }
+          break;
+      }
+      setPath(fields, mapping.remote_field, value);
+    }
+    return fields;
+  }
+}
+
+/**
+ * Jira interfaces sync the issues of one project; its key is the projectId
+ */
+export const jiraAdapter: RemoteAdapter = {
+  defaultFieldMappings: JIRA_FIELD_MAPPINGS,
+
+  async testConnection(remoteInterface) {
+    const user = await new JiraClient(remoteInterface.base_url, remoteInterface.api_token).getCurrentUser();
+    return { success: true, info: { user: user.accountId ?? user.key, name: user.displayName, email: user.emailAddress } };
+  },
+
+  async listProjects(remoteInterface) {
+    const client = new JiraClient(remoteInterface.base_url, remoteInterface.api_token);
+    return (await client.listProjects()).map(project => ({
+      id: project.key,
+      name: project.name,
+      url: `${client.siteUrl}/browse/${project.key}`
+    }));
+  },
+
+  async createSync(remoteInterface, workspaceDb) {
+    return new JiraSync(remoteInterface, workspaceDb);
+  }
+};
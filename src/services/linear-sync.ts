@@ -0,0 +1,296 @@
+/**
+ * LinearSync - Synchronizes workspace tasks with the issues of a Linear team
+ *
+ * Talks to Linear's GraphQL API. The interface's projectId is the team ID;
+ * Linear priorities (1 urgent ... 4 low, 0 none) map onto high/medium/low
+ * and workflow states onto task statuses by state type, with "review" and
+ * "blocked" states recognized by name. Incremental syncs only fetch issues
+ * with updatedAt >= lastSync.
+ */
+
+import type { Task, RemoteTaskMapping } from '../database/schema/workspace-schema.js';
+import type { FieldMapping } from './remote-interface-manager.js';
+import type { RemoteAdapter } from './remote-adapters.js';
+import { IssueSync, type RemoteIssueRef, type TaskPriority, type TaskStatus } from './issue-sync.js';
+import { applyTransformation, mapRemoteValue, reverseLookup } from './field-mapping.js';
+
+export interface LinearState {
+  id: string;
+  name: string;
+  type: string; // triage, backlog, unstarted, started, completed, canceled
+  position?: number;
+}
+
+export interface LinearIssue {
+  id: string;
+  identifier: string;
+  title: string;
+  description: string | null;
+  priority: number;
+  url: string;
+  updatedAt: string;
+  state: LinearState | null;
+  [field: string]: unknown;
+}
+
+export const LINEAR_FIELD_MAPPINGS: FieldMapping[] = [
+  { taskpilot_field: 'title', remote_field: 'title' },
+  { taskpilot_field: 'description', remote_field: 'description' },
+  { taskpilot_field: 'status', remote_field: 'state.name' },
+  { taskpilot_field: 'priority', remote_field: 'priority', transformation: 'custom' },
+  { taskpilot_field: 'assignee', remote_field: 'assignee.name' }
+];
+
+const ISSUE_FIELDS = 'id identifier title description priority url updatedAt state { id name type } assignee { name }';
+
+const PAGE_SIZE = 50;
+
+/**
+ * Task status for a Linear workflow state
+ */
+export function linearStateToTask(state: Pick<LinearState, 'name' | 'type'> | null | undefined): TaskStatus {
+  const name = (state?.name ?? '').toLowerCase();
+  switch (state?.type) {
+    case 'completed':
+      return 'done';
+    case 'canceled':
+      return 'dropped';
+    case 'started':
+      if (name.includes('review')) return 'review';
+      if (name.includes('block')) return 'blocked';
+      return 'in-progress';
+    default:
+      return name.includes('block') ? 'blocked' : 'backlog';
+  }
+}
+
+/**
+ * Task priority for a Linear priority number; "No priority" (0) counts as medium
+ */
+export function linearPriorityToTask(priority: number | null | undefined): TaskPriority {
+  if (priority === 1 || priority === 2) return 'high';
+  if (priority === 4) return 'low';
+  return 'medium';
+}
+
+export function taskPriorityToLinear(priority: Task['priority']): number {
+  return priority === 'high' ? 2 : priority === 'low' ? 4 : 3;
+}
+
+/**
+ * Minimal Linear GraphQL client. Personal API keys (lin_api_...) are sent
+ * as-is; any other token is treated as an OAuth access token.
+ */
+export class LinearClient {
+  private endpoint: string;
+  private authorization: string;
+
+  constructor(baseUrl: string, apiToken: string) {
+    const trimmed = baseUrl.replace(/\/+$/, '');
+    this.endpoint = trimmed.endsWith('/graphql') ? trimmed : `${trimmed}/graphql`;
+    this.authorization = apiToken.startsWith('lin_api_') ? apiToken : `Bearer ${apiToken}`;
+  }
+
+  async getViewer(): Promise<{ id: string; name: string; email: string }> {
+    const data = await this.request<{ viewer: { id: string; name: string; email: string } }>('query Viewer { viewer { id name email } }', {});
+    return data.viewer;
+  }
+
+  async listTeams(): Promise<Array<{ id: string; key: string; name: string }>> {
+    const data = await this.request<{ teams: { nodes: Array<{ id: string; key: string; name: string }> } }>(
+      'query Teams { teams(first: 250) { nodes { id key name } } }',
+      {}
+    );
+    return data.teams.nodes;
+  }
+
+  async getTeamStates(teamId: string): Promise<LinearState[]> {
+    const data = await this.request<{ team: { states: { nodes: LinearState[] } } | null }>(
+      'query TeamStates($teamId: String!) { team(id: $teamId) { states { nodes { id name type position } } } }',
+      { teamId }
+    );
+    if (!data.team) {
+      throw new Error(`Linear team not found: ${teamId}`);
+    }
+    return [...data.team.states.nodes].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+  }
+
+  /**
+   * All issues of the team, only those updated since `since` when given
+   */
+  async listIssues(teamId: string, since: string | null): Promise<LinearIssue[]> {
+    const filter: Record<string, unknown> = { team: { id: { eq: teamId } } };
+    if (since) {
+      filter.updatedAt = { gte: since };
+    }
+
+    const issues: LinearIssue[] = [];
+    let after: string | null = null;
+    do {
+      const data: { issues: { nodes: LinearIssue[]; pageInfo: { hasNextPage: boolean; endCursor: string | null } } } = await this.request(
+        `query Issues($filter: IssueFilter, $after: String) {
+          issues(filter: $filter, first: ${PAGE_SIZE}, after: $after, orderBy: updatedAt) {
+            nodes { ${ISSUE_FIELDS} }
+            pageInfo { hasNextPage endCursor }
+          }
+        }`,
+        { filter, after }
+      );
+      issues.push(...data.issues.nodes);
+      after = data.issues.pageInfo.hasNextPage ? data.issues.pageInfo.endCursor : null;
+    } while (after);
+    return issues;
+  }
+
+  async createIssue(input: Record<string, unknown>): Promise<LinearIssue> {
+    const data = await this.request<{ issueCreate: { success: boolean; issue: LinearIssue | null } }>(
+      `mutation CreateIssue($input: IssueCreateInput!) { issueCreate(input: $input) { success issue { ${ISSUE_FIELDS} } } }`,
+      { input }
+    );
+    if (!data.issueCreate.success || !data.issueCreate.issue) {
+      throw new Error('Linear did not create the issue');
+    }
+    return data.issueCreate.issue;
+  }
+
+  async updateIssue(id: string, input: Record<string, unknown>): Promise<LinearIssue> {
+    const data = await this.request<{ issueUpdate: { success: boolean; issue: LinearIssue | null } }>(
+      `mutation UpdateIssue($id: String!, $input: IssueUpdateInput!) { issueUpdate(id: $id, input: $input) { success issue { ${ISSUE_FIELDS} } } }`,
+      { id, input }
+    );
+    if (!data.issueUpdate.success || !data.issueUpdate.issue) {
+      throw new Error(`Linear did not update issue ${id}`);
+    }
+    return data.issueUpdate.issue;
+  }
+
+  private async request<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Authorization': this.authorization,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ query, variables })
+    });
+    const body = await response.json().catch(() => null) as { data?: T; errors?: Array<{ message: string }> } | null;
+    if (body?.errors?.length) {
+      throw new Error(`Linear API error: ${body.errors.map(error => error.message).join('; ')}`);
+    }
+    if (!response.ok || !body?.data) {
+      throw new Error(`Linear API error: ${response.status} ${response.statusText}`);
+    }
+    return body.data;
+  }
+}
+
+export class LinearSync extends IssueSync<LinearIssue> {
+  protected readonly providerName = 'Linear';
+  private client = new LinearClient(this.remoteInterface.base_url, this.remoteInterface.api_token);
+  private states: LinearState[] = [];
+
+  protected async prepare(): Promise<void> {
+    if (!this.remoteInterface.project_id) {
+      throw new Error('Linear interface has no team ID (projectId)');
+    }
+    if (this.mapsField('status')) {
+      this.states = await this.client.getTeamStates(this.remoteInterface.project_id);
+    }
+  }
+
+  protected async fetchIssues(since: string | null): Promise<LinearIssue[]> {
+    return this.client.listIssues(this.remoteInterface.project_id!, since);
+  }
+
+  protected describeIssue(issue: LinearIssue): RemoteIssueRef {
+    return {
+      remoteId: issue.id,
+      remoteKey: issue.identifier,
+      remoteUrl: issue.url,
+      remoteUpdatedAt: issue.updatedAt
+    };
+  }
+
+  protected async createIssue(task: Task): Promise<LinearIssue> {
+    return this.client.createIssue({ teamId: this.remoteInterface.project_id, ...this.toIssueInput(task) });
+  }
+
+  protected async updateIssue(link: RemoteTaskMapping, task: Task): Promise<LinearIssue> {
+    return this.client.updateIssue(link.remoteId, this.toIssueInput(task));
+  }
+
+  protected toTaskFields(issue: LinearIssue): Partial<Task> {
+    const fields: Record<string, any> = {};
+    for (const mapping of this.mappings) {
+      switch (mapping.taskpilot_field) {
+        case 'status':
+          fields.status = mapRemoteValue(issue, mapping, () => linearStateToTask(issue.state));
+          break;
+        case 'priority':
+          fields.priority = mapRemoteValue(issue, mapping, value =>
+            linearPriorityToTask(typeof value === 'number' ? value : issue.priority));
+          break;
+        default:
+          fields[mapping.taskpilot_field] = mapRemoteValue(issue, mapping, value => value ?? null);
+      }
+    }
+    return this.compactTaskFields(fields);
+  }
+
+  /**
+   * Issue input for a task. Linear takes flat input fields, so only the first
+   * segment of a mapping's remote field is used; status becomes a stateId.
+   */
+  private toIssueInput(task: Task): Record<string, unknown> {
+    const input: Record<string, unknown> = {};
+    for (const mapping of this.exportMappings) {
+      const field = mapping.remote_field.split('.')[0];
+      switch (mapping.taskpilot_field) {
+        case 'status': {
+          const state = this.findState(task.status ?? 'backlog');
+          if (state) {
+            input.stateId = state.id;
+          }
+          break;
+        }
+        case 'priority': {
+          const mapped = reverseLookup(mapping, task.priority);
+          input.priority = mapped !== undefined && /^\d+$/.test(mapped) ? Number(mapped) : taskPriorityToLinear(task.priority);
+          break;
+        }
+        default:
+          input[field] = applyTransformation(task[mapping.taskpilot_field as keyof Task] ?? '', mapping);
+      }
+    }
+    return input;
+  }
+
+  /**
+   * First workflow state of the team that maps back to the task status
+   */
+  private findState(status: TaskStatus): LinearState | undefined {
+    const mapping = this.mappings.find(candidate => candidate.taskpilot_field === 'status')!;
+    return this.states.find(state => mapRemoteValue({ state }, mapping, () => linearStateToTask(state)) === status);
+  }
+}
+
+/**
+ * Linear interfaces sync the issues of one team; its ID is the projectId
+ */
+export const linearAdapter: RemoteAdapter = {
+  defaultFieldMappings: LINEAR_FIELD_MAPPINGS,
+
+  async testConnection(remoteInterface) {
+    const viewer = await new LinearClient(remoteInterface.base_url, remoteInterface.api_token).getViewer();
+    return { success: true, info: { user: viewer.id, name: viewer.name, email: viewer.email } };
+  },
+
+  async listProjects(remoteInterface) {
+    const teams = await new LinearClient(remoteInterface.base_url, remoteInterface.api_token).listTeams();
+    return teams.map(team => ({ id: team.id, name: `${team.name} (${team.key})` }));
+  },
+
+  async createSync(remoteInterface, workspaceDb) {
+    return new LinearSync(remoteInterface, workspaceDb);
+  }
+};
@@ -9,6 +9,7 @@
 import type { DrizzleDatabaseManager } from '../database/drizzle-connection.js';
 import { ToolFlow, ToolFlowStep } from '../types/index.js';
 import { ToolNames } from '../constants/tool-names.js';
+import { FLOW_END_STEP, resolveBranchTarget } from '../utils/flow-branches.js';
 
 export interface NextStepInstruction {
     instructionText: string;
@@ -17,12 +18,17 @@ export interface NextStepInstruction {
     context?: string;
 }
 
+// Looks up the tool flow the next step is picked from
+export type ToolFlowLoader = (toolName: string, workspaceId?: string) => Promise<ToolFlow | null>;
+
 export class NextStepTemplateGenerator {
     private dbManager: DrizzleDatabaseManager;
     private instructionCache: Map<string, NextStepInstruction> = new Map();
+    private loadToolFlow?: ToolFlowLoader;
 
-    constructor(dbManager: DrizzleDatabaseManager) {
+    constructor(dbManager: DrizzleDatabaseManager, loadToolFlow?: ToolFlowLoader) {
         this.dbManager = dbManager;
+        this.loadToolFlow = loadToolFlow;
     }
 
     /**
@@ -32,12 +38,13 @@ export class NextStepTemplateGenerator {
         toolName: string, 
         currentStepId?: string,
         workspaceId?: string,
-        context?: string
+        context?: string,
+        resultData?: Record<string, unknown>
     ): Promise<NextStepInstruction | null> {
         const cacheKey = `${toolName}:${currentStepId || 'initial'}:${workspaceId || 'global'}`;
         
-        // Check cache first
-        if (this.instructionCache.has(cacheKey)) {
+        // Check cache first; branched results depend on the result data and are not cached
+        if (!resultData && this.instructionCache.has(cacheKey)) {
             return this.instructionCache.get(cacheKey)!;
         }
 
@@ -49,7 +56,7 @@ export class NextStepTemplateGenerator {
             }
 
             // Find current step and determine next step
-            const nextStep = await this.determineNextStep(toolFlow, currentStepId);
+            const nextStep = await this.determineNextStep(toolFlow, currentStepId, resultData);
             if (!nextStep) {
                 return null;
             }
@@ -58,7 +65,9 @@ export class NextStepTemplateGenerator {
             const instruction = this.buildInstructionText(toolName, nextStep, context);
             
             // Cache the result
-            this.instructionCache.set(cacheKey, instruction);
+            if (!resultData) {
+                this.instructionCache.set(cacheKey, instruction);
+            }
             
             return instruction;
         } catch (error) {
@@ -124,6 +133,10 @@ export class NextStepTemplateGenerator {
 
     private async getToolFlow(toolName: string, workspaceId?: string): Promise<ToolFlow | null> {
         try {
+            if (this.loadToolFlow) {
+                return await this.loadToolFlow(toolName, workspaceId);
+            }
+
             // Get tool flow from embedded seed data or database
             // For now, use a simplified approach that works with the current system
             
@@ -138,7 +151,11 @@ export class NextStepTemplateGenerator {
         }
     }
 
-    private async determineNextStep(toolFlow: ToolFlow, currentStepId?: string): Promise<ToolFlowStep | null> {
+    private async determineNextStep(
+        toolFlow: ToolFlow,
+        currentStepId?: string,
+        resultData?: Record<string, unknown>
+    ): Promise<ToolFlowStep | null> {
         if (!currentStepId) {
             // Return first step for initial call
             return toolFlow.flow_steps.find(step => step.step_order === 1) || null;
@@ -153,6 +170,17 @@ export class NextStepTemplateGenerator {
             return null;
         }
 
+        // Conditional branches in step metadata take precedence over step order
+        const branchTarget = resolveBranchTarget(currentStep.metadata, resultData ?? {});
+        if (branchTarget === FLOW_END_STEP) {
+            return null;
+        }
+        if (branchTarget) {
+            return toolFlow.flow_steps.find(step =>
+                this.extractStepId(step.system_tool_fn) === branchTarget || step.metadata?.stepId === branchTarget
+            ) || null;
+        }
+
         // Check if this step has explicit next_tool
         if (currentStep.next_tool) {
             // This step points to a different tool - return completion instruction
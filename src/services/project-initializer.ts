@@ -4,6 +4,8 @@ import type { DrizzleDatabaseManager } from '../database/drizzle-connection.js';
 import { getGlobalDatabase } from '../database/drizzle-connection.js';
 import type { Task } from '../types/index.js';
 import { SeedManager } from './seed-manager.js';
+import { WorkspaceDatabaseService } from '../database/workspace-queries.js';
+import { NO_PROGRESS, type ProgressReporter } from '../utils/progress.js';
 import { workspaces, sessions, type Workspace, type NewWorkspace, type NewSession } from '../database/schema/global-schema.js';
 import { tasks, workspaceFeedbackSteps, type Task as DrizzleTask, type NewTask, type NewWorkspaceFeedbackStep } from '../database/schema/workspace-schema.js';
 import { eq, and, desc, sql } from 'drizzle-orm';
@@ -61,22 +63,27 @@ export class ProjectInitializer {
   }
 
   /**
-   * Initialize a new TaskPilot project
+   * Initialize a new TaskPilot project, reporting each phase to progress
    */
-  async initializeProject(input: ProjectInitializationInput): Promise<ProjectInitializationResult> {
+  async initializeProject(input: ProjectInitializationInput, progress: ProgressReporter = NO_PROGRESS): Promise<ProjectInitializationResult> {
     const { workspace_path, project_requirements, tech_stack, project_name } = input;
+    progress.addWork(4);
 
     try {
       // Step 1: Create or ensure workspace exists
+      await progress.advance('Registering workspace');
       const workspace = await this.ensureWorkspace(workspace_path, project_name);
 
       // Step 2: Initialize database structure (no initial tasks created here)
+      await progress.advance('Creating workspace database');
       await this.initializeWorkspaceDatabase(workspace.id, workspace_path);
 
       // Step 3: Check if project is empty or needs reinitialization  
+      await progress.advance('Scanning project files');
       const isEmpty = await this.checkIfProjectIsEmpty(workspace_path);
 
       // Step 4: Create initial session
+      await progress.advance('Starting session');
       await this.createInitialSession(workspace.id);
 
       return {
@@ -267,6 +274,7 @@ export class ProjectInitializer {
     }
 
     // Insert tasks into WORKSPACE database using correct Drizzle connection
+    const workspaceTasks = new WorkspaceDatabaseService(workspace.path, workspaceDb);
     const createdTasks: Task[] = [];
     for (const task of initialTasks) {
       const taskData: NewTask = {
@@ -284,18 +292,14 @@ export class ProjectInitializer {
         completedAt: null
       };
 
-      await workspaceDb.getDb().insert(tasks).values(taskData);
-
-      // Fetch the created task from workspace database
-      const dbTask = await workspaceDb.getDb().select()
-        .from(tasks)
-        .where(eq(tasks.id, task.id!))
-        .get();
+      // Insert through the workspace service so the task gets its sequential key
+      const dbTask = await workspaceTasks.createTask(taskData);
       
       if (dbTask) {
         // Convert database task to API task format - mapping Drizzle types to legacy API types
         const apiTask: Task = {
           id: dbTask.id,
+          task_key: dbTask.taskKey || undefined,
           title: dbTask.title,
           description: dbTask.description || undefined,
           priority: (dbTask.priority ?
@@ -453,13 +457,10 @@ export class ProjectInitializer {
   }
 
   /**
-   * Generate task ID with TP prefix
+   * Generate task ID. The short TP-001 style key is assigned by the workspace database.
    */
   private generateTaskId(): string {
-    // Generate a simple incremental ID (in production, this could be more sophisticated)
-    const timestamp = Date.now().toString().slice(-6);
-    const random = Math.floor(Math.random() * 900) + 100;
-    return `TP-${timestamp}${random}`;
+    return uuidv4();
   }
 
   /**
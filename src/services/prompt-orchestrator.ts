@@ -1,12 +1,22 @@
 import type { DrizzleDatabaseManager } from '../database/drizzle-connection.js';
 import type { PromptOrchestrationResult, ToolFlow, FeedbackStep } from '../types/index.js';
+import type { FeedbackStep as FeedbackStepRecord } from '../database/schema/global-schema.js';
 import { SeedManager } from './seed-manager.js';
 import { NextStepTemplateGenerator } from './next-step-generator.js';
+import { TemplateEngine } from './template-engine.js';
+import { VariableSchemaValidator } from './variable-schema-validator.js';
 import { ToolNames } from '../constants/tool-names.js';
 
+export interface OrchestratePromptOptions {
+  // Render this feedback step instead of the flow's, e.g. an unsaved edit being previewed
+  feedbackStep?: Pick<FeedbackStepRecord, 'name' | 'templateContent' | 'variableSchema'>;
+}
+
 export class PromptOrchestrator {
   private seedManager: SeedManager;
   private nextStepGenerator: NextStepTemplateGenerator;
+  private templateEngine = new TemplateEngine();
+  private variableSchemas = new VariableSchemaValidator();
 
   constructor(private drizzleDb: DrizzleDatabaseManager) {
     // Pure TypeScript approach - use DrizzleDatabaseManager directly
@@ -20,7 +30,8 @@ export class PromptOrchestrator {
   async orchestratePrompt(
     toolName: string,
     workspaceId: string,
-    args: Record<string, any> = {}
+    args: Record<string, any> = {},
+    options: OrchestratePromptOptions = {}
   ): Promise<PromptOrchestrationResult> {
     try {
       // Get tool flow (workspace-specific or fallback to global)
@@ -39,19 +50,16 @@ export class PromptOrchestrator {
       let promptText = await this.generateBasicPrompt(toolName, args);
 
       // If there's a feedback step, include its instructions with context substitution
-      if (feedbackStepId) {
-        const feedbackStep = await this.seedManager.getFeedbackStep(
-          feedbackStepId,
+      if (feedbackStepId || options.feedbackStep) {
+        const feedbackStep = options.feedbackStep ?? await this.seedManager.getFeedbackStep(
+          feedbackStepId!,
           workspaceId
         );
         
         if (feedbackStep) {
-          // Replace context variables in feedback step instructions
+          // Render feedback step instructions with the tool call context
           // Note: Using templateContent instead of instructions for new schema
-          const contextualInstructions = this.replaceContextVariables(
-            feedbackStep.templateContent,
-            this.buildContext(args, workspaceId)
-          );
+          const contextualInstructions = await this.renderFeedbackStep(feedbackStep, args, workspaceId);
           
           promptText += `\n\n**FEEDBACK STEP INSTRUCTIONS:**\n${contextualInstructions}`;
         }
@@ -137,10 +145,12 @@ export class PromptOrchestrator {
   }
 
   /**
-   * Build context object for variable substitution
+   * Build context object for variable substitution. Tool arguments are
+   * available as-is, with defaults for the common workspace and task fields.
    */
-  private buildContext(args: Record<string, any>, workspaceId: string): Record<string, string> {
+  private buildContext(args: Record<string, any>, workspaceId: string): Record<string, unknown> {
     return {
+      ...args,
       workspace_path: args.workspace_path || 'current directory',
       workspace_id: workspaceId,
       workspace_name: args.workspace_name || 'TaskPilot Project',
@@ -161,6 +171,9 @@ export class PromptOrchestrator {
       parent_task_id: args.parent_task_id || '',
       connected_files: args.connected_files || '',
       notes: args.notes || '',
+      dependencies_count: args.dependencies_count || '0',
+      subtasks_count: args.subtasks_count || '0',
+      task_history: args.task_history || 'No recorded changes',
       field_updated: args.field_updated || '',
       old_value: args.old_value || '',
       new_value: args.new_value || '',
@@ -205,20 +218,31 @@ export class PromptOrchestrator {
   }
 
   /**
-   * Replace {{context.variable}} placeholders with actual values
+   * Render feedback step content through the template engine.
+   *
+   * Steps that declare a variableSchema get the tool arguments validated
+   * against it, with schema defaults filled in, and fail on unknown variables
+   * (FeedbackVariablesError / TemplateError). Steps without one get the legacy
+   * context with fallback values and keep unresolved tags as-is.
    */
-  private replaceContextVariables(
-    text: string,
-    context: Record<string, string>
-  ): string {
-    let result = text;
-    
-    // Replace {{context.variable}} patterns
-    for (const [key, value] of Object.entries(context)) {
-      const pattern = new RegExp(`{{context\\.${key}}}`, 'g');
-      result = result.replace(pattern, value);
-    }
-    
-    return result;
+  async renderFeedbackStep(
+    feedbackStep: Pick<FeedbackStepRecord, 'name' | 'templateContent' | 'variableSchema'>,
+    args: Record<string, any>,
+    workspaceId: string
+  ): Promise<string> {
+    const strict = this.variableSchemas.hasDeclaredVariables(feedbackStep.variableSchema);
+    const context = strict
+      ? this.variableSchemas.apply(feedbackStep.name, feedbackStep.variableSchema, {
+        workspace_id: workspaceId,
+        timestamp: new Date().toISOString(),
+        ...args
+      })
+      : this.buildContext(args, workspaceId);
+
+    return this.templateEngine.render(feedbackStep.templateContent, { context }, {
+      strict,
+      name: feedbackStep.name,
+      resolvePartial: async name => (await this.seedManager.getFeedbackStep(name, workspaceId))?.templateContent
+    });
   }
 }
@@ -0,0 +1,57 @@
+/**
+ * Remote adapters - What each kind of remote interface brings to the manager
+ *
+ * A provider module (jira-sync.ts, trello-sync.ts, ...) exports one adapter:
+ * the field mappings new interfaces start with, a connection test, the
+ * projects its token can see, and the IssueSync that imports and exports
+ * tasks. RemoteInterfaceManager looks adapters up here by interface_type;
+ * supporting a new provider means adding its adapter to REMOTE_ADAPTERS.
+ */
+
+import type { WorkspaceDatabaseService } from '../database/workspace-queries.js';
+import type { FieldMapping, RemoteInterface } from './remote-interface-manager.js';
+import type { IssueSync } from './issue-sync.js';
+import { githubAdapter } from './github-sync.js';
+import { jiraAdapter } from './jira-sync.js';
+import { linearAdapter } from './linear-sync.js';
+import { asanaAdapter } from './asana-sync.js';
+import { trelloAdapter } from './trello-sync.js';
+
+export interface ConnectionTestResult {
+  success: boolean;
+  error?: string;
+  info?: any;
+}
+
+/**
+ * A project, board, team or repository an interface can sync; its id is
+ * what goes into the interface's project_id
+ */
+export interface RemoteProject {
+  id: string;
+  name: string;
+  url?: string;
+}
+
+export interface RemoteAdapter {
+  readonly defaultFieldMappings: FieldMapping[];
+  /** Who the token belongs to; rejects when the provider refuses it */
+  testConnection(remoteInterface: RemoteInterface): Promise<ConnectionTestResult>;
+  listProjects(remoteInterface: RemoteInterface): Promise<RemoteProject[]>;
+  createSync(remoteInterface: RemoteInterface, workspaceDb: WorkspaceDatabaseService): Promise<IssueSync<any>>;
+}
+
+const REMOTE_ADAPTERS: Partial<Record<RemoteInterface['interface_type'], RemoteAdapter>> = {
+  github: githubAdapter,
+  jira: jiraAdapter,
+  linear: linearAdapter,
+  asana: asanaAdapter,
+  trello: trelloAdapter
+};
+
+/**
+ * Adapter of an interface type; custom interfaces have none
+ */
+export function getRemoteAdapter(interfaceType: RemoteInterface['interface_type']): RemoteAdapter | undefined {
+  return REMOTE_ADAPTERS[interfaceType];
+}
@@ -1,5 +1,12 @@
 import { DatabaseService } from './database-service.js';
-import { ToolNames } from '../constants/tool-names.js';
+import { NO_PROGRESS, OperationCancelledError, type ProgressReporter } from '../utils/progress.js';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { GitHubIssueSync, GITHUB_FIELD_MAPPINGS } from './github-sync.js';
+import { getRemoteAdapter, type ConnectionTestResult, type RemoteProject } from './remote-adapters.js';
+import { syncHash, syncedValues, type IssueSync } from './issue-sync.js';
+import type { WorkspaceDatabaseService } from '../database/workspace-queries.js';
+import type { SyncConflict, SyncRun, Task } from '../database/schema/workspace-schema.js';
 
 export interface RemoteInterface {
     id: string;
@@ -8,9 +15,12 @@ export interface RemoteInterface {
     name: string;
     base_url: string;
     api_token: string;
-    project_id?: string; // Jira project key, Linear team ID, etc.
+    project_id?: string; // Jira project key, Linear team ID, Asana project gid, Trello board id
     sync_enabled: boolean;
     sync_direction: 'bidirectional' | 'import_only' | 'export_only';
+    conflict_policy: ConflictPolicy; // Which side wins when a task changed both locally and remotely
+    sync_interval_minutes: number; // Minutes between scheduled syncs, 0 for none
+    webhook_secret?: string; // Secret that signs inbound webhook deliveries
     field_mappings: string; // JSON string of field mappings
     mcp_server_name?: string; // Name of the specialized MCP server to delegate operations to
     last_sync: string | null;
@@ -18,6 +28,8 @@ export interface RemoteInterface {
     updated_at: string;
 }
 
+export type ConflictPolicy = 'local-wins' | 'remote-wins' | 'newest-wins' | 'manual';
+
 export interface MCPServerMapping {
     id: string;
     interface_type: RemoteInterface['interface_type'];
@@ -30,9 +42,14 @@ export interface MCPServerMapping {
 
 export interface FieldMapping {
     taskpilot_field: string;
-    remote_field: string;
+    remote_field: string; // Dotted path into the remote item, e.g. priority.name
     transformation?: 'direct' | 'uppercase' | 'lowercase' | 'custom';
     custom_transform?: string; // Custom transformation logic
+    // Rules of the 'custom' transformation, see field-mapping.ts
+    value_map?: Record<string, string>; // Remote value -> task value
+    label_prefix?: string; // Read "prefix:value" labels
+    parse_date?: boolean;
+    default?: string | number;
 }
 
 export interface SyncResult {
@@ -41,10 +58,20 @@ export interface SyncResult {
     items_exported: number;
     items_updated: number;
     items_failed: number;
+    items_conflicted: number; // Conflicts left in the review queue
     errors: string[];
     last_sync: string;
 }
 
+export const DEFAULT_SYNC_INTERVAL_MINUTES = 15;
+
+// Sync runs kept in the log per interface
+const SYNC_RUNS_KEPT = 200;
+
+// Syncs in progress per remote, shared by all managers (REST, scheduler,
+// tools, GitHub auto-sync) so that two syncs of one remote never overlap
+const runningSyncs = new Map<string, Promise<unknown>>();
+
 export class RemoteInterfaceManager {
     private dbService: DatabaseService;
 
@@ -65,6 +92,9 @@ export class RemoteInterfaceManager {
             projectId?: string;
             syncEnabled?: boolean;
             syncDirection?: RemoteInterface['sync_direction'];
+            conflictPolicy?: ConflictPolicy;
+            syncIntervalMinutes?: number;
+            webhookSecret?: string;
             fieldMappings?: FieldMapping[];
             mcpServerName?: string;
         } = {}
@@ -88,6 +118,9 @@ export class RemoteInterfaceManager {
             project_id: options.projectId,
             sync_enabled: options.syncEnabled ?? true,
             sync_direction: options.syncDirection ?? 'bidirectional',
+            conflict_policy: options.conflictPolicy ?? 'manual',
+            sync_interval_minutes: options.syncIntervalMinutes ?? DEFAULT_SYNC_INTERVAL_MINUTES,
+            webhook_secret: options.webhookSecret,
             field_mappings: JSON.stringify(fieldMappings),
             mcp_server_name: mcpServerName,
             last_sync: null,
@@ -95,8 +128,7 @@ export class RemoteInterfaceManager {
             updated_at: now
         };
 
-        // Use WorkspaceDatabaseService method
-        const workspaceDb = await this.dbService.getWorkspace(workspaceId);
+        const workspaceDb = await this.getWorkspaceDb(workspaceId);
         // Map to DB format
         const dbRemoteInterface = {
             id: remoteInterface.id,
@@ -107,7 +139,10 @@ export class RemoteInterfaceManager {
             projectId: remoteInterface.project_id ?? null,
             syncEnabled: remoteInterface.sync_enabled,
             syncDirection: remoteInterface.sync_direction,
-            fieldMappings: remoteInterface.field_mappings,
+            conflictPolicy: remoteInterface.conflict_policy,
+            syncIntervalMinutes: remoteInterface.sync_interval_minutes,
+            webhookSecret: remoteInterface.webhook_secret ?? null,
+            fieldMappings,
             mcpServerName: remoteInterface.mcp_server_name,
             lastSync: remoteInterface.last_sync,
             createdAt: remoteInterface.created_at,
@@ -122,8 +157,7 @@ export class RemoteInterfaceManager {
      * Get all remote interfaces for a workspace
      */
     async getWorkspaceInterfaces(workspaceId: string): Promise<RemoteInterface[]> {
-        // Use WorkspaceDatabaseService method
-        const workspaceDb = await this.dbService.getWorkspace(workspaceId);
+        const workspaceDb = await this.getWorkspaceDb(workspaceId);
         const dbInterfaces = await workspaceDb.getAllRemoteInterfaces();
         return dbInterfaces.map((i: any) => ({
             id: i.id,
@@ -135,6 +169,9 @@ export class RemoteInterfaceManager {
             project_id: i.projectId ?? undefined,
             sync_enabled: i.syncEnabled ?? false,
             sync_direction: i.syncDirection ?? 'bidirectional',
+            conflict_policy: i.conflictPolicy ?? 'manual',
+            sync_interval_minutes: i.syncIntervalMinutes ?? DEFAULT_SYNC_INTERVAL_MINUTES,
+            webhook_secret: i.webhookSecret ?? undefined,
             field_mappings: typeof i.fieldMappings === 'string' ? i.fieldMappings : JSON.stringify(i.fieldMappings ?? {}),
             // mcp_server_name omitted: not present in DB object,
             last_sync: i.lastSync ?? null,
@@ -147,7 +184,7 @@ export class RemoteInterfaceManager {
      * Get a specific remote interface
      */
     async getInterface(workspaceId: string, interfaceId: string): Promise<RemoteInterface | null> {
-        const workspaceDb = await this.dbService.getWorkspace(workspaceId);
+        const workspaceDb = await this.getWorkspaceDb(workspaceId);
         const i = await workspaceDb.getRemoteInterface(interfaceId);
         if (!i) return null;
         return {
@@ -160,6 +197,9 @@ export class RemoteInterfaceManager {
             project_id: i.projectId ?? undefined,
             sync_enabled: i.syncEnabled ?? false,
             sync_direction: i.syncDirection ?? 'bidirectional',
+            conflict_policy: i.conflictPolicy ?? 'manual',
+            sync_interval_minutes: i.syncIntervalMinutes ?? DEFAULT_SYNC_INTERVAL_MINUTES,
+            webhook_secret: i.webhookSecret ?? undefined,
             field_mappings: typeof i.fieldMappings === 'string' ? i.fieldMappings : JSON.stringify(i.fieldMappings ?? {}),
             // mcp_server_name omitted: not present in DB object,
             last_sync: i.lastSync ?? null,
@@ -174,17 +214,28 @@ export class RemoteInterfaceManager {
     async updateInterface(
         workspaceId: string,
         interfaceId: string,
-        updates: Partial<Pick<RemoteInterface, 'name' | 'base_url' | 'api_token' | 'project_id' | 'sync_enabled' | 'sync_direction' | 'field_mappings' | 'mcp_server_name'>>
+        updates: Partial<Pick<RemoteInterface, 'name' | 'base_url' | 'api_token' | 'project_id' | 'sync_enabled' | 'sync_direction' | 'conflict_policy' | 'sync_interval_minutes' | 'webhook_secret' | 'field_mappings' | 'mcp_server_name'>>
     ): Promise<void> {
-        const workspaceDb = await this.dbService.getWorkspace(workspaceId);
-        await workspaceDb.updateRemoteInterface(interfaceId, updates);
+        const workspaceDb = await this.getWorkspaceDb(workspaceId);
+        await workspaceDb.updateRemoteInterface(interfaceId, {
+            name: updates.name,
+            baseUrl: updates.base_url,
+            apiToken: updates.api_token,
+            projectId: updates.project_id,
+            syncEnabled: updates.sync_enabled,
+            syncDirection: updates.sync_direction,
+            conflictPolicy: updates.conflict_policy,
+            syncIntervalMinutes: updates.sync_interval_minutes,
+            webhookSecret: updates.webhook_secret,
+            fieldMappings: updates.field_mappings !== undefined ? JSON.parse(updates.field_mappings) : undefined
+        });
     }
 
     /**
      * Delete a remote interface
      */
     async deleteInterface(workspaceId: string, interfaceId: string): Promise<void> {
-        const workspaceDb = await this.dbService.getWorkspace(workspaceId);
+        const workspaceDb = await this.getWorkspaceDb(workspaceId);
         await workspaceDb.deleteRemoteInterface(interfaceId);
     }
 
@@ -193,23 +244,17 @@ export class RemoteInterfaceManager {
     /**
      * Test connection to a remote interface
      */
-    async testConnection(workspaceId: string, interfaceId: string): Promise<{ success: boolean; error?: string; info?: any }> {
+    async testConnection(workspaceId: string, interfaceId: string): Promise<ConnectionTestResult> {
         const remoteInterface = await this.getInterface(workspaceId, interfaceId);
         if (!remoteInterface) {
             return { success: false, error: 'Interface not found' };
         }
 
         try {
-            switch (remoteInterface.interface_type) {
-                case 'github':
-                    return await this.testGitHubConnection(remoteInterface);
-                case 'jira':
-                    return await this.testJiraConnection(remoteInterface);
-                case 'linear':
-                    return await this.testLinearConnection(remoteInterface);
-                default:
-                    return await this.testGenericConnection(remoteInterface);
-            }
+            const adapter = getRemoteAdapter(remoteInterface.interface_type);
+            return adapter
+                ? await adapter.testConnection(remoteInterface)
+                : await this.testGenericConnection(remoteInterface);
         } catch (error) {
             return {
                 success: false,
@@ -219,9 +264,19 @@ export class RemoteInterfaceManager {
     }
 
     /**
-     * Synchronize tasks with a remote interface
+     * Synchronize tasks with a remote interface. Adapters report each imported
+     * or exported item to progress; cancellation stops the sync between items.
+     * A sync of an interface that is already syncing waits for that sync to
+     * finish. Every sync is recorded in the interface's sync-run log.
      */
-    async syncInterface(workspaceId: string, interfaceId: string): Promise<SyncResult> {
+    async syncInterface(
+        workspaceId: string,
+        interfaceId: string,
+        progress: ProgressReporter = NO_PROGRESS,
+        trigger: SyncRun['trigger'] = 'manual'
+    ): Promise<SyncResult> {
+        progress.addWork(1);
+        await progress.advance('Loading interface configuration');
         const remoteInterface = await this.getInterface(workspaceId, interfaceId);
         if (!remoteInterface) {
             throw new Error('Interface not found');
@@ -231,34 +286,96 @@ export class RemoteInterfaceManager {
             throw new Error('Synchronization is disabled for this interface');
         }
 
+        const lockKey = remoteInterface.interface_type === 'github' ? this.gitHubSyncKey(workspaceId) : interfaceId;
+        return this.withSyncLock(lockKey, async () => {
+            const result: SyncResult = {
+                interface_id: interfaceId,
+                items_imported: 0,
+                items_exported: 0,
+                items_updated: 0,
+                items_failed: 0,
+                items_conflicted: 0,
+                errors: [],
+                last_sync: new Date().toISOString()
+            };
+            const workspaceDb = await this.getWorkspaceDb(workspaceId);
+            const run = await workspaceDb.createSyncRun({ interfaceId, trigger, startedAt: result.last_sync });
+
+            try {
+                // Reloaded for the lastSync of a sync this one waited for
+                const current = await this.getInterface(workspaceId, interfaceId) ?? remoteInterface;
+                await (await this.createIssueSync(current)).run(result, progress);
+
+                // Items that failed are retried by the next incremental sync
+                if (result.items_failed === 0) {
+                    await workspaceDb.updateRemoteInterface(interfaceId, { lastSync: result.last_sync });
+                }
+            } catch (error) {
+                if (error instanceof OperationCancelledError) {
+                    result.errors.push('Sync cancelled');
+                    await this.finishSyncRun(workspaceDb, run.id, result);
+                    throw error;
+                }
+                result.errors.push(error instanceof Error ? error.message : 'Unknown sync error');
+            }
+
+            await this.finishSyncRun(workspaceDb, run.id, result);
+            return result;
+        });
+    }
+
+    /**
+     * Latest sync runs of an interface, newest first
+     */
+    async getSyncRuns(workspaceId: string, interfaceId: string, limit?: number): Promise<SyncRun[]> {
+        const workspaceDb = await this.getWorkspaceDb(workspaceId);
+        return workspaceDb.getSyncRuns(interfaceId, limit);
+    }
+
+    /**
+     * Store the outcome of a sync run: partial when single items failed,
+     * failed when the sync as a whole did
+     */
+    private async finishSyncRun(workspaceDb: WorkspaceDatabaseService, runId: string, result: SyncResult): Promise<void> {
+        const status = result.items_failed > 0 ? 'partial' : result.errors.length > 0 ? 'failed' : 'succeeded';
+        const run = await workspaceDb.updateSyncRun(runId, {
+            status,
+            itemsImported: result.items_imported,
+            itemsExported: result.items_exported,
+            itemsUpdated: result.items_updated,
+            itemsFailed: result.items_failed,
+            itemsConflicted: result.items_conflicted,
+            errors: result.errors,
+            finishedAt: new Date().toISOString()
+        });
+        if (run) {
+            await workspaceDb.pruneSyncRuns(run.interfaceId, SYNC_RUNS_KEPT);
+        }
+    }
+
+    /**
+     * Synchronize tasks with the GitHub repository configured for the workspace
+     */
+    async syncGitHub(workspaceId: string, progress: ProgressReporter = NO_PROGRESS): Promise<SyncResult> {
+        const workspaceDb = await this.getWorkspaceDb(workspaceId);
+        const config = await workspaceDb.getGithubConfig();
         const result: SyncResult = {
-            interface_id: interfaceId,
+            interface_id: config?.id ?? '',
             items_imported: 0,
             items_exported: 0,
             items_updated: 0,
             items_failed: 0,
+            items_conflicted: 0,
             errors: [],
             last_sync: new Date().toISOString()
         };
 
         try {
-            switch (remoteInterface.interface_type) {
-                case 'github':
-                    // GitHub sync is handled by GitHubTool
-                    throw new Error(`GitHub synchronization should use ${ToolNames.GITHUB} tool`);
-                case 'jira':
-                    await this.syncJiraInterface(remoteInterface, result);
-                    break;
-                case 'linear':
-                    await this.syncLinearInterface(remoteInterface, result);
-                    break;
-                default:
-                    throw new Error(`Synchronization not implemented for ${remoteInterface.interface_type}`);
-            }
-
-            // Update last sync timestamp: implement with a valid service method if needed.
-
+            await this.withSyncLock(this.gitHubSyncKey(workspaceId), () => this.syncGitHubConfig(workspaceId, result, progress));
         } catch (error) {
+            if (error instanceof OperationCancelledError) {
+                throw error;
+            }
             result.errors.push(error instanceof Error ? error.message : 'Unknown sync error');
         }
 
@@ -266,164 +383,224 @@ export class RemoteInterfaceManager {
     }
 
     /**
-     * Get default field mappings for an interface type
+     * Run a sync once the sync already running under the same key is done
      */
-    private getDefaultFieldMappings(interfaceType: RemoteInterface['interface_type']): FieldMapping[] {
-        const baseMapping: FieldMapping[] = [
-            { taskpilot_field: 'title', remote_field: 'title' },
-            { taskpilot_field: 'description', remote_field: 'description' },
-            { taskpilot_field: 'status', remote_field: 'status' }
-        ];
+    private async withSyncLock<T>(key: string, sync: () => Promise<T>): Promise<T> {
+        const previous = runningSyncs.get(key) ?? Promise.resolve();
+        const current = previous.catch(() => undefined).then(sync);
+        runningSyncs.set(key, current);
+        try {
+            return await current;
+        } finally {
+            if (runningSyncs.get(key) === current) {
+                runningSyncs.delete(key);
+            }
+        }
+    }
+
+    /**
+     * GitHub interfaces and the GitHub config of a workspace sync the same repository
+     */
+    private gitHubSyncKey(workspaceId: string): string {
+        return `github:${workspaceId}`;
+    }
 
-        switch (interfaceType) {
-            case 'github':
-                return [
-                    ...baseMapping,
-                    { taskpilot_field: 'status', remote_field: 'state', transformation: 'custom' },
-                    { taskpilot_field: 'priority', remote_field: 'labels', transformation: 'custom' }
-                ];
-            case 'jira':
-                return [
-                    ...baseMapping,
-                    { taskpilot_field: 'priority', remote_field: 'priority.name' },
-                    { taskpilot_field: 'status', remote_field: 'status.name' },
-                    { taskpilot_field: 'assignee', remote_field: 'assignee.displayName' }
-                ];
-            case 'linear':
-                return [
-                    ...baseMapping,
-                    { taskpilot_field: 'priority', remote_field: 'priority', transformation: 'custom' },
-                    { taskpilot_field: 'status', remote_field: 'state.name' },
-                    { taskpilot_field: 'assignee', remote_field: 'assignee.name' }
-                ];
-            default:
-                return baseMapping;
+    /**
+     * Run the GitHub Issues sync of the repository configured for the workspace
+     */
+    private async syncGitHubConfig(workspaceId: string, result: SyncResult, progress: ProgressReporter): Promise<void> {
+        const workspaceDb = await this.getWorkspaceDb(workspaceId);
+        const config = await workspaceDb.getGithubConfig();
+        if (!config) {
+            throw new Error('GitHub is not configured for this workspace');
         }
+
+        await new GitHubIssueSync(config, workspaceDb, await this.getGitHubFieldMappings(workspaceDb)).run(result, progress);
     }
 
     /**
-     * Test GitHub connection
+     * Field mappings of the workspace's GitHub sync: those of its registered
+     * github interface, the defaults without one
      */
-    private async testGitHubConnection(remoteInterface: RemoteInterface): Promise<{ success: boolean; error?: string; info?: any }> {
-        try {
-            const response = await fetch(`${remoteInterface.base_url}/user`, {
-                headers: {
-                    'Authorization': `token ${remoteInterface.api_token}`,
-                    'Accept': 'application/vnd.github.v3+json'
-                }
-            });
+    private async getGitHubFieldMappings(workspaceDb: WorkspaceDatabaseService): Promise<FieldMapping[]> {
+        const [registered] = await workspaceDb.getRemoteInterfacesByType('github');
+        return Array.isArray(registered?.fieldMappings) ? registered.fieldMappings as FieldMapping[] : GITHUB_FIELD_MAPPINGS;
+    }
 
-            if (response.ok) {
-                const user = await response.json();
-                return {
-                    success: true,
-                    info: {
-                        user: user.login,
-                        name: user.name,
-                        type: user.type
-                    }
-                };
-            } else {
-                return {
-                    success: false,
-                    error: `GitHub API error: ${response.status} ${response.statusText}`
-                };
+    /**
+     * Task fields a sample remote item maps to, with the interface's field
+     * mappings or the given ones (e.g. before saving them)
+     */
+    async previewMapping(
+        workspaceId: string,
+        interfaceId: string,
+        sample: unknown,
+        fieldMappings?: FieldMapping[]
+    ): Promise<Partial<Task>> {
+        const remoteInterface = await this.getInterface(workspaceId, interfaceId);
+        if (!remoteInterface) {
+            throw new Error('Interface not found');
+        }
+        if (fieldMappings) {
+            remoteInterface.field_mappings = JSON.stringify(fieldMappings);
+        }
+
+        return (await this.createIssueSync(remoteInterface)).mapIssue(sample);
+    }
+
+    /**
+     * Find a remote interface by id among the interfaces of all workspaces
+     */
+    async findInterface(interfaceId: string): Promise<RemoteInterface | null> {
+        for (const workspace of await this.dbService.getGlobal().getAllWorkspaces()) {
+            // Workspaces without a database have no interfaces; don't create one for them
+            if (!existsSync(join(workspace.path, '.taskpilot', 'task.db'))) {
+                continue;
+            }
+            const remoteInterface = await this.getInterface(workspace.id, interfaceId);
+            if (remoteInterface) {
+                return remoteInterface;
             }
-        } catch (error) {
-            return {
-                success: false,
-                error: `Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-            };
         }
+        return null;
     }
 
     /**
-     * Test Jira connection
+     * Import one issue a webhook delivered, as a sync of the interface would.
+     * Resolves to null when the issue belongs to another project than the
+     * interface's.
      */
-    private async testJiraConnection(remoteInterface: RemoteInterface): Promise<{ success: boolean; error?: string; info?: any }> {
-        try {
-            const response = await fetch(`${remoteInterface.base_url}/rest/api/2/myself`, {
-                headers: {
-                    'Authorization': `Bearer ${remoteInterface.api_token}`,
-                    'Accept': 'application/json'
-                }
-            });
+    async receiveIssue(remoteInterface: RemoteInterface, issue: unknown, project: string | null): Promise<SyncResult | null> {
+        const issueSync = await this.createIssueSync(remoteInterface);
+        if (project && issueSync.projectId && project.toLowerCase() !== issueSync.projectId.toLowerCase()) {
+            return null;
+        }
 
-            if (response.ok) {
-                const user = await response.json();
-                return {
-                    success: true,
-                    info: {
-                        user: user.key,
-                        name: user.displayName,
-                        email: user.emailAddress
-                    }
-                };
-            } else {
-                return {
-                    success: false,
-                    error: `Jira API error: ${response.status} ${response.statusText}`
-                };
-            }
-        } catch (error) {
-            return {
-                success: false,
-                error: `Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-            };
+        const result: SyncResult = {
+            interface_id: remoteInterface.id,
+            items_imported: 0,
+            items_exported: 0,
+            items_updated: 0,
+            items_failed: 0,
+            items_conflicted: 0,
+            errors: [],
+            last_sync: new Date().toISOString()
+        };
+        await issueSync.importIssue(issue, result);
+        return result;
+    }
+
+    /**
+     * Provider sync of an interface, from its type's adapter
+     */
+    private async createIssueSync(remoteInterface: RemoteInterface): Promise<IssueSync<any>> {
+        const adapter = getRemoteAdapter(remoteInterface.interface_type);
+        if (!adapter) {
+            throw new Error(`Synchronization not implemented for ${remoteInterface.interface_type}`);
         }
+        return adapter.createSync(remoteInterface, await this.getWorkspaceDb(remoteInterface.workspace_id));
     }
 
     /**
-     * Test Linear connection
+     * Projects, boards, teams or repositories the interface's token can
+     * see, to pick its project_id from
      */
-    private async testLinearConnection(remoteInterface: RemoteInterface): Promise<{ success: boolean; error?: string; info?: any }> {
-        try {
-            const response = await fetch(`${remoteInterface.base_url}/graphql`, {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${remoteInterface.api_token}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({
-                    query: 'query { viewer { id name email } }'
-                })
-            });
+    async discoverProjects(workspaceId: string, interfaceId: string): Promise<RemoteProject[]> {
+        const remoteInterface = await this.getInterface(workspaceId, interfaceId);
+        if (!remoteInterface) {
+            throw new Error('Interface not found');
+        }
+        const adapter = getRemoteAdapter(remoteInterface.interface_type);
+        if (!adapter) {
+            throw new Error(`Project discovery not implemented for ${remoteInterface.interface_type}`);
+        }
+        return adapter.listProjects(remoteInterface);
+    }
 
-            if (response.ok) {
-                const result = await response.json();
-                if (result.data?.viewer) {
-                    return {
-                        success: true,
-                        info: {
-                            user: result.data.viewer.id,
-                            name: result.data.viewer.name,
-                            email: result.data.viewer.email
-                        }
-                    };
-                } else {
-                    return {
-                        success: false,
-                        error: `Linear API error: ${result.errors?.[0]?.message || 'Unknown error'}`
-                    };
-                }
+    /**
+     * Sync conflicts of a workspace, newest first
+     */
+    async getConflicts(workspaceId: string, status?: SyncConflict['status']): Promise<SyncConflict[]> {
+        const workspaceDb = await this.getWorkspaceDb(workspaceId);
+        return workspaceDb.getSyncConflicts(status);
+    }
+
+    /**
+     * Get a specific sync conflict
+     */
+    async getConflict(workspaceId: string, conflictId: string): Promise<SyncConflict | null> {
+        const workspaceDb = await this.getWorkspaceDb(workspaceId);
+        return workspaceDb.getSyncConflict(conflictId);
+    }
+
+    /**
+     * Resolve a conflict from the review queue. Keeping the remote side
+     * applies its values to the task now; keeping the local side lets the
+     * next sync push the task over the remote change.
+     */
+    async resolveConflict(workspaceId: string, conflictId: string, resolution: 'local' | 'remote'): Promise<SyncConflict> {
+        const workspaceDb = await this.getWorkspaceDb(workspaceId);
+        const conflict = await workspaceDb.getSyncConflict(conflictId);
+        if (!conflict) {
+            throw new Error(`Sync conflict not found: ${conflictId}`);
+        }
+        if (conflict.status !== 'open') {
+            throw new Error(`Sync conflict ${conflictId} is already resolved`);
+        }
+
+        const link = await workspaceDb.getRemoteTaskMappingByTask(conflict.interfaceId, conflict.taskId);
+        if (link) {
+            const remoteSide = { remoteUpdatedAt: conflict.remoteUpdatedAt, remoteHash: conflict.remoteHash };
+            if (resolution === 'remote') {
+                const task = await workspaceDb.updateTask(conflict.taskId, conflict.remoteValues as Partial<Task>, {
+                    source: 'system',
+                    reason: `Resolved sync conflict with ${conflict.remoteKey}: kept the remote changes`
+                });
+                await workspaceDb.updateRemoteTaskMapping(link.id, {
+                    ...remoteSide,
+                    localHash: task ? syncHash(syncedValues(task, Object.keys(conflict.localValues))) : null,
+                    lastSyncedAt: new Date().toISOString()
+                });
             } else {
-                return {
-                    success: false,
-                    error: `Linear API error: ${response.status} ${response.statusText}`
-                };
+                // A link without a local hash is exported when the task changed after its last sync
+                await workspaceDb.updateRemoteTaskMapping(link.id, { ...remoteSide, localHash: null });
             }
-        } catch (error) {
-            return {
-                success: false,
-                error: `Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-            };
         }
+
+        const resolved = await workspaceDb.updateSyncConflict(conflict.id, {
+            status: 'resolved',
+            resolution,
+            resolvedAt: new Date().toISOString()
+        });
+        return resolved!;
+    }
+
+    /**
+     * Workspace database of a registered workspace, by workspace id
+     */
+    private async getWorkspaceDb(workspaceId: string): Promise<WorkspaceDatabaseService> {
+        const workspace = await this.dbService.getGlobal().getWorkspace(workspaceId);
+        if (!workspace) {
+            throw new Error(`Workspace not found: ${workspaceId}`);
+        }
+        return this.dbService.getWorkspace(workspace.path);
+    }
+
+    /**
+     * Get default field mappings for an interface type
+     */
+    private getDefaultFieldMappings(interfaceType: RemoteInterface['interface_type']): FieldMapping[] {
+        return getRemoteAdapter(interfaceType)?.defaultFieldMappings ?? [
+            { taskpilot_field: 'title', remote_field: 'title' },
+            { taskpilot_field: 'description', remote_field: 'description' },
+            { taskpilot_field: 'status', remote_field: 'status' }
+        ];
     }
 
     /**
      * Test generic REST API connection
      */
-    private async testGenericConnection(remoteInterface: RemoteInterface): Promise<{ success: boolean; error?: string; info?: any }> {
+    private async testGenericConnection(remoteInterface: RemoteInterface): Promise<ConnectionTestResult> {
         try {
             const response = await fetch(remoteInterface.base_url, {
                 headers: {
@@ -445,24 +622,6 @@ export class RemoteInterfaceManager {
         }
     }
 
-    /**
-     * Sync with Jira interface (placeholder implementation)
-     */
-    private async syncJiraInterface(remoteInterface: RemoteInterface, result: SyncResult): Promise<void> {
-        // Placeholder for Jira synchronization logic
-        // This would implement bidirectional sync between TaskPilot tasks and Jira issues
-        throw new Error('Jira synchronization not yet implemented');
-    }
-
-    /**
-     * Sync with Linear interface (placeholder implementation)
-     */
-    private async syncLinearInterface(remoteInterface: RemoteInterface, result: SyncResult): Promise<void> {
-        // Placeholder for Linear synchronization logic
-        // This would implement bidirectional sync between TaskPilot tasks and Linear issues
-        throw new Error('Linear synchronization not yet implemented');
-    }
-
     /**
      * Get sync statistics for all interfaces in a workspace
      */
@@ -19,7 +19,16 @@ import {
   MCP_SERVER_MAPPINGS_SEED,
   GLOBAL_TOOL_FLOW_STEPS_SEED
 } from '../data/embedded-seed-data.js';
+import { notifyToolFlowChange } from '../database/global-queries.js';
 import { isStdioMode } from '../utils/cli-parser.js';
+
+/**
+ * Seeded rows keep their insert timestamps until something writes to them
+ */
+function isUnchanged(row: { createdAt: string | null; updatedAt: string | null }): boolean {
+  return row.createdAt === row.updatedAt;
+}
+
 /**
  * Pure TypeScript/Drizzle ORM seed manager
  * Eliminates custom SQL and JSON, uses type-safe Drizzle operations
@@ -32,20 +41,16 @@ export class SeedManager {
   }
 
   /**
-   * Initialize global seed data using pure Drizzle ORM operations
+   * Initialize global seed data using pure Drizzle ORM operations.
+   * Seeded flows and feedback steps nobody has changed are replaced with the
+   * current seed; imported or edited ones and all workspace rows are kept.
    */
   async initializeGlobalData(): Promise<void> {
     try {
-      // Clear existing global data using type-safe Drizzle deletes
-      await this.drizzleDb.delete(toolFlowSteps);
-      await this.drizzleDb.delete(toolFlows).where(isNull(toolFlows.workspaceId));
-      await this.drizzleDb.delete(feedbackSteps).where(isNull(feedbackSteps.workspaceId));
-      await this.drizzleDb.delete(mcpServerMappings);
+      await this.seedFeedbackSteps();
+      await this.seedToolFlows();
 
-      // Insert global data using type-safe Drizzle inserts
-      await this.drizzleDb.insert(feedbackSteps).values(GLOBAL_FEEDBACK_STEPS_SEED);
-      await this.drizzleDb.insert(toolFlows).values(GLOBAL_TOOL_FLOWS_SEED);
-      await this.drizzleDb.insert(toolFlowSteps).values(GLOBAL_TOOL_FLOW_STEPS_SEED);
+      await this.drizzleDb.delete(mcpServerMappings);
       await this.drizzleDb.insert(mcpServerMappings).values(MCP_SERVER_MAPPINGS_SEED);
 
       if (!isStdioMode()) {
@@ -57,6 +62,50 @@ export class SeedManager {
     }
   }
 
+  /**
+   * Insert or refresh the global feedback steps of the seed
+   */
+  private async seedFeedbackSteps(): Promise<void> {
+    const existing = await this.drizzleDb.select().from(feedbackSteps).where(isNull(feedbackSteps.workspaceId));
+    for (const seed of GLOBAL_FEEDBACK_STEPS_SEED) {
+      const current = existing.find(step => step.id === seed.id) ?? existing.find(step => step.name === seed.name);
+      if (current) {
+        if (current.id !== seed.id || !isUnchanged(current)) {
+          continue;
+        }
+        await this.drizzleDb.delete(feedbackSteps).where(eq(feedbackSteps.id, current.id));
+      }
+      await this.drizzleDb.insert(feedbackSteps).values(seed);
+    }
+  }
+
+  /**
+   * Insert or refresh the global tool flows of the seed with their steps.
+   * A flow counts as changed when the flow or any of its steps was written
+   * after seeding, or it has steps the seed does not have.
+   */
+  private async seedToolFlows(): Promise<void> {
+    const existing = await this.drizzleDb.select().from(toolFlows).where(isNull(toolFlows.workspaceId));
+    for (const seed of GLOBAL_TOOL_FLOWS_SEED) {
+      const seedSteps = GLOBAL_TOOL_FLOW_STEPS_SEED.filter(step => step.toolFlowId === seed.id);
+      const current = existing.find(flow => flow.toolName === seed.toolName);
+      if (current) {
+        const currentSteps = await this.drizzleDb.select().from(toolFlowSteps).where(eq(toolFlowSteps.toolFlowId, current.id));
+        const unchanged = current.id === seed.id && isUnchanged(current) && currentSteps.every(step =>
+          isUnchanged(step) && seedSteps.some(seedStep => seedStep.id === step.id));
+        if (!unchanged) {
+          continue;
+        }
+        await this.drizzleDb.delete(toolFlowSteps).where(eq(toolFlowSteps.toolFlowId, current.id));
+        await this.drizzleDb.delete(toolFlows).where(eq(toolFlows.id, current.id));
+      }
+      await this.drizzleDb.insert(toolFlows).values(seed);
+      if (seedSteps.length > 0) {
+        await this.drizzleDb.insert(toolFlowSteps).values(seedSteps);
+      }
+    }
+  }
+
   /**
    * Get global tool flow by name using type-safe Drizzle query
    */
@@ -189,6 +238,7 @@ export class SeedManager {
       };
 
       await this.drizzleDb.insert(toolFlows).values(newToolFlow);
+      notifyToolFlowChange(newToolFlow.id);
 
       return await this.getToolFlow(toolName, workspaceId);
     } catch (error) {
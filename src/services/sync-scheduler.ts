@@ -0,0 +1,176 @@
+/**
+ * SyncScheduler - Runs remote interface syncs in the background
+ *
+ * Looks through the interfaces of all registered workspaces on an interval
+ * and runs an incremental sync for each interface with sync enabled once
+ * its syncIntervalMinutes have passed since its last run; GitHub interfaces
+ * also need autoSync on the workspace's GitHub config. Each failed run
+ * in a row doubles the wait, up to maxBackoffMinutes. The schedule is read
+ * from the interfaces' sync-run logs, so it carries over restarts and
+ * manual syncs count as runs too.
+ */
+
+import { existsSync } from 'fs';
+import { join } from 'path';
+import type { DatabaseService } from './database-service.js';
+import { DEFAULT_SYNC_INTERVAL_MINUTES, RemoteInterfaceManager } from './remote-interface-manager.js';
+import { NO_PROGRESS } from '../utils/progress.js';
+import type { WorkspaceDatabaseService } from '../database/workspace-queries.js';
+import type { RemoteInterface } from '../database/schema/workspace-schema.js';
+
+// Failed runs in a row that still lengthen the wait
+const MAX_BACKOFF_STEPS = 10;
+
+export interface SyncSchedulerOptions {
+  checkIntervalMs?: number; // How often to look for interfaces that are due
+  maxConcurrent?: number; // Syncs running at once, across all workspaces
+  maxBackoffMinutes?: number; // Longest wait after failed runs
+}
+
+interface ScheduledSync {
+  workspaceId: string;
+  interfaceId: string;
+}
+
+export class SyncScheduler {
+  private remoteInterfaces: RemoteInterfaceManager;
+  private options: Required<SyncSchedulerOptions>;
+  private checkInterval?: NodeJS.Timeout;
+  private checking: Promise<void> | null = null;
+  private queue: ScheduledSync[] = [];
+  private running = new Map<string, Promise<void>>();
+
+  constructor(private databaseService: DatabaseService, options: SyncSchedulerOptions = {}) {
+    this.remoteInterfaces = new RemoteInterfaceManager(databaseService);
+    this.options = {
+      checkIntervalMs: options.checkIntervalMs || 60 * 1000, // 1 minute
+      maxConcurrent: options.maxConcurrent || 2,
+      maxBackoffMinutes: options.maxBackoffMinutes || 6 * 60 // 6 hours
+    };
+  }
+
+  start(): void {
+    this.checkInterval = setInterval(() => {
+      this.checkDueSyncs().catch(error => {
+        console.error('Error checking scheduled syncs:', error);
+      });
+    }, this.options.checkIntervalMs);
+  }
+
+  /**
+   * Stop scheduling; syncs already running finish on their own
+   */
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = undefined;
+    }
+    this.queue = [];
+  }
+
+  /**
+   * Start the syncs that are due now; resolves once they and any queued
+   * before them are done
+   */
+  async runDueSyncs(): Promise<void> {
+    await this.checkDueSyncs();
+    while (this.running.size > 0) {
+      await Promise.all(this.running.values());
+    }
+  }
+
+  /**
+   * Queue the interfaces that are due and start as many as the limit allows
+   */
+  private async checkDueSyncs(): Promise<void> {
+    if (!this.checking) {
+      this.checking = this.findDueSyncs()
+        .then(due => {
+          for (const sync of due) {
+            if (!this.running.has(sync.interfaceId) && !this.queue.some(queued => queued.interfaceId === sync.interfaceId)) {
+              this.queue.push(sync);
+            }
+          }
+          this.startQueued();
+        })
+        .finally(() => {
+          this.checking = null;
+        });
+    }
+    await this.checking;
+  }
+
+  private async findDueSyncs(): Promise<ScheduledSync[]> {
+    const due: ScheduledSync[] = [];
+    const now = Date.now();
+
+    for (const workspace of await this.databaseService.getGlobal().getAllWorkspaces()) {
+      // Workspaces without a database have no interfaces; don't create one for them
+      if (!existsSync(join(workspace.path, '.taskpilot', 'task.db'))) {
+        continue;
+      }
+      try {
+        const workspaceDb = await this.databaseService.getWorkspace(workspace.path);
+        for (const remoteInterface of await workspaceDb.getAllRemoteInterfaces()) {
+          if (await this.isDue(workspaceDb, remoteInterface, now)) {
+            due.push({ workspaceId: workspace.id, interfaceId: remoteInterface.id });
+          }
+        }
+      } catch (error) {
+        console.error(`Error reading remote interfaces of ${workspace.path}:`, error);
+      }
+    }
+
+    return due;
+  }
+
+  /**
+   * Whether the interval, doubled for each failed run in a row, has passed
+   * since the interface's last run
+   */
+  private async isDue(workspaceDb: WorkspaceDatabaseService, remoteInterface: RemoteInterface, now: number): Promise<boolean> {
+    const intervalMinutes = remoteInterface.syncIntervalMinutes ?? DEFAULT_SYNC_INTERVAL_MINUTES;
+    if (!remoteInterface.syncEnabled || intervalMinutes <= 0) {
+      return false;
+    }
+    // GitHub interfaces sync the workspace's GitHub config, which has its own switch
+    if (remoteInterface.interfaceType === 'github' && !(await workspaceDb.getGithubConfig())?.autoSync) {
+      return false;
+    }
+
+    const runs = await workspaceDb.getSyncRuns(remoteInterface.id, MAX_BACKOFF_STEPS);
+    const [latest] = runs;
+    const lastRun = latest ? latest.finishedAt ?? latest.startedAt : remoteInterface.lastSync;
+    if (!lastRun) {
+      return true;
+    }
+
+    const failures = runs.findIndex(run => run.status !== 'failed');
+    const intervalMs = intervalMinutes * 60 * 1000;
+    const waitMs = Math.min(
+      intervalMs * 2 ** (failures === -1 ? runs.length : failures),
+      Math.max(this.options.maxBackoffMinutes * 60 * 1000, intervalMs)
+    );
+    return now - Date.parse(lastRun) >= waitMs;
+  }
+
+  private startQueued(): void {
+    while (this.running.size < this.options.maxConcurrent && this.queue.length > 0) {
+      const sync = this.queue.shift()!;
+      const run = this.remoteInterfaces.syncInterface(sync.workspaceId, sync.interfaceId, NO_PROGRESS, 'scheduled')
+        .then(result => {
+          if (result.errors.length > 0) {
+            console.error(`Scheduled sync of remote interface ${sync.interfaceId} finished with errors:`, result.errors);
+          }
+        })
+        .catch(error => {
+          console.error(`Scheduled sync of remote interface ${sync.interfaceId} failed:`, error);
+        })
+        .finally(() => {
+          this.running.delete(sync.interfaceId);
+          this.startQueued();
+        });
+      this.running.set(sync.interfaceId, run);
+    }
+  }
+}
@@ -0,0 +1,968 @@
+/**
+ * TemplateEngine - Sandboxed templates for feedback step content
+ *
+ * Templates mix text with tags:
+ *   {{context.task_title}}                       output an expression
+ *   {{context.notes | truncate(80) | upper}}     filters (upper, lower, title, trim,
+ *                                                truncate, join, default, length, json)
+ *   {{#if context.blocked}} ... {{else if ...}} ... {{else}} ... {{/if}}
+ *   {{#each context.tasks as task}} {{loop.number}}. {{task.title}} {{else}} none {{/each}}
+ *   {{> other_feedback_step}}                    include another feedback step by name
+ *   {{! comment }}
+ *
+ * Expressions are parsed and evaluated here - never with eval - and support
+ * literals, property access, comparisons, && || !, + -, the ternary operator
+ * and a fixed set of list/text methods such as map(item => ...) and join().
+ * Only own properties of the render data can be read.
+ */
+
+export class TemplateError extends Error {
+  constructor(
+    message: string,
+    public readonly line?: number,
+    public readonly variable?: string // set when the error is an unknown variable
+  ) {
+    super(line ? `${message} (line ${line})` : message);
+    this.name = 'TemplateError';
+  }
+}
+
+export interface TemplateRenderOptions {
+  // Unknown variables and tags that do not parse throw when strict (default);
+  // otherwise those tags are kept as-is
+  strict?: boolean;
+  // Loads the template of a partial by feedback step name
+  resolvePartial?: (name: string) => Promise<string | null | undefined>;
+  // Name of the template being rendered, used to detect partials including themselves
+  name?: string;
+}
+
+export interface TemplateReferences {
+  variables: string[]; // top-level context variables, e.g. "task_title" for {{context.task_title}}
+  partials: string[];
+}
+
+type Expression =
+  | { type: 'literal'; value: unknown }
+  | { type: 'identifier'; name: string }
+  | { type: 'member'; object: Expression; property: string | Expression }
+  | { type: 'call'; object: Expression; method: string; args: Expression[] }
+  | { type: 'unary'; operator: '!' | '-'; argument: Expression }
+  | { type: 'binary'; operator: string; left: Expression; right: Expression }
+  | { type: 'conditional'; test: Expression; consequent: Expression; alternate: Expression }
+  | { type: 'filter'; input: Expression; name: string; args: Expression[] }
+  | { type: 'arrow'; params: string[]; body: Expression };
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expression: Expression; source: string; line: number }
+  | { type: 'if'; branches: Array<{ test: Expression; body: TemplateNode[] }>; alternate: TemplateNode[]; line: number }
+  | { type: 'each'; list: Expression; binding: string; body: TemplateNode[]; empty: TemplateNode[]; line: number }
+  | { type: 'partial'; name: string; line: number };
+
+type Scope = Record<string, unknown>;
+
+interface RenderState {
+  strict: boolean;
+  resolvePartial?: TemplateRenderOptions['resolvePartial'];
+  partialStack: string[];
+  length: number;
+}
+
+const MAX_OUTPUT_LENGTH = 1_000_000;
+const MAX_LOOP_ITERATIONS = 10_000;
+const MAX_PARTIAL_DEPTH = 10;
+const MAX_CACHED_TEMPLATES = 200;
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+/** A variable path that does not exist in the render data */
+class Missing {
+  constructor(public readonly path: string) { }
+}
+
+const FILTERS: Record<string, (value: unknown, args: unknown[]) => unknown> = {
+  upper: value => display(value).toUpperCase(),
+  lower: value => display(value).toLowerCase(),
+  title: value => display(value).replace(/(^|[\s_-])(\p{L})/gu, (_match, separator: string, letter: string) => separator + letter.toUpperCase()),
+  trim: value => display(value).trim(),
+  truncate: (value, [length = 80, suffix = '...']) => {
+    const text = display(value);
+    const max = Number(length);
+    const tail = String(suffix);
+    return text.length > max ? text.slice(0, Math.max(0, max - tail.length)) + tail : text;
+  },
+  join: (value, [separator = ', ']) => Array.isArray(value) ? value.map(display).join(String(separator)) : display(value),
+  default: (value, [fallback = '']) => value === undefined || value === null || value === '' ? fallback : value,
+  length: value => Array.isArray(value) || typeof value === 'string'
+    ? value.length
+    : value && typeof value === 'object' ? Object.keys(value).length : 0,
+  json: value => JSON.stringify(value, null, 2)
+};
+
+// Filters that receive unknown variables instead of failing on them
+const TOLERANT_FILTERS = new Set(['default']);
+
+type MethodImpl = (receiver: any, args: unknown[]) => unknown;
+
+const LIST_METHODS: Record<string, MethodImpl> = {
+  map: (list: unknown[], [fn]) => list.map((item, index) => callArrow(fn, 'map', item, index)),
+  filter: (list: unknown[], [fn]) => list.filter((item, index) => truthy(callArrow(fn, 'filter', item, index))),
+  join: (list: unknown[], [separator = ',']) => list.map(display).join(String(separator)),
+  includes: (list: unknown[], [value]) => list.includes(value),
+  slice: (list: unknown[], [start, end]) => list.slice(start as number | undefined, end as number | undefined)
+};
+
+const TEXT_METHODS: Record<string, MethodImpl> = {
+  includes: (text: string, [value]) => text.includes(String(value)),
+  startsWith: (text: string, [value]) => text.startsWith(String(value)),
+  endsWith: (text: string, [value]) => text.endsWith(String(value)),
+  trim: (text: string) => text.trim(),
+  toUpperCase: (text: string) => text.toUpperCase(),
+  toLowerCase: (text: string) => text.toLowerCase(),
+  slice: (text: string, [start, end]) => text.slice(start as number | undefined, end as number | undefined)
+};
+
+export class TemplateEngine {
+  private cache = new Map<string, TemplateNode[]>();
+
+  /**
+   * Render a template. Render data is addressed by its top-level keys,
+   * e.g. { context: {...} } for {{context.x}} templates.
+   */
+  async render(template: string, data: Scope, options: TemplateRenderOptions = {}): Promise<string> {
+    const state: RenderState = {
+      strict: options.strict ?? true,
+      resolvePartial: options.resolvePartial,
+      partialStack: options.name ? [options.name] : [],
+      length: 0
+    };
+    const scope: Scope = Object.assign(Object.create(null), data);
+    return this.renderNodes(this.parse(template, !state.strict), scope, state);
+  }
+
+  /**
+   * Check a template for syntax errors
+   */
+  validate(template: string): void {
+    this.parse(template);
+  }
+
+  /**
+   * Context variables and partials a template refers to
+   */
+  getReferences(template: string): TemplateReferences {
+    const variables = new Set<string>();
+    const partials = new Set<string>();
+
+    const visitExpression = (expression: Expression): void => {
+      switch (expression.type) {
+        case 'member':
+          if (expression.object.type === 'identifier' && expression.object.name === 'context' && typeof expression.property === 'string') {
+            variables.add(expression.property);
+          }
+          visitExpression(expression.object);
+          if (typeof expression.property !== 'string') visitExpression(expression.property);
+          break;
+        case 'call':
+          visitExpression(expression.object);
+          expression.args.forEach(visitExpression);
+          break;
+        case 'unary':
+          visitExpression(expression.argument);
+          break;
+        case 'binary':
+          visitExpression(expression.left);
+          visitExpression(expression.right);
+          break;
+        case 'conditional':
+          visitExpression(expression.test);
+          visitExpression(expression.consequent);
+          visitExpression(expression.alternate);
+          break;
+        case 'filter':
+          visitExpression(expression.input);
+          expression.args.forEach(visitExpression);
+          break;
+        case 'arrow':
+          visitExpression(expression.body);
+          break;
+      }
+    };
+    const visitNodes = (nodes: TemplateNode[]): void => {
+      for (const node of nodes) {
+        if (node.type === 'output') {
+          visitExpression(node.expression);
+        } else if (node.type === 'if') {
+          node.branches.forEach(branch => {
+            visitExpression(branch.test);
+            visitNodes(branch.body);
+          });
+          visitNodes(node.alternate);
+        } else if (node.type === 'each') {
+          visitExpression(node.list);
+          visitNodes(node.body);
+          visitNodes(node.empty);
+        } else if (node.type === 'partial') {
+          partials.add(node.name);
+        }
+      }
+    };
+
+    visitNodes(this.parse(template));
+    return { variables: [...variables], partials: [...partials] };
+  }
+
+  /**
+   * Parse a template; lenient parsing turns tags that do not parse into text
+   */
+  private parse(template: string, lenient = false): TemplateNode[] {
+    const key = `${lenient ? 'lenient' : 'strict'}:${template}`;
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached;
+    }
+    const nodes = buildTree(tokenizeTemplate(template, lenient), lenient);
+    if (this.cache.size >= MAX_CACHED_TEMPLATES) {
+      this.cache.clear();
+    }
+    this.cache.set(key, nodes);
+    return nodes;
+  }
+
+  private async renderNodes(nodes: TemplateNode[], scope: Scope, state: RenderState): Promise<string> {
+    let output = '';
+    for (const node of nodes) {
+      let chunk = '';
+      switch (node.type) {
+        case 'text':
+          chunk = node.value;
+          break;
+        case 'output':
+          chunk = this.renderOutput(node, scope, state);
+          break;
+        case 'if': {
+          const branch = node.branches.find(candidate => truthy(evaluate(candidate.test, scope, node.line)));
+          chunk = await this.renderNodes(branch ? branch.body : node.alternate, scope, state);
+          break;
+        }
+        case 'each':
+          chunk = await this.renderEach(node, scope, state);
+          break;
+        case 'partial':
+          chunk = await this.renderPartial(node, scope, state);
+          break;
+      }
+      state.length += chunk.length;
+      if (state.length > MAX_OUTPUT_LENGTH) {
+        throw new TemplateError(`Template output exceeds ${MAX_OUTPUT_LENGTH} characters`);
+      }
+      output += chunk;
+    }
+    return output;
+  }
+
+  private renderOutput(node: Extract<TemplateNode, { type: 'output' }>, scope: Scope, state: RenderState): string {
+    try {
+      return display(requireValue(evaluate(node.expression, scope, node.line), node.line));
+    } catch (error) {
+      if (!state.strict && error instanceof TemplateError && error.variable) {
+        return `{{${node.source}}}`;
+      }
+      throw error;
+    }
+  }
+
+  private async renderEach(node: Extract<TemplateNode, { type: 'each' }>, scope: Scope, state: RenderState): Promise<string> {
+    const list = evaluate(node.list, scope, node.line);
+    if (list instanceof Missing) {
+      if (state.strict) requireValue(list, node.line);
+      return this.renderNodes(node.empty, scope, state);
+    }
+    if (list === undefined || list === null || (Array.isArray(list) && list.length === 0)) {
+      return this.renderNodes(node.empty, scope, state);
+    }
+    if (!Array.isArray(list)) {
+      throw new TemplateError(`{{#each}} needs a list, got ${typeof list}`, node.line);
+    }
+    if (list.length > MAX_LOOP_ITERATIONS) {
+      throw new TemplateError(`{{#each}} over ${list.length} items exceeds the limit of ${MAX_LOOP_ITERATIONS}`, node.line);
+    }
+
+    let output = '';
+    for (let index = 0; index < list.length; index++) {
+      const itemScope: Scope = Object.assign(Object.create(null), scope, {
+        [node.binding]: list[index],
+        loop: { index, number: index + 1, first: index === 0, last: index === list.length - 1, length: list.length }
+      });
+      output += await this.renderNodes(node.body, itemScope, state);
+    }
+    return output;
+  }
+
+  private async renderPartial(node: Extract<TemplateNode, { type: 'partial' }>, scope: Scope, state: RenderState): Promise<string> {
+    if (state.partialStack.includes(node.name)) {
+      throw new TemplateError(`Partial "${node.name}" includes itself (${[...state.partialStack, node.name].join(' -> ')})`, node.line);
+    }
+    if (state.partialStack.length >= MAX_PARTIAL_DEPTH) {
+      throw new TemplateError(`Partials are nested more than ${MAX_PARTIAL_DEPTH} levels deep`, node.line);
+    }
+    const template = state.resolvePartial ? await state.resolvePartial(node.name) : null;
+    if (typeof template !== 'string') {
+      throw new TemplateError(`Unknown partial "${node.name}"`, node.line);
+    }
+
+    state.partialStack.push(node.name);
+    try {
+      return await this.renderNodes(this.parse(template, !state.strict), scope, state);
+    } catch (error) {
+      if (error instanceof TemplateError && !error.message.includes(`in partial "`)) {
+        throw new TemplateError(`${error.message} in partial "${node.name}"`, undefined, error.variable);
+      }
+      throw error;
+    } finally {
+      state.partialStack.pop();
+    }
+  }
+}
+
+// ========================================
+// Template parsing
+// ========================================
+
+type TemplateToken =
+  | { kind: 'text'; value: string }
+  | { kind: 'output'; source: string; line: number }
+  | { kind: 'comment'; line: number }
+  | { kind: 'if'; expression: string; line: number }
+  | { kind: 'elseif'; expression: string; line: number }
+  | { kind: 'else'; line: number }
+  | { kind: 'each'; expression: string; binding: string; line: number }
+  | { kind: 'close'; block: 'if' | 'each'; line: number }
+  | { kind: 'partial'; name: string; line: number };
+
+function tokenizeTemplate(template: string, lenient: boolean): TemplateToken[] {
+  const tokens: TemplateToken[] = [];
+  let position = 0;
+  let line = 1;
+
+  while (position < template.length) {
+    const open = template.indexOf('{{', position);
+    if (open === -1) {
+      tokens.push({ kind: 'text', value: template.slice(position) });
+      break;
+    }
+    if (open > position) {
+      const text = template.slice(position, open);
+      tokens.push({ kind: 'text', value: text });
+      line += countLines(text);
+    }
+
+    const close = findTagEnd(template, open + 2);
+    if (close === -1) {
+      if (!lenient) {
+        throw new TemplateError('Unclosed "{{"', line);
+      }
+      tokens.push({ kind: 'text', value: template.slice(open) });
+      break;
+    }
+    const source = template.slice(open + 2, close);
+    tokens.push(classifyTag(source, line, lenient));
+    line += countLines(source);
+    position = close + 2;
+  }
+
+  stripStandaloneLines(tokens);
+  return tokens;
+}
+
+function findTagEnd(template: string, from: number): number {
+  let quote: string | null = null;
+  for (let index = from; index < template.length; index++) {
+    const char = template[index];
+    if (quote) {
+      if (char === '\\') index++;
+      else if (char === quote) quote = null;
+    } else if (char === '\'' || char === '"') {
+      quote = char;
+    } else if (char === '}' && template[index + 1] === '}') {
+      return index;
+    }
+  }
+  return -1;
+}
+
+function classifyTag(source: string, line: number, lenient: boolean): TemplateToken {
+  const content = source.trim();
+  let match: RegExpMatchArray | null;
+
+  if (content.startsWith('!')) {
+    return { kind: 'comment', line };
+  }
+  if ((match = content.match(/^#if\s+([\s\S]+)$/))) {
+    return { kind: 'if', expression: match[1], line };
+  }
+  if ((match = content.match(/^#each\s+([\s\S]+?)(?:\s+as\s+([A-Za-z_$][\w$]*))?$/))) {
+    return { kind: 'each', expression: match[1], binding: match[2] ?? 'item', line };
+  }
+  if ((match = content.match(/^else\s+if\s+([\s\S]+)$/))) {
+    return { kind: 'elseif', expression: match[1], line };
+  }
+  if (content === 'else') {
+    return { kind: 'else', line };
+  }
+  if (content === '/if' || content === '/each') {
+    return { kind: 'close', block: content.slice(1) as 'if' | 'each', line };
+  }
+  if ((match = content.match(/^>\s*([\w.-]+)$/))) {
+    return { kind: 'partial', name: match[1], line };
+  }
+  if (content.startsWith('#') || content.startsWith('/') || content.startsWith('>')) {
+    if (lenient) return { kind: 'text', value: `{{${source}}}` };
+    throw new TemplateError(`Unknown tag "{{${content}}}"`, line);
+  }
+  if (!content) {
+    if (lenient) return { kind: 'text', value: `{{${source}}}` };
+    throw new TemplateError('Empty tag "{{}}"', line);
+  }
+  return { kind: 'output', source, line };
+}
+
+/**
+ * Block tags alone on their line do not leave an empty line behind
+ */
+function stripStandaloneLines(tokens: TemplateToken[]): void {
+  const isText = (index: number) => tokens[index]?.kind === 'text';
+  const textAt = (index: number) => (tokens[index] as { value: string }).value;
+
+  const standalone = tokens.map((token, index) => {
+    if (token.kind === 'text' || token.kind === 'output' || token.kind === 'partial') return false;
+    const before = index === 0 || (isText(index - 1) && (
+      /\n[ \t]*$/.test(textAt(index - 1)) || (index - 1 === 0 && /^[ \t]*$/.test(textAt(index - 1)))
+    ));
+    const after = index === tokens.length - 1 || (isText(index + 1) && (
+      /^[ \t]*\r?\n/.test(textAt(index + 1)) || (index + 1 === tokens.length - 1 && /^[ \t]*$/.test(textAt(index + 1)))
+    ));
+    return before && after;
+  });
+
+  standalone.forEach((isStandalone, index) => {
+    if (!isStandalone) return;
+    if (isText(index - 1)) {
+      (tokens[index - 1] as { value: string }).value = textAt(index - 1).replace(/[ \t]*$/, '');
+    }
+    if (isText(index + 1)) {
+      (tokens[index + 1] as { value: string }).value = textAt(index + 1).replace(/^[ \t]*(\r?\n)?/, '');
+    }
+  });
+}
+
+function buildTree(tokens: TemplateToken[], lenient: boolean): TemplateNode[] {
+  let index = 0;
+
+  const parseNodes = (closers: string[]): { nodes: TemplateNode[]; end: TemplateToken | null } => {
+    const nodes: TemplateNode[] = [];
+    while (index < tokens.length) {
+      const token = tokens[index++];
+      switch (token.kind) {
+        case 'text':
+          if (token.value) nodes.push({ type: 'text', value: token.value });
+          break;
+        case 'comment':
+          break;
+        case 'output': {
+          let expression: Expression;
+          try {
+            expression = parseExpression(token.source, token.line);
+          } catch (error) {
+            if (!lenient || !(error instanceof TemplateError)) throw error;
+            nodes.push({ type: 'text', value: `{{${token.source}}}` });
+            break;
+          }
+          nodes.push({ type: 'output', expression, source: token.source, line: token.line });
+          break;
+        }
+        case 'partial':
+          nodes.push({ type: 'partial', name: token.name, line: token.line });
+          break;
+        case 'if': {
+          const node: Extract<TemplateNode, { type: 'if' }> = { type: 'if', branches: [], alternate: [], line: token.line };
+          let test = parseExpression(token.expression, token.line);
+          for (;;) {
+            const { nodes: body, end } = parseNodes(['elseif', 'else', 'close']);
+            if (!end) throw new TemplateError('Unclosed {{#if}}', token.line);
+            node.branches.push({ test, body });
+            if (end.kind === 'elseif') {
+              test = parseExpression(end.expression, end.line);
+              continue;
+            }
+            if (end.kind === 'else') {
+              const rest = parseNodes(['close']);
+              if (!rest.end) throw new TemplateError('Unclosed {{#if}}', token.line);
+              node.alternate = rest.nodes;
+              expectClose(rest.end, 'if');
+            } else {
+              expectClose(end, 'if');
+            }
+            break;
+          }
+          nodes.push(node);
+          break;
+        }
+        case 'each': {
+          const list = parseExpression(token.expression, token.line);
+          const { nodes: body, end } = parseNodes(['else', 'close']);
+          if (!end) throw new TemplateError('Unclosed {{#each}}', token.line);
+          let empty: TemplateNode[] = [];
+          if (end.kind === 'else') {
+            const rest = parseNodes(['close']);
+            if (!rest.end) throw new TemplateError('Unclosed {{#each}}', token.line);
+            empty = rest.nodes;
+            expectClose(rest.end, 'each');
+          } else {
+            expectClose(end, 'each');
+          }
+          nodes.push({ type: 'each', list, binding: token.binding, body, empty, line: token.line });
+          break;
+        }
+        default:
+          if (closers.includes(token.kind)) {
+            return { nodes, end: token };
+          }
+          throw new TemplateError(`Unexpected ${describeToken(token)}`, token.line);
+      }
+    }
+    return { nodes, end: null };
+  };
+
+  const { nodes } = parseNodes([]);
+  return nodes;
+}
+
+function expectClose(token: TemplateToken, block: 'if' | 'each'): void {
+  if (token.kind !== 'close' || token.block !== block) {
+    throw new TemplateError(`Expected {{/${block}}} but found ${describeToken(token)}`, 'line' in token ? token.line : undefined);
+  }
+}
+
+function describeToken(token: TemplateToken): string {
+  switch (token.kind) {
+    case 'close': return `{{/${token.block}}}`;
+    case 'elseif': return '{{else if}}';
+    case 'else': return '{{else}}';
+    default: return `{{${token.kind}}}`;
+  }
+}
+
+function countLines(text: string): number {
+  let count = 0;
+  for (const char of text) {
+    if (char === '\n') count++;
+  }
+  return count;
+}
+
+// ========================================
+// Expression parsing
+// ========================================
+
+type ExpressionToken =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'name'; value: string }
+  | { type: 'punct'; value: string };
+
+const PUNCTUATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '=>', '<', '>', '+', '-', '!', '?', ':', '.', '(', ')', '[', ']', ',', '|'];
+const STRING_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r' };
+
+function tokenizeExpression(source: string, line: number): ExpressionToken[] {
+  const tokens: ExpressionToken[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+    if (char === '\'' || char === '"') {
+      let value = '';
+      index++;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === '\\' && index + 1 < source.length) {
+          const escaped = source[index + 1];
+          value += STRING_ESCAPES[escaped] ?? escaped;
+          index += 2;
+        } else {
+          value += source[index++];
+        }
+      }
+      if (index >= source.length) {
+        throw new TemplateError('Unterminated string in expression', line);
+      }
+      index++;
+      tokens.push({ type: 'string', value });
+      continue;
+    }
+    const number = source.slice(index).match(/^\d+(\.\d+)?/);
+    if (number) {
+      tokens.push({ type: 'number', value: Number(number[0]) });
+      index += number[0].length;
+      continue;
+    }
+    const name = source.slice(index).match(/^[A-Za-z_$][\w$]*/);
+    if (name) {
+      tokens.push({ type: 'name', value: name[0] });
+      index += name[0].length;
+      continue;
+    }
+    const punct = PUNCTUATORS.find(candidate => source.startsWith(candidate, index));
+    if (!punct) {
+      throw new TemplateError(`Unexpected character "${char}" in expression`, line);
+    }
+    tokens.push({ type: 'punct', value: punct });
+    index += punct.length;
+  }
+  return tokens;
+}
+
+function parseExpression(source: string, line: number): Expression {
+  const tokens = tokenizeExpression(source, line);
+  let position = 0;
+
+  const peek = (offset = 0) => tokens[position + offset];
+  const isPunct = (value: string, offset = 0) => peek(offset)?.type === 'punct' && peek(offset).value === value;
+  const fail = (message: string): never => {
+    throw new TemplateError(message, line);
+  };
+  const expect = (value: string) => {
+    if (!isPunct(value)) {
+      const token = peek();
+      fail(`Expected "${value}" but found ${token ? `"${token.value}"` : 'end of expression'}`);
+    }
+    position++;
+  };
+
+  const parsePipeline = (): Expression => {
+    let expression = parseConditional();
+    while (isPunct('|')) {
+      position++;
+      const name = peek();
+      if (name?.type !== 'name') fail('Expected a filter name after "|"');
+      position++;
+      if (!FILTERS[name.value as string]) fail(`Unknown filter "${name.value}"`);
+      const args = isPunct('(') ? parseArguments() : [];
+      expression = { type: 'filter', input: expression, name: name.value as string, args };
+    }
+    return expression;
+  };
+
+  const parseConditional = (): Expression => {
+    const test = parseBinary(0);
+    if (!isPunct('?')) return test;
+    position++;
+    const consequent = parseConditional();
+    expect(':');
+    const alternate = parseConditional();
+    return { type: 'conditional', test, consequent, alternate };
+  };
+
+  const BINARY_LEVELS = [['||'], ['&&'], ['===', '!==', '==', '!='], ['<', '>', '<=', '>='], ['+', '-']];
+  const parseBinary = (level: number): Expression => {
+    if (level >= BINARY_LEVELS.length) return parseUnary();
+    let left = parseBinary(level + 1);
+    while (peek()?.type === 'punct' && BINARY_LEVELS[level].includes(peek().value as string)) {
+      const operator = tokens[position++].value as string;
+      left = { type: 'binary', operator, left, right: parseBinary(level + 1) };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Expression => {
+    if (isPunct('!') || isPunct('-')) {
+      const operator = tokens[position++].value as '!' | '-';
+      return { type: 'unary', operator, argument: parseUnary() };
+    }
+    return parsePostfix();
+  };
+
+  const parsePostfix = (): Expression => {
+    let expression = parsePrimary();
+    for (;;) {
+      if (isPunct('.')) {
+        position++;
+        const name = peek();
+        if (name?.type !== 'name') fail('Expected a property name after "."');
+        position++;
+        if (isPunct('(')) {
+          expression = { type: 'call', object: expression, method: name.value as string, args: parseArguments() };
+        } else {
+          expression = { type: 'member', object: expression, property: name.value as string };
+        }
+      } else if (isPunct('[')) {
+        position++;
+        const property = parsePipeline();
+        expect(']');
+        expression = { type: 'member', object: expression, property };
+      } else if (isPunct('(')) {
+        fail('Only list and text methods can be called');
+      } else {
+        return expression;
+      }
+    }
+  };
+
+  const parseArguments = (): Expression[] => {
+    expect('(');
+    const args: Expression[] = [];
+    while (!isPunct(')')) {
+      args.push(parsePipeline());
+      if (!isPunct(')')) expect(',');
+    }
+    position++;
+    return args;
+  };
+
+  const isArrowAhead = (): boolean => {
+    if (peek()?.type === 'name' && isPunct('=>', 1)) return true;
+    if (!isPunct('(')) return false;
+    let offset = 1;
+    while (peek(offset)?.type === 'name') {
+      offset++;
+      if (isPunct(',', offset)) offset++;
+    }
+    return isPunct(')', offset) && isPunct('=>', offset + 1);
+  };
+
+  const parsePrimary = (): Expression => {
+    if (isArrowAhead()) {
+      const params: string[] = [];
+      if (isPunct('(')) {
+        position++;
+        while (!isPunct(')')) {
+          params.push(tokens[position++].value as string);
+          if (isPunct(',')) position++;
+        }
+        position++;
+      } else {
+        params.push(tokens[position++].value as string);
+      }
+      expect('=>');
+      return { type: 'arrow', params, body: parseConditional() };
+    }
+
+    const token = peek();
+    if (!token) fail('Unexpected end of expression');
+    position++;
+
+    if (token.type === 'number' || token.type === 'string') {
+      return { type: 'literal', value: token.value };
+    }
+    if (token.type === 'name') {
+      switch (token.value) {
+        case 'true': return { type: 'literal', value: true };
+        case 'false': return { type: 'literal', value: false };
+        case 'null': return { type: 'literal', value: null };
+        case 'undefined': return { type: 'literal', value: undefined };
+        default: return { type: 'identifier', name: token.value };
+      }
+    }
+    if (token.value === '(') {
+      const expression = parsePipeline();
+      expect(')');
+      return expression;
+    }
+    return fail(`Unexpected "${token.value}" in expression`);
+  };
+
+  if (tokens.length === 0) fail('Empty expression');
+  const expression = parsePipeline();
+  if (position < tokens.length) {
+    fail(`Unexpected "${tokens[position].value}" in expression`);
+  }
+  return expression;
+}
+
+// ========================================
+// Evaluation
+// ========================================
+
+interface Arrow {
+  params: string[];
+  body: Expression;
+  scope: Scope;
+  line: number;
+}
+
+function evaluate(expression: Expression, scope: Scope, line: number): unknown {
+  switch (expression.type) {
+    case 'literal':
+      return expression.value;
+
+    case 'identifier':
+      return Object.prototype.hasOwnProperty.call(scope, expression.name)
+        ? scope[expression.name]
+        : new Missing(expression.name);
+
+    case 'member': {
+      const object = evaluate(expression.object, scope, line);
+      const property = typeof expression.property === 'string'
+        ? expression.property
+        : evaluate(expression.property, scope, line);
+      const path = `${pathOf(expression.object)}.${String(property)}`;
+      if (object instanceof Missing) return object;
+      if (object === null || object === undefined) return new Missing(path);
+      return readProperty(object, property, path, line);
+    }
+
+    case 'call': {
+      const receiver = requireValue(evaluate(expression.object, scope, line), line);
+      const methods = Array.isArray(receiver) ? LIST_METHODS : typeof receiver === 'string' ? TEXT_METHODS : {};
+      const method = Object.prototype.hasOwnProperty.call(methods, expression.method) ? methods[expression.method] : undefined;
+      if (!method) {
+        throw new TemplateError(`Method "${expression.method}" is not available on ${describeType(receiver)}`, line);
+      }
+      const args = expression.args.map(arg => arg.type === 'arrow'
+        ? { params: arg.params, body: arg.body, scope, line } satisfies Arrow
+        : unwrap(evaluate(arg, scope, line)));
+      return method(receiver, args);
+    }
+
+    case 'unary': {
+      const value = evaluate(expression.argument, scope, line);
+      return expression.operator === '!' ? !truthy(value) : -Number(requireValue(value, line));
+    }
+
+    case 'binary':
+      return evaluateBinary(expression.operator, expression.left, expression.right, scope, line);
+
+    case 'conditional':
+      return truthy(evaluate(expression.test, scope, line))
+        ? evaluate(expression.consequent, scope, line)
+        : evaluate(expression.alternate, scope, line);
+
+    case 'filter': {
+      const input = evaluate(expression.input, scope, line);
+      const value = TOLERANT_FILTERS.has(expression.name) ? unwrap(input) : requireValue(input, line);
+      const args = expression.args.map(arg => unwrap(evaluate(arg, scope, line)));
+      return FILTERS[expression.name](value, args);
+    }
+
+    case 'arrow':
+      throw new TemplateError('Arrow functions can only be passed to list methods such as map()', line);
+  }
+}
+
+function evaluateBinary(operator: string, leftExpression: Expression, rightExpression: Expression, scope: Scope, line: number): unknown {
+  const left = evaluate(leftExpression, scope, line);
+  if (operator === '&&') {
+    return truthy(left) ? evaluate(rightExpression, scope, line) : unwrap(left);
+  }
+  if (operator === '||') {
+    return truthy(left) ? left : evaluate(rightExpression, scope, line);
+  }
+
+  const right = evaluate(rightExpression, scope, line);
+  switch (operator) {
+    case '===': return unwrap(left) === unwrap(right);
+    case '!==': return unwrap(left) !== unwrap(right);
+    case '==': return unwrap(left) == unwrap(right);
+    case '!=': return unwrap(left) != unwrap(right);
+    case '<': return compare(left, right) < 0;
+    case '>': return compare(left, right) > 0;
+    case '<=': return compare(left, right) <= 0;
+    case '>=': return compare(left, right) >= 0;
+    case '+': {
+      const a = requireValue(left, line);
+      const b = requireValue(right, line);
+      return typeof a === 'number' && typeof b === 'number' ? a + b : display(a) + display(b);
+    }
+    case '-':
+      return Number(requireValue(left, line)) - Number(requireValue(right, line));
+    default:
+      throw new TemplateError(`Unsupported operator "${operator}"`, line);
+  }
+}
+
+function readProperty(object: unknown, property: unknown, path: string, line: number): unknown {
+  const key = String(property);
+  if (BLOCKED_PROPERTIES.has(key)) {
+    throw new TemplateError(`Access to "${key}" is not allowed`, line);
+  }
+  if (key === 'length' && (Array.isArray(object) || typeof object === 'string')) {
+    return object.length;
+  }
+  if (typeof object !== 'object' || !Object.prototype.hasOwnProperty.call(object, key)) {
+    return new Missing(path);
+  }
+  const value = (object as Record<string, unknown>)[key];
+  return typeof value === 'function' ? new Missing(path) : value;
+}
+
+function callArrow(fn: unknown, method: string, item: unknown, index: number): unknown {
+  if (!fn || typeof fn !== 'object' || !('body' in fn)) {
+    throw new TemplateError(`${method}() needs an arrow function such as item => item.name`);
+  }
+  const arrow = fn as Arrow;
+  const scope: Scope = Object.assign(Object.create(null), arrow.scope);
+  if (arrow.params[0]) scope[arrow.params[0]] = item;
+  if (arrow.params[1]) scope[arrow.params[1]] = index;
+  return unwrap(evaluate(arrow.body, scope, arrow.line));
+}
+
+function pathOf(expression: Expression): string {
+  switch (expression.type) {
+    case 'identifier':
+      return expression.name;
+    case 'member':
+      return `${pathOf(expression.object)}.${typeof expression.property === 'string' ? expression.property : '[]'}`;
+    case 'call':
+      return `${pathOf(expression.object)}.${expression.method}()`;
+    default:
+      return '(expression)';
+  }
+}
+
+function requireValue(value: unknown, line: number): unknown {
+  if (value instanceof Missing) {
+    throw new TemplateError(`Unknown variable "${value.path}"`, line, value.path);
+  }
+  return value;
+}
+
+function unwrap(value: unknown): unknown {
+  return value instanceof Missing ? undefined : value;
+}
+
+/**
+ * Truthiness follows JavaScript, except that empty lists are false so
+ * {{#if context.tasks}} skips empty task lists
+ */
+function truthy(value: unknown): boolean {
+  if (value instanceof Missing) return false;
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+function compare(left: unknown, right: unknown): number {
+  const a = unwrap(left) as number | string;
+  const b = unwrap(right) as number | string;
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  const difference = Number(a) - Number(b);
+  return Number.isNaN(difference) ? NaN : difference;
+}
+
+function display(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.map(display).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function describeType(value: unknown): string {
+  if (Array.isArray(value)) return 'a list';
+  if (value === null) return 'null';
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+}
@@ -6,13 +6,23 @@ import {
   toolFlowSteps,
   feedbackSteps
 } from '../database/schema/global-schema.js';
+import type { FlowRun, ToolFlowStep } from '../database/schema/global-schema.js';
 import { eq, and, isNull } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { FLOW_END_STEP, resolveBranchTarget } from '../utils/flow-branches.js';
 import type { 
   ToolStepResult, 
   TaskPilotToolResult, 
-  MultiStepToolInput 
+  MultiStepToolInput,
+  FeedbackStepMetadata
 } from '../types/index.js';
 
+// Used when a step's metadata does not define timeout_minutes
+export const DEFAULT_FLOW_RUN_TIMEOUT_MINUTES = 30;
+
+// Input keys that control the call itself and are not carried between steps
+const TRANSIENT_INPUT_KEYS = new Set(['stepId', 'run_id', 'origin', 'progress']);
+
 /**
  * Database-driven tool flow execution service
  * 
@@ -31,7 +41,11 @@ export class ToolFlowExecutor {
   }
 
   /**
-   * Execute a tool flow step based on database configuration
+   * Execute a tool flow step based on database configuration.
+   *
+   * Progress is persisted as a flow run keyed by tool, workspace and MCP session.
+   * Passing run_id (or calling a later step in the same session) restores the
+   * data collected by earlier steps, and stepId defaults to the run's next step.
    */
   async executeStep(
     toolName: string,
@@ -46,37 +60,59 @@ export class ToolFlowExecutor {
         throw new Error(`Tool flow not found for tool: ${toolName}`);
       }
 
+      const workspaceId = await this.getWorkspaceId(input);
+      const run = await this.loadFlowRun(toolName, stepId, input, workspaceId);
+      const currentStepId = stepId ?? run?.currentStep ?? undefined;
+      const stepInput: MultiStepToolInput = run
+        ? { ...(run.data as Record<string, unknown>), ...input, stepId: currentStepId, run_id: run.id }
+        : input;
+
       // Get step configuration
-      const stepConfig = await this.getStepConfiguration(toolFlow.id, stepId);
+      const steps = await this.getSortedSteps(toolFlow.id);
+      const stepConfig = this.findStep(steps, currentStepId);
+      let result: ToolStepResult | TaskPilotToolResult;
+
       if (!stepConfig) {
-        // Default to initial step if no stepId provided or step not found
-        return this.executeInitialStep(toolName, input, stepHandler);
-      }
+        // Tools may handle steps that are not configured in the database;
+        // anything else defaults to the initial step
+        const handler = currentStepId ? stepHandler[currentStepId] : undefined;
+        result = handler
+          ? await handler(stepInput)
+          : await this.executeInitialStep(toolName, stepInput, stepHandler);
+      } else {
+        // Execute step using the appropriate handler
+        const stepFunction = stepConfig.systemToolFn;
+        const handler = stepHandler[stepFunction] ?? stepHandler[currentStepId!];
 
-      // Execute step using the appropriate handler
-      const stepFunction = stepConfig.systemToolFn;
-      const handler = stepHandler[stepFunction];
-      
-      if (!handler) {
-        throw new Error(`Step handler not found for function: ${stepFunction}`);
-      }
+        if (!handler) {
+          throw new Error(`Step handler not found for function: ${stepFunction}`);
+        }
 
-      // Execute the step
-      const result = await handler(input);
+        // Execute the step
+        result = await handler(stepInput);
 
-      // Enhance result with database-driven next step information
-      if ('isFinalStep' in result && !result.isFinalStep) {
-        const nextStepInfo = await this.getNextStepInfo(toolFlow.id, stepConfig.stepOrder);
-        if (nextStepInfo) {
-          result.nextStepId = nextStepInfo.systemToolFn;
-          
-          // Generate dynamic next step instructions
-          if (result.feedback) {
-            result.feedback += `\n\n**NEXT STEP:** Call ${toolName} with stepId="${nextStepInfo.systemToolFn}"`;
+        // Enhance result with database-driven next step information
+        const stepResult = this.getStepResult(result);
+        if (stepResult && !stepResult.isFinalStep) {
+          const branch = this.resolveBranch(steps, stepConfig, stepResult.data);
+          if (branch === FLOW_END_STEP) {
+            stepResult.isFinalStep = true;
+            stepResult.nextStepId = undefined;
+          } else {
+            const nextStepInfo = branch ?? this.getNextStep(steps, stepConfig.stepOrder);
+            if (nextStepInfo) {
+              stepResult.nextStepId = this.getStepId(nextStepInfo);
+
+              // Generate dynamic next step instructions
+              if (stepResult.feedback) {
+                stepResult.feedback += `\n\n**NEXT STEP:** Call ${toolName} with stepId="${stepResult.nextStepId}"`;
+              }
+            }
           }
         }
       }
 
+      await this.saveFlowRun(run, toolName, workspaceId, stepInput, currentStepId, steps, result);
       return result;
 
     } catch (error) {
@@ -84,6 +120,170 @@ export class ToolFlowExecutor {
     }
   }
 
+  /**
+   * Merge the data saved in a flow run into tool arguments, so a call that only
+   * names a run_id can pass the tool's input validation
+   */
+  async resumeInput(args: Record<string, any>): Promise<Record<string, any>> {
+    if (!args?.run_id) {
+      return args;
+    }
+    const run = await this.getUsableFlowRun(args.run_id);
+    return { ...(run.data as Record<string, unknown>), ...args };
+  }
+
+  // ========================================
+  // FLOW RUN PERSISTENCE
+  // ========================================
+
+  /**
+   * Find the run this call continues: the named run_id, or the active run of
+   * the same tool, workspace and session when a later step is requested.
+   * Starting a flow without a stepId always begins a new run.
+   */
+  private async loadFlowRun(
+    toolName: string,
+    stepId: string | undefined,
+    input: MultiStepToolInput,
+    workspaceId: string | null
+  ): Promise<FlowRun | null> {
+    await this.globalDb.expireStaleFlowRuns();
+
+    if (input.run_id) {
+      const run = await this.getUsableFlowRun(input.run_id);
+      if (run.toolName !== toolName) {
+        throw new Error(`Flow run ${run.id} belongs to ${run.toolName}, not ${toolName}`);
+      }
+      return run;
+    }
+
+    if (!stepId) {
+      return null;
+    }
+    return this.globalDb.getActiveFlowRun(toolName, workspaceId, input.origin?.sessionId ?? null);
+  }
+
+  /**
+   * Load a run by id, rejecting runs that are finished or past their timeout
+   */
+  private async getUsableFlowRun(runId: string): Promise<FlowRun> {
+    const run = await this.globalDb.getFlowRun(runId);
+    if (!run) {
+      throw new Error(`Flow run not found: ${runId}`);
+    }
+    if (run.status === 'active' && run.expiresAt && run.expiresAt < new Date().toISOString()) {
+      await this.globalDb.updateFlowRun(run.id, { status: 'expired' });
+      run.status = 'expired';
+    }
+    if (run.status !== 'active') {
+      throw new Error(`Flow run ${run.id} is ${run.status}. Start ${run.toolName} again without run_id.`);
+    }
+    return run;
+  }
+
+  /**
+   * Record the outcome of a step: accumulated data, the next step and a fresh expiry.
+   * Failed steps leave the run where it was so the step can be retried.
+   */
+  private async saveFlowRun(
+    run: FlowRun | null,
+    toolName: string,
+    workspaceId: string | null,
+    stepInput: MultiStepToolInput,
+    currentStepId: string | undefined,
+    steps: ToolFlowStep[],
+    result: ToolStepResult | TaskPilotToolResult
+  ): Promise<void> {
+    const stepResult = this.getStepResult(result);
+    const failed = ('isError' in result && result.isError === true) || stepResult?.data?.error === true;
+    if (failed && !run) {
+      return;
+    }
+
+    const now = new Date();
+    const isFinal = !stepResult || stepResult.isFinalStep;
+    const nextStepId = failed ? run!.currentStep : isFinal ? null : stepResult.nextStepId ?? null;
+    const timeoutStep = this.findStep(steps, nextStepId ?? undefined) ?? this.findStep(steps, currentStepId);
+    const updates = {
+      status: (!failed && isFinal ? 'completed' : 'active') as FlowRun['status'],
+      currentStep: nextStepId,
+      lastStep: failed ? run!.lastStep : currentStepId ?? 'initial',
+      data: failed ? run!.data : this.collectRunData(stepInput, stepResult?.data),
+      expiresAt: new Date(now.getTime() + this.getTimeoutMinutes(timeoutStep) * 60_000).toISOString()
+    };
+
+    const saved = run
+      ? await this.globalDb.updateFlowRun(run.id, updates)
+      : await this.globalDb.createFlowRun({
+        id: uuidv4(),
+        toolName,
+        workspaceId,
+        sessionId: stepInput.origin?.sessionId ?? null,
+        ...updates,
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
+      });
+
+    if (saved && stepResult) {
+      stepResult.data = { ...stepResult.data, run_id: saved.id };
+      if (saved.status === 'active' && stepResult.feedback && saved.currentStep) {
+        stepResult.feedback += `\n\n**RESUME:** Call ${toolName} with run_id="${saved.id}" to continue at step "${saved.currentStep}"`;
+      }
+    }
+  }
+
+  /**
+   * Data carried to later steps: the tool arguments plus whatever the step returned
+   */
+  private collectRunData(stepInput: MultiStepToolInput, resultData: unknown): Record<string, unknown> {
+    const data: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(stepInput)) {
+      if (!TRANSIENT_INPUT_KEYS.has(key) && value !== undefined) {
+        data[key] = value;
+      }
+    }
+    if (resultData && typeof resultData === 'object') {
+      for (const [key, value] of Object.entries(resultData)) {
+        if (!TRANSIENT_INPUT_KEYS.has(key) && key !== 'run_id') {
+          data[key] = value;
+        }
+      }
+    }
+    return data;
+  }
+
+  private getTimeoutMinutes(step: ToolFlowStep | null): number {
+    const metadata = (step?.metadata ?? {}) as Partial<FeedbackStepMetadata>;
+    return typeof metadata.timeout_minutes === 'number' && metadata.timeout_minutes > 0
+      ? metadata.timeout_minutes
+      : DEFAULT_FLOW_RUN_TIMEOUT_MINUTES;
+  }
+
+  private async getWorkspaceId(input: MultiStepToolInput): Promise<string | null> {
+    if (!input.workspace_path) {
+      return null;
+    }
+    const workspace = await this.globalDb.getWorkspaceByPath(input.workspace_path);
+    return workspace?.id ?? null;
+  }
+
+  private getStepResult(result: ToolStepResult | TaskPilotToolResult): ToolStepResult | undefined {
+    return 'isFinalStep' in result ? result : result.stepResult;
+  }
+
+  /**
+   * Step IDs executeStep accepts for a tool: its flow steps in flow order,
+   * then the names of the tool's step handlers not configured as steps
+   */
+  async getStepIds(toolName: string, handlerNames: string[] = []): Promise<string[]> {
+    const toolFlow = await this.getToolFlowByName(toolName);
+    if (!toolFlow) {
+      return [];
+    }
+    const steps = await this.getSortedSteps(toolFlow.id);
+    return [...new Set([...steps.map(step => this.getStepId(step)), ...handlerNames])];
+  }
+
   /**
    * Get tool flow configuration by tool name
    */
@@ -96,36 +296,68 @@ export class ToolFlowExecutor {
   }
 
   /**
-   * Get step configuration for a specific step in a tool flow
+   * Get the steps of a tool flow in execution order
    */
-  private async getStepConfiguration(toolFlowId: string, stepId: string | undefined) {
-    if (!stepId) return null;
-
+  private async getSortedSteps(toolFlowId: string): Promise<ToolFlowStep[]> {
     try {
       const steps = await this.globalDb.getToolFlowSteps(toolFlowId);
-      return steps.find(step => step.systemToolFn === stepId) || null;
+      return steps.sort((a, b) => a.stepOrder - b.stepOrder);
     } catch (error) {
-      return null;
+      return [];
     }
   }
 
   /**
-   * Get next step information based on current step order
+   * Find the configured step a step ID refers to
    */
-  private async getNextStepInfo(toolFlowId: string, currentStepOrder: number) {
-    try {
-      const steps = await this.globalDb.getToolFlowSteps(toolFlowId);
-      const sortedSteps = steps.sort((a, b) => a.stepOrder - b.stepOrder);
-      const currentIndex = sortedSteps.findIndex(step => step.stepOrder === currentStepOrder);
-      
-      if (currentIndex >= 0 && currentIndex < sortedSteps.length - 1) {
-        return sortedSteps[currentIndex + 1];
-      }
-      
-      return null;
-    } catch (error) {
+  private findStep(steps: ToolFlowStep[], stepId: string | undefined): ToolFlowStep | null {
+    if (!stepId) return null;
+    return steps.find(step => step.systemToolFn === stepId)
+      || steps.find(step => this.getStepId(step) === stepId)
+      || null;
+  }
+
+  /**
+   * Get the step that follows the given step order
+   */
+  private getNextStep(steps: ToolFlowStep[], currentStepOrder: number): ToolFlowStep | null {
+    const currentIndex = steps.findIndex(step => step.stepOrder === currentStepOrder);
+    if (currentIndex >= 0 && currentIndex < steps.length - 1) {
+      return steps[currentIndex + 1];
+    }
+    return null;
+  }
+
+  /**
+   * Follow the conditional branches in a step's metadata. Returns the target
+   * step, FLOW_END_STEP, or null when no branch or default applies.
+   */
+  private resolveBranch(
+    steps: ToolFlowStep[],
+    step: ToolFlowStep,
+    resultData: unknown
+  ): ToolFlowStep | typeof FLOW_END_STEP | null {
+    const target = resolveBranchTarget(step.metadata, resultData);
+    if (!target) {
       return null;
     }
+    if (target === FLOW_END_STEP) {
+      return FLOW_END_STEP;
+    }
+    const targetStep = this.findStep(steps, target);
+    if (!targetStep) {
+      throw new Error(`Branch target "${target}" of step ${this.getStepId(step)} is not a step in this flow`);
+    }
+    return targetStep;
+  }
+
+  /**
+   * The stepId callers use for a configured step: metadata.stepId when set,
+   * otherwise the system tool function
+   */
+  private getStepId(step: ToolFlowStep): string {
+    const metadata = (step.metadata ?? {}) as Record<string, unknown>;
+    return typeof metadata.stepId === 'string' ? metadata.stepId : step.systemToolFn;
   }
 
   /**
@@ -213,17 +445,22 @@ export class ToolFlowExecutor {
       const toolFlow = await this.getToolFlowByName(toolName);
       if (!toolFlow) return null;
 
-      const currentStep = await this.getStepConfiguration(toolFlow.id, currentStepId);
+      const steps = await this.getSortedSteps(toolFlow.id);
+      const currentStep = this.findStep(steps, currentStepId);
       if (!currentStep) return null;
 
-      const nextStep = await this.getNextStepInfo(toolFlow.id, currentStep.stepOrder);
+      // Branch conditions are evaluated against the context data of the current step
+      const branch = this.resolveBranch(steps, currentStep, context);
+      if (branch === FLOW_END_STEP) return null;
+
+      const nextStep = branch ?? this.getNextStep(steps, currentStep.stepOrder);
       if (!nextStep) return null;
 
       // Generate contextual instruction based on next step metadata
       const metadata = nextStep.metadata as any || {};
       const instruction = metadata.instruction || `Proceed to next step`;
 
-      return `**NEXT STEP:** Call ${toolName} with stepId="${nextStep.systemToolFn}" - ${instruction}`;
+      return `**NEXT STEP:** Call ${toolName} with stepId="${this.getStepId(nextStep)}" - ${instruction}`;
     } catch (error) {
       return null;
     }
@@ -0,0 +1,221 @@
+/**
+ * TrelloSync - Synchronizes workspace tasks with the cards of a Trello board
+ *
+ * Talks to Trello's REST API. The interface's API token is "apiKey:token"
+ * and its projectId is the board id. A card's list gives its status by list
+ * name, and exporting a status moves the card to the first list that maps
+ * back to it; new cards without such a list go to the board's first list.
+ * Trello cannot filter cards by change date, so incremental syncs read the
+ * board's open cards and keep those with activity since lastSync.
+ */
+
+import type { Task, RemoteTaskMapping } from '../database/schema/workspace-schema.js';
+import type { FieldMapping } from './remote-interface-manager.js';
+import type { RemoteAdapter } from './remote-adapters.js';
+import { IssueSync, columnNameToTask, toTime, type RemoteIssueRef, type TaskStatus } from './issue-sync.js';
+import { applyTransformation, mapRemoteValue } from './field-mapping.js';
+
+export interface TrelloList {
+  id: string;
+  name: string;
+  pos?: number;
+}
+
+export interface TrelloCard {
+  id: string;
+  idShort: number;
+  name: string;
+  desc: string;
+  idList: string;
+  shortUrl: string;
+  dateLastActivity: string;
+  labels?: Array<{ name: string; color: string | null }>;
+  [field: string]: unknown;
+}
+
+export const TRELLO_FIELD_MAPPINGS: FieldMapping[] = [
+  { taskpilot_field: 'title', remote_field: 'name' },
+  { taskpilot_field: 'description', remote_field: 'desc' },
+  { taskpilot_field: 'status', remote_field: 'list.name' }
+];
+
+const CARD_FIELDS = 'idShort,name,desc,idList,shortUrl,dateLastActivity,labels,due,dueComplete';
+
+// Card fields a mapping can write; the others are read-only or need their own endpoints
+const WRITABLE_FIELDS = ['name', 'desc', 'due'];
+
+/**
+ * Minimal Trello REST client, authorizing with an API key and a member token
+ */
+export class TrelloClient {
+  private apiUrl: string;
+  private authorization: string | null;
+
+  constructor(baseUrl: string, apiToken: string) {
+    const trimmed = baseUrl.replace(/\/+$/, '');
+    this.apiUrl = /\/1$/.test(trimmed) ? trimmed : `${trimmed}/1`;
+    const separator = apiToken.indexOf(':');
+    this.authorization = separator > 0
+      ? `OAuth oauth_consumer_key="${apiToken.slice(0, separator)}", oauth_token="${apiToken.slice(separator + 1)}"`
+      : null;
+  }
+
+  async getCurrentMember(): Promise<{ id: string; username: string; fullName: string }> {
+    return this.request('GET', '/members/me?fields=username,fullName');
+  }
+
+  async listBoards(): Promise<Array<{ id: string; name: string; url: string }>> {
+    return this.request('GET', '/members/me/boards?filter=open&fields=name,url');
+  }
+
+  /**
+   * Open lists of the board, left to right
+   */
+  async listLists(boardId: string): Promise<TrelloList[]> {
+    const lists = await this.request<TrelloList[]>('GET', `/boards/${encodeURIComponent(boardId)}/lists?filter=open&fields=name,pos`);
+    return [...lists].sort((a, b) => (a.pos ?? 0) - (b.pos ?? 0));
+  }
+
+  async listCards(boardId: string): Promise<TrelloCard[]> {
+    return this.request('GET', `/boards/${encodeURIComponent(boardId)}/cards/open?fields=${CARD_FIELDS}`);
+  }
+
+  async getCard(id: string): Promise<TrelloCard> {
+    return this.request('GET', `/cards/${encodeURIComponent(id)}?fields=${CARD_FIELDS}`);
+  }
+
+  async createCard(fields: Record<string, unknown>): Promise<TrelloCard> {
+    return this.request('POST', '/cards', fields);
+  }
+
+  async updateCard(id: string, fields: Record<string, unknown>): Promise<TrelloCard> {
+    return this.request('PUT', `/cards/${encodeURIComponent(id)}`, fields);
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    if (!this.authorization) {
+      throw new Error('Trello API token must be "apiKey:token"');
+    }
+    const response = await fetch(`${this.apiUrl}${path}`, {
+      method,
+      headers: {
+        'Authorization': this.authorization,
+        'Accept': 'application/json',
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {})
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+    if (!response.ok) {
+      // Trello answers errors in plain text
+      const message = (await response.text().catch(() => '')).trim();
+      throw new Error(`Trello API error: ${response.status} ${response.statusText}${message ? ` - ${message}` : ''}`);
+    }
+    return await response.json() as T;
+  }
+}
+
+export class TrelloSync extends IssueSync<TrelloCard> {
+  protected readonly providerName = 'Trello';
+  private client = new TrelloClient(this.remoteInterface.base_url, this.remoteInterface.api_token);
+  private lists: TrelloList[] = [];
+
+  protected async prepare(): Promise<void> {
+    if (!this.remoteInterface.project_id) {
+      throw new Error('Trello interface has no board id (projectId)');
+    }
+    this.lists = await this.client.listLists(this.remoteInterface.project_id);
+  }
+
+  protected async fetchIssues(since: string | null): Promise<TrelloCard[]> {
+    const cards = await this.client.listCards(this.remoteInterface.project_id!);
+    return since ? cards.filter(card => toTime(card.dateLastActivity) >= toTime(since)) : cards;
+  }
+
+  protected describeIssue(card: TrelloCard): RemoteIssueRef {
+    return {
+      remoteId: card.id,
+      remoteKey: `#${card.idShort}`,
+      remoteUrl: card.shortUrl ?? null,
+      remoteUpdatedAt: card.dateLastActivity ?? null
+    };
+  }
+
+  protected async createIssue(task: Task): Promise<TrelloCard> {
+    const list = (this.mapsField('status') ? this.findList(task.status ?? 'backlog') : undefined) ?? this.lists[0];
+    if (!list) {
+      throw new Error('Trello board has no open lists');
+    }
+    const card = await this.client.createCard({ ...this.toCardFields(task), idList: list.id });
+    return this.client.getCard(card.id);
+  }
+
+  protected async updateIssue(link: RemoteTaskMapping, task: Task): Promise<TrelloCard> {
+    await this.client.updateCard(link.remoteId, this.toCardFields(task));
+    return this.client.getCard(link.remoteId);
+  }
+
+  /**
+   * Task fields of a card. Mappings read the card with its list as `list`.
+   */
+  protected toTaskFields(card: TrelloCard): Partial<Task> {
+    const item = { ...card, list: this.lists.find(list => list.id === card.idList) ?? card.list };
+    const fields: Record<string, any> = {};
+    for (const mapping of this.mappings) {
+      if (mapping.taskpilot_field === 'status') {
+        fields.status = mapRemoteValue(item, mapping, value =>
+          columnNameToTask(typeof value === 'string' ? value : (item.list as TrelloList | undefined)?.name));
+      } else {
+        fields[mapping.taskpilot_field] = mapRemoteValue(item, mapping, value => value ?? null);
+      }
+    }
+    return this.compactTaskFields(fields);
+  }
+
+  /**
+   * Card fields for a task; status moves the card to a matching list
+   */
+  private toCardFields(task: Task): Record<string, unknown> {
+    const fields: Record<string, unknown> = {};
+    for (const mapping of this.exportMappings) {
+      const field = mapping.remote_field.split('.')[0];
+      if (mapping.taskpilot_field === 'status') {
+        const list = this.findList(task.status ?? 'backlog');
+        if (list) {
+          fields.idList = list.id;
+        }
+      } else if (WRITABLE_FIELDS.includes(field)) {
+        fields[field] = applyTransformation(task[mapping.taskpilot_field as keyof Task] ?? '', mapping);
+      }
+    }
+    return fields;
+  }
+
+  /**
+   * First list of the board that maps back to the task status
+   */
+  private findList(status: TaskStatus): TrelloList | undefined {
+    const mapping = this.mappings.find(candidate => candidate.taskpilot_field === 'status')!;
+    return this.lists.find(list => mapRemoteValue({ list }, mapping, () => columnNameToTask(list.name)) === status);
+  }
+}
+
+/**
+ * Trello interfaces sync the cards of one board; its id is the projectId
+ */
+export const trelloAdapter: RemoteAdapter = {
+  defaultFieldMappings: TRELLO_FIELD_MAPPINGS,
+
+  async testConnection(remoteInterface) {
+    const member = await new TrelloClient(remoteInterface.base_url, remoteInterface.api_token).getCurrentMember();
+    return { success: true, info: { user: member.username, name: member.fullName } };
+  },
+
+  async listProjects(remoteInterface) {
+    const boards = await new TrelloClient(remoteInterface.base_url, remoteInterface.api_token).listBoards();
+    return boards.map(board => ({ id: board.id, name: board.name, url: board.url }));
+  },
+
+  async createSync(remoteInterface, workspaceDb) {
+    return new TrelloSync(remoteInterface, workspaceDb);
+  }
+};
@@ -0,0 +1,121 @@
+/**
+ * VariableSchemaValidator - Feedback step variableSchema enforcement
+ *
+ * A feedback step's variableSchema is a JSON Schema for its render context.
+ * Schemas may also list variables directly ({ task_id: { type: 'string' } }),
+ * which is read as the properties of an object schema. An empty schema
+ * declares nothing and is not enforced.
+ */
+
+import Ajv from 'ajv';
+
+export interface SchemaVariable {
+  name: string;
+  type?: string | string[];
+  description?: string;
+  required: boolean;
+  default?: unknown;
+}
+
+export interface VariableIssue {
+  variable: string;
+  problem: 'missing' | 'invalid';
+  message: string;
+}
+
+export class FeedbackVariablesError extends Error {
+  constructor(
+    public readonly feedbackStep: string,
+    public readonly issues: VariableIssue[]
+  ) {
+    super(`Feedback step "${feedbackStep}" has missing or invalid variables: ${issues.map(issue => issue.message).join('; ')}`);
+    this.name = 'FeedbackVariablesError';
+  }
+}
+
+type JsonSchema = Record<string, any>;
+
+export class VariableSchemaValidator {
+  private ajv = new Ajv({ allErrors: true, useDefaults: true });
+  private compiled = new Map<string, Ajv.ValidateFunction>();
+
+  /**
+   * Whether the schema declares any variables
+   */
+  hasDeclaredVariables(variableSchema: unknown): boolean {
+    return !!variableSchema && typeof variableSchema === 'object' && Object.keys(variableSchema).length > 0;
+  }
+
+  /**
+   * Variables declared by the schema, for autocompletion and linting
+   */
+  getVariables(variableSchema: unknown): SchemaVariable[] {
+    if (!this.hasDeclaredVariables(variableSchema)) {
+      return [];
+    }
+    const schema = this.toJsonSchema(variableSchema as JsonSchema);
+    const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+    return Object.entries((schema.properties ?? {}) as Record<string, JsonSchema>).map(([name, property]) => ({
+      name,
+      type: property?.type,
+      description: property?.description,
+      required: required.includes(name),
+      ...(property && 'default' in property ? { default: property.default } : {})
+    }));
+  }
+
+  /**
+   * Validate a render context against a feedback step's schema and fill the
+   * declared defaults. Returns a new context; throws FeedbackVariablesError
+   * listing every missing or invalid variable.
+   */
+  apply(feedbackStepName: string, variableSchema: unknown, context: Record<string, unknown>): Record<string, unknown> {
+    if (!this.hasDeclaredVariables(variableSchema)) {
+      return context;
+    }
+
+    const validate = this.compile(feedbackStepName, variableSchema as JsonSchema);
+    const filled = structuredClone(context);
+    if (validate(filled)) {
+      return filled;
+    }
+
+    const issues: VariableIssue[] = (validate.errors ?? []).map(error => {
+      if (error.keyword === 'required') {
+        const variable = (error.params as { missingProperty: string }).missingProperty.replace(/^\./, '');
+        return { variable, problem: 'missing', message: `${variable} is required` };
+      }
+      const variable = error.dataPath.replace(/^\./, '') || '(context)';
+      return { variable, problem: 'invalid', message: `${variable} ${error.message}` };
+    });
+    throw new FeedbackVariablesError(feedbackStepName, issues);
+  }
+
+  private compile(feedbackStepName: string, variableSchema: JsonSchema): Ajv.ValidateFunction {
+    const key = JSON.stringify(variableSchema);
+    let validate = this.compiled.get(key);
+    if (!validate) {
+      try {
+        validate = this.ajv.compile(this.toJsonSchema(variableSchema));
+      } catch (error) {
+        throw new Error(`Feedback step "${feedbackStepName}" has an invalid variableSchema: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      this.compiled.set(key, validate);
+    }
+    return validate;
+  }
+
+  private toJsonSchema(variableSchema: JsonSchema): JsonSchema {
+    if ('type' in variableSchema || 'properties' in variableSchema || '$schema' in variableSchema) {
+      return variableSchema;
+    }
+    // Shorthand: variable name -> property schema (or just its type name)
+    return {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(variableSchema).map(([name, property]) => [
+        name,
+        typeof property === 'string' ? { type: property } : property && typeof property === 'object' ? property : {}
+      ]))
+    };
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Inbound webhooks - Signatures and issue events of provider deliveries
+ *
+ * GitHub, Jira and Linear sign each delivery with an HMAC-SHA256 of the raw
+ * request body, keyed with the secret set up on both sides; each provider
+ * sends it in its own header. Issue created, updated and closed events
+ * carry the issue in the shape the provider's API returns it, so the sync
+ * can import it with the interface's field mappings. Other events are
+ * reported without an issue.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+
+export type WebhookProvider = 'github' | 'jira' | 'linear';
+
+export interface WebhookEvent {
+  deliveryId: string; // Provider delivery id, or a hash of the body when it sends none
+  event: string; // Provider event name, e.g. issues.closed
+  issue: unknown | null; // Remote issue of issue events
+  project: string | null; // Repository, project key or team the event is about
+}
+
+interface WebhookProviderSpec {
+  signatureHeader: string;
+  signaturePrefix: string;
+  deliveryHeader: string;
+  parse(payload: any, headers: IncomingHttpHeaders): Omit<WebhookEvent, 'deliveryId'>;
+}
+
+// GitHub issue actions that change fields the sync maps
+const GITHUB_ISSUE_ACTIONS = ['opened', 'edited', 'closed', 'reopened', 'labeled', 'unlabeled'];
+
+const PROVIDERS: Record<WebhookProvider, WebhookProviderSpec> = {
+  github: {
+    signatureHeader: 'x-hub-signature-256',
+    signaturePrefix: 'sha256=',
+    deliveryHeader: 'x-github-delivery',
+    parse: (payload, headers) => {
+      const name = String(headers['x-github-event'] ?? '');
+      const isIssueEvent = name === 'issues' && GITHUB_ISSUE_ACTIONS.includes(payload.action)
+        && payload.issue && !payload.issue.pull_request;
+      return {
+        event: payload.action ? `${name}.${payload.action}` : name,
+        issue: isIssueEvent ? payload.issue : null,
+        project: payload.repository?.full_name ?? null
+      };
+    }
+  },
+  jira: {
+    signatureHeader: 'x-hub-signature',
+    signaturePrefix: 'sha256=',
+    deliveryHeader: 'x-atlassian-webhook-identifier',
+    parse: payload => {
+      const event = String(payload.webhookEvent ?? '');
+      // Jira closes issues with a status transition, delivered as an update
+      const isIssueEvent = (event === 'jira:issue_created' || event === 'jira:issue_updated') && payload.issue?.fields;
+      return {
+        event,
+        issue: isIssueEvent ? payload.issue : null,
+        project: payload.issue?.fields?.project?.key ?? null
+      };
+    }
+  },
+  linear: {
+    signatureHeader: 'linear-signature',
+    signaturePrefix: '',
+    deliveryHeader: 'linear-delivery',
+    parse: payload => {
+      // Linear closes issues by moving them to a completed or canceled state
+      const isIssueEvent = payload.type === 'Issue' && (payload.action === 'create' || payload.action === 'update') && payload.data;
+      return {
+        event: `${payload.type}.${payload.action}`,
+        issue: isIssueEvent ? payload.data : null,
+        project: payload.data?.teamId ?? null
+      };
+    }
+  }
+};
+
+export function isWebhookProvider(value: string): value is WebhookProvider {
+  return Object.prototype.hasOwnProperty.call(PROVIDERS, value);
+}
+
+/**
+ * Whether the delivery carries a valid signature of its body for the secret
+ */
+export function verifyWebhookSignature(
+  provider: WebhookProvider,
+  secret: string,
+  rawBody: Buffer,
+  headers: IncomingHttpHeaders
+): boolean {
+  const { signatureHeader, signaturePrefix } = PROVIDERS[provider];
+  const signature = headers[signatureHeader];
+  if (typeof signature !== 'string' || !signature.startsWith(signaturePrefix)) {
+    return false;
+  }
+  const expected = createHmac('sha256', secret).update(rawBody).digest();
+  const given = Buffer.from(signature.slice(signaturePrefix.length), 'hex');
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Event of a delivery; throws when the body is not JSON
+ */
+export function parseWebhookEvent(provider: WebhookProvider, rawBody: Buffer, headers: IncomingHttpHeaders): WebhookEvent {
+  const spec = PROVIDERS[provider];
+  const payload = JSON.parse(rawBody.toString('utf8'));
+  const deliveryHeader = headers[spec.deliveryHeader];
+  return {
+    deliveryId: typeof deliveryHeader === 'string' && deliveryHeader
+      ? deliveryHeader
+      : createHash('sha256').update(rawBody).digest('hex'),
+    ...spec.parse(payload ?? {}, headers)
+  };
+}
@@ -0,0 +1,229 @@
+/**
+ * WorkspaceResourceProvider - Workspace documents and tasks as MCP resources
+ *
+ * Each registered workspace exposes its project docs, rules file and task
+ * list under taskpilot://workspaces/{id}/... URIs. Docs and rules are read
+ * from the workspace directory; tasks come from the workspace database.
+ * watch() reports changes so the MCP server can send resources/updated.
+ */
+
+import { existsSync, readFileSync, watchFile, unwatchFile, type Stats } from 'fs';
+import { join, resolve } from 'path';
+import type { DatabaseService } from './database-service.js';
+import { taskChanges, type TaskChange } from '../database/workspace-queries.js';
+import type { Workspace } from '../database/schema/global-schema.js';
+import type { Task } from '../database/schema/workspace-schema.js';
+import { debounce } from '../utils/debounce.js';
+
+export const RESOURCE_URI_PREFIX = 'taskpilot://workspaces/';
+
+export interface WorkspaceResource {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface WorkspaceResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface WorkspaceResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * Raised for URIs that do not name an existing workspace resource
+ */
+export class ResourceNotFoundError extends Error {
+  constructor(public readonly uri: string, reason = 'Resource not found') {
+    super(`${reason}: ${uri}`);
+    this.name = 'ResourceNotFoundError';
+  }
+}
+
+// Workspace files exposed as resources, keyed by their URI path
+const WORKSPACE_DOCUMENTS: Record<string, { file: string; description: string }> = {
+  'docs/project.md': {
+    file: '.taskpilot/project.md',
+    description: 'Project overview, maintained with taskpilot_update_resources'
+  },
+  'docs/design.md': {
+    file: '.taskpilot/design.md',
+    description: 'Design notes, maintained with taskpilot_update_resources'
+  },
+  'rules': {
+    file: '.task/rules/workspace_rules.md',
+    description: 'Workspace rules, maintained with taskpilot_rule_update'
+  }
+};
+
+type ResourceTarget =
+  | { kind: 'document'; workspace: Workspace; filePath: string }
+  | { kind: 'tasks'; workspace: Workspace }
+  | { kind: 'task'; workspace: Workspace; taskRef: string };
+
+// Bursts of changes (one task event per field, editor saves) become one notification
+const CHANGE_DEBOUNCE_MS = 100;
+const FILE_POLL_INTERVAL_MS = 1000;
+
+export class WorkspaceResourceProvider {
+  constructor(private databaseService: DatabaseService) {}
+
+  /**
+   * Resources of every registered workspace. Docs are listed once their file exists.
+   */
+  async listResources(): Promise<WorkspaceResource[]> {
+    const resources: WorkspaceResource[] = [];
+    for (const workspace of await this.databaseService.getGlobal().getAllWorkspaces()) {
+      const base = `${RESOURCE_URI_PREFIX}${workspace.id}/`;
+      for (const [path, document] of Object.entries(WORKSPACE_DOCUMENTS)) {
+        if (existsSync(join(workspace.path, document.file))) {
+          resources.push({
+            uri: base + path,
+            name: `${workspace.name}: ${document.file.split('/').pop()}`,
+            description: document.description,
+            mimeType: 'text/markdown'
+          });
+        }
+      }
+      resources.push({
+        uri: `${base}tasks`,
+        name: `${workspace.name}: tasks`,
+        description: 'All tasks in the workspace with status, priority and dependencies',
+        mimeType: 'application/json'
+      });
+    }
+    return resources;
+  }
+
+  listResourceTemplates(): WorkspaceResourceTemplate[] {
+    return [{
+      uriTemplate: `${RESOURCE_URI_PREFIX}{workspace_id}/tasks/{task_key}`,
+      name: 'Task',
+      description: 'A single task by key (e.g. TP-001) or id',
+      mimeType: 'application/json'
+    }];
+  }
+
+  async readResource(uri: string): Promise<WorkspaceResourceContents> {
+    const target = await this.resolve(uri);
+    switch (target.kind) {
+      case 'document': {
+        if (!existsSync(target.filePath)) {
+          throw new ResourceNotFoundError(uri, 'Document has not been written yet');
+        }
+        return { uri, mimeType: 'text/markdown', text: readFileSync(target.filePath, 'utf-8') };
+      }
+      case 'tasks': {
+        const workspaceDb = await this.databaseService.getWorkspace(target.workspace.path);
+        const tasks = (await workspaceDb.getAllTasks()).map(task => this.toTaskSummary(task));
+        return { uri, mimeType: 'application/json', text: JSON.stringify({ workspace: target.workspace.name, tasks }, null, 2) };
+      }
+      case 'task': {
+        const task = await this.getTask(uri, target);
+        return {
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify({
+            ...this.toTaskSummary(task),
+            description: task.description ?? '',
+            notes: task.notes ?? null,
+            connected_files: Array.isArray(task.connectedFiles) ? task.connectedFiles : [],
+            created_at: task.createdAt,
+            completed_at: task.completedAt ?? null
+          }, null, 2)
+        };
+      }
+    }
+  }
+
+  /**
+   * Call onChange whenever the resource may have changed. Returns a function
+   * that stops watching.
+   */
+  async watch(uri: string, onChange: () => void): Promise<() => void> {
+    const target = await this.resolve(uri);
+
+    const changed = debounce(onChange, CHANGE_DEBOUNCE_MS);
+
+    if (target.kind === 'document') {
+      // Polling also catches files that do not exist yet and editors that replace files
+      const onStat = (current: Stats, previous: Stats) => {
+        if (current.mtimeMs !== previous.mtimeMs) {
+          changed();
+        }
+      };
+      watchFile(target.filePath, { interval: FILE_POLL_INTERVAL_MS, persistent: false }, onStat);
+      return () => {
+        unwatchFile(target.filePath, onStat);
+        changed.cancel();
+      };
+    }
+
+    const workspacePath = resolve(target.workspace.path);
+    const taskId = target.kind === 'task' ? (await this.getTask(uri, target)).id : null;
+    const onTaskChange = (change: TaskChange) => {
+      if (resolve(change.workspacePath) === workspacePath && (!taskId || change.taskId === taskId)) {
+        changed();
+      }
+    };
+    taskChanges.on('change', onTaskChange);
+    return () => {
+      taskChanges.off('change', onTaskChange);
+      changed.cancel();
+    };
+  }
+
+  private async resolve(uri: string): Promise<ResourceTarget> {
+    if (!uri.startsWith(RESOURCE_URI_PREFIX)) {
+      throw new ResourceNotFoundError(uri, 'Unknown resource URI');
+    }
+    const [workspaceId, ...rest] = uri.slice(RESOURCE_URI_PREFIX.length).split('/');
+    const path = rest.join('/');
+
+    const workspace = await this.databaseService.getGlobal().getWorkspace(decodeURIComponent(workspaceId));
+    if (!workspace) {
+      throw new ResourceNotFoundError(uri, 'Workspace not found');
+    }
+    const document = WORKSPACE_DOCUMENTS[path];
+    if (document) {
+      return { kind: 'document', workspace, filePath: join(workspace.path, document.file) };
+    }
+    if (path === 'tasks') {
+      return { kind: 'tasks', workspace };
+    }
+    if (rest.length === 2 && rest[0] === 'tasks' && rest[1]) {
+      return { kind: 'task', workspace, taskRef: decodeURIComponent(rest[1]) };
+    }
+    throw new ResourceNotFoundError(uri, 'Unknown resource URI');
+  }
+
+  private async getTask(uri: string, target: { workspace: Workspace; taskRef: string }): Promise<Task> {
+    const workspaceDb = await this.databaseService.getWorkspace(target.workspace.path);
+    const task = await workspaceDb.getTask(target.taskRef);
+    if (!task) {
+      throw new ResourceNotFoundError(uri, 'Task not found');
+    }
+    return task;
+  }
+
+  private toTaskSummary(task: Task) {
+    return {
+      id: task.id,
+      task_key: task.taskKey ?? null,
+      title: task.title,
+      status: task.status ?? 'backlog',
+      priority: task.priority ?? 'medium',
+      progress: task.progress ?? 0,
+      parent_task_id: task.parentTaskId ?? null,
+      dependencies: Array.isArray(task.dependencies) ? task.dependencies : [],
+      updated_at: task.updatedAt
+    };
+  }
+}
@@ -8,20 +8,38 @@ import type { NewTask } from '../database/schema/workspace-schema.js';
 import { DatabaseService } from '../services/database-service.js';
 import { ToolFlowExecutor, type StepHandlerMap, type DatabaseDrivenTool } from '../services/tool-flow-executor.js';
 import { ToolNames } from '../constants/tool-names.js';
+import { createToolOutputSchema } from './tool-output.js';
 
 export const addToolSchema = createBaseToolSchema(ToolNames.ADD, {
   task_description: z.string().describe('Description of the task to add'),
+  priority: z.enum(['High', 'Medium', 'Low']).optional().describe('Task priority level (defaults to Medium)'),
+  parent_task_id: z.string().optional().describe('Key (e.g., TP-001) or UUID of parent task if this is a subtask'),
+  title: z.string().optional().describe('Concise task title (will be generated from description if not provided)')
 }, ['task_description', 'workspace_path']);
 
 export type AddToolInput = z.infer<typeof addToolSchema>;
 
+export const addToolOutputSchema = createToolOutputSchema({
+  task_description: z.string().optional(),
+  priority: z.string().optional(),
+  parent_task_id: z.string().nullable().optional(),
+  validated: z.boolean().optional(),
+  created: z.boolean().optional(),
+  task_id: z.string().optional().describe('Key of the created task, e.g. TP-001'),
+  task_uuid: z.string().optional(),
+  task_title: z.string().optional(),
+  workspace_id: z.string().optional()
+});
+
 /**
  * TaskPilot Add Tool - Refactored using BaseTool interface
  * 
  * Enhanced with database-driven stepId enumeration and common error handling.
  * Demonstrates the new pattern all tools should follow.
  */
-export class AddToolNew extends BaseTool {
+export class AddToolNew extends BaseTool implements DatabaseDrivenTool {
+  private flowExecutor: ToolFlowExecutor;
+
   constructor(drizzleDb: DrizzleDatabaseManager) {
     const config: BaseToolConfig = {
       name: ToolNames.ADD,
@@ -39,7 +57,7 @@ export class AddToolNew extends BaseTool {
         },
         parent_task_id: {
           type: 'string',
-          description: 'ID of parent task if this is a subtask'
+          description: 'Key (e.g., TP-001) or UUID of parent task if this is a subtask'
         },
         title: {
           type: 'string',
@@ -49,6 +67,7 @@ export class AddToolNew extends BaseTool {
     };
 
     super(drizzleDb, config);
+    this.flowExecutor = new ToolFlowExecutor(drizzleDb);
   }
 
   /**
@@ -68,14 +87,7 @@ export class AddToolNew extends BaseTool {
       const workspace = workspaceValidation.workspace;
 
       // Route to appropriate step handler using database-driven flow
-      switch (stepId) {
-        case 'validate':
-          return await this.handleValidationStep(input as AddToolInput, workspace);
-        case 'create':
-          return await this.handleCreationStep(input as AddToolInput, workspace);
-        default:
-          return await this.handleInitialStep(input as AddToolInput, workspace);
-      }
+      return await this.flowExecutor.executeStep(this.getToolName(), stepId, input, this.getStepHandlers(workspace));
 
     } catch (error) {
       const errorMessage = `Error in taskpilot_add: ${error instanceof Error ? error.message : String(error)}`;
@@ -83,6 +95,25 @@ export class AddToolNew extends BaseTool {
     }
   }
 
+  /**
+   * Get tool name for database lookup
+   */
+  getToolName(): string {
+    return ToolNames.ADD;
+  }
+
+  /**
+   * Get map of step handlers for this tool. The workspace is resolved by
+   * execute(); without it the map only describes the available steps.
+   */
+  getStepHandlers(workspace?: any): StepHandlerMap {
+    return {
+      initial: stepInput => this.handleInitialStep(stepInput as AddToolInput, workspace),
+      validate: stepInput => this.handleValidationStep(stepInput as AddToolInput, workspace),
+      create: stepInput => this.handleCreationStep(stepInput as AddToolInput, workspace)
+    };
+  }
+
   /**
    * Initial step - start analytical validation workflow
    */
@@ -152,14 +183,22 @@ export class AddToolNew extends BaseTool {
     const { task_description, priority, parent_task_id, title } = input;
 
     try {
-      // Generate task ID and title if not provided
-      const taskId = `TP-${String(Date.now()).slice(-6)}`;
+      // Generate task ID and title if not provided; the short task key is assigned on insert
+      const taskId = uuidv4();
       const taskTitle = title || this.generateTaskTitle(task_description);
 
       // Create task in workspace database
       const workspaceDb = new WorkspaceDatabaseService(workspace.path);
       await workspaceDb.initialize();
 
+      // Subtasks must hang off an existing task
+      if (parent_task_id && !(await workspaceDb.getTask(parent_task_id))) {
+        return this.createErrorResult(
+          `Parent task not found: ${parent_task_id}`,
+          { task_description, parent_task_id, workspace_path: workspace.path }
+        );
+      }
+
       const newTask: NewTask = {
         id: taskId,
         title: taskTitle,
@@ -167,6 +206,7 @@ export class AddToolNew extends BaseTool {
         priority: (priority?.toLowerCase() as 'high' | 'medium' | 'low') || 'medium',
         status: 'backlog',
         progress: 0,
+        parentTaskId: parent_task_id || null,
         dependencies: [],
         notes: '',
         connectedFiles: [],
@@ -174,14 +214,15 @@ export class AddToolNew extends BaseTool {
         updatedAt: new Date().toISOString()
       };
 
-      await workspaceDb.createTask(newTask);
+      const created = await workspaceDb.createTask(newTask, this.getChangeContext(input));
+      const taskKey = created.taskKey ?? created.id;
 
       // Generate success prompt
       const orchestrationResult = await this.orchestrator.orchestratePrompt(
         ToolNames.ADD,
         workspace.id,
         {
-          task_id: taskId,
+          task_id: taskKey,
           task_title: taskTitle,
           task_description,
           priority,
@@ -194,13 +235,16 @@ export class AddToolNew extends BaseTool {
         orchestrationResult.prompt_text,
         {
           isFinalStep: true,
-          feedback: `Task ${taskId} created successfully`,
+          feedback: `Task ${taskKey} created successfully`,
           data: {
-            task_id: taskId,
+            task_id: taskKey,
+            task_uuid: created.id,
             task_title: taskTitle,
+            parent_task_id: parent_task_id || null,
             created: true,
             workspace_id: workspace.id
-          }
+          },
+          task: created
         }
       );
 
@@ -266,7 +310,11 @@ export class AddToolNew extends BaseTool {
           },
           parent_task_id: {
             type: 'string',
-            description: 'ID of parent task if this is a subtask'
+            description: 'Key (e.g., TP-001) or UUID of parent task if this is a subtask'
+          },
+          title: {
+            type: 'string',
+            description: 'Concise task title (will be generated from description if not provided)'
           }
         },
         required: ['task_description', 'workspace_path']
@@ -3,12 +3,42 @@ import type { TaskPilotToolResult, ToolStepResult, MultiStepToolInput } from '..
 import { BaseTool, BaseToolConfig, ToolDefinition, createBaseToolSchema } from './base-tool.js';
 import type { DrizzleDatabaseManager } from '../database/drizzle-connection.js';
 import { WorkspaceDatabaseService } from '../database/workspace-queries.js';
+import { createToolOutputSchema } from './tool-output.js';
 
 // Input schema using the new base pattern
 export const auditToolSchema = createBaseToolSchema('taskpilot_audit', {}, ['workspace_path']);
 
 export type AuditToolInput = z.infer<typeof auditToolSchema>;
 
+const taskRefOutputSchema = z.object({ id: z.string(), title: z.string() }).passthrough();
+
+export const auditToolOutputSchema = createToolOutputSchema({
+  summary: z.object({
+    total_tasks: z.number(),
+    completed_tasks: z.number(),
+    in_progress_tasks: z.number(),
+    blocked_tasks: z.number(),
+    review_tasks: z.number(),
+    high_priority_tasks: z.number(),
+    completion_percentage: z.number()
+  }).optional(),
+  high_priority_tasks: z.array(taskRefOutputSchema).optional(),
+  tasks_by_status: z.record(z.array(taskRefOutputSchema)).optional(),
+  issues: z.record(z.array(taskRefOutputSchema)).optional().describe('Tasks with quality issues, grouped by issue'),
+  violations: z.record(z.array(taskRefOutputSchema)).optional().describe('Tasks breaking workspace rules, grouped by violation'),
+  total_violations: z.number().optional(),
+  compliance_score: z.number().optional(),
+  readiness_assessment: z.object({
+    is_ready_for_completion: z.boolean(),
+    open_tasks: z.number(),
+    critical_tasks: z.number(),
+    tasks_in_review: z.number(),
+    blocked_tasks: z.number(),
+    blocker_count: z.number()
+  }).optional(),
+  remaining_work: z.record(z.array(taskRefOutputSchema)).optional()
+});
+
 /**
  * TaskPilot Audit Tool - Refactored using BaseTool interface
  * 
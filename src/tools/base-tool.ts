@@ -4,6 +4,8 @@ import type { TaskPilotToolResult, ToolStepResult, MultiStepToolInput } from '..
 import { PromptOrchestrator } from '../services/prompt-orchestrator.js';
 import { GlobalDatabaseService } from '../database/global-queries.js';
 import { DynamicSchemaGenerator } from '../services/dynamic-schema-generator.js';
+import type { TaskChangeContext } from '../database/workspace-queries.js';
+import { NO_PROGRESS, type ProgressReporter } from '../utils/progress.js';
 
 /**
  * Base Tool Interface - Common schema and functionality for all MCP tools
@@ -111,6 +113,11 @@ export abstract class BaseTool {
       }
     };
 
+    baseProperties.run_id = {
+      type: 'string',
+      description: 'Flow run ID returned by an earlier step; resumes that run with its saved data'
+    };
+
     // Add stepId property with dynamic enum if steps are available
     if (availableStepIds.length > 0) {
       baseProperties.stepId = {
@@ -171,6 +178,27 @@ export abstract class BaseTool {
     }
   }
 
+  /**
+   * Build the audit context for task changes made by this tool call
+   */
+  protected getChangeContext(input: MultiStepToolInput, reason?: string): TaskChangeContext | undefined {
+    if (!input.origin) {
+      return undefined;
+    }
+    return {
+      source: input.origin.source,
+      sessionId: input.origin.sessionId ?? null,
+      reason: reason ?? null
+    };
+  }
+
+  /**
+   * Progress reporter of the calling client, or one that reports nowhere
+   */
+  protected getProgress(input: MultiStepToolInput): ProgressReporter {
+    return input.progress ?? NO_PROGRESS;
+  }
+
   /**
    * Common workspace validation that all tools need
    */
@@ -262,6 +290,7 @@ export function createBaseToolSchema(
 ): z.ZodObject<any> {
   const baseSchema = {
     stepId: z.string().optional().describe('Optional step ID for multi-step workflow'),
+    run_id: z.string().optional().describe('Flow run ID returned by an earlier step; resumes that run with its saved data'),
     workspace_path: z.string().describe('Absolute path to the workspace directory'),
     ...additionalProperties
   };
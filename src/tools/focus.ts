@@ -2,20 +2,40 @@ import { z } from 'zod';
 import type { TaskPilotToolResult, ToolStepResult, MultiStepToolInput } from '../types/index.js';
 import { BaseTool, BaseToolConfig, ToolDefinition, createBaseToolSchema } from './base-tool.js';
 import type { DrizzleDatabaseManager } from '../database/drizzle-connection.js';
+import { WorkspaceDatabaseService } from '../database/workspace-queries.js';
+import type { Task, TaskEvent } from '../database/schema/workspace-schema.js';
+import { ToolFlowExecutor, type StepHandlerMap, type DatabaseDrivenTool } from '../services/tool-flow-executor.js';
+import { ToolNames } from '../constants/tool-names.js';
+import { createToolOutputSchema } from './tool-output.js';
+
+// Number of most recent task events included in the focus context
+const FOCUS_HISTORY_LIMIT = 10;
 
 // Input schema using the new base pattern
 export const focusToolSchema = createBaseToolSchema('taskpilot_focus', {
-  task_id: z.string().describe('Task ID to focus on (e.g., TP-001)')
+  task_id: z.string().describe('Task key (e.g., TP-001) or UUID to focus on')
 }, ['task_id', 'workspace_path']);
 
 export type FocusToolInput = z.infer<typeof focusToolSchema>;
 
+export const focusToolOutputSchema = createToolOutputSchema({
+  task_id: z.string().optional(),
+  focused: z.boolean().optional(),
+  task_history: z.string().optional().describe('Recent changes to the task as a markdown list'),
+  analysis_complete: z.boolean().optional(),
+  plan_ready: z.boolean().optional(),
+  implementation_ready: z.boolean().optional(),
+  workspace_id: z.string().optional()
+});
+
 /**
  * TaskPilot Focus Tool - Refactored using BaseTool interface
  * 
  * Enhanced with database-driven stepId enumeration and common error handling.
  */
-export class FocusToolNew extends BaseTool {
+export class FocusToolNew extends BaseTool implements DatabaseDrivenTool {
+  private flowExecutor: ToolFlowExecutor;
+
   constructor(drizzleDb: DrizzleDatabaseManager) {
     const config: BaseToolConfig = {
       name: 'taskpilot_focus',
@@ -24,12 +44,13 @@ export class FocusToolNew extends BaseTool {
       additionalProperties: {
         task_id: {
           type: 'string',
-          description: 'Task ID to focus on (e.g., TP-001)'
+          description: 'Task key (e.g., TP-001) or UUID to focus on'
         }
       }
     };
 
     super(drizzleDb, config);
+    this.flowExecutor = new ToolFlowExecutor(drizzleDb);
   }
 
   /**
@@ -53,16 +74,7 @@ export class FocusToolNew extends BaseTool {
       const workspace = workspaceValidation.workspace;
 
       // Route to appropriate step handler
-      switch (stepId) {
-        case 'analyze':
-          return await this.handleAnalyzeStep(input as FocusToolInput, workspace);
-        case 'plan':
-          return await this.handlePlanStep(input as FocusToolInput, workspace);
-        case 'implement':
-          return await this.handleImplementStep(input as FocusToolInput, workspace);
-        default:
-          return await this.handleInitialStep(input as FocusToolInput, workspace);
-      }
+      return await this.flowExecutor.executeStep(this.getToolName(), stepId, input, this.getStepHandlers(workspace));
 
     } catch (error) {
       const errorMessage = `Error in taskpilot_focus: ${error instanceof Error ? error.message : String(error)}`;
@@ -74,17 +86,39 @@ export class FocusToolNew extends BaseTool {
     }
   }
 
+  /**
+   * Get tool name for database lookup
+   */
+  getToolName(): string {
+    return ToolNames.FOCUS;
+  }
+
+  /**
+   * Get map of step handlers for this tool. The workspace is resolved by
+   * execute(); without it the map only describes the available steps.
+   */
+  getStepHandlers(workspace?: any): StepHandlerMap {
+    return {
+      initial: stepInput => this.handleInitialStep(stepInput as FocusToolInput, workspace),
+      analyze: stepInput => this.handleAnalyzeStep(stepInput as FocusToolInput, workspace),
+      plan: stepInput => this.handlePlanStep(stepInput as FocusToolInput, workspace),
+      implement: stepInput => this.handleImplementStep(stepInput as FocusToolInput, workspace)
+    };
+  }
+
   /**
    * Initial step - basic task focus
    */
   private async handleInitialStep(input: FocusToolInput, workspace: any): Promise<ToolStepResult> {
     const { task_id } = input;
+    const { task, context: taskContext } = await this.loadTaskContext(workspace, task_id);
 
     const orchestrationResult = await this.orchestrator.orchestratePrompt(
       'taskpilot_focus',
       workspace.id,
       {
         task_id,
+        ...taskContext,
         step: 'initial'
       }
     );
@@ -93,7 +127,8 @@ export class FocusToolNew extends BaseTool {
       isFinalStep: false,
       nextStepId: 'analyze',
       feedback: orchestrationResult.prompt_text,
-      data: { task_id, focused: true }
+      data: { task_id, focused: true, task_history: taskContext.task_history },
+      task: task ?? undefined
     };
   }
 
@@ -102,12 +137,14 @@ export class FocusToolNew extends BaseTool {
    */
   private async handleAnalyzeStep(input: FocusToolInput, workspace: any): Promise<ToolStepResult> {
     const { task_id } = input;
+    const { task, context: taskContext } = await this.loadTaskContext(workspace, task_id);
 
     const orchestrationResult = await this.orchestrator.orchestratePrompt(
       'taskpilot_focus',
       workspace.id,
       {
         task_id,
+        ...taskContext,
         step: 'analyze'
       }
     );
@@ -116,7 +153,8 @@ export class FocusToolNew extends BaseTool {
       isFinalStep: false,
       nextStepId: 'plan',
       feedback: orchestrationResult.prompt_text,
-      data: { task_id, analysis_complete: true }
+      data: { task_id, analysis_complete: true },
+      task: task ?? undefined
     };
   }
 
@@ -125,12 +163,14 @@ export class FocusToolNew extends BaseTool {
    */
   private async handlePlanStep(input: FocusToolInput, workspace: any): Promise<ToolStepResult> {
     const { task_id } = input;
+    const { task, context: taskContext } = await this.loadTaskContext(workspace, task_id);
 
     const orchestrationResult = await this.orchestrator.orchestratePrompt(
       'taskpilot_focus',
       workspace.id,
       {
         task_id,
+        ...taskContext,
         step: 'plan'
       }
     );
@@ -139,7 +179,8 @@ export class FocusToolNew extends BaseTool {
       isFinalStep: false,
       nextStepId: 'implement',
       feedback: orchestrationResult.prompt_text,
-      data: { task_id, plan_ready: true }
+      data: { task_id, plan_ready: true },
+      task: task ?? undefined
     };
   }
 
@@ -148,12 +189,14 @@ export class FocusToolNew extends BaseTool {
    */
   private async handleImplementStep(input: FocusToolInput, workspace: any): Promise<ToolStepResult> {
     const { task_id } = input;
+    const { task, context: taskContext } = await this.loadTaskContext(workspace, task_id);
 
     const orchestrationResult = await this.orchestrator.orchestratePrompt(
       'taskpilot_focus',
       workspace.id,
       {
         task_id,
+        ...taskContext,
         step: 'implement'
       }
     );
@@ -165,10 +208,66 @@ export class FocusToolNew extends BaseTool {
         task_id,
         implementation_ready: true,
         workspace_id: workspace.id
+      },
+      task: task ?? undefined
+    };
+  }
+
+  /**
+   * Load the task with its details and recent change history for the focus
+   * prompt. task_id is replaced by the short task key when the task exists.
+   */
+  private async loadTaskContext(workspace: any, taskId: string): Promise<{ task: Task | null; context: Record<string, any> }> {
+    const workspaceDb = new WorkspaceDatabaseService(workspace.path);
+    await workspaceDb.initialize();
+
+    const task = await workspaceDb.getTask(taskId);
+    if (!task) {
+      return { task: null, context: { workspace_name: workspace.name } };
+    }
+
+    const events = await workspaceDb.getTaskEvents(task.id);
+    const subtasks = await workspaceDb.getChildTasks(task.id);
+    const dependents = await workspaceDb.getDependentTasks(task.id);
+    const parent = task.parentTaskId ? await workspaceDb.getTask(task.parentTaskId) : null;
+
+    return {
+      task,
+      context: {
+        workspace_name: workspace.name,
+        task_id: task.taskKey ?? task.id,
+        task_title: task.title,
+        task_description: task.description,
+        priority: task.priority,
+        task_status: task.status,
+        task_progress: task.progress,
+        parent_task_id: parent?.taskKey ?? task.parentTaskId,
+        connected_files: Array.isArray(task.connectedFiles) ? task.connectedFiles.join(', ') : '',
+        notes: task.notes,
+        updated_at: task.updatedAt,
+        dependencies_count: String(dependents.length),
+        subtasks_count: String(subtasks.length),
+        task_history: this.renderTaskHistory(events.slice(-FOCUS_HISTORY_LIMIT))
       }
     };
   }
 
+  /**
+   * Render task events as a markdown list, one line per change
+   */
+  private renderTaskHistory(events: TaskEvent[]): string {
+    if (events.length === 0) {
+      return 'No recorded changes';
+    }
+    return events.map(event => {
+      const change = event.eventType === 'updated'
+        ? `${event.field}: ${event.oldValue ?? '(empty)'} → ${event.newValue ?? '(empty)'}`
+        : event.eventType;
+      const reason = event.reason ? ` — ${event.reason}` : '';
+      return `- ${event.createdAt} [${event.source}] ${change}${reason}`;
+    }).join('\n');
+  }
+
   /**
    * Get tool definition with dynamic stepId enumeration
    */
@@ -194,7 +293,7 @@ export class FocusToolNew extends BaseTool {
           },
           task_id: {
             type: 'string',
-            description: 'Task ID to focus on (e.g., TP-001)'
+            description: 'Task key (e.g., TP-001) or UUID to focus on'
           },
           workspace_path: {
             type: 'string',
@@ -1,16 +1,27 @@
 import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
 import type { DrizzleDatabaseManager } from '../database/drizzle-connection.js';
 import type { TaskPilotToolResult } from '../types/index.js';
 import { PromptOrchestrator } from '../services/prompt-orchestrator.js';
 import { GlobalDatabaseService } from '../database/global-queries.js';
+import type { Workspace } from '../database/schema/global-schema.js';
+import { DatabaseService } from '../services/database-service.js';
+import { RemoteInterfaceManager } from '../services/remote-interface-manager.js';
 
 // Input schema for taskpilot_github tool
 export const githubToolSchema = z.object({
   workspace_path: z.string().describe('Absolute path to the workspace directory'),
-  action: z.enum(['create_issue', 'create_pr', 'sync_tasks']).describe('GitHub action to perform'),
+  action: z.enum(['create_issue', 'create_pr', 'sync_tasks', 'configure']).describe('GitHub action to perform'),
   title: z.string().optional().describe('Title for issue or PR'),
   description: z.string().optional().describe('Description for issue or PR'),
-  branch: z.string().optional().describe('Branch name for PR')
+  branch: z.string().optional().describe('Branch name for PR'),
+  repo_url: z.string().optional().describe('Repository URL to sync issues with (configure)'),
+  github_token: z.string().optional().describe('Token with access to the repository issues (configure)'),
+  auto_sync: z.boolean().optional().describe('Push task changes to GitHub automatically (configure)'),
+  sync_direction: z.enum(['bidirectional', 'github_to_taskpilot', 'taskpilot_to_github']).optional()
+    .describe('Which way issues sync (configure)'),
+  conflict_policy: z.enum(['local-wins', 'remote-wins', 'newest-wins', 'manual']).optional()
+    .describe('Which side wins when a task and its issue both changed (configure)')
 });
 
 export type GitHubToolInput = z.infer<typeof githubToolSchema>;
@@ -19,15 +30,20 @@ export type GitHubToolInput = z.infer<typeof githubToolSchema>;
  * TaskPilot GitHub Tool - GitHub Integration (Pure TypeScript/Drizzle)
  * 
  * MCP tool for GitHub integration including issue creation, PR management,
- * and task synchronization with GitHub projects.
+ * and task synchronization with GitHub projects. configure and sync_tasks
+ * talk to the GitHub REST API directly; the other actions return a prompt.
  */
 export class GitHubTool {
   private orchestrator: PromptOrchestrator;
   private globalDb: GlobalDatabaseService;
+  private databaseService: DatabaseService;
+  private remoteInterfaces: RemoteInterfaceManager;
 
   constructor(private drizzleDb: DrizzleDatabaseManager) {
     this.orchestrator = new PromptOrchestrator(drizzleDb);
     this.globalDb = new GlobalDatabaseService(drizzleDb);
+    this.databaseService = new DatabaseService(drizzleDb);
+    this.remoteInterfaces = new RemoteInterfaceManager(this.databaseService);
   }
 
   /**
@@ -49,6 +65,13 @@ export class GitHubTool {
         };
       }
 
+      if (action === 'configure') {
+        return await this.configure(workspace, input);
+      }
+      if (action === 'sync_tasks') {
+        return await this.syncTasks(workspace);
+      }
+
       // Generate orchestrated prompt for GitHub integration
       const orchestrationResult = await this.orchestrator.orchestratePrompt(
         'taskpilot_github',
@@ -84,6 +107,78 @@ export class GitHubTool {
     }
   }
 
+  /**
+   * Create or update the workspace's GitHub sync configuration
+   */
+  private async configure(workspace: Workspace, input: GitHubToolInput): Promise<TaskPilotToolResult> {
+    const workspaceDb = await this.databaseService.getWorkspace(workspace.path);
+    const existing = await workspaceDb.getGithubConfig();
+    const repoUrl = input.repo_url ?? existing?.repoUrl;
+    const githubToken = input.github_token ?? existing?.githubToken;
+    if (!repoUrl || !githubToken) {
+      return {
+        content: [{ type: 'text', text: 'Error: repo_url and github_token are required to configure GitHub sync.' }],
+        isError: true
+      };
+    }
+
+    const [repoOwner, repoName] = new URL(repoUrl).pathname.replace(/^\/+|\/+$|\.git$/g, '').split('/');
+    if (!repoOwner || !repoName) {
+      return {
+        content: [{ type: 'text', text: `Error: ${repoUrl} is not a repository URL (expected https://github.com/owner/repo).` }],
+        isError: true
+      };
+    }
+
+    const settings = {
+      repoUrl,
+      repoOwner,
+      repoName,
+      githubToken,
+      autoSync: input.auto_sync ?? existing?.autoSync ?? false,
+      syncDirection: input.sync_direction ?? existing?.syncDirection ?? 'bidirectional',
+      conflictPolicy: input.conflict_policy ?? existing?.conflictPolicy ?? 'manual'
+    };
+    const config = existing
+      ? await workspaceDb.updateGithubConfig(existing.id, settings)
+      : await workspaceDb.createGithubConfig({ id: uuidv4(), ...settings });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `GitHub sync configured for ${repoOwner}/${repoName}: ${config?.syncDirection}, auto-sync ${config?.autoSync ? 'on' : 'off'}.`
+      }],
+      stepResult: {
+        isFinalStep: true,
+        data: {
+          repo: `${repoOwner}/${repoName}`,
+          sync_direction: config?.syncDirection,
+          conflict_policy: config?.conflictPolicy,
+          auto_sync: config?.autoSync
+        }
+      }
+    };
+  }
+
+  /**
+   * Run the GitHub Issues sync for the workspace
+   */
+  private async syncTasks(workspace: Workspace): Promise<TaskPilotToolResult> {
+    const result = await this.remoteInterfaces.syncGitHub(workspace.id);
+    const summary = `GitHub sync: ${result.items_imported} imported, ${result.items_exported} exported, ` +
+      `${result.items_updated} updated, ${result.items_failed} failed` +
+      (result.items_conflicted > 0 ? `, ${result.items_conflicted} waiting for conflict review.` : '.');
+    return {
+      content: [{
+        type: 'text',
+        text: result.errors.length > 0 ? `${summary}\n\nErrors:\n${result.errors.map(error => `- ${error}`).join('\n')}` : summary
+      }],
+      stepResult: { isFinalStep: true, data: result },
+      // Failures of single items are reported without failing the call
+      isError: result.items_failed === 0 && result.errors.length > 0
+    };
+  }
+
   /**
    * Get tool definition for MCP server
    */
@@ -100,7 +195,7 @@ export class GitHubTool {
           },
           action: {
             type: 'string',
-            enum: ['create_issue', 'create_pr', 'sync_tasks'],
+            enum: ['create_issue', 'create_pr', 'sync_tasks', 'configure'],
             description: 'GitHub action to perform'
           },
           title: {
@@ -114,6 +209,28 @@ export class GitHubTool {
           branch: {
             type: 'string',
             description: 'Branch name for PR'
+          },
+          repo_url: {
+            type: 'string',
+            description: 'Repository URL to sync issues with (configure)'
+          },
+          github_token: {
+            type: 'string',
+            description: 'Token with access to the repository issues (configure)'
+          },
+          auto_sync: {
+            type: 'boolean',
+            description: 'Push task changes to GitHub automatically (configure)'
+          },
+          sync_direction: {
+            type: 'string',
+            enum: ['bidirectional', 'github_to_taskpilot', 'taskpilot_to_github'],
+            description: 'Which way issues sync (configure)'
+          },
+          conflict_policy: {
+            type: 'string',
+            enum: ['local-wins', 'remote-wins', 'newest-wins', 'manual'],
+            description: 'Which side wins when a task and its issue both changed (configure)'
           }
         },
         required: ['workspace_path', 'action']
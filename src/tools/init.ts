@@ -1,9 +1,13 @@
 import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
 import type { TaskPilotToolResult, ToolStepResult, MultiStepToolInput } from '../types/index.js';
 import { BaseTool, BaseToolConfig, ToolDefinition, createBaseToolSchema } from './base-tool.js';
 import type { DrizzleDatabaseManager } from '../database/drizzle-connection.js';
 import { WorkspaceDatabaseService } from '../database/workspace-queries.js';
+import type { Task } from '../database/schema/workspace-schema.js';
+import { ToolFlowExecutor, type StepHandlerMap, type DatabaseDrivenTool } from '../services/tool-flow-executor.js';
 import { ToolNames } from '../constants/tool-names.js';
+import { createToolOutputSchema } from './tool-output.js';
 
 // Input schema using the new base pattern
 export const initToolSchema = createBaseToolSchema(ToolNames.INIT, {
@@ -12,12 +16,27 @@ export const initToolSchema = createBaseToolSchema(ToolNames.INIT, {
 
 export type InitToolInput = z.infer<typeof initToolSchema>;
 
+export const initToolOutputSchema = createToolOutputSchema({
+    workspace_id: z.string().optional(),
+    workspace_path: z.string().optional(),
+    project_requirements: z.string().optional(),
+    initialization_plan: z.record(z.boolean()).optional(),
+    confirmed: z.boolean().optional(),
+    structure_created: z.boolean().optional(),
+    database_initialized: z.boolean().optional(),
+    initial_task_id: z.string().nullable().optional().describe('Key of the task created from the project requirements'),
+    configuration_complete: z.boolean().optional(),
+    ready_for_use: z.boolean().optional()
+});
+
 /**
  * TaskPilot Init Tool - Refactored using BaseTool interface
  * 
  * Enhanced with database-driven stepId enumeration and common error handling.
  */
-export class InitToolNew extends BaseTool {
+export class InitToolNew extends BaseTool implements DatabaseDrivenTool {
+  private flowExecutor: ToolFlowExecutor;
+
   constructor(drizzleDb: DrizzleDatabaseManager) {
     const config: BaseToolConfig = {
       name: ToolNames.INIT,
@@ -32,6 +51,7 @@ export class InitToolNew extends BaseTool {
     };
 
     super(drizzleDb, config);
+    this.flowExecutor = new ToolFlowExecutor(drizzleDb);
   }
 
   /**
@@ -45,16 +65,7 @@ export class InitToolNew extends BaseTool {
       // Note: For init, we don't validate workspace exists as we're creating it
 
       // Route to appropriate step handler
-      switch (stepId) {
-        case 'confirm':
-          return await this.handleConfirmStep(input as InitToolInput);
-        case 'setup_structure':
-          return await this.handleSetupStructureStep(input as InitToolInput);
-        case 'configure_project':
-          return await this.handleConfigureProjectStep(input as InitToolInput);
-        default:
-          return await this.handleInitialStep(input as InitToolInput);
-      }
+      return await this.flowExecutor.executeStep(this.getToolName(), stepId, input, this.getStepHandlers());
 
     } catch (error) {
       const errorMessage = `Error in taskpilot_init: ${error instanceof Error ? error.message : String(error)}`;
@@ -62,6 +73,25 @@ export class InitToolNew extends BaseTool {
     }
   }
 
+  /**
+   * Get tool name for database lookup
+   */
+  getToolName(): string {
+    return ToolNames.INIT;
+  }
+
+  /**
+   * Get map of step handlers for this tool
+   */
+  getStepHandlers(): StepHandlerMap {
+    return {
+      initial: stepInput => this.handleInitialStep(stepInput as InitToolInput),
+      confirm: stepInput => this.handleConfirmStep(stepInput as InitToolInput),
+      setup_structure: stepInput => this.handleSetupStructureStep(stepInput as InitToolInput),
+      configure_project: stepInput => this.handleConfigureProjectStep(stepInput as InitToolInput)
+    };
+  }
+
   /**
    * Initial step - validate workspace and show initialization plan
    */
@@ -157,13 +187,17 @@ export class InitToolNew extends BaseTool {
    */
   private async handleSetupStructureStep(input: InitToolInput): Promise<TaskPilotToolResult> {
     const { workspace_path, project_requirements } = input;
+    const progress = this.getProgress(input);
+    progress.addWork(3);
 
     try {
       // Initialize workspace database
+      await progress.advance('Creating workspace database');
       const workspaceDb = new WorkspaceDatabaseService(workspace_path);
       await workspaceDb.initialize();
 
       // Register workspace
+      await progress.advance('Registering workspace');
       const workspaceRecord = await this.globalDb.createWorkspace({
         id: workspace_path.split('/').pop() || 'workspace',
         name: workspace_path.split('/').pop() || 'TaskPilot Workspace',
@@ -174,6 +208,7 @@ export class InitToolNew extends BaseTool {
       });
 
       // Generate setup completion prompt
+      await progress.advance('Generating setup guidance');
       const orchestrationResult = await this.orchestrator.orchestratePrompt(
         'taskpilot_init',
         workspaceRecord.id,
@@ -213,8 +248,12 @@ export class InitToolNew extends BaseTool {
    */
   private async handleConfigureProjectStep(input: InitToolInput): Promise<TaskPilotToolResult> {
     const { workspace_path, project_requirements } = input;
+    const progress = this.getProgress(input);
+    const seedTask = Boolean(project_requirements && project_requirements.trim().length > 0);
+    progress.addWork(seedTask ? 3 : 2);
 
     try {
+      await progress.advance('Opening workspace database');
       const workspaceDb = new WorkspaceDatabaseService(workspace_path);
       await workspaceDb.initialize();
       const workspace = await this.globalDb.getWorkspaceByPath(workspace_path);
@@ -227,11 +266,11 @@ export class InitToolNew extends BaseTool {
       }
 
       // Create initial task if project requirements provided
-      let initialTaskId = null;
-      if (project_requirements && project_requirements.trim().length > 0) {
-        const taskId = `TP-${String(Date.now()).slice(-6)}`;
-        await workspaceDb.createTask({
-          id: taskId,
+      let initialTask: Task | undefined;
+      if (seedTask) {
+        await progress.advance('Seeding initial task');
+        initialTask = await workspaceDb.createTask({
+          id: uuidv4(),
           title: 'Project Setup and Requirements Analysis',
           description: project_requirements,
           priority: 'high',
@@ -242,11 +281,12 @@ export class InitToolNew extends BaseTool {
           connectedFiles: [],
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString()
-        });
-        initialTaskId = taskId;
+        }, this.getChangeContext(input, 'Workspace initialization'));
       }
+      const initialTaskId = initialTask ? initialTask.taskKey ?? initialTask.id : null;
 
       // Generate final configuration prompt
+      await progress.advance('Generating configuration guidance');
       const orchestrationResult = await this.orchestrator.orchestratePrompt(
         'taskpilot_init',
         workspace.id,
@@ -270,7 +310,8 @@ export class InitToolNew extends BaseTool {
             initial_task_id: initialTaskId,
             configuration_complete: true,
             ready_for_use: true
-          }
+          },
+          task: initialTask
         }
       );
 
@@ -3,36 +3,52 @@ import type { DrizzleDatabaseManager } from '../database/drizzle-connection.js';
 import type { TaskPilotToolResult } from '../types/index.js';
 import { PromptOrchestrator } from '../services/prompt-orchestrator.js';
 import { GlobalDatabaseService } from '../database/global-queries.js';
+import type { Workspace } from '../database/schema/global-schema.js';
+import { DatabaseService } from '../services/database-service.js';
+import { RemoteInterfaceManager, type FieldMapping, type RemoteInterface } from '../services/remote-interface-manager.js';
+import { validateFieldMappings } from '../services/field-mapping.js';
+import { getRemoteAdapter } from '../services/remote-adapters.js';
+import { NO_PROGRESS, type ProgressReporter } from '../utils/progress.js';
 
 // Input schema for taskpilot_remote_interface tool
 export const remoteInterfaceToolSchema = z.object({
   workspace_path: z.string().describe('Absolute path to the workspace directory'),
   interface_type: z.enum(['github', 'jira', 'linear', 'asana', 'trello', 'custom']).describe('Type of remote interface'),
-  action: z.enum(['connect', 'sync', 'configure', 'test']).describe('Action to perform'),
+  action: z.enum(['connect', 'sync', 'configure', 'test', 'preview', 'discover']).describe('Action to perform'),
   config: z.string().optional().describe('Configuration parameters as JSON string')
 });
 
 export type RemoteInterfaceToolInput = z.infer<typeof remoteInterfaceToolSchema>;
 
+const SYNC_DIRECTIONS = ['bidirectional', 'import_only', 'export_only'];
+const CONFLICT_POLICIES = ['local-wins', 'remote-wins', 'newest-wins', 'manual'];
+
 /**
  * TaskPilot Remote Interface Tool - External System Integration (Pure TypeScript/Drizzle)
  * 
  * MCP tool for managing connections to external systems like GitHub, Jira, Linear,
- * Asana, Trello, and custom interfaces for task synchronization.
+ * Asana, Trello, and custom interfaces for task synchronization. configure edits
+ * a registered interface's settings and field mappings, preview shows the
+ * task fields a sample remote item maps to, discover lists the projects
+ * the interface can sync and sync runs a sync of a registered interface,
+ * reporting its progress; the other actions, and syncs of custom
+ * interfaces, return a prompt.
  */
 export class RemoteInterfaceTool {
   private orchestrator: PromptOrchestrator;
   private globalDb: GlobalDatabaseService;
+  private remoteInterfaces: RemoteInterfaceManager;
 
   constructor(private drizzleDb: DrizzleDatabaseManager) {
     this.orchestrator = new PromptOrchestrator(drizzleDb);
     this.globalDb = new GlobalDatabaseService(drizzleDb);
+    this.remoteInterfaces = new RemoteInterfaceManager(new DatabaseService(drizzleDb));
   }
 
   /**
    * Execute taskpilot_remote_interface tool
    */
-  async execute(input: RemoteInterfaceToolInput): Promise<TaskPilotToolResult> {
+  async execute(input: RemoteInterfaceToolInput, progress: ProgressReporter = NO_PROGRESS): Promise<TaskPilotToolResult> {
     try {
       const { workspace_path, interface_type, action, config } = input;
 
@@ -48,6 +64,28 @@ export class RemoteInterfaceTool {
         };
       }
 
+      const nativeSync = action === 'sync' && getRemoteAdapter(interface_type) !== undefined;
+      if (action === 'configure' || action === 'preview' || action === 'discover' || nativeSync) {
+        let options: Record<string, any>;
+        try {
+          options = config ? JSON.parse(config) : {};
+        } catch {
+          return this.error('config must be a JSON object');
+        }
+        if (!options || typeof options !== 'object' || Array.isArray(options)) {
+          return this.error('config must be a JSON object');
+        }
+        if (action === 'sync') {
+          return await this.sync(workspace, interface_type, options, progress);
+        }
+        if (action === 'discover') {
+          return await this.discover(workspace, interface_type, options);
+        }
+        return action === 'configure'
+          ? await this.configure(workspace, interface_type, options)
+          : await this.preview(workspace, interface_type, options);
+      }
+
       // Get MCP server mappings for this interface type
       const mcpMappings = await this.globalDb.getMcpServerMappingsByType(interface_type);
       const defaultMapping = await this.globalDb.getDefaultMcpServerMapping(interface_type);
@@ -88,6 +126,233 @@ export class RemoteInterfaceTool {
     }
   }
 
+  /**
+   * Update a registered interface. Field mappings replace the interface's
+   * mappings for the same taskpilot_field; remove_mappings drops mappings
+   * by taskpilot_field.
+   */
+  private async configure(
+    workspace: Workspace,
+    interfaceType: RemoteInterface['interface_type'],
+    options: Record<string, any>
+  ): Promise<TaskPilotToolResult> {
+    const remoteInterface = await this.findInterface(workspace, interfaceType, options.interface_id);
+    if (typeof remoteInterface === 'string') {
+      return this.error(remoteInterface);
+    }
+
+    const errors: string[] = [];
+    if (options.field_mappings !== undefined) {
+      errors.push(...validateFieldMappings(options.field_mappings));
+    }
+    if (options.remove_mappings !== undefined
+      && (!Array.isArray(options.remove_mappings) || options.remove_mappings.some((field: unknown) => typeof field !== 'string'))) {
+      errors.push('remove_mappings must be a list of taskpilot_field names');
+    }
+    if (options.sync_direction !== undefined && !SYNC_DIRECTIONS.includes(options.sync_direction)) {
+      errors.push(`sync_direction must be one of: ${SYNC_DIRECTIONS.join(', ')}`);
+    }
+    if (options.conflict_policy !== undefined && !CONFLICT_POLICIES.includes(options.conflict_policy)) {
+      errors.push(`conflict_policy must be one of: ${CONFLICT_POLICIES.join(', ')}`);
+    }
+    if (options.sync_enabled !== undefined && typeof options.sync_enabled !== 'boolean') {
+      errors.push('sync_enabled must be true or false');
+    }
+    if (options.sync_interval_minutes !== undefined
+      && (!Number.isInteger(options.sync_interval_minutes) || options.sync_interval_minutes < 0)) {
+      errors.push('sync_interval_minutes must be a whole number of minutes, 0 to turn scheduled syncs off');
+    }
+    if (options.project_id !== undefined && typeof options.project_id !== 'string') {
+      errors.push('project_id must be a string');
+    }
+    if (options.webhook_secret !== undefined && typeof options.webhook_secret !== 'string') {
+      errors.push('webhook_secret must be a string, empty to stop accepting webhooks');
+    }
+    if (errors.length > 0) {
+      return this.error(`Invalid configuration:\n${errors.map(error => `- ${error}`).join('\n')}`);
+    }
+
+    const changed: FieldMapping[] = options.field_mappings ?? [];
+    const replaced = new Set([...changed.map(mapping => mapping.taskpilot_field), ...(options.remove_mappings ?? [])]);
+    const fieldMappings = [
+      ...this.fieldMappingsOf(remoteInterface).filter(mapping => !replaced.has(mapping.taskpilot_field)),
+      ...changed
+    ];
+
+    await this.remoteInterfaces.updateInterface(workspace.id, remoteInterface.id, {
+      project_id: options.project_id,
+      sync_enabled: options.sync_enabled,
+      sync_direction: options.sync_direction,
+      conflict_policy: options.conflict_policy,
+      sync_interval_minutes: options.sync_interval_minutes,
+      webhook_secret: options.webhook_secret,
+      field_mappings: JSON.stringify(fieldMappings)
+    });
+    const updated = (await this.remoteInterfaces.getInterface(workspace.id, remoteInterface.id))!;
+    const webhookPath = updated.webhook_secret ? `/webhooks/${updated.interface_type}/${updated.id}` : null;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `${updated.name} (${updated.interface_type}) configured: ${updated.sync_direction}, ` +
+          `${updated.conflict_policy} conflicts, sync ${updated.sync_enabled ? 'enabled' : 'disabled'}` +
+          (updated.sync_enabled && updated.sync_interval_minutes > 0 ? `, every ${updated.sync_interval_minutes} minutes.\n\n` : '.\n\n') +
+          (webhookPath ? `Webhooks are accepted at ${webhookPath}.\n\n` : '') +
+          `Field mappings:\n${fieldMappings.map(mapping => `- ${this.describeMapping(mapping)}`).join('\n')}`
+      }],
+      stepResult: {
+        isFinalStep: true,
+        data: {
+          interface_id: updated.id,
+          sync_enabled: updated.sync_enabled,
+          sync_direction: updated.sync_direction,
+          conflict_policy: updated.conflict_policy,
+          sync_interval_minutes: updated.sync_interval_minutes,
+          webhook_path: webhookPath,
+          field_mappings: fieldMappings
+        }
+      }
+    };
+  }
+
+  /**
+   * Task fields a sample remote item maps to, with the interface's field
+   * mappings or the field_mappings given with the sample
+   */
+  private async preview(
+    workspace: Workspace,
+    interfaceType: RemoteInterface['interface_type'],
+    options: Record<string, any>
+  ): Promise<TaskPilotToolResult> {
+    const remoteInterface = await this.findInterface(workspace, interfaceType, options.interface_id);
+    if (typeof remoteInterface === 'string') {
+      return this.error(remoteInterface);
+    }
+    if (!options.sample || typeof options.sample !== 'object') {
+      return this.error('config.sample must be a remote item as the provider\'s API returns it');
+    }
+    if (options.field_mappings !== undefined) {
+      const errors = validateFieldMappings(options.field_mappings);
+      if (errors.length > 0) {
+        return this.error(`Invalid field mappings:\n${errors.map(error => `- ${error}`).join('\n')}`);
+      }
+    }
+
+    const task = await this.remoteInterfaces.previewMapping(workspace.id, remoteInterface.id, options.sample, options.field_mappings);
+    const lines = Object.entries(task).map(([field, value]) => `- ${field}: ${JSON.stringify(value)}`);
+    return {
+      content: [{
+        type: 'text',
+        text: lines.length > 0
+          ? `${remoteInterface.name} maps the sample to:\n${lines.join('\n')}`
+          : `${remoteInterface.name} maps no task fields from the sample.`
+      }],
+      stepResult: { isFinalStep: true, data: { interface_id: remoteInterface.id, task } }
+    };
+  }
+
+  /**
+   * Projects, boards, teams or repositories the interface's token can see
+   */
+  private async discover(
+    workspace: Workspace,
+    interfaceType: RemoteInterface['interface_type'],
+    options: Record<string, any>
+  ): Promise<TaskPilotToolResult> {
+    const remoteInterface = await this.findInterface(workspace, interfaceType, options.interface_id);
+    if (typeof remoteInterface === 'string') {
+      return this.error(remoteInterface);
+    }
+
+    const projects = await this.remoteInterfaces.discoverProjects(workspace.id, remoteInterface.id);
+    const lines = projects.map(project =>
+      `- ${project.name}: ${project.id}${project.id === remoteInterface.project_id ? ' (synced)' : ''}`);
+    return {
+      content: [{
+        type: 'text',
+        text: projects.length > 0
+          ? `${remoteInterface.name} can sync:\n${lines.join('\n')}\n\nPick one with configure: {"project_id": "<id>"}.`
+          : `${remoteInterface.name} found no projects for its token.`
+      }],
+      stepResult: { isFinalStep: true, data: { interface_id: remoteInterface.id, projects } }
+    };
+  }
+
+  /**
+   * Import and export tasks now; progress goes to the caller and a
+   * cancelled call stops the sync at its next item
+   */
+  private async sync(
+    workspace: Workspace,
+    interfaceType: RemoteInterface['interface_type'],
+    options: Record<string, any>,
+    progress: ProgressReporter
+  ): Promise<TaskPilotToolResult> {
+    const remoteInterface = await this.findInterface(workspace, interfaceType, options.interface_id);
+    if (typeof remoteInterface === 'string') {
+      return this.error(remoteInterface);
+    }
+
+    const result = await this.remoteInterfaces.syncInterface(workspace.id, remoteInterface.id, progress);
+    const summary = `${remoteInterface.name} synced: ${result.items_imported} imported, ${result.items_exported} exported, ` +
+      `${result.items_updated} updated, ${result.items_conflicted} conflicted, ${result.items_failed} failed.`;
+    return {
+      content: [{
+        type: 'text',
+        text: result.errors.length > 0 ? `${summary}\n\nErrors:\n${result.errors.map(error => `- ${error}`).join('\n')}` : summary
+      }],
+      isError: result.errors.length > 0,
+      stepResult: { isFinalStep: true, data: result }
+    };
+  }
+
+  /**
+   * The registered interface with the id, or the workspace's only interface
+   * of the type; an error message otherwise
+   */
+  private async findInterface(
+    workspace: Workspace,
+    interfaceType: RemoteInterface['interface_type'],
+    interfaceId?: string
+  ): Promise<RemoteInterface | string> {
+    const candidates = (await this.remoteInterfaces.getWorkspaceInterfaces(workspace.id))
+      .filter(candidate => candidate.interface_type === interfaceType);
+    if (interfaceId) {
+      return candidates.find(candidate => candidate.id === interfaceId)
+        ?? `No ${interfaceType} interface ${interfaceId} in workspace ${workspace.name}`;
+    }
+    if (candidates.length === 0) {
+      return `No ${interfaceType} interface is registered in workspace ${workspace.name}`;
+    }
+    if (candidates.length > 1) {
+      return `Workspace ${workspace.name} has several ${interfaceType} interfaces; ` +
+        `pick one with config.interface_id (${candidates.map(candidate => candidate.id).join(', ')})`;
+    }
+    return candidates[0];
+  }
+
+  private fieldMappingsOf(remoteInterface: RemoteInterface): FieldMapping[] {
+    const parsed = JSON.parse(remoteInterface.field_mappings || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  }
+
+  private describeMapping(mapping: FieldMapping): string {
+    const rules = [
+      mapping.label_prefix && `label ${mapping.label_prefix}:*`,
+      mapping.parse_date && 'date',
+      mapping.value_map && `values ${Object.entries(mapping.value_map).map(([remote, value]) => `${remote}=${value}`).join(', ')}`,
+      mapping.default !== undefined && `default ${mapping.default}`
+    ].filter(Boolean);
+    const transformation = mapping.transformation && mapping.transformation !== 'direct' && rules.length === 0
+      ? ` (${mapping.transformation})`
+      : '';
+    return `${mapping.taskpilot_field} <- ${mapping.remote_field}${transformation}${rules.length > 0 ? ` [${rules.join('; ')}]` : ''}`;
+  }
+
+  private error(message: string): TaskPilotToolResult {
+    return { content: [{ type: 'text', text: `Error: ${message}` }], isError: true };
+  }
+
   /**
    * Get tool definition for MCP server
    */
@@ -109,12 +374,15 @@ export class RemoteInterfaceTool {
           },
           action: {
             type: 'string',
-            enum: ['connect', 'sync', 'configure', 'test'],
+            enum: ['connect', 'sync', 'configure', 'test', 'preview', 'discover'],
             description: 'Action to perform'
           },
           config: {
             type: 'string',
-            description: 'Configuration parameters as JSON string'
+            description: 'Configuration parameters as JSON string. configure: {interface_id?, field_mappings?, ' +
+              'remove_mappings?, sync_direction?, conflict_policy?, sync_enabled?, sync_interval_minutes?, project_id?, webhook_secret?}; ' +
+              'preview: {interface_id?, sample, field_mappings?}; discover: {interface_id?}. A field mapping is {taskpilot_field, remote_field ' +
+              '(dotted path, e.g. priority.name), transformation?, value_map?, label_prefix?, parse_date?, default?}'
           }
         },
         required: ['workspace_path', 'interface_type', 'action']
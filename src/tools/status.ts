@@ -2,7 +2,7 @@ import { z } from 'zod';
 import type { TaskPilotToolResult, ToolStepResult, MultiStepToolInput } from '../types/index.js';
 import { BaseTool, BaseToolConfig, ToolDefinition, createBaseToolSchema } from './base-tool.js';
 import type { DrizzleDatabaseManager } from '../database/drizzle-connection.js';
-import { WorkspaceDatabaseService } from '../database/workspace-queries.js';
+import { WorkspaceDatabaseService, type TaskTreeNode } from '../database/workspace-queries.js';
 import { 
   ToolFlowExecutor, 
   type StepHandlerMap, 
@@ -11,11 +11,32 @@ import {
 import { DatabaseService } from '../services/database-service.js';
 import { WorkspaceRegistry } from '../services/workspace-registry.js';
 import { ToolNames } from '../constants/tool-names.js';
+import { createToolOutputSchema } from './tool-output.js';
 
 export const statusToolSchema = createBaseToolSchema(ToolNames.STATUS, {}, ['workspace_path']);
 
 export type StatusToolInput = z.infer<typeof statusToolSchema>;
 
+const taskRefOutputSchema = z.object({ id: z.string(), title: z.string() }).passthrough();
+
+export const statusToolOutputSchema = createToolOutputSchema({
+  summary: z.object({
+    total_tasks: z.number(),
+    completed_tasks: z.number(),
+    in_progress_tasks: z.number(),
+    blocked_tasks: z.number(),
+    completion_percentage: z.number()
+  }).optional(),
+  tasks_by_status: z.record(z.array(taskRefOutputSchema)).optional().describe('Tasks grouped by status'),
+  recommendations: z.object({
+    high_priority_backlog: z.array(taskRefOutputSchema),
+    stale_in_progress: z.array(taskRefOutputSchema),
+    ready_to_start: z.array(taskRefOutputSchema)
+  }).optional(),
+  rules_analysis: z.boolean().optional(),
+  analysis_complete: z.boolean().optional()
+});
+
 /**
  * TaskPilot Status Tool - Database-Driven Flow Execution
  * 
@@ -174,6 +195,8 @@ export class StatusToolNew extends BaseTool implements DatabaseDrivenTool {
         dropped: tasks.filter(t => t.status === 'dropped')
       };
 
+      const taskTree = await workspaceDb.getTaskTree();
+
       // Generate detailed analysis prompt
       const orchestrationResult = await this.orchestrator.orchestratePrompt(
         ToolNames.STATUS,
@@ -184,8 +207,12 @@ export class StatusToolNew extends BaseTool implements DatabaseDrivenTool {
         }
       );
 
+      const hierarchy = taskTree.length > 0
+        ? `\n\n## Task Hierarchy\n${this.renderTaskTree(taskTree)}`
+        : '';
+
       return this.createSuccessResult(
-        orchestrationResult.prompt_text,
+        `${orchestrationResult.prompt_text}${hierarchy}`,
         {
           isFinalStep: false,
           nextStepId: 'recommendations', // This will be overridden by ToolFlowExecutor
@@ -194,7 +221,7 @@ export class StatusToolNew extends BaseTool implements DatabaseDrivenTool {
             tasks_by_status: Object.fromEntries(
               Object.entries(tasksByStatus).map(([status, tasks]) => [
                 status,
-                tasks.map(t => ({ id: t.id, title: t.title, priority: t.priority }))
+                tasks.map(t => ({ id: t.id, task_key: t.taskKey, title: t.title, priority: t.priority, parent_task_id: t.parentTaskId }))
               ])
             )
           }
@@ -209,6 +236,18 @@ export class StatusToolNew extends BaseTool implements DatabaseDrivenTool {
     }
   }
 
+  /**
+   * Render tasks as an indented markdown list with subtasks nested under parents
+   */
+  private renderTaskTree(nodes: TaskTreeNode[], depth = 0): string {
+    return nodes.map(node => {
+      const line = `${'  '.repeat(depth)}- [${node.status}] ${node.taskKey ?? node.id}: ${node.title} (${node.progress ?? 0}%)`;
+      return node.children.length > 0
+        ? `${line}\n${this.renderTaskTree(node.children, depth + 1)}`
+        : line;
+    }).join('\n');
+  }
+
   /**
    * Recommendations step - provide actionable recommendations
    */
@@ -234,6 +273,7 @@ export class StatusToolNew extends BaseTool implements DatabaseDrivenTool {
         const daysSinceUpdate = (Date.now() - updatedDate.getTime()) / (1000 * 60 * 60 * 24);
         return daysSinceUpdate > 7;
       });
+      const { readyToStart } = await workspaceDb.getFocusTasks();
 
       // Generate recommendations prompt
       const orchestrationResult = await this.orchestrator.orchestratePrompt(
@@ -242,12 +282,17 @@ export class StatusToolNew extends BaseTool implements DatabaseDrivenTool {
         {
           high_priority_backlog: highPriorityBacklog.length,
           stale_in_progress: staleInProgress.length,
+          ready_to_start: readyToStart.length,
           step: 'recommendations'
         }
       );
 
+      const readyList = readyToStart.length > 0
+        ? `\n\n## Ready to Start\n${readyToStart.map(t => `- ${t.taskKey ?? t.id}: ${t.title} (${t.priority})`).join('\n')}`
+        : '';
+
       return this.createSuccessResult(
-        orchestrationResult.prompt_text,
+        `${orchestrationResult.prompt_text}${readyList}`,
         {
           isFinalStep: false,
           nextStepId: 'rules', // This will be overridden by ToolFlowExecutor
@@ -255,7 +300,8 @@ export class StatusToolNew extends BaseTool implements DatabaseDrivenTool {
           data: {
             recommendations: {
               high_priority_backlog: highPriorityBacklog.map(t => ({ id: t.id, title: t.title })),
-              stale_in_progress: staleInProgress.map(t => ({ id: t.id, title: t.title }))
+              stale_in_progress: staleInProgress.map(t => ({ id: t.id, title: t.title })),
+              ready_to_start: readyToStart.map(t => ({ id: t.id, title: t.title, priority: t.priority }))
             }
           }
         }
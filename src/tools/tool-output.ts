@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import type { Task } from '../database/schema/workspace-schema.js';
+import type { TaskPilotToolResult, ToolStepResult } from '../types/index.js';
+
+/**
+ * Structured Tool Output
+ *
+ * Every tool declares an outputSchema and returns structuredContent next to
+ * its markdown: whether it succeeded, the multi-step state, the task it acted
+ * on and the step data. Tools describe their own data fields with
+ * createToolOutputSchema; fields not listed there are still passed through.
+ */
+
+export const taskOutputSchema = z.object({
+  id: z.string(),
+  task_key: z.string().nullable(),
+  title: z.string(),
+  description: z.string(),
+  status: z.string(),
+  priority: z.string(),
+  progress: z.number(),
+  parent_task_id: z.string().nullable(),
+  dependencies: z.array(z.string()),
+  connected_files: z.array(z.string()),
+  notes: z.string().nullable(),
+  created_at: z.string().nullable(),
+  updated_at: z.string().nullable(),
+  completed_at: z.string().nullable()
+}).describe('Task the tool created, updated or focused on');
+
+export const stepOutputSchema = z.object({
+  is_final_step: z.boolean(),
+  next_step_id: z.string().nullable().describe('stepId to pass on the next call, null when the flow is finished'),
+  run_id: z.string().nullable().describe('Flow run to resume with run_id')
+}).describe('Multi-step flow state, null for single-step tools');
+
+export type TaskOutput = z.infer<typeof taskOutputSchema>;
+
+/**
+ * Output schema of a tool, with its step data fields
+ */
+export function createToolOutputSchema(dataFields: z.ZodRawShape = {}) {
+  return z.object({
+    tool: z.string(),
+    success: z.boolean(),
+    step: stepOutputSchema.nullable(),
+    task: taskOutputSchema.nullable(),
+    data: z.object(dataFields).passthrough().describe('Step data; also carried into later steps of the flow')
+  });
+}
+
+export type ToolOutput = z.infer<ReturnType<typeof createToolOutputSchema>>;
+
+// Tools that only return a prompt report success and nothing else
+export const promptToolOutputSchema = createToolOutputSchema();
+
+export function toTaskOutput(task: Task): TaskOutput {
+  return {
+    id: task.id,
+    task_key: task.taskKey ?? null,
+    title: task.title,
+    description: task.description ?? '',
+    status: task.status ?? 'backlog',
+    priority: task.priority ?? 'medium',
+    progress: task.progress ?? 0,
+    parent_task_id: task.parentTaskId ?? null,
+    dependencies: Array.isArray(task.dependencies) ? task.dependencies as string[] : [],
+    connected_files: Array.isArray(task.connectedFiles) ? task.connectedFiles as string[] : [],
+    notes: task.notes ?? null,
+    created_at: task.createdAt ?? null,
+    updated_at: task.updatedAt ?? null,
+    completed_at: task.completedAt ?? null
+  };
+}
+
+/**
+ * Build structuredContent for a tool result. Tools without step results
+ * report only success.
+ */
+export function toToolOutput(toolName: string, result: ToolStepResult | TaskPilotToolResult): ToolOutput {
+  const stepResult = 'isFinalStep' in result ? result : result.stepResult;
+  const { run_id: runId, ...data } = (stepResult?.data ?? {}) as Record<string, unknown>;
+  const failed = ('isError' in result && result.isError === true) || data.error === true;
+
+  return {
+    tool: toolName,
+    success: !failed,
+    step: stepResult
+      ? {
+        is_final_step: stepResult.isFinalStep,
+        next_step_id: stepResult.isFinalStep ? null : stepResult.nextStepId ?? null,
+        run_id: typeof runId === 'string' ? runId : null
+      }
+      : null,
+    task: stepResult?.task ? toTaskOutput(stepResult.task) : null,
+    data
+  };
+}
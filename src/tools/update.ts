@@ -2,12 +2,15 @@ import { z } from 'zod';
 import type { TaskPilotToolResult, ToolStepResult, MultiStepToolInput } from '../types/index.js';
 import { BaseTool, BaseToolConfig, ToolDefinition, createBaseToolSchema } from './base-tool.js';
 import type { DrizzleDatabaseManager } from '../database/drizzle-connection.js';
-import { WorkspaceDatabaseService } from '../database/workspace-queries.js';
+import { WorkspaceDatabaseService, type TaskChangeContext } from '../database/workspace-queries.js';
+import type { Task } from '../database/schema/workspace-schema.js';
 import { DatabaseService } from '../services/database-service.js';
+import { ToolFlowExecutor, type StepHandlerMap, type DatabaseDrivenTool } from '../services/tool-flow-executor.js';
 import { ToolNames } from '../constants/tool-names.js';
+import { createToolOutputSchema } from './tool-output.js';
 
 export const updateToolSchema = createBaseToolSchema(ToolNames.UPDATE, {
-  task_id: z.string().describe('Task ID to update (e.g., TP-001)'),
+  task_id: z.string().describe('Task key (e.g., TP-001) or UUID to update'),
   field: z.enum(['title', 'description', 'priority', 'status', 'progress', 'notes', 'connected_files', 'blocked_by']).describe('Field to update'),
   value: z.string().describe('New value for the field'),
   reason: z.string().optional().describe('Reason for the update (for audit trail)')
@@ -15,12 +18,27 @@ export const updateToolSchema = createBaseToolSchema(ToolNames.UPDATE, {
 
 export type UpdateToolInput = z.infer<typeof updateToolSchema>;
 
+export const updateToolOutputSchema = createToolOutputSchema({
+  task_id: z.string().optional(),
+  task_uuid: z.string().optional(),
+  field: z.string().optional(),
+  value: z.string().optional(),
+  reason: z.string().optional(),
+  validated: z.boolean().optional(),
+  update_applied: z.boolean().optional(),
+  status: z.string().nullable().optional().describe('Task status after the update'),
+  blocked_by: z.array(z.string()).optional().describe('Keys of the tasks now blocking this one'),
+  workspace_id: z.string().optional()
+});
+
 /**
  * TaskPilot Update Tool - Refactored using BaseTool interface
  * 
  * Enhanced with database-driven stepId enumeration and common error handling.
  */
-export class UpdateToolNew extends BaseTool {
+export class UpdateToolNew extends BaseTool implements DatabaseDrivenTool {
+  private flowExecutor: ToolFlowExecutor;
+
   constructor(drizzleDb: DrizzleDatabaseManager) {
     const config: BaseToolConfig = {
       name: ToolNames.UPDATE,
@@ -29,12 +47,12 @@ export class UpdateToolNew extends BaseTool {
       additionalProperties: {
         task_id: {
           type: 'string',
-          description: 'Task ID to update (e.g., TP-001)'
+          description: 'Task key (e.g., TP-001) or UUID to update'
         },
         field: {
           type: 'string',
           enum: ['title', 'description', 'priority', 'status', 'progress', 'notes', 'connected_files', 'blocked_by'],
-          description: 'Field to update'
+          description: 'Field to update. blocked_by takes comma-separated task IDs; prefix an ID with "-" to remove it, or use "none" to clear'
         },
         value: {
           type: 'string',
@@ -48,6 +66,7 @@ export class UpdateToolNew extends BaseTool {
     };
 
     super(drizzleDb, config);
+    this.flowExecutor = new ToolFlowExecutor(drizzleDb);
   }
 
   /**
@@ -71,14 +90,7 @@ export class UpdateToolNew extends BaseTool {
       const workspace = workspaceValidation.workspace;
 
       // Route to appropriate step handler
-      switch (stepId) {
-        case 'validate':
-          return await this.handleValidationStep(input as UpdateToolInput, workspace);
-        case 'confirm':
-          return await this.handleConfirmStep(input as UpdateToolInput, workspace);
-        default:
-          return await this.handleInitialStep(input as UpdateToolInput, workspace);
-      }
+      return await this.flowExecutor.executeStep(this.getToolName(), stepId, input, this.getStepHandlers(workspace));
 
     } catch (error) {
       const errorMessage = `Error in taskpilot_update: ${error instanceof Error ? error.message : String(error)}`;
@@ -90,6 +102,25 @@ export class UpdateToolNew extends BaseTool {
     }
   }
 
+  /**
+   * Get tool name for database lookup
+   */
+  getToolName(): string {
+    return ToolNames.UPDATE;
+  }
+
+  /**
+   * Get map of step handlers for this tool. The workspace is resolved by
+   * execute(); without it the map only describes the available steps.
+   */
+  getStepHandlers(workspace?: any): StepHandlerMap {
+    return {
+      initial: stepInput => this.handleInitialStep(stepInput as UpdateToolInput, workspace),
+      validate: stepInput => this.handleValidationStep(stepInput as UpdateToolInput, workspace),
+      confirm: stepInput => this.handleConfirmStep(stepInput as UpdateToolInput, workspace)
+    };
+  }
+
   /**
    * Initial step - validate update request
    */
@@ -148,11 +179,35 @@ export class UpdateToolNew extends BaseTool {
   private async handleConfirmStep(input: UpdateToolInput, workspace: any): Promise<ToolStepResult> {
     const { task_id, field, value, reason } = input;
 
+    const workspaceDb = new WorkspaceDatabaseService(workspace.path);
+    await workspaceDb.initialize();
+
+    let updatedTask: Task | null;
+    try {
+      updatedTask = await this.applyUpdate(workspaceDb, task_id, field, value, this.getChangeContext(input, reason));
+    } catch (error) {
+      return {
+        isFinalStep: true,
+        feedback: `Update rejected: ${error instanceof Error ? error.message : String(error)}`,
+        data: { error: true, task_id, field, value }
+      };
+    }
+
+    if (!updatedTask) {
+      return {
+        isFinalStep: true,
+        feedback: `Task not found: ${task_id}`,
+        data: { error: true, task_id, field, value }
+      };
+    }
+
+    const taskKey = updatedTask.taskKey ?? updatedTask.id;
+    const dependencies = await workspaceDb.getTaskDependencies(updatedTask.id);
     const orchestrationResult = await this.orchestrator.orchestratePrompt(
       'taskpilot_update',
       workspace.id,
       {
-        task_id,
+        task_id: taskKey,
         field,
         value,
         reason: reason || 'No reason provided',
@@ -164,16 +219,77 @@ export class UpdateToolNew extends BaseTool {
       isFinalStep: true,
       feedback: orchestrationResult.prompt_text,
       data: {
-        task_id,
+        task_id: taskKey,
+        task_uuid: updatedTask.id,
         field,
         value,
         reason,
         update_applied: true,
+        status: updatedTask.status,
+        blocked_by: dependencies.map(dep => dep.taskKey ?? dep.id),
         workspace_id: workspace.id
-      }
+      },
+      task: updatedTask
     };
   }
 
+  /**
+   * Apply a single field update to the task.
+   *
+   * `blocked_by` takes a comma-separated list of task IDs: plain IDs add a
+   * dependency, IDs prefixed with "-" remove one, and "none" clears them all.
+   */
+  private async applyUpdate(
+    workspaceDb: WorkspaceDatabaseService,
+    taskId: string,
+    field: UpdateToolInput['field'],
+    value: string,
+    context?: TaskChangeContext
+  ): Promise<Task | null> {
+    switch (field) {
+      case 'blocked_by': {
+        if (value.trim().toLowerCase() === 'none') {
+          return workspaceDb.setTaskDependencies(taskId, [], context);
+        }
+        // Work out the final list first so one bad ID leaves the dependencies untouched
+        const task = await workspaceDb.getTask(taskId);
+        if (!task) {
+          return null;
+        }
+        let dependencies = Array.isArray(task.dependencies) ? task.dependencies as string[] : [];
+        const ids = value.split(',').map(id => id.trim()).filter(Boolean);
+        for (const id of ids) {
+          const ref = id.startsWith('-') ? id.slice(1).trim() : id;
+          const dependsOnId = (await workspaceDb.getTask(ref))?.id ?? ref;
+          dependencies = id.startsWith('-')
+            ? dependencies.filter(existing => existing !== dependsOnId)
+            : [...dependencies, dependsOnId];
+        }
+        return workspaceDb.setTaskDependencies(taskId, dependencies, context);
+      }
+      case 'progress': {
+        const progress = Number(value);
+        if (isNaN(progress) || progress < 0 || progress > 100) {
+          throw new Error('Progress must be a number between 0 and 100');
+        }
+        return workspaceDb.updateTaskProgress(taskId, progress, context);
+      }
+      case 'priority':
+        return workspaceDb.updateTask(taskId, { priority: value.toLowerCase() as Task['priority'] }, context);
+      case 'status': {
+        const updated = await workspaceDb.updateTask(taskId, { status: value.toLowerCase() as Task['status'] }, context);
+        // A task cannot leave blocked while its dependencies are unresolved
+        return updated ? workspaceDb.syncBlockedStatus(taskId, context) : null;
+      }
+      case 'connected_files':
+        return workspaceDb.updateTask(taskId, {
+          connectedFiles: value.split(',').map(file => file.trim()).filter(Boolean)
+        }, context);
+      default:
+        return workspaceDb.updateTask(taskId, { [field]: value }, context);
+    }
+  }
+
   /**
    * Get tool definition with dynamic stepId enumeration
    */
@@ -199,7 +315,7 @@ export class UpdateToolNew extends BaseTool {
           },
           task_id: {
             type: 'string',
-            description: 'Task ID to update (e.g., TP-001)'
+            description: 'Task key (e.g., TP-001) or UUID to update'
           },
           workspace_path: {
             type: 'string',
@@ -208,7 +324,7 @@ export class UpdateToolNew extends BaseTool {
           field: {
             type: 'string',
             enum: ['title', 'description', 'priority', 'status', 'progress', 'notes', 'connected_files', 'blocked_by'],
-            description: 'Field to update'
+            description: 'Field to update. blocked_by takes comma-separated task IDs; prefix an ID with "-" to remove it, or use "none" to clear'
           },
           value: {
             type: 'string',
@@ -1,5 +1,9 @@
+import type { Task as TaskRecord } from '../database/schema/workspace-schema.js';
+import type { ProgressReporter } from '../utils/progress.js';
+
 export interface Task {
   id: string;
+  task_key?: string;
   title: string;
   description?: string;
   priority: 'High' | 'Medium' | 'Low';
@@ -49,6 +53,45 @@ export interface ToolFlowStep {
   system_tool_fn: string;
   feedback_step?: string;
   next_tool?: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Operators for comparing a value in a step's result data
+ */
+export type StepConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'contains'
+  | 'exists'
+  | 'not_exists'
+  | 'truthy'
+  | 'falsy';
+
+export interface StepCondition {
+  field: string; // dotted path into the previous step's result data, e.g. "validation.duplicates"
+  operator: StepConditionOperator;
+  value?: string | number | boolean | null;
+}
+
+/**
+ * A conditional transition stored in a tool flow step's metadata.branches.
+ * Branches are checked in order and the first match wins; next_step "end"
+ * finishes the flow.
+ */
+export interface StepBranch {
+  when: StepCondition;
+  next_step: string;
+  label?: string;
+}
+
+export interface StepBranchingMetadata {
+  branches?: StepBranch[];
+  default_next_step?: string;
 }
 
 export interface FeedbackStep {
@@ -113,8 +156,8 @@ export interface MCPToolResult {
     text: string;
   }>;
   isError?: boolean;
-  // Multi-step tool support  
-  stepResult?: ToolStepResult;
+  // Matches the tool's outputSchema
+  structuredContent?: Record<string, unknown>;
 }
 
 // Multi-step tool flow types
@@ -123,10 +166,21 @@ export interface ToolStepResult {
   nextStepId?: string;
   feedback?: string;
   data?: any; // Context data passed between steps
+  task?: TaskRecord; // Task the step acted on, returned as structured output
+}
+
+/**
+ * Where a tool call came from, carried into the task audit trail
+ */
+export interface ToolCallOrigin {
+  source: 'mcp' | 'rest' | 'cli';
+  sessionId?: string;
 }
 
 export interface MultiStepToolInput {
   stepId?: string;
+  origin?: ToolCallOrigin;
+  progress?: ProgressReporter;
   [key: string]: any;
 }
 
@@ -0,0 +1,33 @@
+/**
+ * Debounce Utility
+ *
+ * Collapses bursts of calls (e.g. one database write per field) into a
+ * single call once the burst has been quiet for the given delay.
+ */
+
+export interface Debounced {
+  (): void;
+  cancel(): void;
+}
+
+export function debounce(fn: () => void, delayMs: number): Debounced {
+  let timer: NodeJS.Timeout | null = null;
+
+  const debounced = (() => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      timer = null;
+      fn();
+    }, delayMs);
+  }) as Debounced;
+
+  debounced.cancel = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+  return debounced;
+}
@@ -0,0 +1,177 @@
+/**
+ * Flow Branch Utilities
+ *
+ * Evaluates the conditional branches stored in a tool flow step's metadata
+ * against the result data of that step.
+ */
+
+import type {
+  StepBranch,
+  StepBranchingMetadata,
+  StepCondition,
+  StepConditionOperator
+} from '../types/index.js';
+
+// Branch target that finishes the flow instead of moving to another step
+export const FLOW_END_STEP = 'end';
+
+export const STEP_CONDITION_OPERATORS: readonly StepConditionOperator[] = [
+  'equals',
+  'not_equals',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'contains',
+  'exists',
+  'not_exists',
+  'truthy',
+  'falsy'
+];
+
+// Operators that only look at the field and ignore the condition value
+const UNARY_OPERATORS = new Set<StepConditionOperator>(['exists', 'not_exists', 'truthy', 'falsy']);
+
+/**
+ * Read a dotted path ("validation.duplicates.length") from result data
+ */
+export function getValueAtPath(data: unknown, path: string): unknown {
+  let current: unknown = data;
+  for (const key of path.split('.')) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Check a single condition against result data
+ */
+export function evaluateCondition(condition: StepCondition, data: unknown): boolean {
+  const actual = getValueAtPath(data, condition.field);
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'not_exists':
+      return actual === undefined || actual === null;
+    case 'truthy':
+      return Array.isArray(actual) ? actual.length > 0 : Boolean(actual);
+    case 'falsy':
+      return Array.isArray(actual) ? actual.length === 0 : !actual;
+    case 'equals':
+      return looselyEquals(actual, expected);
+    case 'not_equals':
+      return !looselyEquals(actual, expected);
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return compareNumbers(condition.operator, actual, expected);
+    case 'contains':
+      if (Array.isArray(actual)) {
+        return actual.some(item => looselyEquals(item, expected));
+      }
+      return typeof actual === 'string' && expected !== undefined && expected !== null
+        && actual.includes(String(expected));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Resolve where a step goes next from its branching metadata.
+ *
+ * Returns the first matching branch target, then default_next_step, or
+ * undefined when the step defines neither (the flow continues in step order).
+ */
+export function resolveBranchTarget(metadata: unknown, data: unknown): string | undefined {
+  const { branches, default_next_step } = getBranchingMetadata(metadata);
+  const match = branches.find(branch => evaluateCondition(branch.when, data));
+  return match?.next_step ?? default_next_step;
+}
+
+/**
+ * Extract branches and the default target from step metadata, ignoring malformed entries
+ */
+export function getBranchingMetadata(metadata: unknown): { branches: StepBranch[]; default_next_step?: string } {
+  const value = (metadata && typeof metadata === 'object' ? metadata : {}) as StepBranchingMetadata;
+  const branches = Array.isArray(value.branches)
+    ? value.branches.filter(branch =>
+      branch && typeof branch.next_step === 'string' && branch.when && typeof branch.when.field === 'string'
+    )
+    : [];
+  const defaultNextStep = typeof value.default_next_step === 'string' && value.default_next_step
+    ? value.default_next_step
+    : undefined;
+  return { branches, default_next_step: defaultNextStep };
+}
+
+/**
+ * Validate branching metadata against the step IDs of a flow.
+ * Returns a list of problems; an empty list means the branches are usable.
+ */
+export function validateBranching(branching: StepBranchingMetadata, stepIds: string[]): string[] {
+  const errors: string[] = [];
+  const targets = new Set([...stepIds, FLOW_END_STEP]);
+
+  if (branching.branches !== undefined && !Array.isArray(branching.branches)) {
+    return ['branches must be an array'];
+  }
+
+  (branching.branches ?? []).forEach((branch, index) => {
+    const prefix = `branches[${index}]`;
+    if (!branch?.when || typeof branch.when.field !== 'string' || !branch.when.field.trim()) {
+      errors.push(`${prefix}.when.field is required`);
+    }
+    if (!STEP_CONDITION_OPERATORS.includes(branch?.when?.operator)) {
+      errors.push(`${prefix}.when.operator must be one of: ${STEP_CONDITION_OPERATORS.join(', ')}`);
+    } else if (!UNARY_OPERATORS.has(branch.when.operator) && branch.when.value === undefined) {
+      errors.push(`${prefix}.when.value is required for operator ${branch.when.operator}`);
+    }
+    if (typeof branch?.next_step !== 'string' || !targets.has(branch.next_step)) {
+      errors.push(`${prefix}.next_step must be a step in this flow or "${FLOW_END_STEP}"`);
+    }
+  });
+
+  if (branching.default_next_step !== undefined && !targets.has(branching.default_next_step)) {
+    errors.push(`default_next_step must be a step in this flow or "${FLOW_END_STEP}"`);
+  }
+
+  return errors;
+}
+
+/**
+ * Describe a condition for instructions and the UI, e.g. "duplicates truthy"
+ */
+export function describeCondition(condition: StepCondition): string {
+  return UNARY_OPERATORS.has(condition.operator)
+    ? `${condition.field} ${condition.operator}`
+    : `${condition.field} ${condition.operator} ${JSON.stringify(condition.value)}`;
+}
+
+function looselyEquals(actual: unknown, expected: unknown): boolean {
+  if (actual === expected) return true;
+  if (actual === undefined || actual === null || expected === undefined || expected === null) {
+    return actual == expected;
+  }
+  // Values typed into the UI arrive as strings, so "3" matches 3 and "true" matches true
+  return typeof actual !== 'object' && String(actual) === String(expected);
+}
+
+function compareNumbers(operator: 'gt' | 'gte' | 'lt' | 'lte', actual: unknown, expected: unknown): boolean {
+  const left = Array.isArray(actual) ? actual.length : Number(actual);
+  const right = Number(expected);
+  if (actual === null || actual === undefined || Number.isNaN(left) || Number.isNaN(right)) {
+    return false;
+  }
+  switch (operator) {
+    case 'gt': return left > right;
+    case 'gte': return left >= right;
+    case 'lt': return left < right;
+    case 'lte': return left <= right;
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Progress Utility
+ *
+ * Long-running operations (workspace init, remote syncs) report each phase
+ * or item through a ProgressReporter. MCP calls that carry a progressToken
+ * turn the updates into notifications/progress; a cancelled call aborts the
+ * signal and the operation stops at its next checkpoint.
+ */
+
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/**
+ * Raised at a checkpoint once the caller has cancelled the operation
+ */
+export class OperationCancelledError extends Error {
+  constructor(reason?: unknown) {
+    super(typeof reason === 'string' && reason ? `Operation cancelled: ${reason}` : 'Operation cancelled');
+    this.name = 'OperationCancelledError';
+  }
+}
+
+export class ProgressReporter {
+  private progress = 0;
+  private total?: number;
+
+  constructor(
+    private readonly send?: (update: ProgressUpdate) => Promise<void>,
+    readonly signal?: AbortSignal
+  ) {}
+
+  /**
+   * Announce more phases or items, e.g. once a sync knows how many issues it will import
+   */
+  addWork(count: number): void {
+    this.total = (this.total ?? this.progress) + count;
+  }
+
+  /**
+   * Checkpoint: stop if cancelled, otherwise count one phase or item and
+   * tell the client what it was
+   */
+  async advance(message: string): Promise<void> {
+    this.throwIfCancelled();
+    this.progress += 1;
+    if (this.total !== undefined && this.progress > this.total) {
+      this.total = this.progress;
+    }
+    try {
+      await this.send?.({ progress: this.progress, total: this.total, message });
+    } catch (error) {
+      // A client that went away should not fail the operation itself
+      console.error('Failed to send progress notification:', error);
+    }
+  }
+
+  throwIfCancelled(): void {
+    if (this.signal?.aborted) {
+      throw new OperationCancelledError(this.signal.reason);
+    }
+  }
+}
+
+// For callers without a client to report to (CLI, REST, tests)
+export const NO_PROGRESS = new ProgressReporter();
@@ -0,0 +1,33 @@
+/**
+ * Task Key Utilities
+ *
+ * Short, sequential task keys (e.g. TP-001) shown to users and agents
+ * instead of task UUIDs.
+ */
+
+export const DEFAULT_TASK_KEY_PREFIX = 'TP';
+
+/**
+ * Format a task key from a workspace prefix and sequence number
+ */
+export function formatTaskKey(prefix: string, counter: number): string {
+  return `${prefix}-${String(counter).padStart(3, '0')}`;
+}
+
+/**
+ * Normalize user input for key lookups ("tp-7" and "TP-007" both become "TP-007")
+ */
+export function normalizeTaskKey(ref: string): string {
+  const match = ref.trim().match(/^([A-Za-z][A-Za-z0-9]*)-(\d+)$/);
+  if (!match) {
+    return ref.trim();
+  }
+  return formatTaskKey(match[1].toUpperCase(), parseInt(match[2], 10));
+}
+
+/**
+ * Validate a workspace task key prefix: a letter followed by up to 9 letters or digits
+ */
+export function isValidTaskKeyPrefix(prefix: string): boolean {
+  return /^[A-Z][A-Z0-9]{0,9}$/.test(prefix);
+}
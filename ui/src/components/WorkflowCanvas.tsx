@@ -1,15 +1,39 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react'
-import { Plus, Settings, Trash2, Edit3, Save, X } from 'lucide-react'
+import { Plus, Settings, Trash2, Edit3, Save, X, GitBranch } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { type ToolFlow, type FeedbackStep } from '@/lib/api-client'
+import {
+  type ToolFlow,
+  type ToolFlowStep,
+  type FeedbackStep,
+  type StepBranch,
+  type StepConditionOperator
+} from '@/lib/api-client'
+
+const CONDITION_OPERATORS: StepConditionOperator[] = [
+  'equals', 'not_equals', 'gt', 'gte', 'lt', 'lte', 'contains', 'exists', 'not_exists', 'truthy', 'falsy'
+]
+
+// Operators that only test the field, so no comparison value is entered
+const UNARY_OPERATORS: StepConditionOperator[] = ['exists', 'not_exists', 'truthy', 'falsy']
+
+// Branch target that finishes the flow
+const END_STEP = 'end'
+
+// The stepId agents pass for a flow step, also used as the branch target
+const getStepKey = (step: ToolFlowStep) => step.metadata?.stepId || step.system_tool_fn
+
+const describeBranch = (branch: StepBranch) =>
+  branch.label || (UNARY_OPERATORS.includes(branch.when.operator)
+    ? `${branch.when.field} ${branch.when.operator}`
+    : `${branch.when.field} ${branch.when.operator} ${branch.when.value ?? ''}`)
 
 interface WorkflowNode {
   id: string
-  type: 'tool' | 'feedback' | 'trigger'
+  type: 'tool' | 'feedback' | 'trigger' | 'step'
   title: string
   subtitle?: string
   position: { x: number; y: number }
@@ -22,6 +46,10 @@ interface WorkflowCanvasProps {
   feedbackSteps: FeedbackStep[]
   availableTools: string[]
   onSave?: (flow: Partial<ToolFlow>) => Promise<void>
+  onSaveStepBranches?: (
+    step: ToolFlowStep,
+    branching: { branches: StepBranch[]; default_next_step: string | null }
+  ) => Promise<void>
   onCancel?: () => void
   isEditable?: boolean
 }
@@ -37,6 +65,7 @@ export function WorkflowCanvas({
   feedbackSteps, 
   availableTools, 
   onSave, 
+  onSaveStepBranches,
   onCancel,
   isEditable = false 
 }: WorkflowCanvasProps) {
@@ -95,6 +124,23 @@ export function WorkflowCanvas({
         })
       }
 
+      // Add flow steps on a second row; branches are drawn separately from step order
+      const steps = [...(flow.steps || [])].sort((a, b) => a.step_order - b.step_order)
+      steps.forEach((step, index) => {
+        const branches = step.metadata?.branches || []
+        const defaultNextStep = step.metadata?.default_next_step || ''
+        const nextStep = steps[index + 1]
+        initialNodes.push({
+          id: `step-${step.id}`,
+          type: 'step',
+          title: getStepKey(step),
+          subtitle: `Step ${step.step_order}`,
+          position: { x: 50 + index * 300, y: 320 },
+          connections: nextStep && branches.length === 0 && !defaultNextStep ? [`step-${nextStep.id}`] : [],
+          data: { step, stepKey: getStepKey(step), branches, defaultNextStep }
+        })
+      })
+
       setNodes(initialNodes)
       setFlowName(flow.tool_name)
       setFlowDescription(flow.description || '')
@@ -224,6 +270,38 @@ export function WorkflowCanvas({
     ))
   }
 
+  // Edit the conditional branches of a step node
+  const updateBranch = (node: WorkflowNode, index: number, updates: Partial<StepBranch>) => {
+    const branches = (node.data?.branches || []).map((branch: StepBranch, i: number) =>
+      i === index ? { ...branch, ...updates } : branch
+    )
+    updateNode(node.id, { data: { ...node.data, branches } })
+  }
+
+  const addBranch = (node: WorkflowNode) => {
+    const branch: StepBranch = { when: { field: '', operator: 'equals', value: '' }, next_step: END_STEP }
+    updateNode(node.id, { data: { ...node.data, branches: [...(node.data?.branches || []), branch] } })
+  }
+
+  const removeBranch = (node: WorkflowNode, index: number) => {
+    const branches = (node.data?.branches || []).filter((_: StepBranch, i: number) => i !== index)
+    updateNode(node.id, { data: { ...node.data, branches } })
+  }
+
+  const saveStepBranches = async (node: WorkflowNode) => {
+    if (onSaveStepBranches && node.data?.step) {
+      await onSaveStepBranches(node.data.step, {
+        branches: (node.data.branches || []).map((branch: StepBranch) =>
+          UNARY_OPERATORS.includes(branch.when.operator)
+            ? { ...branch, when: { field: branch.when.field, operator: branch.when.operator } }
+            : branch
+        ),
+        default_next_step: node.data.defaultNextStep || null
+      })
+    }
+    setEditingNode(null)
+  }
+
   // Save flow
   const handleSave = async () => {
     if (!onSave) return
@@ -289,6 +367,167 @@ export function WorkflowCanvas({
     ).filter(Boolean)
   }
 
+  // Render conditional branch edges between step nodes, labelled with their condition
+  const renderBranchConnections = () => {
+    return nodes.filter(node => node.type === 'step').flatMap(node => {
+      const edges: Array<{ target: string; label: string }> = [
+        ...(node.data?.branches || []).map((branch: StepBranch) => ({
+          target: branch.next_step,
+          label: describeBranch(branch)
+        })),
+        ...(node.data?.defaultNextStep ? [{ target: node.data.defaultNextStep, label: 'otherwise' }] : [])
+      ]
+
+      return edges.map((edge, index) => {
+        const target = nodes.find(n => n.type === 'step' && n.data?.stepKey === edge.target)
+        if (!target) return null
+
+        const startX = node.position.x + 120
+        const startY = node.position.y + 80
+        const endX = target.position.x + 120
+        const endY = target.position.y + 80
+        const dip = 60 + index * 40
+
+        return (
+          <svg
+            key={`${node.id}-branch-${index}`}
+            className="absolute inset-0 pointer-events-none overflow-visible"
+            style={{ zIndex: 1 }}
+          >
+            <defs>
+              <marker
+                id="branch-arrowhead"
+                markerWidth="10"
+                markerHeight="7"
+                refX="9"
+                refY="3.5"
+                orient="auto"
+              >
+                <polygon
+                  points="0 0, 10 3.5, 0 7"
+                  fill="#d97706"
+                />
+              </marker>
+            </defs>
+            <path
+              d={`M ${startX} ${startY} C ${startX} ${startY + dip} ${endX} ${endY + dip} ${endX} ${endY}`}
+              stroke="#d97706"
+              strokeWidth="2"
+              strokeDasharray="6 4"
+              fill="none"
+              markerEnd="url(#branch-arrowhead)"
+            />
+            <text
+              x={(startX + endX) / 2}
+              y={Math.max(startY, endY) + dip * 0.75 + 4}
+              textAnchor="middle"
+              className="fill-amber-700 text-xs"
+            >
+              {edge.label}
+            </text>
+          </svg>
+        )
+      })
+    }).filter(Boolean)
+  }
+
+  // Render the branch editor of a step node
+  const renderBranchEditor = (node: WorkflowNode) => {
+    const stepKeys: string[] = nodes
+      .filter(n => n.type === 'step')
+      .map(n => n.data?.stepKey)
+    const targets = [...stepKeys, END_STEP]
+
+    return (
+      <div className="space-y-2" onMouseDown={(e) => e.stopPropagation()}>
+        {(node.data?.branches || []).map((branch: StepBranch, index: number) => (
+          <div key={index} className="space-y-1 rounded border border-amber-200 bg-white p-2 dark:bg-gray-800">
+            <div className="flex items-center gap-1">
+              <Input
+                value={branch.when.field}
+                onChange={(e) => updateBranch(node, index, { when: { ...branch.when, field: e.target.value } })}
+                placeholder="Result field, e.g. validation.duplicates"
+                className="h-7 text-xs"
+              />
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => removeBranch(node, index)}
+                className="h-6 w-6 p-0 text-red-500 hover:text-red-700"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+            <div className="flex gap-1">
+              <Select
+                value={branch.when.operator}
+                onValueChange={(value) =>
+                  updateBranch(node, index, { when: { ...branch.when, operator: value as StepConditionOperator } })
+                }
+              >
+                <SelectTrigger className="h-7 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONDITION_OPERATORS.map(operator => (
+                    <SelectItem key={operator} value={operator}>
+                      {operator}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {!UNARY_OPERATORS.includes(branch.when.operator) && (
+                <Input
+                  value={String(branch.when.value ?? '')}
+                  onChange={(e) => updateBranch(node, index, { when: { ...branch.when, value: e.target.value } })}
+                  placeholder="Value"
+                  className="h-7 text-xs"
+                />
+              )}
+            </div>
+            <Select
+              value={branch.next_step}
+              onValueChange={(value) => updateBranch(node, index, { next_step: value })}
+            >
+              <SelectTrigger className="h-7 text-xs">
+                <SelectValue placeholder="Go to step..." />
+              </SelectTrigger>
+              <SelectContent>
+                {targets.map(target => (
+                  <SelectItem key={target} value={target}>
+                    Go to {target}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+        <Button size="sm" variant="outline" onClick={() => addBranch(node)} className="w-full text-xs">
+          <Plus className="h-3 w-3 mr-1" />
+          Branch
+        </Button>
+        <Select
+          value={node.data?.defaultNextStep || 'order'}
+          onValueChange={(value) =>
+            updateNode(node.id, { data: { ...node.data, defaultNextStep: value === 'order' ? '' : value } })
+          }
+        >
+          <SelectTrigger className="h-7 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="order">Otherwise: next step in order</SelectItem>
+            {targets.map(target => (
+              <SelectItem key={target} value={target}>
+                Otherwise: go to {target}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    )
+  }
+
   // Render node
   const renderNode = (node: WorkflowNode) => {
     const isSelected = selectedNode === node.id
@@ -308,9 +547,10 @@ export function WorkflowCanvas({
         onMouseDown={isEditMode ? (e) => handleMouseDown(e, node.id) : undefined}
         onClick={() => setSelectedNode(node.id)}
       >
-        <Card className={`w-60 ${isSelected ? 'ring-2 ring-blue-500 shadow-lg' : 'shadow-md'} ${
+        <Card className={`${node.type === 'step' && isEditing ? 'w-80' : 'w-60'} ${isSelected ? 'ring-2 ring-blue-500 shadow-lg' : 'shadow-md'} ${
           node.type === 'trigger' ? 'border-green-200 bg-green-50' :
           node.type === 'feedback' ? 'border-blue-200 bg-blue-50' :
+          node.type === 'step' ? 'border-amber-200 bg-amber-50' :
           'border-purple-200 bg-purple-50'
         }`}>
           <CardHeader className="pb-2">
@@ -322,7 +562,10 @@ export function WorkflowCanvas({
                 }>
                   {node.type}
                 </Badge>
-                {isEditMode && node.id !== 'trigger' && (
+                {node.type === 'step' && (node.data?.branches?.length > 0 || node.data?.defaultNextStep) && (
+                  <GitBranch className="h-3 w-3 text-amber-600" />
+                )}
+                {isEditMode && node.id !== 'trigger' && node.type !== 'step' && (
                   <Button
                     size="sm"
                     variant="ghost"
@@ -397,6 +640,8 @@ export function WorkflowCanvas({
                       ))}
                     </SelectContent>
                   </Select>
+                ) : node.type === 'step' ? (
+                  renderBranchEditor(node)
                 ) : (
                   <Input
                     value={node.title}
@@ -409,7 +654,11 @@ export function WorkflowCanvas({
                     size="sm"
                     onClick={(e) => {
                       e.stopPropagation()
-                      setEditingNode(null)
+                      if (node.type === 'step') {
+                        saveStepBranches(node)
+                      } else {
+                        setEditingNode(null)
+                      }
                     }}
                   >
                     <Save className="h-3 w-3 mr-1" />
@@ -433,10 +682,20 @@ export function WorkflowCanvas({
                 {node.subtitle && (
                   <p className="text-xs text-muted-foreground">{node.subtitle}</p>
                 )}
+                {node.type === 'step' && (node.data?.branches || []).map((branch: StepBranch, index: number) => (
+                  <p key={index} className="text-xs text-amber-700 truncate">
+                    if {describeBranch(branch)} → {branch.next_step}
+                  </p>
+                ))}
+                {node.type === 'step' && node.data?.defaultNextStep && (
+                  <p className="text-xs text-amber-700 truncate">
+                    otherwise → {node.data.defaultNextStep}
+                  </p>
+                )}
               </>
             )}
             
-            {isEditMode && !isEditing && (
+            {isEditMode && !isEditing && node.type !== 'step' && (
               <div className="flex gap-1 pt-2">
                 <Button
                   size="sm"
@@ -540,6 +799,7 @@ export function WorkflowCanvas({
         onMouseLeave={handleMouseUp}
       >
         {renderConnections()}
+        {renderBranchConnections()}
         {nodes.map(renderNode)}
         
         {/* Empty state */}
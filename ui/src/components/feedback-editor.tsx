@@ -1,11 +1,12 @@
-import { useState } from 'react'
+import React, { useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
 import { Badge } from '@/components/ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { Edit, Save, X, Copy, ChevronRight, Eye, EyeOff } from 'lucide-react'
+import { Edit, Save, X, Copy, ChevronRight, Eye, EyeOff, PanelRight } from 'lucide-react'
 import { type FeedbackStep } from '@/lib/api-client'
+import { FeedbackPreviewPane } from '@/components/feedback-preview-pane'
 
 interface FeedbackEditorProps {
   feedbackStep: FeedbackStep
@@ -15,6 +16,7 @@ interface FeedbackEditorProps {
   onCancel?: () => void
   onClone?: (feedbackStep: FeedbackStep) => void
   showVariableHelper?: boolean
+  workspaceId?: string // enables the live preview pane
 }
 
 export function FeedbackEditor({
@@ -24,12 +26,16 @@ export function FeedbackEditor({
   onSave,
   onCancel,
   onClone,
-  showVariableHelper = true
+  showVariableHelper = true,
+  workspaceId
 }: FeedbackEditorProps) {
   const [isEditing, setIsEditing] = useState(false)
   const [isTemplateExpanded, setIsTemplateExpanded] = useState(false)
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false)
   const [editedTemplate, setEditedTemplate] = useState(feedbackStep.template_content || '')
   const [editedDescription, setEditedDescription] = useState(feedbackStep.description || '')
+  // Variable name being typed after "{{context." and where it starts in the template
+  const [completion, setCompletion] = useState<{ query: string; start: number; closeTag: boolean } | null>(null)
 
   const handleSave = () => {
     if (onSave) {
@@ -60,8 +66,8 @@ export function FeedbackEditor({
   const extractVariables = (template: string | undefined): string[] => {
     if (!template) return [];
     try {
-      const matches = template.match(/\{\{context\.(\w+)\}\}/g) || [];
-      return [...new Set(matches.map(match => match.replace(/[{}]/g, '').replace('context.', '')))];
+      const tags = template.match(/\{\{[^}]*\}\}/g) || [];
+      return [...new Set(tags.flatMap(tag => [...tag.matchAll(/context\.(\w+)/g)].map(match => match[1])))];
     } catch (error) {
       console.error('Error extracting variables:', error);
       return [];
@@ -69,6 +75,9 @@ export function FeedbackEditor({
   }
 
   const variables = extractVariables(isEditing ? editedTemplate : feedbackStep.template_content)
+  const schemaVariables = feedbackStep.variables ?? []
+  const isDeclared = (variable: string) =>
+    schemaVariables.length === 0 || schemaVariables.some(declared => declared.name === variable)
 
   const commonVariables = [
     'workspace_name',
@@ -82,23 +91,62 @@ export function FeedbackEditor({
     'success_message'
   ]
 
-  const insertVariable = (variable: string) => {
-    const variableText = `{{context.${variable}}}`
+  // Offer the schema's variables when it declares any, common ones otherwise
+  const insertableVariables = schemaVariables.length > 0
+    ? schemaVariables.map(variable => variable.name)
+    : commonVariables
+
+  const completions = completion
+    ? insertableVariables.filter(variable => variable.startsWith(completion.query) && variable !== completion.query)
+    : []
+
+  const updateCompletion = (value: string, caret: number) => {
+    const match = value.slice(0, caret).match(/\{\{([^}]*?)context\.(\w*)$/)
+    setCompletion(match ? {
+      query: match[2],
+      start: caret - match[2].length,
+      closeTag: !match[1].trim() && !value.slice(caret).startsWith('}}')
+    } : null)
+  }
+
+  const replaceSelection = (start: number, end: number, text: string) => {
     const textarea = document.getElementById(`template-${feedbackStep.id}`) as HTMLTextAreaElement
+    const newValue = editedTemplate.substring(0, start) + text + editedTemplate.substring(end)
+    setEditedTemplate(newValue)
+
+    // Set cursor position after the inserted text
     if (textarea) {
-      const start = textarea.selectionStart
-      const end = textarea.selectionEnd
-      const newValue = editedTemplate.substring(0, start) + variableText + editedTemplate.substring(end)
-      setEditedTemplate(newValue)
-      
-      // Set cursor position after the inserted variable
       setTimeout(() => {
         textarea.focus()
-        textarea.setSelectionRange(start + variableText.length, start + variableText.length)
+        textarea.setSelectionRange(start + text.length, start + text.length)
       }, 0)
     }
   }
 
+  const insertVariable = (variable: string) => {
+    const textarea = document.getElementById(`template-${feedbackStep.id}`) as HTMLTextAreaElement
+    if (textarea) {
+      replaceSelection(textarea.selectionStart, textarea.selectionEnd, `{{context.${variable}}}`)
+    }
+  }
+
+  const acceptCompletion = (variable: string) => {
+    if (!completion) return
+    const end = completion.start + completion.query.length
+    replaceSelection(completion.start, end, variable + (completion.closeTag ? '}}' : ''))
+    setCompletion(null)
+  }
+
+  const handleTemplateKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (completions.length === 0) return
+    if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault()
+      acceptCompletion(completions[0])
+    } else if (e.key === 'Escape') {
+      setCompletion(null)
+    }
+  }
+
   return (
     <Card className="w-full hover:shadow-md transition-shadow duration-200">
       <CardHeader className="pb-3">
@@ -108,6 +156,16 @@ export function FeedbackEditor({
             {feedbackStep.name}
           </CardTitle>
           <div className="flex items-center gap-2">
+            {workspaceId && (
+              <Button
+                variant={isPreviewOpen ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => setIsPreviewOpen(!isPreviewOpen)}
+              >
+                <PanelRight size={16} className="mr-1" />
+                Preview
+              </Button>
+            )}
             <Badge variant={feedbackStep.is_global ? "secondary" : "default"}>
               {feedbackStep.is_global ? "Global" : "Workspace"}
             </Badge>
@@ -135,141 +193,192 @@ export function FeedbackEditor({
         </div>
       </CardHeader>
 
-      <CardContent className="space-y-4">
-        {/* Description */}
-        <div>
-          <label className="text-sm font-medium mb-2 block">Description</label>
-          {isEditing ? (
-            <Textarea
-              value={editedDescription}
-              onChange={(e) => setEditedDescription(e.target.value)}
-              placeholder="Describe what this feedback step does..."
-              className="min-h-[60px]"
-            />
-          ) : (
-            <p className="text-sm text-muted-foreground p-3 bg-muted rounded-lg">
-              {feedbackStep.description}
-            </p>
-          )}
-        </div>
+      <CardContent className={isPreviewOpen && workspaceId ? 'grid gap-6 lg:grid-cols-2' : ''}>
+        <div className="space-y-4 min-w-0">
+          {/* Description */}
+          <div>
+            <label className="text-sm font-medium mb-2 block">Description</label>
+            {isEditing ? (
+              <Textarea
+                value={editedDescription}
+                onChange={(e) => setEditedDescription(e.target.value)}
+                placeholder="Describe what this feedback step does..."
+                className="min-h-[60px]"
+              />
+            ) : (
+              <p className="text-sm text-muted-foreground p-3 bg-muted rounded-lg">
+                {feedbackStep.description}
+              </p>
+            )}
+          </div>
 
-        {/* Template */}
-        <div>
-          <div className="flex items-center justify-between mb-2">
-            <label className="text-sm font-medium">Template</label>
-            {!isEditing && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setIsTemplateExpanded(!isTemplateExpanded)}
-                className="h-6 px-2 text-xs"
-              >
+          {/* Template */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium">Template</label>
+              {!isEditing && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsTemplateExpanded(!isTemplateExpanded)}
+                  className="h-6 px-2 text-xs"
+                >
+                  {isTemplateExpanded ? (
+                    <>
+                      <EyeOff size={12} className="mr-1" />
+                      Hide
+                    </>
+                  ) : (
+                    <>
+                      <Eye size={12} className="mr-1" />
+                      Show
+                    </>
+                  )}
+                </Button>
+              )}
+            </div>
+            {isEditing ? (
+              <div className="relative">
+                <Textarea
+                  id={`template-${feedbackStep.id}`}
+                  value={editedTemplate}
+                  onChange={(e) => {
+                    setEditedTemplate(e.target.value)
+                    updateCompletion(e.target.value, e.target.selectionStart)
+                  }}
+                  onKeyDown={handleTemplateKeyDown}
+                  onBlur={() => setTimeout(() => setCompletion(null), 150)}
+                  placeholder="Enter template with {{context.variable}} syntax..."
+                  className="min-h-[120px] font-mono text-sm"
+                />
+                {completions.length > 0 && (
+                  <div className="absolute left-2 right-2 top-full z-10 mt-1 max-h-48 overflow-auto rounded-md border bg-popover shadow-md">
+                    {completions.map((variable) => {
+                      const declared = schemaVariables.find(candidate => candidate.name === variable)
+                      return (
+                        <button
+                          key={variable}
+                          type="button"
+                          onMouseDown={(e) => {
+                            e.preventDefault()
+                            acceptCompletion(variable)
+                          }}
+                          className="flex w-full items-center justify-between gap-2 px-3 py-1.5 text-left text-xs hover:bg-accent"
+                        >
+                          <span className="font-mono">context.{variable}</span>
+                          {declared && (
+                            <span className="truncate text-muted-foreground">
+                              {[declared.type, declared.required ? 'required' : null, declared.description]
+                                .flat()
+                                .filter(Boolean)
+                                .join(' · ')}
+                            </span>
+                          )}
+                        </button>
+                      )
+                    })}
+                  </div>
+                )}
+              </div>
+            ) : (
+              <>
                 {isTemplateExpanded ? (
-                  <>
-                    <EyeOff size={12} className="mr-1" />
-                    Hide
-                  </>
+                  <div className="p-3 bg-muted rounded-lg">
+                    <pre className="text-sm whitespace-pre-wrap font-mono">
+                      {feedbackStep.template_content}
+                    </pre>
+                  </div>
                 ) : (
-                  <>
-                    <Eye size={12} className="mr-1" />
-                    Show
-                  </>
+                  <div className="p-3 bg-muted/50 rounded-lg border border-dashed border-muted-foreground/30">
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm text-muted-foreground">
+                        Template content ({(feedbackStep.template_content || '').split('\n').length} lines)
+                      </p>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setIsTemplateExpanded(true)}
+                        className="h-6 px-2 text-xs text-muted-foreground hover:text-foreground"
+                      >
+                        <ChevronRight size={12} className="mr-1" />
+                        Expand
+                      </Button>
+                    </div>
+                  </div>
                 )}
-              </Button>
+              </>
             )}
           </div>
-          {isEditing ? (
-            <Textarea
-              id={`template-${feedbackStep.id}`}
-              value={editedTemplate}
-              onChange={(e) => setEditedTemplate(e.target.value)}
-              placeholder="Enter template with {{context.variable}} syntax..."
-              className="min-h-[120px] font-mono text-sm"
-            />
-          ) : (
-            <>
-              {isTemplateExpanded ? (
-                <div className="p-3 bg-muted rounded-lg">
-                  <pre className="text-sm whitespace-pre-wrap font-mono">
-                    {feedbackStep.template_content}
-                  </pre>
-                </div>
-              ) : (
-                <div className="p-3 bg-muted/50 rounded-lg border border-dashed border-muted-foreground/30">
-                  <div className="flex items-center justify-between">
-                    <p className="text-sm text-muted-foreground">
-                      Template content ({(feedbackStep.template_content || '').split('\n').length} lines)
-                    </p>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => setIsTemplateExpanded(true)}
-                      className="h-6 px-2 text-xs text-muted-foreground hover:text-foreground"
-                    >
-                      <ChevronRight size={12} className="mr-1" />
-                      Expand
-                    </Button>
-                  </div>
-                </div>
-              )}
-            </>
+
+          {/* Variables Helper - Only show when template is expanded or editing */}
+          {showVariableHelper && variables.length > 0 && (isTemplateExpanded || isEditing) && (
+            <div>
+              <label className="text-sm font-medium mb-2 block">Template Variables</label>
+              <div className="flex flex-wrap gap-2">
+                {variables.map((variable) => (
+                  <Badge
+                    key={variable}
+                    variant={isDeclared(variable) ? 'outline' : 'destructive'}
+                    className="text-xs"
+                    title={isDeclared(variable) ? undefined : 'Not declared in the variable schema'}
+                  >
+                    context.{variable}
+                  </Badge>
+                ))}
+              </div>
+            </div>
           )}
-        </div>
 
-        {/* Variables Helper - Only show when template is expanded or editing */}
-        {showVariableHelper && variables.length > 0 && (isTemplateExpanded || isEditing) && (
-          <div>
-            <label className="text-sm font-medium mb-2 block">Template Variables</label>
-            <div className="flex flex-wrap gap-2">
-              {variables.map((variable) => (
-                <Badge key={variable} variant="outline" className="text-xs">
-                  context.{variable}
-                </Badge>
-              ))}
+          {/* Variable Inserter for Editing */}
+          {isEditing && showVariableHelper && (
+            <div>
+              <label className="text-sm font-medium mb-2 block">Insert Variable</label>
+              <Select onValueChange={insertVariable}>
+                <SelectTrigger className="h-8">
+                  <SelectValue placeholder="Choose a variable to insert..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {insertableVariables.map((variable) => (
+                    <SelectItem key={variable} value={variable}>
+                      context.{variable}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
-          </div>
-        )}
+          )}
 
-        {/* Variable Inserter for Editing */}
-        {isEditing && showVariableHelper && (
-          <div>
-            <label className="text-sm font-medium mb-2 block">Insert Variable</label>
-            <Select onValueChange={insertVariable}>
-              <SelectTrigger className="h-8">
-                <SelectValue placeholder="Choose a variable to insert..." />
-              </SelectTrigger>
-              <SelectContent>
-                {commonVariables.map((variable) => (
-                  <SelectItem key={variable} value={variable}>
-                    context.{variable}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-        )}
+          {/* Edit Actions */}
+          {isEditing && (
+            <div className="flex gap-2 pt-2 border-t">
+              <Button
+                onClick={handleSave}
+                size="sm"
+                className="flex-1"
+              >
+                <Save size={16} className="mr-1" />
+                Save Changes
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handleCancel}
+                size="sm"
+                className="flex-1"
+              >
+                <X size={16} className="mr-1" />
+                Cancel
+              </Button>
+            </div>
+          )}
+        </div>
 
-        {/* Edit Actions */}
-        {isEditing && (
-          <div className="flex gap-2 pt-2 border-t">
-            <Button
-              onClick={handleSave}
-              size="sm"
-              className="flex-1"
-            >
-              <Save size={16} className="mr-1" />
-              Save Changes
-            </Button>
-            <Button
-              variant="outline"
-              onClick={handleCancel}
-              size="sm"
-              className="flex-1"
-            >
-              <X size={16} className="mr-1" />
-              Cancel
-            </Button>
-          </div>
+        {isPreviewOpen && workspaceId && (
+          <FeedbackPreviewPane
+            workspaceId={workspaceId}
+            feedbackStep={feedbackStep}
+            templateContent={isEditing ? editedTemplate : feedbackStep.template_content}
+            variables={variables}
+          />
         )}
       </CardContent>
     </Card>
@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { RefreshCw } from 'lucide-react'
+import { apiClient, type FeedbackStep, type FeedbackStepPreview, type SchemaVariable } from '@/lib/api-client'
+
+interface FeedbackPreviewPaneProps {
+  workspaceId: string
+  feedbackStep: FeedbackStep
+  templateContent: string // current, possibly unsaved, template
+  variables: string[] // variables used by the template
+}
+
+interface VariableIssue {
+  variable: string
+  problem: 'missing' | 'invalid'
+  message: string
+}
+
+const PREVIEW_DELAY_MS = 500
+
+const sampleValue = (variable?: SchemaVariable): unknown => {
+  if (variable?.default !== undefined) return variable.default
+  const type = Array.isArray(variable?.type) ? variable?.type[0] : variable?.type
+  switch (type) {
+    case 'number':
+    case 'integer':
+      return 0
+    case 'boolean':
+      return false
+    case 'array':
+      return []
+    case 'object':
+      return {}
+    default:
+      return ''
+  }
+}
+
+const buildSampleContext = (feedbackStep: FeedbackStep, variables: string[]): string => {
+  const declared = feedbackStep.variables ?? []
+  const names = declared.length > 0 ? declared.map(variable => variable.name) : variables
+  const context = Object.fromEntries(names.map(name => [name, sampleValue(declared.find(variable => variable.name === name))]))
+  return JSON.stringify(context, null, 2)
+}
+
+export function FeedbackPreviewPane({ workspaceId, feedbackStep, templateContent, variables }: FeedbackPreviewPaneProps) {
+  const [contextText, setContextText] = useState(() => buildSampleContext(feedbackStep, variables))
+  const [toolName, setToolName] = useState('')
+  const [preview, setPreview] = useState<FeedbackStepPreview | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [issues, setIssues] = useState<VariableIssue[]>([])
+  const [isRendering, setIsRendering] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      let context: Record<string, unknown>
+      try {
+        context = JSON.parse(contextText || '{}')
+      } catch {
+        setError('Sample context is not valid JSON')
+        setIssues([])
+        return
+      }
+
+      setIsRendering(true)
+      const response = await apiClient.previewFeedbackStep(workspaceId, feedbackStep.id, {
+        context,
+        template_content: templateContent,
+        ...(toolName.trim() ? { tool_name: toolName.trim() } : {})
+      })
+      if (cancelled) return
+      setIsRendering(false)
+
+      if (response.error || !response.data) {
+        const details = response.errorDetails as { issues?: VariableIssue[] } | undefined
+        setError(response.error || 'Failed to render preview')
+        setIssues(details?.issues ?? [])
+        return
+      }
+      setError(null)
+      setIssues([])
+      setPreview(response.data)
+    }, PREVIEW_DELAY_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [workspaceId, feedbackStep.id, templateContent, contextText, toolName])
+
+  return (
+    <div className="space-y-3 min-w-0">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium">Preview</label>
+        {isRendering && <RefreshCw size={14} className="animate-spin text-muted-foreground" />}
+      </div>
+
+      <div className="grid gap-2">
+        <Input
+          value={toolName}
+          onChange={(e) => setToolName(e.target.value)}
+          placeholder={preview ? `Tool: ${preview.tool_name}` : 'Tool name (defaults to the flow using this step)'}
+          className="h-8 text-xs font-mono"
+        />
+        <Textarea
+          value={contextText}
+          onChange={(e) => setContextText(e.target.value)}
+          className="min-h-[100px] font-mono text-xs"
+          placeholder='Sample context, e.g. { "task_id": "TP-1" }'
+        />
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-xs text-red-700 dark:border-red-900 dark:bg-red-950 dark:text-red-300 space-y-1">
+          <p className="break-words">{error}</p>
+          {issues.length > 0 && (
+            <ul className="list-disc pl-4">
+              {issues.map((issue) => (
+                <li key={`${issue.variable}-${issue.message}`}>{issue.message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {preview && (
+        <div className={`p-3 bg-muted rounded-lg max-h-[480px] overflow-auto ${error ? 'opacity-50' : ''}`}>
+          <pre className="text-xs whitespace-pre-wrap font-mono">{preview.prompt}</pre>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
 import { Link, useLocation, useParams } from '@tanstack/react-router'
-import { CheckSquare, Settings, MessageSquare, Home } from 'lucide-react'
+import { CheckSquare, Settings, MessageSquare, Home, GitMerge } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
 export function FloatingNav() {
@@ -30,6 +30,11 @@ export function FloatingNav() {
         path: `/workspace/${workspaceId}/feedback-steps`,
         icon: MessageSquare,
       },
+      {
+        label: 'Conflicts',
+        path: `/workspace/${workspaceId}/sync-conflicts`,
+        icon: GitMerge,
+      },
     ]
 
     return (
@@ -0,0 +1,169 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Download, Upload, ArrowDownUp } from 'lucide-react'
+import { apiClient, type FlowBundleImportResult } from '@/lib/api-client'
+
+interface FlowBundleDialogProps {
+  workspaceId: string
+  scope: 'global' | 'workspace'
+  onImported?: (result: FlowBundleImportResult) => void
+}
+
+export function FlowBundleDialog({ workspaceId, scope, onImported }: FlowBundleDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [format, setFormat] = useState<'yaml' | 'json'>('yaml')
+  const [content, setContent] = useState('')
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<FlowBundleImportResult | null>(null)
+
+  const scopeLabel = scope === 'global' ? 'global' : 'workspace'
+
+  const handleExport = async () => {
+    setIsWorking(true)
+    setError(null)
+    try {
+      const response = await apiClient.exportToolFlows(workspaceId, { scope, format })
+      if (response.error || !response.data) {
+        throw new Error(response.error || 'Failed to export tool flows')
+      }
+      const blob = new Blob([response.data.content], {
+        type: format === 'json' ? 'application/json' : 'application/yaml'
+      })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = response.data.filename
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export tool flows')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) {
+      setContent(await file.text())
+      setResult(null)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!content.trim()) return
+    setIsWorking(true)
+    setError(null)
+    setResult(null)
+    try {
+      const response = await apiClient.importToolFlows(workspaceId, { scope, content })
+      if (response.error || !response.data) {
+        throw new Error(response.error || 'Failed to import tool flows')
+      }
+      setResult(response.data)
+      setContent('')
+      onImported?.(response.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import tool flows')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <ArrowDownUp className="mr-2 h-4 w-4" />
+          Import / Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Share {scopeLabel} tool flows</DialogTitle>
+          <DialogDescription>
+            Export the {scopeLabel} flows with their steps and feedback steps as one bundle, or import a
+            bundle to create or update {scopeLabel} flows with the same tool names.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 py-4">
+          <div className="grid gap-2">
+            <Label>Export</Label>
+            <div className="flex gap-2">
+              <Select value={format} onValueChange={(value) => setFormat(value as 'yaml' | 'json')}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="yaml">YAML</SelectItem>
+                  <SelectItem value="json">JSON</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button onClick={handleExport} disabled={isWorking}>
+                <Download className="mr-2 h-4 w-4" />
+                Download bundle
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="bundle-file">Import</Label>
+            <input
+              id="bundle-file"
+              type="file"
+              accept=".yaml,.yml,.json"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="text-sm"
+            />
+            <Textarea
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              className="min-h-[160px] font-mono text-xs"
+              placeholder="Or paste a YAML/JSON bundle here"
+            />
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600 break-words">{error}</p>
+          )}
+          {result && (
+            <div className="rounded-lg bg-muted p-3 text-xs space-y-1">
+              <p>Tool flows created: {result.toolFlows.created.join(', ') || 'none'}</p>
+              <p>Tool flows updated: {result.toolFlows.updated.join(', ') || 'none'}</p>
+              <p>Feedback steps created: {result.feedbackSteps.created.join(', ') || 'none'}</p>
+              <p>Feedback steps updated: {result.feedbackSteps.updated.join(', ') || 'none'}</p>
+              {result.lint?.flatMap(flow => flow.warnings.map(warning => (
+                <p key={`${flow.tool_name}-${warning.code}-${warning.step ?? ''}-${warning.message}`} className="text-amber-700">
+                  {flow.tool_name}: {warning.message}
+                </p>
+              )))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={isWorking}>
+            Close
+          </Button>
+          <Button onClick={handleImport} disabled={isWorking || !content.trim()}>
+            <Upload className="mr-2 h-4 w-4" />
+            {isWorking ? 'Working...' : 'Import bundle'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { AlertCircle, AlertTriangle, CheckCircle2, RefreshCw } from 'lucide-react'
+import { apiClient, type FlowLintIssue, type FlowValidationResult } from '@/lib/api-client'
+
+interface FlowLintPanelProps {
+  flowId: string
+  refreshKey?: number // bump to re-run validation after the flow changed
+}
+
+export function FlowLintPanel({ flowId, refreshKey = 0 }: FlowLintPanelProps) {
+  const [result, setResult] = useState<FlowValidationResult | null>(null)
+  const [isValidating, setIsValidating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [runKey, setRunKey] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+    const validate = async () => {
+      setIsValidating(true)
+      setError(null)
+      try {
+        const response = await apiClient.validateToolFlow(flowId)
+        if (response.error || !response.data) {
+          throw new Error(response.error || 'Failed to validate tool flow')
+        }
+        if (!cancelled) setResult(response.data)
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to validate tool flow')
+      } finally {
+        if (!cancelled) setIsValidating(false)
+      }
+    }
+    validate()
+    return () => { cancelled = true }
+  }, [flowId, refreshKey, runKey])
+
+  const renderIssue = (issue: FlowLintIssue, index: number) => (
+    <li key={`${issue.code}-${index}`} className="flex items-start gap-2 text-sm">
+      {issue.severity === 'error'
+        ? <AlertCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-600" />
+        : <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-600" />}
+      <span className="break-words">
+        {issue.step && <span className="font-mono text-xs mr-1">[{issue.step}]</span>}
+        {issue.message}
+      </span>
+    </li>
+  )
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span className="font-medium text-sm">Validation</span>
+          {result && (
+            <>
+              <Badge variant={result.errors.length > 0 ? 'destructive' : 'secondary'}>
+                {result.errors.length} errors
+              </Badge>
+              <Badge variant="outline">{result.warnings.length} warnings</Badge>
+            </>
+          )}
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => setRunKey(key => key + 1)} disabled={isValidating}>
+          <RefreshCw className={`h-4 w-4 ${isValidating ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 break-words">{error}</p>}
+      {result && result.errors.length === 0 && result.warnings.length === 0 && (
+        <p className="flex items-center gap-2 text-sm text-green-700">
+          <CheckCircle2 className="h-4 w-4" />
+          No problems found
+        </p>
+      )}
+      {result && (result.errors.length > 0 || result.warnings.length > 0) && (
+        <ul className="space-y-1">
+          {[...result.errors, ...result.warnings].map(renderIssue)}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { apiClient, type Task, type TaskEvent } from '@/lib/api-client'
+import { History, Loader2 } from 'lucide-react'
+
+interface TaskDetailDialogProps {
+  workspaceId: string
+  task: Task | null
+  onOpenChange: (open: boolean) => void
+}
+
+const sourceLabels: Record<TaskEvent['source'], string> = {
+  mcp: 'MCP',
+  rest: 'Web UI / REST',
+  cli: 'CLI',
+  system: 'Automatic',
+}
+
+function describeEvent(event: TaskEvent): string {
+  switch (event.event_type) {
+    case 'created':
+      return `Created "${event.new_value}"`
+    case 'deleted':
+      return `Deleted "${event.old_value}"`
+    default:
+      return `${event.field?.replace(/_/g, ' ')}: ${event.old_value ?? '—'} → ${event.new_value ?? '—'}`
+  }
+}
+
+export function TaskDetailDialog({ workspaceId, task, onOpenChange }: TaskDetailDialogProps) {
+  const [events, setEvents] = useState<TaskEvent[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!task) return
+
+    const loadHistory = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await apiClient.getTaskHistory(workspaceId, task.id)
+        if (response.error) {
+          throw new Error(response.error)
+        }
+        // Newest first for the timeline
+        setEvents([...response.data.events].reverse())
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load task history')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadHistory()
+  }, [workspaceId, task])
+
+  return (
+    <Dialog open={task !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        {task && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{task.task_key ?? task.id}: {task.title}</DialogTitle>
+              <DialogDescription>{task.description}</DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-3 gap-4 py-4 text-sm">
+              <div>
+                <div className="text-xs text-muted-foreground uppercase tracking-wide">Status</div>
+                <div className="font-medium">{task.status.replace('-', ' ')}</div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground uppercase tracking-wide">Priority</div>
+                <div className="font-medium">{task.priority}</div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground uppercase tracking-wide">Progress</div>
+                <div className="font-medium">{task.progress}%</div>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="flex items-center gap-2 text-sm font-semibold">
+                <History size={16} />
+                History
+              </h4>
+
+              {loading && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 size={16} className="animate-spin" />
+                  Loading history...
+                </div>
+              )}
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+
+              {!loading && !error && events.length === 0 && (
+                <p className="text-sm text-muted-foreground">No changes recorded yet.</p>
+              )}
+
+              {!loading && events.length > 0 && (
+                <ol className="max-h-80 overflow-y-auto border-l-2 border-border/50 ml-2 space-y-4">
+                  {events.map(event => (
+                    <li key={event.id} className="relative pl-4">
+                      <span className="absolute -left-[5px] top-1.5 h-2 w-2 rounded-full bg-primary" />
+                      <div className="text-sm font-medium">{describeEvent(event)}</div>
+                      {event.reason && (
+                        <div className="text-sm text-muted-foreground">{event.reason}</div>
+                      )}
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(event.created_at).toLocaleString()} · {sourceLabels[event.source]}
+                        {event.session_id && ` · session ${event.session_id.slice(0, 8)}`}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
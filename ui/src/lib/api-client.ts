@@ -26,11 +26,13 @@ export interface WorkspaceMetadata {
 
 export interface Task {
   id: string
+  task_key: string | null
   title: string
   description: string
   status: 'backlog' | 'in-progress' | 'blocked' | 'review' | 'done' | 'dropped'
   priority: 'high' | 'medium' | 'low'
   progress: number
+  parent_task_id: string | null
   dependencies: string[]
   notes: string
   connected_files: string[]
@@ -38,6 +40,56 @@ export interface Task {
   updated_at: string
 }
 
+export interface TaskEvent {
+  id: string
+  task_id: string
+  event_type: 'created' | 'updated' | 'deleted'
+  field: string | null
+  old_value: string | null
+  new_value: string | null
+  reason: string | null
+  source: 'mcp' | 'rest' | 'cli' | 'system'
+  session_id: string | null
+  created_at: string
+}
+
+export type StepConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'contains'
+  | 'exists'
+  | 'not_exists'
+  | 'truthy'
+  | 'falsy'
+
+export interface StepBranch {
+  when: {
+    field: string
+    operator: StepConditionOperator
+    value?: string | number | boolean | null
+  }
+  next_step: string
+  label?: string
+}
+
+export interface ToolFlowStep {
+  id: string
+  step_order: number
+  system_tool_fn: string
+  feedback_step: string | null
+  next_tool: string | null
+  metadata: {
+    stepId?: string
+    branches?: StepBranch[]
+    default_next_step?: string
+    [key: string]: unknown
+  }
+}
+
 export interface ToolFlow {
   id: string
   tool_name: string
@@ -46,6 +98,42 @@ export interface ToolFlow {
   next_tool: string | null
   is_global: boolean
   workspace_id?: string
+  steps?: ToolFlowStep[]
+}
+
+export interface FlowBundleExport {
+  filename: string
+  format: 'yaml' | 'json'
+  content: string
+}
+
+export interface FlowLintIssue {
+  severity: 'error' | 'warning'
+  code: string
+  message: string
+  step: string | null
+}
+
+export interface FlowValidationResult {
+  tool_name: string
+  valid: boolean
+  errors: FlowLintIssue[]
+  warnings: FlowLintIssue[]
+}
+
+export interface FlowBundleImportResult {
+  scope: 'global' | 'workspace'
+  toolFlows: { created: string[]; updated: string[] }
+  feedbackSteps: { created: string[]; updated: string[] }
+  lint?: FlowValidationResult[]
+}
+
+export interface SchemaVariable {
+  name: string
+  type?: string | string[]
+  description?: string
+  required: boolean
+  default?: unknown
 }
 
 export interface FeedbackStep {
@@ -54,13 +142,41 @@ export interface FeedbackStep {
   description: string
   template_content: string
   variable_schema: Record<string, any>
+  variables?: SchemaVariable[] // declared by variable_schema, resolved by the server
   is_global: boolean
   workspace_id?: string
 }
 
+export interface SyncConflict {
+  id: string
+  interface_id: string
+  task_id: string
+  task_key: string | null
+  task_title: string | null
+  remote_key: string
+  local_values: Record<string, unknown>
+  remote_values: Record<string, unknown>
+  remote_updated_at: string | null
+  status: 'open' | 'resolved'
+  resolution: 'local' | 'remote' | null
+  created_at: string
+  updated_at: string
+  resolved_at: string | null
+}
+
+export interface FeedbackStepPreview {
+  tool_name: string
+  feedback_step: string
+  prompt_text: string
+  next_step_instructions: string
+  next_tool: string | null
+  prompt: string
+}
+
 export interface ApiResponse<T> {
   data: T
   error?: string
+  errorDetails?: unknown // structured details of a rejected request, e.g. invalid variables
 }
 
 export interface HealthStatus {
@@ -159,6 +275,15 @@ export class TaskPilotApiClient {
         clearTimeout(timeoutId)
 
         if (!response.ok) {
+          // Client errors are not retried; pass on the server's explanation
+          if (response.status >= 400 && response.status < 500) {
+            const body = await response.json().catch(() => null) as { error?: { message?: string; details?: unknown } } | null
+            return {
+              data: null as unknown as T,
+              error: body?.error?.message || `HTTP ${response.status}: ${response.statusText}`,
+              errorDetails: body?.error?.details,
+            }
+          }
           throw new Error(`HTTP ${response.status}: ${response.statusText}`)
         }
 
@@ -214,6 +339,23 @@ export class TaskPilotApiClient {
     })
   }
 
+  async addTaskDependency(workspaceId: string, taskId: string, dependsOn: string): Promise<ApiResponse<{ task: Task }>> {
+    return this.makeRequest<{ task: Task }>(`/api/workspaces/${workspaceId}/tasks/${taskId}/dependencies`, {
+      method: 'POST',
+      body: JSON.stringify({ depends_on: dependsOn }),
+    })
+  }
+
+  async removeTaskDependency(workspaceId: string, taskId: string, dependsOn: string): Promise<ApiResponse<{ task: Task }>> {
+    return this.makeRequest<{ task: Task }>(`/api/workspaces/${workspaceId}/tasks/${taskId}/dependencies/${dependsOn}`, {
+      method: 'DELETE',
+    })
+  }
+
+  async getTaskHistory(workspaceId: string, taskId: string): Promise<ApiResponse<{ task_id: string; events: TaskEvent[] }>> {
+    return this.makeRequest<{ task_id: string; events: TaskEvent[] }>(`/api/workspaces/${workspaceId}/tasks/${taskId}/history`)
+  }
+
   // ========================================
   // Tool Flow API
   // ========================================
@@ -237,7 +379,7 @@ export class TaskPilotApiClient {
         name: string;
         path: string;
       };
-    }>(`/api/workspaces/${workspaceId}/tool-flows`)
+    }>(`/api/workspaces/${workspaceId}/tool-flows?include=steps`)
   }
 
   async createToolFlow(workspaceId: string, flow: Partial<ToolFlow>): Promise<ApiResponse<{ toolFlow: ToolFlow }>> {
@@ -254,6 +396,49 @@ export class TaskPilotApiClient {
     })
   }
 
+  async exportToolFlows(
+    workspaceId: string,
+    options: { scope: 'global' | 'workspace'; format: 'yaml' | 'json'; tools?: string[] }
+  ): Promise<ApiResponse<FlowBundleExport>> {
+    const params = new URLSearchParams({ scope: options.scope, format: options.format })
+    if (options.tools?.length) {
+      params.set('tools', options.tools.join(','))
+    }
+    return this.makeRequest<FlowBundleExport>(`/api/workspaces/${workspaceId}/tool-flows/export?${params}`)
+  }
+
+  async importToolFlows(
+    workspaceId: string,
+    request: { scope: 'global' | 'workspace'; content: string }
+  ): Promise<ApiResponse<FlowBundleImportResult>> {
+    return this.makeRequest<FlowBundleImportResult>(`/api/workspaces/${workspaceId}/tool-flows/import`, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    })
+  }
+
+  async updateStepBranches(
+    workspaceId: string,
+    flowId: string,
+    stepId: string,
+    branching: { branches: StepBranch[]; default_next_step?: string | null }
+  ): Promise<ApiResponse<{ step: ToolFlowStep; lint: FlowValidationResult }>> {
+    return this.makeRequest<{ step: ToolFlowStep; lint: FlowValidationResult }>(
+      `/api/workspaces/${workspaceId}/tool-flows/${flowId}/steps/${stepId}/branches`,
+      {
+        method: 'PUT',
+        body: JSON.stringify(branching),
+      }
+    )
+  }
+
+  async validateToolFlow(flowId: string): Promise<ApiResponse<FlowValidationResult>> {
+    return this.makeRequest<FlowValidationResult>('/api/tool-flows/validate', {
+      method: 'POST',
+      body: JSON.stringify({ flow_id: flowId }),
+    })
+  }
+
   // ========================================
   // Feedback Steps API
   // ========================================
@@ -270,6 +455,7 @@ export class TaskPilotApiClient {
         description: string;
         template_content: string;
         variable_schema: Record<string, any>;
+        variables?: SchemaVariable[];
         is_global: boolean;
       }>;
       workspace_steps: Array<{
@@ -278,6 +464,7 @@ export class TaskPilotApiClient {
         description: string;
         template_content: string;
         variable_schema: Record<string, any>;
+        variables?: SchemaVariable[];
         is_global: boolean;
         workspace_id?: string;
       }>;
@@ -306,6 +493,45 @@ export class TaskPilotApiClient {
     };
   }
 
+  async previewFeedbackStep(
+    workspaceId: string,
+    stepId: string,
+    request: {
+      context: Record<string, unknown>
+      tool_name?: string
+      template_content?: string
+      variable_schema?: Record<string, unknown>
+    }
+  ): Promise<ApiResponse<FeedbackStepPreview>> {
+    return this.makeRequest<FeedbackStepPreview>(`/api/workspaces/${workspaceId}/feedback-steps/${stepId}/preview`, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    })
+  }
+
+  // ========================================
+  // Sync Conflict API
+  // ========================================
+
+  async getSyncConflicts(
+    workspaceId: string,
+    status?: SyncConflict['status']
+  ): Promise<ApiResponse<{ conflicts: SyncConflict[]; total: number }>> {
+    const query = status ? `?status=${status}` : ''
+    return this.makeRequest<{ conflicts: SyncConflict[]; total: number }>(`/api/workspaces/${workspaceId}/sync-conflicts${query}`)
+  }
+
+  async resolveSyncConflict(
+    workspaceId: string,
+    conflictId: string,
+    resolution: 'local' | 'remote'
+  ): Promise<ApiResponse<SyncConflict>> {
+    return this.makeRequest<SyncConflict>(`/api/workspaces/${workspaceId}/sync-conflicts/${conflictId}/resolve`, {
+      method: 'POST',
+      body: JSON.stringify({ resolution }),
+    })
+  }
+
   // ========================================
   // Health Check API
   // ========================================
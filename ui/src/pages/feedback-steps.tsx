@@ -268,6 +268,7 @@ export function FeedbackStepsPage() {
                   isEditable={false}
                   onClone={handleCloneStep}
                   showVariableHelper={true}
+                  workspaceId={workspaceId}
                 />
               ))}
             </div>
@@ -310,6 +311,7 @@ export function FeedbackStepsPage() {
                   isEditable={true}
                   onSave={(updates) => handleUpdateWorkspaceStep(step.id, updates)}
                   showVariableHelper={true}
+                  workspaceId={workspaceId}
                 />
               ))}
             </div>
@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react'
+import { useParams } from '@tanstack/react-router'
+import { PageHeader } from '@/components/page-header'
+import { SectionWithContent } from '@/components/ui/section-with-content'
+import { Badge } from '@/components/ui/badge'
+import { GitMerge, CheckCircle } from 'lucide-react'
+import { apiClient, type SyncConflict, type WorkspaceMetadata } from '@/lib/api-client'
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—'
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+/**
+ * Side-by-side values of the fields a conflict is about; fields where both
+ * sides agree are dimmed
+ */
+function ConflictFields({ conflict }: { conflict: SyncConflict }) {
+  const fields = Object.keys(conflict.remote_values)
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-muted-foreground">
+          <th className="py-1 pr-4 font-medium">Field</th>
+          <th className="py-1 pr-4 font-medium">TaskPilot</th>
+          <th className="py-1 font-medium">{conflict.remote_key}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {fields.map(field => {
+          const local = formatValue(conflict.local_values[field])
+          const remote = formatValue(conflict.remote_values[field])
+          return (
+            <tr key={field} className={local === remote ? 'opacity-50' : undefined}>
+              <td className="py-1 pr-4 font-mono text-xs">{field}</td>
+              <td className="py-1 pr-4 whitespace-pre-wrap break-words">{local}</td>
+              <td className="py-1 whitespace-pre-wrap break-words">{remote}</td>
+            </tr>
+          )
+        })}
+      </tbody>
+    </table>
+  )
+}
+
+export function SyncConflictsPage() {
+  const params = useParams({ from: '/workspace/$workspaceId/sync-conflicts' })
+  const workspaceId = params.workspaceId
+
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([])
+  const [workspaces, setWorkspaces] = useState<WorkspaceMetadata[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [resolvingId, setResolvingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadConflicts = async () => {
+      setLoading(true)
+      setError(null)
+
+      try {
+        const workspacesResponse = await apiClient.getWorkspaces()
+        if (workspacesResponse.error) {
+          throw new Error(workspacesResponse.error)
+        }
+        setWorkspaces(workspacesResponse.data.workspaces)
+
+        const conflictsResponse = await apiClient.getSyncConflicts(workspaceId)
+        if (conflictsResponse.error) {
+          throw new Error(conflictsResponse.error)
+        }
+        setConflicts(conflictsResponse.data?.conflicts || [])
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load sync conflicts')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadConflicts()
+  }, [workspaceId])
+
+  const handleResolve = async (conflict: SyncConflict, resolution: 'local' | 'remote') => {
+    setResolvingId(conflict.id)
+    setError(null)
+    try {
+      const response = await apiClient.resolveSyncConflict(workspaceId, conflict.id, resolution)
+      if (response.error) {
+        throw new Error(response.error)
+      }
+      setConflicts(prev => prev.map(item => item.id === conflict.id ? response.data : item))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve sync conflict')
+    } finally {
+      setResolvingId(null)
+    }
+  }
+
+  const currentWorkspace = workspaces.find(w => w.id === workspaceId)
+  const openConflicts = conflicts.filter(conflict => conflict.status === 'open')
+  const resolvedConflicts = conflicts.filter(conflict => conflict.status === 'resolved')
+
+  return (
+    <div className="space-y-8">
+      <PageHeader
+        workspaceName={currentWorkspace?.name}
+        workspacePath={currentWorkspace?.path}
+        title="Sync Conflicts"
+        description="Tasks that changed both here and in a remote tracker"
+        icon={<GitMerge size={32} className="text-white" />}
+      />
+
+      {error && (
+        <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="space-y-3">
+          {[1, 2].map(i => (
+            <div key={i} className="h-32 bg-muted animate-pulse rounded-lg" />
+          ))}
+        </div>
+      ) : (
+        <>
+          <SectionWithContent
+            icon={<GitMerge className="h-5 w-5" />}
+            iconBgColor="bg-amber-100"
+            iconTextColor="text-amber-600"
+            title={`Waiting for Review (${openConflicts.length})`}
+            description="Pick the side to keep; the other side is updated on the next sync"
+            hasContent={openConflicts.length > 0}
+            emptyStateIcon={<CheckCircle className="h-12 w-12" />}
+            emptyStateTitle="No open conflicts"
+            emptyStateDescription="Conflicts of interfaces with the manual conflict policy appear here."
+          >
+            <div className="space-y-4">
+              {openConflicts.map(conflict => (
+                <div key={conflict.id} className="modern-card p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="font-medium">
+                        {conflict.task_key && <span className="font-mono text-muted-foreground mr-2">{conflict.task_key}</span>}
+                        {conflict.task_title ?? 'Deleted task'}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Found {new Date(conflict.updated_at).toLocaleString()}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                      <button
+                        onClick={() => handleResolve(conflict, 'local')}
+                        disabled={resolvingId === conflict.id}
+                        className="px-3 py-1.5 rounded-lg border text-sm font-medium hover:bg-gray-100 disabled:opacity-50"
+                      >
+                        Keep TaskPilot
+                      </button>
+                      <button
+                        onClick={() => handleResolve(conflict, 'remote')}
+                        disabled={resolvingId === conflict.id}
+                        className="px-3 py-1.5 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        Keep {conflict.remote_key}
+                      </button>
+                    </div>
+                  </div>
+                  <ConflictFields conflict={conflict} />
+                </div>
+              ))}
+            </div>
+          </SectionWithContent>
+
+          {resolvedConflicts.length > 0 && (
+            <SectionWithContent
+              icon={<CheckCircle className="h-5 w-5" />}
+              iconBgColor="bg-green-100"
+              iconTextColor="text-green-600"
+              title="Resolved"
+              description="Earlier conflicts and the side that was kept"
+              hasContent={true}
+            >
+              <ul className="divide-y text-sm">
+                {resolvedConflicts.map(conflict => (
+                  <li key={conflict.id} className="flex items-center justify-between py-2">
+                    <span>
+                      {conflict.task_key && <span className="font-mono text-muted-foreground mr-2">{conflict.task_key}</span>}
+                      {conflict.task_title ?? 'Deleted task'} ↔ {conflict.remote_key}
+                    </span>
+                    <Badge variant="secondary">
+                      kept {conflict.resolution === 'remote' ? conflict.remote_key : 'TaskPilot'}
+                    </Badge>
+                  </li>
+                ))}
+              </ul>
+            </SectionWithContent>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
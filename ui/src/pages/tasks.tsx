@@ -5,9 +5,35 @@ import { Card, CardContent } from '@/components/ui/card'
 import { PageHeader } from '@/components/page-header'
 import { CheckCircle, Clock, AlertCircle, Calendar, CheckSquare } from 'lucide-react'
 import { TaskCreationDialog } from '@/components/task-creation-dialog'
+import { TaskDetailDialog } from '@/components/task-detail-dialog'
 import { SectionWithContent } from '@/components/ui/section-with-content'
 import { apiClient, type Task, type WorkspaceMetadata } from '@/lib/api-client'
 
+interface TaskNode {
+  task: Task
+  children: TaskNode[]
+}
+
+/**
+ * Arrange a flat task list into parent/child trees.
+ * Tasks whose parent is not in the list are shown at the top level.
+ */
+function buildTaskTree(tasks: Task[]): TaskNode[] {
+  const nodes = new Map<string, TaskNode>(tasks.map(task => [task.id, { task, children: [] }]))
+  const roots: TaskNode[] = []
+
+  for (const node of nodes.values()) {
+    const parent = node.task.parent_task_id ? nodes.get(node.task.parent_task_id) : undefined
+    if (parent && parent !== node) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+  }
+
+  return roots
+}
+
 export function TasksPage() {
   const params = useParams({ from: '/workspace/$workspaceId/tasks' })
   const workspaceId = params.workspaceId
@@ -18,6 +44,10 @@ export function TasksPage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [, setIsCreatingTask] = useState(false)
+  const [selectedTask, setSelectedTask] = useState<Task | null>(null)
+
+  // Dependencies are stored as UUIDs; show the short task key where we know it
+  const taskKeys = new Map([...currentTasks, ...historyTasks].map(task => [task.id, task.task_key ?? task.id]))
 
   // Load tasks from API
   useEffect(() => {
@@ -188,8 +218,24 @@ export function TasksPage() {
     return `${Math.floor(diffMins / 1440)}d ago`
   }
 
-  const TaskCard = ({ task }: { task: Task }) => (
-    <Card className="hover:shadow-lg transition-shadow duration-200">
+  const TaskTree = ({ node }: { node: TaskNode }) => (
+    <div className="space-y-3">
+      <TaskCard task={node.task} subtaskCount={node.children.length} />
+      {node.children.length > 0 && (
+        <div className="ml-6 pl-4 border-l-2 border-border/50 space-y-3">
+          {node.children.map(child => (
+            <TaskTree key={child.task.id} node={child} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+
+  const TaskCard = ({ task, subtaskCount = 0 }: { task: Task; subtaskCount?: number }) => (
+    <Card
+      className="hover:shadow-lg transition-shadow duration-200 cursor-pointer"
+      onClick={() => setSelectedTask(task)}
+    >
       <CardContent className="p-6 space-y-4">
         {/* Header */}
         <div className="flex items-start justify-between gap-4">
@@ -197,7 +243,7 @@ export function TasksPage() {
             {getStatusIcon(task.status)}
             <div className="min-w-0 flex-1">
               <div className="flex items-center gap-2 mb-1">
-                <h3 className="font-semibold text-lg truncate">{task.id}</h3>
+                <h3 className="font-semibold text-lg truncate">{task.task_key ?? task.id}</h3>
                 <span className={`px-2 py-1 rounded-md text-xs font-medium ${getPriorityColor(task.priority)}`}>
                   {task.priority.charAt(0).toUpperCase() + task.priority.slice(1)}
                 </span>
@@ -234,6 +280,9 @@ export function TasksPage() {
         <div className="flex items-center justify-between text-xs text-muted-foreground">
           <div className="flex items-center gap-4">
             <span>Updated: {formatDate(task.updated_at)}</span>
+            {subtaskCount > 0 && (
+              <span>{subtaskCount} subtask{subtaskCount !== 1 ? 's' : ''}</span>
+            )}
           </div>
           {task.connected_files && task.connected_files.length > 0 && (
             <span>{task.connected_files.length} file{task.connected_files.length !== 1 ? 's' : ''}</span>
@@ -244,7 +293,7 @@ export function TasksPage() {
         {task.dependencies && task.dependencies.length > 0 && (
           <div className="pt-3 border-t border-border/50">
             <span className="text-xs text-muted-foreground">
-              Depends on: {task.dependencies.join(', ')}
+              Depends on: {task.dependencies.map(id => taskKeys.get(id) ?? id).join(', ')}
             </span>
           </div>
         )}
@@ -344,8 +393,8 @@ export function TasksPage() {
             }
           >
             <div className="space-y-4">
-              {currentTasks.map((task) => (
-                <TaskCard key={task.id} task={task} />
+              {buildTaskTree(currentTasks).map((node) => (
+                <TaskTree key={node.task.id} node={node} />
               ))}
             </div>
           </SectionWithContent>
@@ -365,13 +414,19 @@ export function TasksPage() {
             emptyStateDescription="Completed tasks will appear here for reference and tracking."
           >
             <div className="space-y-4">
-              {historyTasks.map((task) => (
-                <TaskCard key={task.id} task={task} />
+              {buildTaskTree(historyTasks).map((node) => (
+                <TaskTree key={node.task.id} node={node} />
               ))}
             </div>
           </SectionWithContent>
         </TabsContent>
       </Tabs>
+
+      <TaskDetailDialog
+        workspaceId={workspaceId}
+        task={selectedTask}
+        onOpenChange={(open) => !open && setSelectedTask(null)}
+      />
     </div>
   )
 }
@@ -3,11 +3,20 @@ import { useParams } from '@tanstack/react-router'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { ToolFlowCard } from '@/components/tool-flow-card'
 import { WorkflowCanvas } from '@/components/WorkflowCanvas'
+import { FlowBundleDialog } from '@/components/flow-bundle-dialog'
+import { FlowLintPanel } from '@/components/flow-lint-panel'
 import { Button } from '@/components/ui/button'
 import { PageHeader } from '@/components/page-header'
 import { SectionWithContent } from '@/components/ui/section-with-content'
 import { Globe, Building, AlertCircle, RefreshCw, Settings, Plus, ArrowLeft } from 'lucide-react'
-import { apiClient, type ToolFlow, type FeedbackStep, type WorkspaceMetadata } from '@/lib/api-client'
+import {
+  apiClient,
+  type ToolFlow,
+  type ToolFlowStep,
+  type StepBranch,
+  type FeedbackStep,
+  type WorkspaceMetadata
+} from '@/lib/api-client'
 import { tailwindClasses } from '@/lib/design-system'
 
 interface ErrorBoundaryProps {
@@ -53,6 +62,8 @@ export function ToolFlowsPage() {
   const [viewMode, setViewMode] = useState<'grid' | 'canvas'>('grid')
   const [selectedFlow, setSelectedFlow] = useState<ToolFlow | null>(null)
   const [isCreatingFlow, setIsCreatingFlow] = useState(false)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [lintKey, setLintKey] = useState(0)
 
   // Load workspaces
   useEffect(() => {
@@ -182,6 +193,27 @@ export function ToolFlowsPage() {
     }
   }
 
+  // Save the conditional branches of a single flow step
+  const handleStepBranchesSave = async (
+    step: ToolFlowStep,
+    branching: { branches: StepBranch[]; default_next_step: string | null }
+  ) => {
+    if (!selectedFlow) return
+    const response = await apiClient.updateStepBranches(workspaceId, selectedFlow.id, step.id, branching)
+    if (response.error || !response.data?.step) {
+      setError(response.error || 'Failed to save step branches')
+      return
+    }
+    const updatedStep = response.data.step
+    const withStep = (flow: ToolFlow) =>
+      flow.id === selectedFlow.id
+        ? { ...flow, steps: (flow.steps || []).map(s => s.id === updatedStep.id ? updatedStep : s) }
+        : flow
+    setGlobalFlows(prev => prev.map(withStep))
+    setWorkspaceFlows(prev => prev.map(withStep))
+    setLintKey(key => key + 1)
+  }
+
   // Handle canvas cancel
   const handleCanvasCancel = () => {
     setViewMode('grid')
@@ -326,7 +358,7 @@ export function ToolFlowsPage() {
     return () => {
       isMounted = false;
     };
-  }, [workspaceId]);
+  }, [workspaceId, reloadKey]);
 
   if (loading) {
     return (
@@ -417,6 +449,12 @@ export function ToolFlowsPage() {
           </div>
         </div>
         
+        {selectedFlow && (
+          <div className="px-4">
+            <FlowLintPanel flowId={selectedFlow.id} refreshKey={lintKey} />
+          </div>
+        )}
+
         {/* Canvas */}
         <div className="flex-1 p-4">
           <WorkflowCanvas
@@ -424,6 +462,7 @@ export function ToolFlowsPage() {
             feedbackSteps={feedbackSteps}
             availableTools={availableTools}
             onSave={handleCanvasSave}
+            onSaveStepBranches={handleStepBranchesSave}
             onCancel={handleCanvasCancel}
             isEditable={true}
           />
@@ -471,6 +510,13 @@ export function ToolFlowsPage() {
             title="Global Tool Flows"
             description="Predefined flows available across all workspaces"
             hasContent={globalFlows.length > 0}
+            actions={
+              <FlowBundleDialog
+                workspaceId={workspaceId}
+                scope="global"
+                onImported={() => setReloadKey(key => key + 1)}
+              />
+            }
             emptyStateIcon={<Globe className="h-12 w-12" />}
             emptyStateTitle="No global tool flows"
             emptyStateDescription="Global tool flows will appear here when available."
@@ -508,13 +554,20 @@ export function ToolFlowsPage() {
             emptyStateTitle="No workspace tool flows yet"
             emptyStateDescription="Create your first workspace tool flow to get started."
             actions={
-              <button 
-                onClick={handleCreateFlow}
-                className="px-6 py-3 bg-blue-600 text-white rounded-xl font-medium hover:bg-blue-700 transition-all duration-200 shadow-lg flex items-center gap-2"
-              >
-                <Plus className="h-4 w-4" />
-                Create Flow
-              </button>
+              <div className="flex items-center gap-2">
+                <FlowBundleDialog
+                  workspaceId={workspaceId}
+                  scope="workspace"
+                  onImported={() => setReloadKey(key => key + 1)}
+                />
+                <button 
+                  onClick={handleCreateFlow}
+                  className="px-6 py-3 bg-blue-600 text-white rounded-xl font-medium hover:bg-blue-700 transition-all duration-200 shadow-lg flex items-center gap-2"
+                >
+                  <Plus className="h-4 w-4" />
+                  Create Flow
+                </button>
+              </div>
             }
           >
             <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
@@ -3,6 +3,7 @@ import { HomePage } from './pages/home'
 import { TasksPage } from './pages/tasks'
 import { ToolFlowsPage } from './pages/tool-flows'
 import { FeedbackStepsPage } from './pages/feedback-steps'
+import { SyncConflictsPage } from './pages/sync-conflicts'
 import { FloatingNav } from './components/floating-nav'
 
 // Root route
@@ -66,6 +67,12 @@ const feedbackStepsRoute = createRoute({
   component: FeedbackStepsPage,
 })
 
+const syncConflictsRoute = createRoute({
+  getParentRoute: () => workspaceRoute,
+  path: '/sync-conflicts',
+  component: SyncConflictsPage,
+})
+
 // Create the route tree
 const routeTree = rootRoute.addChildren([
   indexRoute,
@@ -73,6 +80,7 @@ const routeTree = rootRoute.addChildren([
     tasksRoute,
     toolFlowsRoute,
     feedbackStepsRoute,
+    syncConflictsRoute,
   ]),
 ])
 